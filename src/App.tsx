@@ -8,6 +8,10 @@ import Projects from './pages/Projects';
 import Contact from './pages/Contact';
 import Blog from './pages/Blog';
 import BlogPost from './pages/BlogPost';
+import BlogSeries from './pages/BlogSeries';
+import BlogTag from './pages/BlogTag';
+import BlogCategory from './pages/BlogCategory';
+import BlogSaved from './pages/BlogSaved';
 import Resume from './pages/Resume';
 import Admin from './pages/Admin';
 import DebugAdmin from './pages/DebugAdmin';
@@ -35,7 +39,11 @@ function App() {
             <Route path="projects" element={<Projects />} />
             <Route path="contact" element={<Contact />} />
             <Route path="blog" element={<Blog />} />
-            <Route path="blog/:id" element={<BlogPost />} />
+            <Route path="blog/saved" element={<BlogSaved />} />
+            <Route path="blog/:slug" element={<BlogPost />} />
+            <Route path="blog/series/:slug" element={<BlogSeries />} />
+            <Route path="blog/tag/:slug" element={<BlogTag />} />
+            <Route path="blog/category/:slug" element={<BlogCategory />} />
             <Route path="resume" element={<Resume />} />
           </Route>
           <Route path="/admin" element={<Admin />} />
@@ -0,0 +1,448 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useForm } from 'react-hook-form';
+import { X, Save, Loader, AlertCircle, Eye, Clock } from 'lucide-react';
+import validator from 'validator';
+import toast from 'react-hot-toast';
+import { blogService, type BlogPost, type BlogPostInput } from '../../lib/blogService';
+import { renderPostHtml, postSlugFromTitle, isReservedPostSlug, SLUG_PATTERN } from '../../lib/markdown';
+import GlassCard from '../ui/GlassCard';
+
+interface BlogPostEditorProps {
+  post: BlogPost | null;
+  onClose: () => void;
+  onSaved: (post: BlogPost) => void;
+}
+
+interface PostFormData {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  date: string;
+  read_time: string;
+  category: string;
+  image_url: string;
+  images: string;
+  tags: string;
+  author_name: string;
+  author_avatar: string;
+  author_bio: string;
+  featured: boolean;
+  published: boolean;
+  publish_at: string;
+}
+
+const isHttpUrl = (value: string) =>
+  validator.isURL(value, { protocols: ['http', 'https'], require_protocol: true });
+
+const splitList = (value: string, separator: RegExp) =>
+  value
+    .split(separator)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalDateTime = (iso: string) => {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const toFormData = (post: BlogPost | null): PostFormData => ({
+  id: post?.id ?? crypto.randomUUID(),
+  slug: post?.slug ?? '',
+  title: post?.title ?? '',
+  excerpt: post?.excerpt ?? '',
+  content: post?.content ?? '',
+  date: post?.date ?? new Date().toISOString().slice(0, 10),
+  read_time: post?.read_time ?? '',
+  category: post?.category ?? '',
+  image_url: post?.image_url ?? '',
+  images: (post?.images ?? []).join('\n'),
+  tags: (post?.tags ?? []).join(', '),
+  author_name: post?.author_name ?? '',
+  author_avatar: post?.author_avatar ?? '',
+  author_bio: post?.author_bio ?? '',
+  featured: post?.featured ?? false,
+  published: post?.published ?? false,
+  publish_at: toLocalDateTime(post?.publish_at ?? new Date().toISOString())
+});
+
+const toPostInput = (data: PostFormData): BlogPostInput => ({
+  id: data.id,
+  slug: data.slug.trim(),
+  title: data.title.trim(),
+  excerpt: data.excerpt.trim(),
+  content: data.content,
+  date: data.date,
+  read_time: data.read_time.trim(),
+  category: data.category,
+  image_url: data.image_url.trim(),
+  images: splitList(data.images, /\n/),
+  tags: Array.from(new Set(splitList(data.tags, /,/))),
+  author_name: data.author_name.trim(),
+  author_avatar: data.author_avatar.trim(),
+  author_bio: data.author_bio.trim(),
+  featured: data.featured,
+  published: data.published,
+  publish_at: new Date(data.publish_at).toISOString()
+});
+
+const estimateReadTime = (content: string) => {
+  const words = content.trim().split(/\s+/).filter(Boolean).length;
+  return `${Math.max(1, Math.round(words / 200))} min read`;
+};
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 text-sm';
+const labelClass = 'block text-white/70 text-xs font-medium mb-1';
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? (
+    <p className="text-red-400 text-xs mt-1 flex items-center space-x-1">
+      <AlertCircle size={12} />
+      <span>{message}</span>
+    </p>
+  ) : null;
+
+const BlogPostEditor: React.FC<BlogPostEditorProps> = ({ post, onClose, onSaved }) => {
+  const isNew = post === null;
+  const [isSaving, setIsSaving] = useState(false);
+  const [slugTouched, setSlugTouched] = useState(!isNew);
+  const [categories, setCategories] = useState<string[]>([]);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    getValues,
+    formState: { errors }
+  } = useForm<PostFormData>({ defaultValues: toFormData(post) });
+
+  useEffect(() => {
+    blogService.getAllCategories().then(names => {
+      setCategories(names);
+      // The select had no options until now; restore the post's category or pick the first
+      const current = getValues('category');
+      setValue('category', names.includes(current) ? current : names[0] ?? '');
+    });
+  }, []);
+
+  const title = watch('title');
+  const slug = watch('slug');
+  const content = watch('content');
+  const imageUrl = watch('image_url');
+  const published = watch('published');
+  const publishAt = watch('publish_at');
+  const previewHtml = renderPostHtml(content);
+
+  const titleField = register('title', {
+    required: 'Title is required',
+    maxLength: { value: 200, message: 'Title must be 200 characters or fewer' }
+  });
+
+  const onSubmit = async (data: PostFormData) => {
+    setIsSaving(true);
+    try {
+      const input = toPostInput(data);
+      const saved = isNew
+        ? await blogService.createPost(input)
+        : await blogService.updatePost(post.id, input);
+
+      toast.success(isNew ? 'Post created successfully' : 'Post updated successfully');
+      onSaved(saved);
+    } catch (error: any) {
+      console.error('Error saving post:', error);
+      if (error?.code === '23505') {
+        toast.error('That slug is already used by another post');
+      } else {
+        toast.error(error?.message ? `Failed to save post: ${error.message}` : 'Failed to save post');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-7xl"
+      >
+        <GlassCard className="p-6 max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">
+                {isNew ? 'New Post' : `Edit: ${post.title}`}
+              </h2>
+              <div className="flex items-center space-x-2">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                >
+                  {isSaving ? <Loader className="animate-spin" size={16} /> : <Save size={16} />}
+                  <span>{isSaving ? 'Saving...' : 'Save'}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+                  title="Close editor"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+              {/* Form */}
+              <div className="space-y-4">
+                <div>
+                  <label className={labelClass}>Title</label>
+                  <input
+                    type="text"
+                    {...titleField}
+                    onChange={(e) => {
+                      titleField.onChange(e);
+                      if (!slugTouched) setValue('slug', postSlugFromTitle(e.target.value));
+                    }}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.title?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Slug (used in the URL)</label>
+                  <input
+                    type="text"
+                    {...register('slug', {
+                      required: 'Slug is required',
+                      pattern: { value: SLUG_PATTERN, message: 'Use lowercase letters, numbers and single hyphens' },
+                      validate: value => !isReservedPostSlug(value) || `/blog/${value} is already a page of the site`,
+                      onChange: () => setSlugTouched(true)
+                    })}
+                    className={inputClass}
+                  />
+                  {!isNew && slug !== post.slug && (
+                    <p className="text-white/50 text-xs mt-1">/blog/{post.slug} will redirect to the new slug.</p>
+                  )}
+                  <FieldError message={errors.slug?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Excerpt</label>
+                  <textarea
+                    rows={2}
+                    {...register('excerpt', {
+                      required: 'Excerpt is required',
+                      maxLength: { value: 500, message: 'Excerpt must be 500 characters or fewer' }
+                    })}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <FieldError message={errors.excerpt?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Content (Markdown)</label>
+                  <textarea
+                    rows={16}
+                    {...register('content', { required: 'Content is required' })}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <FieldError message={errors.content?.message} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Category</label>
+                    <select
+                      {...register('category', {
+                        validate: (value) =>
+                          categories.includes(value) || 'Choose a valid category'
+                      })}
+                      className={inputClass}
+                    >
+                      {categories.map(category => (
+                        <option key={category} value={category} className="bg-gray-800">{category}</option>
+                      ))}
+                    </select>
+                    <FieldError message={errors.category?.message} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Date</label>
+                    <input
+                      type="date"
+                      {...register('date', {
+                        required: 'Date is required',
+                        validate: (value) => validator.isDate(value, { format: 'YYYY-MM-DD', strictMode: true }) || 'Enter a valid date'
+                      })}
+                      className={inputClass}
+                    />
+                    <FieldError message={errors.date?.message} />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Read time</label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        placeholder="5 min read"
+                        {...register('read_time', { required: 'Read time is required' })}
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setValue('read_time', estimateReadTime(content), { shouldValidate: true })}
+                        className="px-3 text-azure-400 hover:bg-azure-500/20 rounded-lg transition-colors duration-300"
+                        title="Estimate from content"
+                      >
+                        <Clock size={16} />
+                      </button>
+                    </div>
+                    <FieldError message={errors.read_time?.message} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Tags (comma separated)</label>
+                    <input
+                      type="text"
+                      placeholder="React, TypeScript"
+                      {...register('tags')}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Cover image URL</label>
+                  <input
+                    type="url"
+                    {...register('image_url', {
+                      required: 'Cover image is required',
+                      validate: (value) => isHttpUrl(value.trim()) || 'Enter a valid http(s) URL'
+                    })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.image_url?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Gallery images (one URL per line)</label>
+                  <textarea
+                    rows={3}
+                    {...register('images', {
+                      validate: (value) =>
+                        splitList(value, /\n/).every(isHttpUrl) || 'Every line must be a valid http(s) URL'
+                    })}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <FieldError message={errors.images?.message} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Author name</label>
+                    <input
+                      type="text"
+                      {...register('author_name', { required: 'Author name is required' })}
+                      className={inputClass}
+                    />
+                    <FieldError message={errors.author_name?.message} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Author avatar URL</label>
+                    <input
+                      type="url"
+                      {...register('author_avatar', {
+                        required: 'Author avatar is required',
+                        validate: (value) => isHttpUrl(value.trim()) || 'Enter a valid http(s) URL'
+                      })}
+                      className={inputClass}
+                    />
+                    <FieldError message={errors.author_avatar?.message} />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Author bio</label>
+                  <textarea
+                    rows={2}
+                    {...register('author_bio', { required: 'Author bio is required' })}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <FieldError message={errors.author_bio?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Publish at</label>
+                  <input
+                    type="datetime-local"
+                    {...register('publish_at', {
+                      required: 'Publish time is required',
+                      validate: (value) => !Number.isNaN(new Date(value).getTime()) || 'Enter a valid date and time'
+                    })}
+                    className={inputClass}
+                  />
+                  <p className="text-white/50 text-xs mt-1">
+                    {published && new Date(publishAt).getTime() > Date.now()
+                      ? `Scheduled: goes live ${new Date(publishAt).toLocaleString()}`
+                      : 'Set a future time to schedule a published post.'}
+                  </p>
+                  <FieldError message={errors.publish_at?.message} />
+                </div>
+
+                <div className="flex items-center space-x-6">
+                  <label className="flex items-center space-x-2 text-white/80 text-sm">
+                    <input type="checkbox" {...register('featured')} className="accent-azure-500" />
+                    <span>Featured</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-white/80 text-sm">
+                    <input type="checkbox" {...register('published')} className="accent-azure-500" />
+                    <span>Published</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Live preview */}
+              <div className="lg:sticky lg:top-0 lg:self-start">
+                <div className="flex items-center space-x-2 mb-3 text-white/70 text-sm">
+                  <Eye size={16} />
+                  <span>Preview</span>
+                </div>
+                <div className="bg-white/5 rounded-lg p-4 max-h-[75vh] overflow-y-auto">
+                  {imageUrl && isHttpUrl(imageUrl.trim()) && (
+                    <img
+                      src={imageUrl.trim()}
+                      alt=""
+                      className="w-full aspect-video object-cover rounded-lg mb-4"
+                    />
+                  )}
+                  <h1 className="text-2xl font-bold text-white mb-4">{title || 'Untitled post'}</h1>
+                  <div
+                    className="blogpost-prose-tight prose prose-invert max-w-none prose-sm"
+                    dangerouslySetInnerHTML={{
+                      __html: previewHtml || '<p>Start writing to see a preview.</p>'
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+          </form>
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BlogPostEditor;
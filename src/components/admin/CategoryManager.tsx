@@ -0,0 +1,428 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useForm } from 'react-hook-form';
+import { X, Save, Loader, AlertCircle, FolderTree, Plus, Trash2, ChevronUp, ChevronDown, ExternalLink } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  blogService,
+  getCategoryPath,
+  type BlogCategory,
+  type BlogCategoryInput,
+  type BlogPost
+} from '../../lib/blogService';
+import { CATEGORY_ICONS, getCategoryIcon } from '../../lib/categoryIcons';
+import { slugify, SLUG_PATTERN } from '../../lib/markdown';
+import GlassCard from '../ui/GlassCard';
+
+interface CategoryManagerProps {
+  posts: BlogPost[];
+  onClose: () => void;
+  // Called after an operation that changed posts' categories, so the caller can reload them
+  onPostsChanged?: () => void;
+}
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const EMPTY_FORM: BlogCategoryInput = { name: '', slug: '', description: '', color: '#38bdf8', icon: 'folder' };
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 text-sm';
+const labelClass = 'block text-white/70 text-xs font-medium mb-1';
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? (
+    <p className="text-red-400 text-xs mt-1 flex items-center space-x-1">
+      <AlertCircle size={12} />
+      <span>{message}</span>
+    </p>
+  ) : null;
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ posts, onClose, onPostsChanged }) => {
+  const [categories, setCategories] = useState<BlogCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null while creating a new category
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState(false);
+  const [reassignTo, setReassignTo] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<BlogCategoryInput>({ defaultValues: EMPTY_FORM });
+
+  const color = watch('color');
+  const icon = watch('icon');
+
+  const selectCategory = (category: BlogCategory | null) => {
+    setSelectedId(category?.id ?? null);
+    setSlugTouched(category !== null);
+    setPendingDelete(false);
+    setReassignTo('');
+    reset(category
+      ? { name: category.name, slug: category.slug, description: category.description, color: category.color, icon: category.icon }
+      : EMPTY_FORM);
+  };
+
+  const loadCategories = async (selectId?: string | null) => {
+    setIsLoading(true);
+    const data = await blogService.getCategories();
+    setCategories(data);
+    const selected = data.find(category => category.id === selectId) ?? (selectId === undefined ? data[0] : null) ?? null;
+    selectCategory(selected);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  // Counts every post, drafts and scheduled included, since all of them move on delete
+  const postCounts = new Map<string, number>();
+  posts.forEach(post => postCounts.set(post.category, (postCounts.get(post.category) || 0) + 1));
+
+  const selected = categories.find(category => category.id === selectedId) ?? null;
+  const selectedPostCount = selected ? postCounts.get(selected.name) || 0 : 0;
+  const otherCategories = categories.filter(category => category.id !== selectedId);
+
+  const moveCategory = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= categories.length) return;
+    const previous = categories;
+    const next = [...categories];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCategories(next);
+    try {
+      await blogService.reorderCategories(next.map(category => category.id));
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      toast.error('Failed to reorder categories');
+      setCategories(previous);
+    }
+  };
+
+  const onSubmit = async (data: BlogCategoryInput) => {
+    setIsSaving(true);
+    try {
+      const input = {
+        name: data.name.trim(),
+        slug: data.slug.trim(),
+        description: data.description.trim(),
+        color: data.color.toLowerCase(),
+        icon: data.icon
+      };
+      const renamed = selected !== null && selected.name !== input.name;
+      const saved = selectedId
+        ? await blogService.updateCategory(selectedId, input)
+        : await blogService.createCategory(input);
+
+      toast.success(selectedId ? 'Category updated successfully' : 'Category created successfully');
+      await loadCategories(saved.id);
+      if (renamed) onPostsChanged?.();
+    } catch (error: any) {
+      console.error('Error saving category:', error);
+      if (error?.code === '23505') {
+        toast.error('That name or slug is already used by another category');
+      } else {
+        toast.error(error?.message ? `Failed to save category: ${error.message}` : 'Failed to save category');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteCategory = async () => {
+    if (!selected) return;
+    setIsDeleting(true);
+    try {
+      const moved = await blogService.deleteCategory(selected.id, reassignTo || null);
+      const target = categories.find(category => category.id === reassignTo);
+      toast.success(moved > 0 && target
+        ? `Category deleted; ${moved} post${moved !== 1 ? 's' : ''} moved to ${target.name}`
+        : 'Category deleted');
+      await loadCategories();
+      if (moved > 0) onPostsChanged?.();
+    } catch (error: any) {
+      console.error('Error deleting category:', error);
+      toast.error(error?.message ? `Failed to delete category: ${error.message}` : 'Failed to delete category');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const nameField = register('name', {
+    required: 'Name is required',
+    maxLength: { value: 100, message: 'Name must be 100 characters or fewer' }
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-5xl"
+      >
+        <GlassCard className="p-6 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <FolderTree className="text-azure-400" size={24} />
+              <h2 className="text-xl font-bold text-white">Categories</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+              title="Close category manager"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader className="animate-spin text-azure-400" size={24} />
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Category list, in display order */}
+              <div className="space-y-2">
+                <button
+                  onClick={() => selectCategory(null)}
+                  className={`w-full flex items-center space-x-2 p-3 rounded-lg text-sm transition-colors duration-300 ${
+                    selectedId === null ? 'bg-azure-500 text-white' : 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  <Plus size={14} />
+                  <span>New category</span>
+                </button>
+                {categories.map((category, index) => {
+                  const Icon = getCategoryIcon(category.icon);
+                  return (
+                    <div
+                      key={category.id}
+                      className={`flex items-center gap-1 rounded-lg transition-colors duration-300 ${
+                        category.id === selectedId ? 'bg-azure-500/20 ring-1 ring-azure-400' : 'bg-white/5 hover:bg-white/10'
+                      }`}
+                    >
+                      <button
+                        onClick={() => selectCategory(category)}
+                        className="flex-1 min-w-0 flex items-center space-x-3 p-3 text-left"
+                      >
+                        <span className="p-1.5 rounded-lg flex-none" style={{ backgroundColor: `${category.color}33`, color: category.color }}>
+                          <Icon size={14} />
+                        </span>
+                        <span className="min-w-0">
+                          <span className="block text-white text-sm font-medium truncate">{category.name}</span>
+                          <span className="block text-white/60 text-xs mt-0.5">{postCounts.get(category.name) || 0} posts</span>
+                        </span>
+                      </button>
+                      <div className="flex flex-col pr-1">
+                        <button
+                          onClick={() => moveCategory(index, -1)}
+                          disabled={index === 0}
+                          className="p-0.5 text-white/60 hover:text-white disabled:opacity-30 transition-colors duration-300"
+                          title="Move up"
+                        >
+                          <ChevronUp size={14} />
+                        </button>
+                        <button
+                          onClick={() => moveCategory(index, 1)}
+                          disabled={index === categories.length - 1}
+                          className="p-0.5 text-white/60 hover:text-white disabled:opacity-30 transition-colors duration-300"
+                          title="Move down"
+                        >
+                          <ChevronDown size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Category form */}
+              <form onSubmit={handleSubmit(onSubmit)} className="lg:col-span-2 space-y-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input
+                    type="text"
+                    {...nameField}
+                    onChange={(e) => {
+                      nameField.onChange(e);
+                      if (!slugTouched) setValue('slug', slugify(e.target.value).replace(/-+/g, '-'));
+                    }}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.name?.message} />
+                  {selected && selectedPostCount > 0 && (
+                    <p className="text-white/50 text-xs mt-1">
+                      Renaming updates all {selectedPostCount} post{selectedPostCount !== 1 ? 's' : ''} in this category.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className={labelClass}>Slug (used in the URL)</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      {...register('slug', {
+                        required: 'Slug is required',
+                        pattern: { value: SLUG_PATTERN, message: 'Use lowercase letters, numbers and single hyphens' },
+                        onChange: () => setSlugTouched(true)
+                      })}
+                      className={inputClass}
+                    />
+                    {selected && (
+                      <a
+                        href={getCategoryPath(selected)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300 flex-none"
+                        title="Open category page"
+                      >
+                        <ExternalLink size={16} />
+                      </a>
+                    )}
+                  </div>
+                  <FieldError message={errors.slug?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <textarea
+                    rows={2}
+                    {...register('description', {
+                      maxLength: { value: 500, message: 'Description must be 500 characters or fewer' }
+                    })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.description?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Colour</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="color"
+                      value={COLOR_PATTERN.test(color) ? color : '#38bdf8'}
+                      onChange={(e) => setValue('color', e.target.value, { shouldValidate: true })}
+                      className="h-9 w-12 bg-transparent border border-white/20 rounded-lg cursor-pointer flex-none"
+                      aria-label="Pick a colour"
+                    />
+                    <input
+                      type="text"
+                      {...register('color', {
+                        required: 'Colour is required',
+                        pattern: { value: COLOR_PATTERN, message: 'Use a hex colour such as #38bdf8' }
+                      })}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+                  <FieldError message={errors.color?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Icon</label>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => setValue('icon', key)}
+                        className={`p-2 rounded-lg transition-colors duration-300 ${
+                          icon === key ? 'ring-1 ring-azure-400 bg-azure-500/20' : 'bg-white/5 text-white/60 hover:bg-white/10 hover:text-white'
+                        }`}
+                        style={icon === key ? { color } : undefined}
+                        title={key}
+                        aria-label={`Use the ${key} icon`}
+                        aria-pressed={icon === key}
+                      >
+                        <Icon size={16} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {pendingDelete && selected && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-3">
+                    <p className="text-red-300 text-sm">
+                      {selectedPostCount > 0
+                        ? `Delete this category? Its ${selectedPostCount} post${selectedPostCount !== 1 ? 's' : ''} will move to:`
+                        : 'Delete this category?'}
+                    </p>
+                    {selectedPostCount > 0 && (
+                      <select
+                        value={reassignTo}
+                        onChange={(e) => setReassignTo(e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="" className="bg-gray-800">Choose a category...</option>
+                        {otherCategories.map(category => (
+                          <option key={category.id} value={category.id} className="bg-gray-800">{category.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setPendingDelete(false)}
+                        disabled={isDeleting}
+                        className="px-3 py-1 text-white/70 hover:text-white hover:bg-white/10 rounded-lg text-sm transition-colors duration-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={deleteCategory}
+                        disabled={isDeleting || (selectedPostCount > 0 && !reassignTo)}
+                        className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-1"
+                      >
+                        {isDeleting ? <Loader className="animate-spin" size={14} /> : <Trash2 size={14} />}
+                        <span>{selectedPostCount > 0 ? 'Move posts and delete' : 'Delete'}</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between pt-2">
+                  {selectedId ? (
+                    <button
+                      type="button"
+                      onClick={() => setPendingDelete(true)}
+                      disabled={otherCategories.length === 0 && selectedPostCount > 0}
+                      className="text-red-400 hover:bg-red-500/20 disabled:opacity-50 px-3 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2 text-sm"
+                      title={otherCategories.length === 0 && selectedPostCount > 0 ? 'Create another category to move these posts to first' : undefined}
+                    >
+                      <Trash2 size={14} />
+                      <span>Delete category</span>
+                    </button>
+                  ) : <span />}
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                  >
+                    {isSaving ? <Loader className="animate-spin" size={16} /> : <Save size={16} />}
+                    <span>{isSaving ? 'Saving...' : selectedId ? 'Save category' : 'Create category'}</span>
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { Loader } from 'lucide-react';
+import { blogService, type BlogCommentEdit } from '../../lib/blogService';
+
+interface CommentEditHistoryProps {
+  commentId: string;
+  // Shown as the newest version; empty for tombstones
+  currentContent: string;
+}
+
+// Earlier versions of a comment, oldest first, followed by what it says now
+const CommentEditHistory: React.FC<CommentEditHistoryProps> = ({ commentId, currentContent }) => {
+  const [edits, setEdits] = useState<BlogCommentEdit[] | null>(null);
+
+  useEffect(() => {
+    setEdits(null);
+    blogService.getCommentEditHistory(commentId).then(setEdits);
+  }, [commentId, currentContent]);
+
+  if (!edits) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader className="animate-spin text-azure-400" size={16} />
+      </div>
+    );
+  }
+
+  if (edits.length === 0) {
+    return <p className="text-white/50 text-xs py-2">No earlier versions.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l border-white/10 pl-3 my-2">
+      {edits.map(edit => (
+        <li key={edit.id}>
+          <p className="text-white/40 text-xs mb-0.5">
+            Until {new Date(edit.created_at).toLocaleString()} · changed by {edit.edited_by ? 'an admin' : 'the author'}
+          </p>
+          <p className="text-white/60 text-sm whitespace-pre-wrap break-words">{edit.content}</p>
+        </li>
+      ))}
+      <li>
+        <p className="text-white/40 text-xs mb-0.5">Now</p>
+        {currentContent ? (
+          <p className="text-white/80 text-sm whitespace-pre-wrap break-words">{currentContent}</p>
+        ) : (
+          <p className="text-white/40 text-sm italic">Deleted</p>
+        )}
+      </li>
+    </ol>
+  );
+};
+
+export default CommentEditHistory;
@@ -0,0 +1,450 @@
+import React, { useEffect, useState } from 'react';
+import { Search, ThumbsUp, ThumbsDown, ShieldAlert, Loader, Reply, Keyboard, Pencil, History } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  blogService,
+  COMMENT_MODERATION_MODES,
+  type BlogPost,
+  type CommentModerationMode,
+  type CommentStatus,
+  type ModerationComment
+} from '../../lib/blogService';
+import CommentEditHistory from './CommentEditHistory';
+
+interface CommentModerationQueueProps {
+  comments: ModerationComment[];
+  posts: BlogPost[];
+  // Called after statuses or content changed, so the caller can reload the comments
+  onChanged: () => Promise<void> | void;
+}
+
+const STATUS_BADGES: Record<CommentStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/20 text-green-400',
+  rejected: 'bg-red-500/20 text-red-400',
+  spam: 'bg-orange-500/20 text-orange-400'
+};
+
+interface ModerationAction {
+  status: CommentStatus;
+  // Keyboard shortcut
+  key: string;
+  label: string;
+  done: string;
+  icon: typeof ThumbsUp;
+  className: string;
+}
+
+const ACTIONS: ModerationAction[] = [
+  { status: 'approved', key: 'a', label: 'Approve', done: 'approved', icon: ThumbsUp, className: 'text-green-400 hover:bg-green-500/20' },
+  { status: 'rejected', key: 'r', label: 'Reject', done: 'rejected', icon: ThumbsDown, className: 'text-red-400 hover:bg-red-500/20' },
+  { status: 'spam', key: 's', label: 'Spam', done: 'marked as spam', icon: ShieldAlert, className: 'text-orange-400 hover:bg-orange-500/20' }
+];
+
+// Author edit window choices, in minutes
+const EDIT_WINDOWS: Array<{ minutes: number; label: string }> = [
+  { minutes: 0, label: 'Authors cannot edit' },
+  { minutes: 5, label: 'Authors can edit for 5 minutes' },
+  { minutes: 15, label: 'Authors can edit for 15 minutes' },
+  { minutes: 60, label: 'Authors can edit for 1 hour' },
+  { minutes: 1440, label: 'Authors can edit for 1 day' }
+];
+
+// Keys typed into the search box or a select are not shortcuts
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const CommentModerationQueue: React.FC<CommentModerationQueueProps> = ({ comments, posts, onChanged }) => {
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<CommentStatus | 'all'>('pending');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const [mode, setMode] = useState<CommentModerationMode | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [editWindow, setEditWindow] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    blogService.getCommentModerationMode().then(setMode);
+    blogService.getCommentEditWindow().then(setEditWindow);
+  }, []);
+
+  const postTitles = new Map(posts.map(post => [post.id, post.title]));
+  const needle = search.trim().toLowerCase();
+  const visible = comments.filter(comment => {
+    const matchesSearch = !needle ||
+      comment.author_name.toLowerCase().includes(needle) ||
+      comment.author_email.toLowerCase().includes(needle) ||
+      comment.content.toLowerCase().includes(needle);
+    return matchesSearch && (statusFilter === 'all' || comment.status === statusFilter);
+  });
+  const selectedItems = visible.filter(comment => selected.has(comment.id));
+  const allSelected = visible.length > 0 && selectedItems.length === visible.length;
+  const pendingCount = comments.filter(comment => comment.status === 'pending').length;
+  const spamCount = comments.filter(comment => comment.status === 'spam').length;
+
+  // Drop selections and focus that the filters hid
+  useEffect(() => {
+    const keys = new Set(visible.map(comment => comment.id));
+    setSelected(prev => {
+      const next = new Set([...prev].filter(key => keys.has(key)));
+      return next.size === prev.size ? prev : next;
+    });
+    if (focusedKey && !keys.has(focusedKey)) setFocusedKey(null);
+  }, [comments, search, statusFilter]);
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(visible.map(comment => comment.id)));
+  };
+
+  const moderate = async (items: ModerationComment[], status: CommentStatus) => {
+    if (items.length === 0 || isWorking) return;
+    setIsWorking(true);
+    try {
+      await blogService.moderateComments(items.map(item => item.id), status);
+      const done = ACTIONS.find(action => action.status === status)?.done ?? status;
+      toast.success(`${items.length} comment${items.length !== 1 ? 's' : ''} ${done}`);
+      setSelected(prev => new Set([...prev].filter(key => !items.some(item => item.id === key))));
+      await onChanged();
+    } catch (error: any) {
+      console.error('Error moderating comments:', error);
+      toast.error(error?.message ? `Failed to update comments: ${error.message}` : 'Failed to update comments');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changeMode = async (next: CommentModerationMode) => {
+    const previous = mode;
+    setMode(next);
+    try {
+      await blogService.setCommentModerationMode(next);
+      toast.success(`New comments: ${COMMENT_MODERATION_MODES[next].toLowerCase()}`);
+    } catch (error: any) {
+      console.error('Error saving moderation mode:', error);
+      setMode(previous);
+      toast.error(error?.message ? `Failed to save moderation mode: ${error.message}` : 'Failed to save moderation mode');
+    }
+  };
+
+  const changeEditWindow = async (minutes: number) => {
+    const previous = editWindow;
+    setEditWindow(minutes);
+    try {
+      await blogService.setCommentEditWindow(minutes);
+      toast.success(EDIT_WINDOWS.find(option => option.minutes === minutes)?.label ?? 'Edit window saved');
+    } catch (error: any) {
+      console.error('Error saving comment edit window:', error);
+      setEditWindow(previous);
+      toast.error(error?.message ? `Failed to save edit window: ${error.message}` : 'Failed to save edit window');
+    }
+  };
+
+  // Admins can change any comment at any time; the old content goes to the edit history
+  const saveEdit = async (comment: ModerationComment) => {
+    const content = editDraft.trim();
+    if (content === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await blogService.editComment(comment.id, content);
+      toast.success('Comment updated');
+      setEditingId(null);
+      await onChanged();
+    } catch (error: any) {
+      console.error('Error editing comment:', error);
+      toast.error(error?.message ? `Failed to update comment: ${error.message}` : 'Failed to update comment');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // j/k move, x selects, a/r/s act on the selection (or the focused comment), Esc clears
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      const index = visible.findIndex(comment => comment.id === focusedKey);
+      const focused = index >= 0 ? visible[index] : null;
+
+      if (event.key === 'j' || event.key === 'k') {
+        event.preventDefault();
+        if (visible.length === 0) return;
+        const nextIndex = index < 0
+          ? 0
+          : Math.min(visible.length - 1, Math.max(0, index + (event.key === 'j' ? 1 : -1)));
+        const nextKey = visible[nextIndex].id;
+        setFocusedKey(nextKey);
+        document.getElementById(`moderation-${nextKey}`)?.scrollIntoView({ block: 'nearest' });
+      } else if (event.key === 'x' && focused) {
+        event.preventDefault();
+        toggleSelected(focused.id);
+      } else if (event.key === 'Escape') {
+        setSelected(new Set());
+      } else {
+        const action = ACTIONS.find(candidate => candidate.key === event.key);
+        const targets = selectedItems.length > 0 ? selectedItems : focused ? [focused] : [];
+        if (!action || targets.length === 0) return;
+        event.preventDefault();
+        moderate(targets, action.status);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <div className="space-y-4">
+      {/* Moderation mode */}
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-white/5 p-4 rounded-lg">
+        <div>
+          <p className="text-white font-medium text-sm">New comments</p>
+          <p className="text-white/60 text-xs">
+            Held comments wait here and are only shown to the browser that wrote them. {pendingCount} pending.
+          </p>
+        </div>
+        <button
+          onClick={() => setStatusFilter(statusFilter === 'spam' ? 'pending' : 'spam')}
+          className={`px-3 py-2 rounded-lg text-sm flex items-center space-x-2 transition-colors duration-300 ${
+            statusFilter === 'spam' ? 'bg-orange-500/20 text-orange-300' : 'text-white/70 hover:bg-white/10'
+          }`}
+          title="Comments the spam filter caught (thresholds are in Settings)"
+        >
+          <ShieldAlert size={14} />
+          <span>{statusFilter === 'spam' ? 'Back to pending' : `Spam folder (${spamCount})`}</span>
+        </button>
+        <select
+          value={mode ?? ''}
+          onChange={(e) => changeMode(e.target.value as CommentModerationMode)}
+          disabled={!mode}
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-azure-400 disabled:opacity-50"
+        >
+          {!mode && <option value="">Loading...</option>}
+          {(Object.keys(COMMENT_MODERATION_MODES) as CommentModerationMode[]).map(value => (
+            <option key={value} value={value}>{COMMENT_MODERATION_MODES[value]}</option>
+          ))}
+        </select>
+        <select
+          value={editWindow ?? ''}
+          onChange={(e) => changeEditWindow(Number(e.target.value))}
+          disabled={editWindow === null}
+          title="How long commenters can edit or delete what they posted"
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-azure-400 disabled:opacity-50"
+        >
+          {editWindow === null && <option value="">Loading...</option>}
+          {editWindow !== null && !EDIT_WINDOWS.some(option => option.minutes === editWindow) && (
+            <option value={editWindow}>Authors can edit for {editWindow} minutes</option>
+          )}
+          {EDIT_WINDOWS.map(option => (
+            <option key={option.minutes} value={option.minutes}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Search and Filter */}
+      <div className="flex space-x-4">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60" size={16} />
+          <input
+            type="text"
+            placeholder="Search comments..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as CommentStatus | 'all')}
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400"
+        >
+          <option value="all">All Status</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="spam">Spam</option>
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center space-x-2 text-white/70 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            disabled={visible.length === 0}
+            className="accent-azure-500"
+          />
+          <span>{selectedItems.length > 0 ? `${selectedItems.length} selected` : `Select all (${visible.length})`}</span>
+        </label>
+        <div className="flex items-center space-x-2">
+          {isWorking && <Loader className="animate-spin text-azure-400" size={16} />}
+          {ACTIONS.map(action => (
+            <button
+              key={action.status}
+              onClick={() => moderate(selectedItems, action.status)}
+              disabled={selectedItems.length === 0 || isWorking}
+              className={`px-3 py-1.5 rounded-lg text-sm flex items-center space-x-1 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed ${action.className}`}
+            >
+              <action.icon size={14} />
+              <span>{action.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="flex items-center space-x-2 text-white/40 text-xs">
+        <Keyboard size={12} />
+        <span>j/k move · x select · a approve · r reject · s spam · Esc clear selection</span>
+      </p>
+
+      {/* Comments List */}
+      <div className="space-y-4">
+        {visible.length === 0 && (
+          <p className="text-white/60 text-sm text-center py-8">
+            {statusFilter === 'pending' && !needle ? 'Nothing waiting for moderation.' : 'No comments match.'}
+          </p>
+        )}
+        {visible.map(comment => {
+          const key = comment.id;
+          return (
+            <div
+              key={key}
+              id={`moderation-${key}`}
+              onClick={() => setFocusedKey(key)}
+              className={`bg-white/5 p-4 rounded-lg border transition-colors duration-200 ${
+                focusedKey === key ? 'border-azure-400/60' : 'border-transparent'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <input
+                  type="checkbox"
+                  checked={selected.has(key)}
+                  onChange={() => toggleSelected(key)}
+                  aria-label={`Select comment by ${comment.author_name}`}
+                  className="accent-azure-500 mt-1.5 mr-3"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2">
+                    <h3 className="text-white font-semibold">{comment.author_name}</h3>
+                    <span className="text-white/60 text-sm">{comment.author_email}</span>
+                    <span className={`px-2 py-1 rounded-full text-xs ${STATUS_BADGES[comment.status]}`}>
+                      {comment.status}
+                    </span>
+                    {comment.parent_id && (
+                      <span className="px-2 py-1 rounded-full text-xs bg-white/10 text-white/70 flex items-center space-x-1">
+                        <Reply size={10} />
+                        <span>Reply</span>
+                      </span>
+                    )}
+                    {comment.deleted_at && (
+                      <span className="px-2 py-1 rounded-full text-xs bg-white/10 text-white/50">deleted by author</span>
+                    )}
+                    {(comment.edited_at || comment.deleted_at) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryId(historyId === comment.id ? null : comment.id);
+                        }}
+                        className="flex items-center space-x-1 text-xs text-azure-400 hover:text-azure-300"
+                      >
+                        <History size={12} />
+                        <span>{historyId === comment.id ? 'Hide history' : comment.edited_at ? 'Edited · history' : 'History'}</span>
+                      </button>
+                    )}
+                  </div>
+                  {editingId === comment.id ? (
+                    <div className="mb-2" onClick={(e) => e.stopPropagation()}>
+                      <textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        rows={4}
+                        aria-label={`Edit comment by ${comment.author_name}`}
+                        className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-azure-400 resize-y"
+                      />
+                      <div className="flex justify-end space-x-2 mt-2">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-3 py-1 text-white/60 hover:text-white text-xs"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => saveEdit(comment)}
+                          disabled={isWorking || editDraft.trim().length < 10}
+                          className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 text-white px-3 py-1 rounded text-xs"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : comment.deleted_at ? (
+                    <p className="text-white/40 text-sm mb-2 italic">Content removed; kept in the history.</p>
+                  ) : (
+                    <p className="text-white/70 text-sm mb-2 whitespace-pre-wrap break-words">{comment.content}</p>
+                  )}
+                  {historyId === comment.id && (
+                    <CommentEditHistory commentId={comment.id} currentContent={comment.content} />
+                  )}
+                  {comment.spam_score > 0 && (
+                    <p className="text-orange-300/80 text-xs mb-2">
+                      Spam score {comment.spam_score}
+                      {comment.spam_reasons.length > 0 && `: ${comment.spam_reasons.join(' · ')}`}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-white/60">
+                    <span>{postTitles.get(comment.blog_post_id) ?? `Post ID: ${comment.blog_post_id}`}</span>
+                    <span>{new Date(comment.created_at).toLocaleString()}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {!comment.deleted_at && (
+                    <button
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditDraft(comment.content);
+                      }}
+                      disabled={isWorking || editingId === comment.id}
+                      className="p-2 rounded-lg text-azure-400 hover:bg-azure-500/20 transition-colors duration-300 disabled:opacity-40"
+                      title="Edit"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                  )}
+                  {ACTIONS.filter(action => action.status !== comment.status).map(action => (
+                    <button
+                      key={action.status}
+                      onClick={() => moderate([comment], action.status)}
+                      disabled={isWorking}
+                      className={`p-2 rounded-lg transition-colors duration-300 disabled:opacity-40 ${action.className}`}
+                      title={`${action.label} (${action.key})`}
+                    >
+                      <action.icon size={16} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CommentModerationQueue;
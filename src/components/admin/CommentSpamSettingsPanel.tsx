@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Loader, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { blogService, DEFAULT_COMMENT_SPAM_SETTINGS, type CommentSpamSettings } from '../../lib/blogService';
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 text-sm';
+const labelClass = 'block text-white/70 text-xs font-medium mb-1';
+
+type NumberSetting = Exclude<keyof CommentSpamSettings, 'blocked_words' | 'blocked_domains'>;
+
+const NUMBER_FIELDS: Array<{ key: NumberSetting; label: string; min: number }> = [
+  { key: 'hold_threshold', label: 'Hold for moderation at score', min: 1 },
+  { key: 'spam_threshold', label: 'Send to spam at score', min: 1 },
+  { key: 'max_links', label: 'Links allowed before scoring', min: 0 },
+  { key: 'window_minutes', label: 'Rate limit window (minutes)', min: 1 },
+  { key: 'visitor_limit', label: 'Posts per visitor in window', min: 1 },
+  { key: 'ip_limit', label: 'Posts per IP address in window', min: 1 }
+];
+
+// One entry per line; commas work too
+const parseList = (value: string) =>
+  Array.from(new Set(value.split(/[\n,]/).map(entry => entry.trim().toLowerCase()).filter(Boolean)));
+
+// Spam scoring thresholds, rate limits and blocklists for comments and replies
+const CommentSpamSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<CommentSpamSettings>(DEFAULT_COMMENT_SPAM_SETTINGS);
+  const [blockedWords, setBlockedWords] = useState('');
+  const [blockedDomains, setBlockedDomains] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    blogService.getCommentSpamSettings().then(loaded => {
+      setSettings(loaded);
+      setBlockedWords(loaded.blocked_words.join('\n'));
+      setBlockedDomains(loaded.blocked_domains.join('\n'));
+      setIsLoading(false);
+    });
+  }, []);
+
+  const updateNumber = (key: NumberSetting, value: string) => {
+    setSettings(prev => ({ ...prev, [key]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  const save = async () => {
+    if (settings.spam_threshold < settings.hold_threshold) {
+      toast.error('The spam score must be at least the hold score');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const next = {
+        ...settings,
+        blocked_words: parseList(blockedWords),
+        blocked_domains: parseList(blockedDomains).map(domain => domain.replace(/^https?:\/\//, '').replace(/\/.*$/, ''))
+      };
+      await blogService.setCommentSpamSettings(next);
+      setSettings(next);
+      setBlockedWords(next.blocked_words.join('\n'));
+      setBlockedDomains(next.blocked_domains.join('\n'));
+      toast.success('Spam settings saved');
+    } catch (error: any) {
+      console.error('Error saving spam settings:', error);
+      toast.error(error?.message ? `Failed to save spam settings: ${error.message}` : 'Failed to save spam settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white/5 rounded-lg">
+      <h3 className="text-white font-medium mb-1 flex items-center space-x-2">
+        <ShieldAlert size={16} className="text-orange-400" />
+        <span>Comment Spam Filter</span>
+      </h3>
+      <p className="text-white/60 text-xs mb-4">
+        Every comment and reply is scored when posted: +10 for the honeypot, +2 per extra link, +3 per blocked word,
+        +5 per blocked domain, +4 for repeated text and +5 for each rate limit exceeded.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader className="animate-spin text-azure-400" size={20} />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {NUMBER_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className={labelClass} htmlFor={`spam-${field.key}`}>{field.label}</label>
+                <input
+                  id={`spam-${field.key}`}
+                  type="number"
+                  min={field.min}
+                  value={settings[field.key]}
+                  onChange={(e) => updateNumber(field.key, e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass} htmlFor="spam-blocked-words">Blocked words (one per line)</label>
+              <textarea
+                id="spam-blocked-words"
+                value={blockedWords}
+                onChange={(e) => setBlockedWords(e.target.value)}
+                rows={5}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="spam-blocked-domains">Blocked domains (one per line, subdomains included)</label>
+              <textarea
+                id="spam-blocked-domains"
+                value={blockedDomains}
+                onChange={(e) => setBlockedDomains(e.target.value)}
+                rows={5}
+                placeholder="example.com"
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={save}
+              disabled={isSaving}
+              className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-2"
+            >
+              {isSaving ? <Loader className="animate-spin" size={14} /> : <Save size={14} />}
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentSpamSettingsPanel;
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, History, RotateCcw, Loader } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { blogService, type BlogPost, type BlogPostRevision } from '../../lib/blogService';
+import { buildSideBySideDiff, type SideBySideRow } from '../../lib/textDiff';
+import GlassCard from '../ui/GlassCard';
+
+interface PostRevisionHistoryProps {
+  post: BlogPost;
+  onClose: () => void;
+  onRestored: (post: BlogPost) => void;
+}
+
+// Non-content fields shown as a compact "before → after" list
+const METADATA_FIELDS: Array<{ key: keyof BlogPostRevision; label: string }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'category', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'date', label: 'Date' },
+  { key: 'read_time', label: 'Read time' },
+  { key: 'image_url', label: 'Cover image' },
+  { key: 'images', label: 'Gallery images' },
+  { key: 'author_name', label: 'Author name' },
+  { key: 'author_avatar', label: 'Author avatar' },
+  { key: 'author_bio', label: 'Author bio' },
+  { key: 'featured', label: 'Featured' },
+  { key: 'published', label: 'Published' },
+  { key: 'publish_at', label: 'Publish at' }
+];
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value) ? value.join(', ') : String(value ?? '');
+
+const rowClasses: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-white/5' },
+  added: { left: 'bg-white/5', right: 'bg-green-500/15' }
+};
+
+const PostRevisionHistory: React.FC<PostRevisionHistoryProps> = ({ post, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<BlogPostRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [pendingRestore, setPendingRestore] = useState<BlogPostRevision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    const data = await blogService.getPostRevisions(post.id);
+    setRevisions(data);
+    // Default to comparing the previous revision against the latest one
+    setToId(data[0]?.id ?? '');
+    setFromId(data[1]?.id ?? data[0]?.id ?? '');
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [post.id]);
+
+  const fromRevision = revisions.find(r => r.id === fromId) ?? null;
+  const toRevision = revisions.find(r => r.id === toId) ?? null;
+
+  const diffRows = useMemo(
+    () => (fromRevision && toRevision ? buildSideBySideDiff(fromRevision.content, toRevision.content) : []),
+    [fromRevision, toRevision]
+  );
+
+  const changedFields = fromRevision && toRevision
+    ? METADATA_FIELDS.filter(({ key }) => formatValue(fromRevision[key]) !== formatValue(toRevision[key]))
+    : [];
+
+  const restore = async () => {
+    if (!pendingRestore) return;
+    setIsRestoring(true);
+    try {
+      const restored = await blogService.restoreRevision(pendingRestore);
+      toast.success(`Restored revision #${pendingRestore.revision}`);
+      setPendingRestore(null);
+      onRestored(restored);
+      await loadRevisions();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const revisionLabel = (revision: BlogPostRevision) =>
+    `#${revision.revision} — ${new Date(revision.created_at).toLocaleString()}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-7xl"
+      >
+        <GlassCard className="p-6 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <History className="text-azure-400" size={24} />
+              <h2 className="text-xl font-bold text-white">Revision history: {post.title}</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+              title="Close history"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader className="animate-spin text-azure-400" size={24} />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-white/60 text-sm">No revisions have been recorded for this post yet.</p>
+          ) : (
+            <div className="grid lg:grid-cols-4 gap-6">
+              {/* Revision list */}
+              <div className="space-y-2">
+                {revisions.map((revision, index) => (
+                  <div key={revision.id} className="bg-white/5 p-3 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white text-sm font-medium">#{revision.revision}</span>
+                      {index === 0 ? (
+                        <span className="px-2 py-0.5 bg-azure-500/20 text-azure-300 rounded-full text-xs">Current</span>
+                      ) : (
+                        <button
+                          onClick={() => setPendingRestore(revision)}
+                          className="p-1 text-azure-400 hover:bg-azure-500/20 rounded transition-colors duration-300"
+                          title="Restore this revision"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-white/60 text-xs mt-1">{new Date(revision.created_at).toLocaleString()}</p>
+                    <p className="text-white/70 text-xs mt-1 truncate">{revision.title}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Diff */}
+              <div className="lg:col-span-3 space-y-4">
+                {pendingRestore && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center justify-between">
+                    <span className="text-yellow-300 text-sm">
+                      Restore revision #{pendingRestore.revision}? The current version stays in the history.
+                    </span>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setPendingRestore(null)}
+                        disabled={isRestoring}
+                        className="px-3 py-1 text-white/70 hover:text-white hover:bg-white/10 rounded-lg text-sm transition-colors duration-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={restore}
+                        disabled={isRestoring}
+                        className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-1"
+                      >
+                        {isRestoring ? <Loader className="animate-spin" size={14} /> : <RotateCcw size={14} />}
+                        <span>Restore</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <select
+                    value={fromId}
+                    onChange={(e) => setFromId(e.target.value)}
+                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-azure-400"
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.id} value={revision.id} className="bg-gray-800">{revisionLabel(revision)}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={toId}
+                    onChange={(e) => setToId(e.target.value)}
+                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-azure-400"
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.id} value={revision.id} className="bg-gray-800">{revisionLabel(revision)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {changedFields.length > 0 && fromRevision && toRevision && (
+                  <div className="bg-white/5 rounded-lg p-3 space-y-1 text-xs">
+                    {changedFields.map(({ key, label }) => (
+                      <div key={key} className="grid grid-cols-[8rem_1fr_1fr] gap-2">
+                        <span className="text-white/50">{label}</span>
+                        <span className="text-red-300 break-words">{formatValue(fromRevision[key])}</span>
+                        <span className="text-green-300 break-words">{formatValue(toRevision[key])}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="bg-black/30 rounded-lg overflow-x-auto">
+                  <table className="w-full text-xs font-mono table-fixed">
+                    <tbody>
+                      {diffRows.map((row, index) => (
+                        <tr key={index}>
+                          <td className={`w-10 px-2 text-right text-white/30 align-top select-none ${rowClasses[row.type].left}`}>
+                            {row.left?.number}
+                          </td>
+                          <td className={`px-2 text-white/80 whitespace-pre-wrap break-words align-top ${rowClasses[row.type].left}`}>
+                            {row.left?.text}
+                          </td>
+                          <td className={`w-10 px-2 text-right text-white/30 align-top select-none border-l border-white/10 ${rowClasses[row.type].right}`}>
+                            {row.right?.number}
+                          </td>
+                          <td className={`px-2 text-white/80 whitespace-pre-wrap break-words align-top ${rowClasses[row.type].right}`}>
+                            {row.right?.text}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default PostRevisionHistory;
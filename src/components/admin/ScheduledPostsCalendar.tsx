@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import { getPostStatus, type BlogPost } from '../../lib/blogService';
+
+interface ScheduledPostsCalendarProps {
+  posts: BlogPost[];
+  onSelectPost: (post: BlogPost) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const ScheduledPostsCalendar: React.FC<ScheduledPostsCalendarProps> = ({ posts, onSelectPost }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const scheduled = posts
+    .filter(post => getPostStatus(post) === 'scheduled')
+    .sort((a, b) => new Date(a.publish_at).getTime() - new Date(b.publish_at).getTime());
+
+  const postsByDay = new Map<string, BlogPost[]>();
+  scheduled.forEach(post => {
+    const key = dayKey(new Date(post.publish_at));
+    postsByDay.set(key, [...(postsByDay.get(key) || []), post]);
+  });
+
+  // Leading blanks so the 1st lands on its weekday, then every day of the month
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: Array<Date | null> = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1))
+  ];
+
+  const todayKey = dayKey(new Date());
+  const shiftMonth = (delta: number) =>
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => shiftMonth(-1)}
+          className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+          title="Previous month"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <h3 className="text-white font-semibold">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </h3>
+        <button
+          onClick={() => shiftMonth(1)}
+          className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+          title="Next month"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="text-center text-white/50 py-1">{day}</div>
+        ))}
+        {cells.map((date, index) => {
+          if (!date) return <div key={`blank-${index}`} />;
+          const key = dayKey(date);
+          const dayPosts = postsByDay.get(key) || [];
+          return (
+            <div
+              key={key}
+              className={`min-h-[5rem] p-1 rounded-lg bg-white/5 ${key === todayKey ? 'ring-1 ring-azure-400' : ''}`}
+            >
+              <div className="text-white/60 mb-1">{date.getDate()}</div>
+              <div className="space-y-1">
+                {dayPosts.map(post => (
+                  <button
+                    key={post.id}
+                    onClick={() => onSelectPost(post)}
+                    className="w-full text-left px-1 py-0.5 bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 rounded truncate transition-colors duration-300"
+                    title={`${post.title} — ${new Date(post.publish_at).toLocaleString()}`}
+                  >
+                    {new Date(post.publish_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {post.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Upcoming list */}
+      <div>
+        <h3 className="text-white font-medium mb-3">Upcoming</h3>
+        {scheduled.length === 0 ? (
+          <p className="text-white/60 text-sm">No posts are scheduled.</p>
+        ) : (
+          <div className="space-y-2">
+            {scheduled.map(post => (
+              <button
+                key={post.id}
+                onClick={() => onSelectPost(post)}
+                className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 p-3 rounded-lg transition-colors duration-300 text-left"
+              >
+                <span className="text-white text-sm">{post.title}</span>
+                <span className="flex items-center space-x-1 text-purple-300 text-xs">
+                  <Clock size={12} />
+                  <span>{new Date(post.publish_at).toLocaleString()}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledPostsCalendar;
@@ -0,0 +1,380 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useForm } from 'react-hook-form';
+import { X, Save, Loader, AlertCircle, Layers, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  blogService,
+  getPostStatus,
+  type BlogPost,
+  type BlogSeriesWithPosts
+} from '../../lib/blogService';
+import { slugify, SLUG_PATTERN } from '../../lib/markdown';
+import GlassCard from '../ui/GlassCard';
+
+interface SeriesManagerProps {
+  posts: BlogPost[];
+  onClose: () => void;
+}
+
+interface SeriesFormData {
+  title: string;
+  slug: string;
+  description: string;
+}
+
+const EMPTY_FORM: SeriesFormData = { title: '', slug: '', description: '' };
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 text-sm';
+const labelClass = 'block text-white/70 text-xs font-medium mb-1';
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? (
+    <p className="text-red-400 text-xs mt-1 flex items-center space-x-1">
+      <AlertCircle size={12} />
+      <span>{message}</span>
+    </p>
+  ) : null;
+
+const SeriesManager: React.FC<SeriesManagerProps> = ({ posts, onClose }) => {
+  const [seriesList, setSeriesList] = useState<BlogSeriesWithPosts[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null while creating a new series
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [partIds, setPartIds] = useState<string[]>([]);
+  const [postToAdd, setPostToAdd] = useState('');
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors }
+  } = useForm<SeriesFormData>({ defaultValues: EMPTY_FORM });
+
+  const selectSeries = (series: BlogSeriesWithPosts | null) => {
+    setSelectedId(series?.id ?? null);
+    setPartIds(series ? series.posts.map(post => post.id) : []);
+    setSlugTouched(series !== null);
+    setPendingDelete(false);
+    setPostToAdd('');
+    reset(series ? { title: series.title, slug: series.slug, description: series.description } : EMPTY_FORM);
+  };
+
+  const loadSeries = async (selectId?: string | null) => {
+    setIsLoading(true);
+    const data = await blogService.getAllSeriesForAdmin();
+    setSeriesList(data);
+    const selected = data.find(series => series.id === selectId) ?? (selectId === undefined ? data[0] : null) ?? null;
+    selectSeries(selected);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSeries();
+  }, []);
+
+  const postsById = new Map(posts.map(post => [post.id, post]));
+  // Which other series currently holds each post; adding it here moves it
+  const otherSeriesByPost = new Map<string, string>();
+  seriesList
+    .filter(series => series.id !== selectedId)
+    .forEach(series => series.posts.forEach(post => otherSeriesByPost.set(post.id, series.title)));
+  const availablePosts = posts.filter(post => !partIds.includes(post.id));
+
+  const addPart = () => {
+    if (!postToAdd) return;
+    setPartIds(prev => [...prev, postToAdd]);
+    setPostToAdd('');
+  };
+
+  const movePart = (index: number, delta: number) => {
+    setPartIds(prev => {
+      const next = [...prev];
+      const target = index + delta;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePart = (id: string) => {
+    setPartIds(prev => prev.filter(partId => partId !== id));
+  };
+
+  const onSubmit = async (data: SeriesFormData) => {
+    setIsSaving(true);
+    try {
+      const input = { title: data.title.trim(), slug: data.slug.trim(), description: data.description.trim() };
+      const saved = selectedId
+        ? await blogService.updateSeries(selectedId, input)
+        : await blogService.createSeries(input);
+      await blogService.setSeriesPosts(saved.id, partIds);
+
+      toast.success(selectedId ? 'Series updated successfully' : 'Series created successfully');
+      await loadSeries(saved.id);
+    } catch (error: any) {
+      console.error('Error saving series:', error);
+      if (error?.code === '23505') {
+        toast.error('That slug is already used by another series');
+      } else {
+        toast.error(error?.message ? `Failed to save series: ${error.message}` : 'Failed to save series');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSeries = async () => {
+    if (!selectedId) return;
+    setIsDeleting(true);
+    try {
+      await blogService.deleteSeries(selectedId);
+      toast.success('Series deleted');
+      await loadSeries();
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      toast.error('Failed to delete series');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const titleField = register('title', {
+    required: 'Title is required',
+    maxLength: { value: 200, message: 'Title must be 200 characters or fewer' }
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-5xl"
+      >
+        <GlassCard className="p-6 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Layers className="text-azure-400" size={24} />
+              <h2 className="text-xl font-bold text-white">Series</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+              title="Close series manager"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader className="animate-spin text-azure-400" size={24} />
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Series list */}
+              <div className="space-y-2">
+                <button
+                  onClick={() => selectSeries(null)}
+                  className={`w-full flex items-center space-x-2 p-3 rounded-lg text-sm transition-colors duration-300 ${
+                    selectedId === null ? 'bg-azure-500 text-white' : 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  <Plus size={14} />
+                  <span>New series</span>
+                </button>
+                {seriesList.map(series => (
+                  <button
+                    key={series.id}
+                    onClick={() => selectSeries(series)}
+                    className={`w-full text-left p-3 rounded-lg transition-colors duration-300 ${
+                      series.id === selectedId ? 'bg-azure-500/20 ring-1 ring-azure-400' : 'bg-white/5 hover:bg-white/10'
+                    }`}
+                  >
+                    <p className="text-white text-sm font-medium truncate">{series.title}</p>
+                    <p className="text-white/60 text-xs mt-1">{series.posts.length} parts</p>
+                  </button>
+                ))}
+              </div>
+
+              {/* Series form */}
+              <form onSubmit={handleSubmit(onSubmit)} className="lg:col-span-2 space-y-4">
+                <div>
+                  <label className={labelClass}>Title</label>
+                  <input
+                    type="text"
+                    {...titleField}
+                    onChange={(e) => {
+                      titleField.onChange(e);
+                      if (!slugTouched) setValue('slug', slugify(e.target.value));
+                    }}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.title?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Slug (used in the URL)</label>
+                  <input
+                    type="text"
+                    {...register('slug', {
+                      required: 'Slug is required',
+                      pattern: { value: SLUG_PATTERN, message: 'Use lowercase letters, numbers and single hyphens' },
+                      onChange: () => setSlugTouched(true)
+                    })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.slug?.message} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <textarea
+                    rows={2}
+                    {...register('description', {
+                      maxLength: { value: 500, message: 'Description must be 500 characters or fewer' }
+                    })}
+                    className={inputClass}
+                  />
+                  <FieldError message={errors.description?.message} />
+                </div>
+
+                {/* Parts, in reading order */}
+                <div>
+                  <label className={labelClass}>Parts</label>
+                  {partIds.length === 0 ? (
+                    <p className="text-white/60 text-sm mb-2">No posts in this series yet.</p>
+                  ) : (
+                    <ol className="space-y-2 mb-3">
+                      {partIds.map((id, index) => {
+                        const post = postsById.get(id);
+                        const status = post ? getPostStatus(post) : null;
+                        return (
+                          <li key={id} className="flex items-center gap-2 bg-white/5 p-2 rounded-lg">
+                            <span className="w-6 text-center text-white/50 text-xs flex-none">{index + 1}</span>
+                            <span className="flex-1 min-w-0 text-white text-sm truncate">{post?.title ?? id}</span>
+                            {status && status !== 'published' && (
+                              <span className="px-2 py-0.5 bg-white/10 text-white/60 rounded-full text-xs capitalize">{status}</span>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => movePart(index, -1)}
+                              disabled={index === 0}
+                              className="p-1 text-white/60 hover:text-white disabled:opacity-30 transition-colors duration-300"
+                              title="Move up"
+                            >
+                              <ChevronUp size={14} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => movePart(index, 1)}
+                              disabled={index === partIds.length - 1}
+                              className="p-1 text-white/60 hover:text-white disabled:opacity-30 transition-colors duration-300"
+                              title="Move down"
+                            >
+                              <ChevronDown size={14} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => removePart(id)}
+                              className="p-1 text-red-400 hover:bg-red-500/20 rounded transition-colors duration-300"
+                              title="Remove from series"
+                            >
+                              <X size={14} />
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                  <div className="flex gap-2">
+                    <select
+                      value={postToAdd}
+                      onChange={(e) => setPostToAdd(e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="" className="bg-gray-800">Add a post...</option>
+                      {availablePosts.map(post => (
+                        <option key={post.id} value={post.id} className="bg-gray-800">
+                          {post.title}{otherSeriesByPost.has(post.id) ? ` (moves from ${otherSeriesByPost.get(post.id)})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={addPart}
+                      disabled={!postToAdd}
+                      className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-1 text-sm"
+                    >
+                      <Plus size={14} />
+                      <span>Add</span>
+                    </button>
+                  </div>
+                </div>
+
+                {pendingDelete && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center justify-between">
+                    <span className="text-red-300 text-sm">Delete this series? Its posts stay published.</span>
+                    <div className="flex space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setPendingDelete(false)}
+                        disabled={isDeleting}
+                        className="px-3 py-1 text-white/70 hover:text-white hover:bg-white/10 rounded-lg text-sm transition-colors duration-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={deleteSeries}
+                        disabled={isDeleting}
+                        className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-1"
+                      >
+                        {isDeleting ? <Loader className="animate-spin" size={14} /> : <Trash2 size={14} />}
+                        <span>Delete</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between pt-2">
+                  {selectedId ? (
+                    <button
+                      type="button"
+                      onClick={() => setPendingDelete(true)}
+                      className="text-red-400 hover:bg-red-500/20 px-3 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2 text-sm"
+                    >
+                      <Trash2 size={14} />
+                      <span>Delete series</span>
+                    </button>
+                  ) : <span />}
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                  >
+                    {isSaving ? <Loader className="animate-spin" size={16} /> : <Save size={16} />}
+                    <span>{isSaving ? 'Saving...' : selectedId ? 'Save series' : 'Create series'}</span>
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default SeriesManager;
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, Loader, Hash, Trash2, Merge, Search, ExternalLink } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { blogService, getTagSlug, getTagPath, type BlogTagWithCount } from '../../lib/blogService';
+import GlassCard from '../ui/GlassCard';
+
+interface TagManagerProps {
+  onClose: () => void;
+  // Called after an operation that rewrote posts, so the caller can reload them
+  onPostsChanged?: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 text-sm';
+const labelClass = 'block text-white/70 text-xs font-medium mb-1';
+
+const TagManager: React.FC<TagManagerProps> = ({ onClose, onPostsChanged }) => {
+  const [tags, setTags] = useState<BlogTagWithCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  // Tags ticked for merging, and the one they merge into
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [pendingAction, setPendingAction] = useState<'delete' | 'merge' | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const selectTag = (tag: BlogTagWithCount | null) => {
+    setSelectedId(tag?.id ?? null);
+    setName(tag?.name ?? '');
+    setDescription(tag?.description ?? '');
+    setPendingAction(null);
+  };
+
+  const loadTags = async (selectId?: string | null) => {
+    setIsLoading(true);
+    const data = await blogService.getAllTagsForAdmin();
+    setTags(data);
+    setMergeIds(prev => prev.filter(id => data.some(tag => tag.id === id)));
+    selectTag(data.find(tag => tag.id === selectId) ?? null);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const selected = tags.find(tag => tag.id === selectedId) ?? null;
+  const mergeTags = tags.filter(tag => mergeIds.includes(tag.id));
+  const visibleTags = tags.filter(tag => {
+    const needle = filter.trim().toLowerCase();
+    return !needle || tag.name.toLowerCase().includes(needle) || tag.aliases.some(alias => alias.includes(needle));
+  });
+
+  const newSlug = getTagSlug(name);
+  const slugOwner = tags.find(tag => tag.id !== selectedId && (tag.slug === newSlug || tag.aliases.includes(newSlug)));
+
+  const toggleMerge = (id: string) => {
+    const next = mergeIds.includes(id) ? mergeIds.filter(mergeId => mergeId !== id) : [...mergeIds, id];
+    setPendingAction(null);
+    setMergeIds(next);
+    if (!next.includes(mergeTargetId)) setMergeTargetId(next[0] ?? '');
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      toast.error(error?.message ? `${failure}: ${error.message}` : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const saveTag = () => runAction(async () => {
+    if (!selected) return;
+    if (name.trim() !== selected.name) {
+      await blogService.renameTag(selected.id, name.trim());
+    }
+    if (description.trim() !== selected.description) {
+      await blogService.updateTagDescription(selected.id, description.trim());
+    }
+    toast.success(name.trim() !== selected.name
+      ? `Renamed to "${name.trim()}" in ${selected.post_count} post${selected.post_count !== 1 ? 's' : ''}`
+      : 'Tag updated');
+    await loadTags(selected.id);
+    if (name.trim() !== selected.name) onPostsChanged?.();
+  }, 'Failed to save tag');
+
+  const deleteTag = () => runAction(async () => {
+    if (!selected) return;
+    await blogService.deleteTag(selected.id);
+    toast.success(`Deleted "${selected.name}"`);
+    await loadTags();
+    onPostsChanged?.();
+  }, 'Failed to delete tag');
+
+  const mergeSelected = () => runAction(async () => {
+    const target = tags.find(tag => tag.id === mergeTargetId);
+    if (!target) return;
+    await blogService.mergeTags(mergeIds.filter(id => id !== target.id), target.id);
+    toast.success(`Merged ${mergeIds.length - 1} tag${mergeIds.length !== 2 ? 's' : ''} into "${target.name}"`);
+    setMergeIds([]);
+    setPendingAction(null);
+    await loadTags(target.id);
+    onPostsChanged?.();
+  }, 'Failed to merge tags');
+
+  const mergedPostCount = mergeTags.reduce((sum, tag) => sum + tag.post_count, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="w-full max-w-5xl"
+      >
+        <GlassCard className="p-6 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Hash className="text-azure-400" size={24} />
+              <h2 className="text-xl font-bold text-white">Tags</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+              title="Close tag manager"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader className="animate-spin text-azure-400" size={24} />
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-2 gap-6">
+              {/* Tag list */}
+              <div className="space-y-3">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-white/50" size={14} />
+                  <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter tags..."
+                    className={`${inputClass} pl-9`}
+                  />
+                </div>
+
+                {tags.length === 0 ? (
+                  <p className="text-white/60 text-sm">No tags yet. Tags are created when posts use them.</p>
+                ) : (
+                  <ul className="space-y-1 max-h-[55vh] overflow-y-auto pr-1">
+                    {visibleTags.map(tag => (
+                      <li
+                        key={tag.id}
+                        className={`flex items-center gap-2 p-2 rounded-lg transition-colors duration-300 ${
+                          tag.id === selectedId ? 'bg-azure-500/20 ring-1 ring-azure-400' : 'bg-white/5 hover:bg-white/10'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={mergeIds.includes(tag.id)}
+                          onChange={() => toggleMerge(tag.id)}
+                          aria-label={`Select ${tag.name} for merging`}
+                          className="accent-azure-500"
+                        />
+                        <button onClick={() => selectTag(tag)} className="flex-1 min-w-0 text-left">
+                          <p className="text-white text-sm font-medium truncate">{tag.name}</p>
+                          <p className="text-white/50 text-xs truncate">
+                            /{tag.slug}{tag.aliases.length > 0 && ` · also ${tag.aliases.join(', ')}`}
+                          </p>
+                        </button>
+                        <span className="px-2 py-0.5 bg-white/10 text-white/70 rounded-full text-xs flex-none">
+                          {tag.post_count}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Merge the ticked tags */}
+                {mergeIds.length >= 2 && (
+                  <div className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-2">
+                    <label className={labelClass}>Merge {mergeIds.length} tags into</label>
+                    <div className="flex gap-2">
+                      <select
+                        value={mergeTargetId}
+                        onChange={(e) => {
+                          setMergeTargetId(e.target.value);
+                          setPendingAction(null);
+                        }}
+                        className={inputClass}
+                      >
+                        {mergeTags.map(tag => (
+                          <option key={tag.id} value={tag.id} className="bg-gray-800">{tag.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setPendingAction('merge')}
+                        disabled={isWorking}
+                        className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-1 text-sm"
+                      >
+                        <Merge size={14} />
+                        <span>Merge</span>
+                      </button>
+                    </div>
+                    {pendingAction === 'merge' && (
+                      <div className="p-3 bg-azure-500/10 border border-azure-400/30 rounded-lg flex items-center justify-between gap-2">
+                        <span className="text-white/80 text-sm">
+                          Retag up to {mergedPostCount} post{mergedPostCount !== 1 ? 's' : ''}? The other tags' URLs will redirect.
+                        </span>
+                        <div className="flex space-x-2 flex-none">
+                          <button
+                            onClick={() => setPendingAction(null)}
+                            disabled={isWorking}
+                            className="px-3 py-1 text-white/70 hover:text-white hover:bg-white/10 rounded-lg text-sm transition-colors duration-300"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={mergeSelected}
+                            disabled={isWorking}
+                            className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-1"
+                          >
+                            {isWorking ? <Loader className="animate-spin" size={14} /> : <Merge size={14} />}
+                            <span>Merge</span>
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Selected tag */}
+              {selected ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-white/60 text-sm">
+                      Used by {selected.post_count} post{selected.post_count !== 1 ? 's' : ''}
+                    </p>
+                    <a
+                      href={getTagPath(selected)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-azure-400 hover:text-azure-300 text-sm flex items-center space-x-1 transition-colors duration-300"
+                    >
+                      <span>View page</span>
+                      <ExternalLink size={12} />
+                    </a>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={60}
+                      className={inputClass}
+                    />
+                    <p className={`text-xs mt-1 ${slugOwner ? 'text-red-400' : 'text-white/50'}`}>
+                      {slugOwner
+                        ? `/${newSlug} is already used by "${slugOwner.name}"; merge the tags instead`
+                        : `URL: /blog/tag/${newSlug || '…'}`}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Description (shown on the tag page and in search engines)</label>
+                    <textarea
+                      rows={3}
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      maxLength={300}
+                      className={inputClass}
+                    />
+                  </div>
+
+                  {pendingAction === 'delete' && (
+                    <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center justify-between gap-2">
+                      <span className="text-red-300 text-sm">
+                        Remove "{selected.name}" from {selected.post_count} post{selected.post_count !== 1 ? 's' : ''} and delete it?
+                      </span>
+                      <div className="flex space-x-2 flex-none">
+                        <button
+                          onClick={() => setPendingAction(null)}
+                          disabled={isWorking}
+                          className="px-3 py-1 text-white/70 hover:text-white hover:bg-white/10 rounded-lg text-sm transition-colors duration-300"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={deleteTag}
+                          disabled={isWorking}
+                          className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white px-3 py-1 rounded-lg text-sm transition-colors duration-300 flex items-center space-x-1"
+                        >
+                          {isWorking ? <Loader className="animate-spin" size={14} /> : <Trash2 size={14} />}
+                          <span>Delete</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between pt-2">
+                    <button
+                      onClick={() => setPendingAction('delete')}
+                      className="text-red-400 hover:bg-red-500/20 px-3 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2 text-sm"
+                    >
+                      <Trash2 size={14} />
+                      <span>Delete tag</span>
+                    </button>
+                    <button
+                      onClick={saveTag}
+                      disabled={isWorking || !newSlug || !!slugOwner}
+                      className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                    >
+                      {isWorking ? <Loader className="animate-spin" size={16} /> : <Save size={16} />}
+                      <span>{isWorking ? 'Saving...' : 'Save tag'}</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center text-white/50 text-sm p-6 border border-dashed border-white/10 rounded-lg">
+                  Select a tag to rename, describe or delete it. Tick several to merge them.
+                </div>
+              )}
+            </div>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TagManager;
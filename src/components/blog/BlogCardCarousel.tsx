@@ -1,4 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
+import BookmarkButton from './BookmarkButton';
+import type { BookmarkSnapshot } from '../../lib/bookmarks';
 
 interface BlogCardCarouselProps {
   images?: string[];            // Array of image URLs (may be empty)
@@ -11,6 +13,7 @@ interface BlogCardCarouselProps {
   showArrows?: boolean;         // Show prev/next arrows (hover only)
   badge?: React.ReactNode;      // Optional overlay badge (e.g., Featured)
   enableKeyboard?: boolean;     // Allow arrow key navigation (default true)
+  bookmark?: BookmarkSnapshot;  // Post to show a save-for-later toggle for (top left)
 }
 
 // Lightweight carousel for blog listing cards.
@@ -25,7 +28,8 @@ const BlogCardCarousel: React.FC<BlogCardCarouselProps> = ({
   showIndicators = true,
   showArrows = false,
   badge,
-  enableKeyboard = true
+  enableKeyboard = true,
+  bookmark
 }) => {
   const effectiveImages = (images && images.length > 0 ? images : (fallback ? [fallback] : []))
     // Filter out empties / nulls defensively
@@ -91,7 +95,12 @@ const BlogCardCarousel: React.FC<BlogCardCarouselProps> = ({
   if (effectiveImages.length === 0) {
     // Placeholder (keeps layout stable)
     return (
-      <div className={`relative w-full h-full bg-white/10 flex items-center justify-center text-xs text-white/40 ${className}`}>No Image</div>
+      <div className={`relative w-full h-full bg-white/10 flex items-center justify-center text-xs text-white/40 ${className}`}>
+        No Image
+        {bookmark && (
+          <BookmarkButton post={bookmark} size={14} className="absolute top-2 left-2 p-1.5 rounded-full bg-black/40 hover:bg-black/60" />
+        )}
+      </div>
     );
   }
 
@@ -193,6 +202,14 @@ const BlogCardCarousel: React.FC<BlogCardCarouselProps> = ({
 
       {badge}
 
+      {bookmark && (
+        <BookmarkButton
+          post={bookmark}
+          size={14}
+          className="absolute top-2 left-2 p-1.5 rounded-full bg-black/40 hover:bg-black/60"
+        />
+      )}
+
   {showArrows && effectiveImages.length > 1 && (
         <>
           <button
@@ -12,24 +12,103 @@ import {
   TrendingUp,
   BookOpen
 } from 'lucide-react';
-import { Link } from 'react-router-dom';
-import { searchPosts, getAllCategories, type BlogPost } from '../../data/blogData';
+import { Link, useSearchParams } from 'react-router-dom';
+import { searchPosts, getSearchFacets, getAllCategories, type BlogSearchResult } from '../../data/blogData';
+import {
+  getPostPath,
+  READ_TIME_BUCKETS,
+  type ReadTimeBucket,
+  type SearchFacetCounts,
+  type SearchOptions,
+  type SearchSortOrder
+} from '../../lib/blogService';
+import { getSearchResultPath } from '../../lib/searchHighlights';
+import HighlightedText from './HighlightedText';
+import type { OfflineSearch } from '../../lib/offlineSearchIndex';
 
 interface BlogSearchProps {
-  onSearchResults?: (results: BlogPost[]) => void;
+  onSearchResults?: (results: BlogSearchResult[]) => void;
   onCategoryChange?: (category: string) => void;
+  // Facet counts for the current query and filters, whenever they are refreshed
+  onFacetCounts?: (counts: SearchFacetCounts | null) => void;
   className?: string;
 }
 
+type TimeRange = 'all' | 'week' | 'month' | 'year';
+
 interface SearchFilters {
   category: string;
-  sortBy: 'relevance' | 'date' | 'views' | 'likes';
-  timeRange: 'all' | 'week' | 'month' | 'year';
+  // Multi-select: posts must carry every selected tag
+  tags: string[];
+  author: string;
+  readTime: ReadTimeBucket | 'all';
+  // 'all', 'YYYY' or 'YYYY-MM'
+  period: string;
+  sortBy: SearchSortOrder;
+  timeRange: TimeRange;
 }
 
-const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChange, className = '' }) => {
-  const [query, setQuery] = useState('');
-  const [results, setResults] = useState<BlogPost[]>([]);
+const DEFAULT_FILTERS: SearchFilters = {
+  category: 'all',
+  tags: [],
+  author: 'all',
+  readTime: 'all',
+  period: 'all',
+  sortBy: 'relevance',
+  timeRange: 'all'
+};
+
+const SORT_ORDERS: SearchSortOrder[] = ['relevance', 'date', 'views', 'likes'];
+const TIME_RANGES: TimeRange[] = ['all', 'week', 'month', 'year'];
+const PERIOD_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+
+// Query string keys owned by the search box; anything else in the URL is left alone
+const SEARCH_PARAM_KEYS = ['q', 'category', 'tag', 'author', 'read', 'period', 'sort', 'range'];
+
+const readFiltersFromParams = (params: URLSearchParams): SearchFilters => {
+  const readTime = params.get('read');
+  const period = params.get('period');
+  const sortBy = params.get('sort') as SearchSortOrder | null;
+  const timeRange = params.get('range') as TimeRange | null;
+
+  return {
+    category: params.get('category') || DEFAULT_FILTERS.category,
+    tags: Array.from(new Set(params.getAll('tag').filter(Boolean))),
+    author: params.get('author') || DEFAULT_FILTERS.author,
+    readTime: readTime && Object.prototype.hasOwnProperty.call(READ_TIME_BUCKETS, readTime) ? readTime as ReadTimeBucket : DEFAULT_FILTERS.readTime,
+    period: period && PERIOD_PATTERN.test(period) ? period : DEFAULT_FILTERS.period,
+    sortBy: sortBy && SORT_ORDERS.includes(sortBy) ? sortBy : DEFAULT_FILTERS.sortBy,
+    timeRange: timeRange && TIME_RANGES.includes(timeRange) ? timeRange : DEFAULT_FILTERS.timeRange
+  };
+};
+
+// Copy of `params` with the search state written over it; defaults are left out
+const writeSearchParams = (params: URLSearchParams, query: string, filters: SearchFilters) => {
+  const next = new URLSearchParams(params);
+  SEARCH_PARAM_KEYS.forEach(key => next.delete(key));
+
+  if (query.trim()) next.set('q', query.trim());
+  if (filters.category !== 'all') next.set('category', filters.category);
+  filters.tags.forEach(tag => next.append('tag', tag));
+  if (filters.author !== 'all') next.set('author', filters.author);
+  if (filters.readTime !== 'all') next.set('read', filters.readTime);
+  if (filters.period !== 'all') next.set('period', filters.period);
+  if (filters.sortBy !== DEFAULT_FILTERS.sortBy) next.set('sort', filters.sortBy);
+  if (filters.timeRange !== 'all') next.set('range', filters.timeRange);
+  return next;
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+// Facet values, most matches first
+const sortedFacet = (counts: Record<string, number> | undefined) =>
+  Object.entries(counts || {}).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChange, onFacetCounts, className = '' }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get('q') ?? '');
+  const [results, setResults] = useState<BlogSearchResult[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
@@ -37,21 +116,36 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [popularSearches] = useState(['AI', 'Cloud', 'Security', 'UI/UX', 'Career']);
   
-  const [filters, setFilters] = useState<SearchFilters>({
-    category: 'all',
-    sortBy: 'relevance',
-    timeRange: 'all'
-  });
+  const [filters, setFilters] = useState<SearchFilters>(() => readFiltersFromParams(searchParams));
+  const [facets, setFacets] = useState<SearchFacetCounts | null>(null);
 
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<NodeJS.Timeout>();
+  // Ignore responses to queries the reader has already typed past
+  const latestSearchRef = useRef(0);
+  // Local index for instant and offline results; null until loaded
+  const offlineSearchRef = useRef<OfflineSearch | null>(null);
+  const offlineLoadStartedRef = useRef(false);
+  const latestFacetsRef = useRef(0);
 
   useEffect(() => {
     // Load search history immediately but categories only when needed
     loadSearchHistory();
+
+    // Restore a shared or bookmarked search from the URL without opening the dropdown
+    if (query.trim()) {
+      handleSearch(query, filters, false);
+    } else if (filters.category !== 'all' && onCategoryChange) {
+      onCategoryChange(filters.category);
+    }
   }, []);
 
+  useEffect(() => {
+    // Facet counts are only shown in the filter panel
+    if (showFilters) loadFacets(query, filters);
+  }, [showFilters]);
+
   useEffect(() => {
     // Load categories only when search is focused or filters are shown
     if (showResults || showFilters) {
@@ -83,6 +177,22 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
     }
   };
 
+  // Fetch the offline index module and data the first time the search box is used
+  const loadOfflineSearch = () => {
+    if (offlineLoadStartedRef.current) return;
+    offlineLoadStartedRef.current = true;
+
+    import('../../lib/offlineSearchIndex')
+      .then(({ loadOfflineSearch }) => loadOfflineSearch())
+      .then(offlineSearch => {
+        offlineSearchRef.current = offlineSearch;
+      })
+      .catch(error => {
+        console.error('Error loading offline search index:', error);
+        offlineLoadStartedRef.current = false;
+      });
+  };
+
   const loadSearchHistory = () => {
     const history = localStorage.getItem('blog_search_history');
     if (history) {
@@ -103,136 +213,88 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
     localStorage.removeItem('blog_search_history');
   };
 
-  // Advanced search algorithm with fuzzy matching and relevance scoring
-  const performAdvancedSearch = async (searchQuery: string): Promise<BlogPost[]> => {
-    if (!searchQuery.trim()) return [];
+  // Mirror the committed query and filters in the URL so the search can be shared
+  const syncSearchParams = (searchQuery: string, activeFilters: SearchFilters) => {
+    setSearchParams(params => writeSearchParams(params, searchQuery, activeFilters), { replace: true });
+  };
 
-    try {
-      setIsSearching(true);
-      
-      // Get all posts first
-      const allPosts = await searchPosts(searchQuery);
-      
-      // Advanced scoring algorithm
-      const scoredResults = allPosts.map(post => {
-        let score = 0;
-        const queryLower = searchQuery.toLowerCase();
-        const queryWords = queryLower.split(/\s+/).filter(word => word.length > 2);
-        
-        // Title matching (highest weight)
-        const titleLower = post.title.toLowerCase();
-        if (titleLower.includes(queryLower)) score += 100;
-        queryWords.forEach(word => {
-          if (titleLower.includes(word)) score += 50;
-        });
-        
-        // Exact title match bonus
-        if (titleLower === queryLower) score += 200;
-        
-        // Category matching
-        if (post.category.toLowerCase().includes(queryLower)) score += 80;
-        
-        // Tags matching
-        post.tags.forEach(tag => {
-          if (tag.toLowerCase().includes(queryLower)) score += 60;
-          queryWords.forEach(word => {
-            if (tag.toLowerCase().includes(word)) score += 30;
-          });
-        });
-        
-        // Excerpt matching
-        const excerptLower = post.excerpt.toLowerCase();
-        if (excerptLower.includes(queryLower)) score += 40;
-        queryWords.forEach(word => {
-          if (excerptLower.includes(word)) score += 20;
-        });
-        
-        // Content matching (lower weight due to length)
-        const contentLower = post.content.toLowerCase();
-        if (contentLower.includes(queryLower)) score += 20;
-        queryWords.forEach(word => {
-          const matches = (contentLower.match(new RegExp(word, 'g')) || []).length;
-          score += Math.min(matches * 5, 25); // Cap content score
-        });
-        
-        // Popularity boost
-        score += Math.log(post.views + 1) * 2;
-        score += Math.log(post.likes + 1) * 3;
-        
-        // Recency boost
-        const daysSincePublished = (Date.now() - new Date(post.date).getTime()) / (1000 * 60 * 60 * 24);
-        if (daysSincePublished < 30) score += 20;
-        if (daysSincePublished < 7) score += 40;
-        
-        // Featured post boost
-        if (post.featured) score += 30;
-        
-        return { ...post, searchScore: score };
-      });
+  // Map the filter panel onto server-side search options
+  const toSearchOptions = (activeFilters: SearchFilters): SearchOptions => {
+    const daysByRange = { week: 7, month: 30, year: 365 };
+    let since: string | undefined;
+    if (activeFilters.timeRange !== 'all') {
+      const from = new Date();
+      from.setDate(from.getDate() - daysByRange[activeFilters.timeRange]);
+      since = from.toISOString().slice(0, 10);
+    }
 
-      // Filter and sort results
-      let filteredResults = scoredResults.filter(post => post.searchScore > 0);
-      
-      // Apply category filter
-      if (filters.category !== 'all') {
-        filteredResults = filteredResults.filter(post => post.category === filters.category);
-      }
-      
-      // Apply time range filter
-      if (filters.timeRange !== 'all') {
-        const now = new Date();
-        const timeThresholds = {
-          week: 7,
-          month: 30,
-          year: 365
-        };
-        
-        const daysThreshold = timeThresholds[filters.timeRange as keyof typeof timeThresholds];
-        filteredResults = filteredResults.filter(post => {
-          const postDate = new Date(post.date);
-          const daysDiff = (now.getTime() - postDate.getTime()) / (1000 * 60 * 60 * 24);
-          return daysDiff <= daysThreshold;
-        });
-      }
-      
-      // Sort results
-      filteredResults.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'date':
-            return new Date(b.date).getTime() - new Date(a.date).getTime();
-          case 'views':
-            return b.views - a.views;
-          case 'likes':
-            return b.likes - a.likes;
-          case 'relevance':
-          default:
-            return (b as any).searchScore - (a as any).searchScore;
-        }
-      });
-      
-      return filteredResults.slice(0, 20); // Limit to top 20 results
-    } catch (error) {
-      console.error('Search error:', error);
-      return [];
-    } finally {
-      setIsSearching(false);
+    return {
+      category: activeFilters.category === 'all' ? undefined : activeFilters.category,
+      tags: activeFilters.tags,
+      author: activeFilters.author === 'all' ? undefined : activeFilters.author,
+      readTime: activeFilters.readTime === 'all' ? undefined : activeFilters.readTime,
+      period: activeFilters.period === 'all' ? undefined : activeFilters.period,
+      since,
+      sortBy: activeFilters.sortBy,
+      limit: 20
+    };
+  };
+
+  const searchOffline = (searchQuery: string, activeFilters: SearchFilters = filters): BlogSearchResult[] =>
+    (offlineSearchRef.current?.search(searchQuery, toSearchOptions(activeFilters)) ?? [])
+      .map(result => ({ ...result, comments: 0 }));
+
+  // Counts come from the server, or from the local index when it can't be reached
+  const loadFacets = async (searchQuery: string, activeFilters: SearchFilters) => {
+    const facetsId = ++latestFacetsRef.current;
+    const options = toSearchOptions(activeFilters);
+    const counts = (await getSearchFacets(searchQuery, options))
+      ?? offlineSearchRef.current?.facets(searchQuery, options)
+      ?? null;
+    if (facetsId !== latestFacetsRef.current) return;
+
+    setFacets(counts);
+    if (onFacetCounts) {
+      onFacetCounts(counts);
     }
   };
 
-  const handleSearch = async (searchQuery: string) => {
+  const showSearchResults = (searchResults: BlogSearchResult[], reveal: boolean = true) => {
+    setResults(searchResults);
+    if (reveal) setShowResults(true);
+
+    if (onSearchResults) {
+      onSearchResults(searchResults);
+    }
+  };
+
+  // Drop any debounced or in-flight search so it can't repopulate cleared results
+  const cancelPendingSearch = () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    latestSearchRef.current++;
+    setIsSearching(false);
+  };
+
+  const handleSearch = async (searchQuery: string, activeFilters: SearchFilters = filters, reveal: boolean = true) => {
+    syncSearchParams(searchQuery, activeFilters);
+
     if (!searchQuery.trim()) {
+      cancelPendingSearch();
       setResults([]);
       setShowResults(false);
       return;
     }
 
-    const searchResults = await performAdvancedSearch(searchQuery);
-    setResults(searchResults);
-    setShowResults(true);
-    
-    if (onSearchResults) {
-      onSearchResults(searchResults);
-    }
+    const searchId = ++latestSearchRef.current;
+    setIsSearching(true);
+    loadFacets(searchQuery, activeFilters);
+    const serverResults = await searchPosts(searchQuery, toSearchOptions(activeFilters));
+    if (searchId !== latestSearchRef.current) return;
+
+    // Full-text search can't match partial words or typos, and returns nothing when
+    // Supabase is unreachable; the local index covers both
+    setIsSearching(false);
+    showSearchResults(serverResults.length ? serverResults : searchOffline(searchQuery, activeFilters), reveal);
     
     saveSearchHistory(searchQuery);
   };
@@ -252,10 +314,18 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
     setQuery(value);
     
     if (value.trim()) {
+      // Answer from the local index right away; the ranked server results follow
+      const instantResults = searchOffline(value);
+      if (instantResults.length) {
+        latestSearchRef.current++;
+        showSearchResults(instantResults);
+      }
       debouncedSearch(value);
     } else {
+      cancelPendingSearch();
       setResults([]);
       setShowResults(false);
+      syncSearchParams('', filters);
     }
   };
 
@@ -266,41 +336,65 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
   };
 
   const clearSearch = () => {
+    cancelPendingSearch();
     setQuery('');
     setResults([]);
     setShowResults(false);
+    syncSearchParams('', filters);
     inputRef.current?.focus();
   };
 
-  const handleFilterChange = (key: keyof SearchFilters, value: string) => {
-    const newFilters = { ...filters, [key]: value };
+  const handleFilterChange = (changes: Partial<SearchFilters>) => {
+    const newFilters = { ...filters, ...changes };
     setFilters(newFilters);
 
     // If there is no query, treat category selection as a page-level filter (mobile uses this).
-    if (key === 'category' && onCategoryChange && !query.trim()) {
-      onCategoryChange(value);
+    if (changes.category !== undefined && onCategoryChange && !query.trim()) {
+      onCategoryChange(changes.category);
     }
     
     if (query.trim()) {
-      handleSearch(query);
+      handleSearch(query, newFilters);
+    } else {
+      syncSearchParams('', newFilters);
+      loadFacets('', newFilters);
     }
   };
 
-  const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text;
-    
-    const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-azure-400/30 text-azure-300 px-1 rounded">
-          {part}
-        </mark>
-      ) : part
-    );
+  const toggleTag = (tag: string) => {
+    handleFilterChange({
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+    });
   };
 
+  const clearFacetFilters = () => {
+    handleFilterChange({
+      category: DEFAULT_FILTERS.category,
+      tags: DEFAULT_FILTERS.tags,
+      author: DEFAULT_FILTERS.author,
+      readTime: DEFAULT_FILTERS.readTime,
+      period: DEFAULT_FILTERS.period
+    });
+  };
+
+  const hasFacetFilters = filters.category !== 'all' || filters.tags.length > 0 || filters.author !== 'all'
+    || filters.readTime !== 'all' || filters.period !== 'all';
+
+  // Year options carry the sum of their months
+  const periodOptions = React.useMemo(() => {
+    const months = sortedFacet(facets?.month).sort((a, b) => b[0].localeCompare(a[0]));
+    const years = new Map<string, number>();
+    months.forEach(([month, count]) => years.set(month.slice(0, 4), (years.get(month.slice(0, 4)) ?? 0) + count));
+    return Array.from(years.entries()).map(([year, count]) => ({
+      year,
+      count,
+      months: months.filter(([month]) => month.startsWith(year))
+    }));
+  }, [facets]);
+
+  const withCount = (label: string, count: number | undefined) =>
+    facets ? `${label} (${count ?? 0})` : label;
+
   const getSearchSuggestions = () => {
     if (query.trim()) return [];
     
@@ -321,7 +415,10 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
             type="text"
             value={query}
             onChange={handleInputChange}
-            onFocus={() => setShowResults(true)}
+            onFocus={() => {
+              setShowResults(true);
+              loadOfflineSearch();
+            }}
             placeholder="Search articles, topics, or keywords..."
             className="w-full pl-12 pr-20 py-4 bg-white/10 border border-white/20 rounded-2xl text-white placeholder-white/50 focus:outline-none focus:border-azure-400 focus:bg-white/15 transition-all duration-300 text-lg"
           />
@@ -367,13 +464,15 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                   <label className="block text-white/80 text-sm font-medium mb-2">Category</label>
                   <select
                     value={filters.category}
-                    onChange={(e) => handleFilterChange('category', e.target.value)}
+                    onChange={(e) => handleFilterChange({ category: e.target.value })}
                     aria-label="Category"
                     className="w-full px-3 py-2 bg-black/80 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400 appearance-none"
                   >
                     <option value="all" className="bg-black text-white">All Categories</option>
                     {categories.map(category => (
-                      <option key={category} value={category} className="bg-black text-white">{category}</option>
+                      <option key={category} value={category} className="bg-black text-white">
+                        {withCount(category, facets?.category[category])}
+                      </option>
                     ))}
                   </select>
                 </div>
@@ -382,7 +481,7 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                   <label className="block text-white/80 text-sm font-medium mb-2">Sort By</label>
                   <select
                     value={filters.sortBy}
-                    onChange={(e) => handleFilterChange('sortBy', e.target.value)}
+                    onChange={(e) => handleFilterChange({ sortBy: e.target.value as SearchSortOrder })}
                     aria-label="Sort by"
                     className="w-full px-3 py-2 bg-black/80 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400 appearance-none"
                   >
@@ -397,7 +496,7 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                   <label className="block text-white/80 text-sm font-medium mb-2">Time Range</label>
                   <select
                     value={filters.timeRange}
-                    onChange={(e) => handleFilterChange('timeRange', e.target.value)}
+                    onChange={(e) => handleFilterChange({ timeRange: e.target.value as TimeRange })}
                     aria-label="Time range"
                     className="w-full px-3 py-2 bg-black/80 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400 appearance-none"
                   >
@@ -407,6 +506,110 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                     <option value="year" className="bg-black text-white">Past Year</option>
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Author</label>
+                  <select
+                    value={filters.author}
+                    onChange={(e) => handleFilterChange({ author: e.target.value })}
+                    aria-label="Author"
+                    className="w-full px-3 py-2 bg-black/80 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400 appearance-none"
+                  >
+                    <option value="all" className="bg-black text-white">All Authors</option>
+                    {filters.author !== 'all' && !facets?.author[filters.author] && (
+                      <option value={filters.author} className="bg-black text-white">{withCount(filters.author, 0)}</option>
+                    )}
+                    {sortedFacet(facets?.author).map(([author, count]) => (
+                      <option key={author} value={author} className="bg-black text-white">{withCount(author, count)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2">Published</label>
+                  <select
+                    value={filters.period}
+                    onChange={(e) => handleFilterChange({ period: e.target.value })}
+                    aria-label="Published in"
+                    className="w-full px-3 py-2 bg-black/80 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400 appearance-none"
+                  >
+                    <option value="all" className="bg-black text-white">Any Date</option>
+                    {filters.period !== 'all' && !periodOptions.some(({ year, months }) =>
+                      year === filters.period || months.some(([month]) => month === filters.period)
+                    ) && (
+                      <option value={filters.period} className="bg-black text-white">
+                        {withCount(filters.period.length === 4 ? filters.period : formatMonth(filters.period), 0)}
+                      </option>
+                    )}
+                    {periodOptions.map(({ year, count, months }) => (
+                      <optgroup key={year} label={year} className="bg-black text-white">
+                        <option value={year} className="bg-black text-white">{withCount(`All of ${year}`, count)}</option>
+                        {months.map(([month, monthCount]) => (
+                          <option key={month} value={month} className="bg-black text-white">
+                            {withCount(formatMonth(month), monthCount)}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <span className="block text-white/80 text-sm font-medium mb-2">Read Time</span>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(READ_TIME_BUCKETS) as ReadTimeBucket[]).map(bucket => (
+                      <button
+                        key={bucket}
+                        onClick={() => handleFilterChange({ readTime: filters.readTime === bucket ? 'all' : bucket })}
+                        aria-pressed={filters.readTime === bucket}
+                        className={`px-2 py-1 rounded-full text-xs border transition-colors duration-200 ${
+                          filters.readTime === bucket
+                            ? 'bg-azure-400 text-white border-azure-400'
+                            : 'bg-azure-400/20 text-azure-400 border-azure-400/30 hover:bg-azure-400/30'
+                        }`}
+                      >
+                        {withCount(READ_TIME_BUCKETS[bucket], facets?.read_time[bucket])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-white/80 text-sm font-medium">Tags</span>
+                  {hasFacetFilters && (
+                    <button
+                      onClick={clearFacetFilters}
+                      className="text-white/60 hover:text-white text-xs transition-colors duration-200"
+                    >
+                      Clear filters
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                  {[
+                    // Selected tags stay visible even when they fall outside the top 20
+                    ...filters.tags.map((tag): [string, number] => [tag, facets?.tag[tag] ?? 0]),
+                    ...sortedFacet(facets?.tag).filter(([tag]) => !filters.tags.includes(tag)).slice(0, 20)
+                  ].map(([tag, count]) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      aria-pressed={filters.tags.includes(tag)}
+                      className={`px-2 py-1 rounded-full text-xs border transition-colors duration-200 ${
+                        filters.tags.includes(tag)
+                          ? 'bg-azure-400 text-white border-azure-400'
+                          : 'bg-white/10 text-white/70 border-white/20 hover:bg-white/20'
+                      }`}
+                    >
+                      #{tag} <span className="opacity-70">{count}</span>
+                    </button>
+                  ))}
+                  {facets && Object.keys(facets.tag).length === 0 && filters.tags.length === 0 && (
+                    <span className="text-white/40 text-xs">No tags match this search</span>
+                  )}
+                </div>
               </div>
             </motion.div>
           )}
@@ -483,7 +686,7 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                   {results.map((post) => (
                     <Link
                       key={post.id}
-                      to={`/blog/${post.id}`}
+                      to={getSearchResultPath(getPostPath(post), post)}
                       onClick={() => setShowResults(false)}
                       className="block p-3 hover:bg-white/10 rounded-lg transition-colors duration-200 group"
                     >
@@ -502,11 +705,11 @@ const BlogSearch: React.FC<BlogSearchProps> = ({ onSearchResults, onCategoryChan
                         
                         <div className="flex-1 min-w-0">
                           <h4 className="text-white font-medium text-sm line-clamp-1 group-hover:text-azure-400 transition-colors duration-200">
-                            {highlightText(post.title, query)}
+                            <HighlightedText text={post.title_highlight || post.title} />
                           </h4>
                           
                           <p className="text-white/60 text-xs line-clamp-2 mt-1">
-                            {highlightText(post.excerpt, query)}
+                            <HighlightedText text={post.snippet || post.excerpt} />
                           </p>
                           
                           <div className="flex items-center space-x-4 mt-2 text-xs text-white/50">
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Bookmark } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useBookmark } from '../../hooks/useBookmarks';
+import type { BookmarkSnapshot } from '../../lib/bookmarks';
+
+interface BookmarkButtonProps {
+  post: BookmarkSnapshot;
+  size?: number;
+  // Show "Save" / "Saved" next to the icon
+  showLabel?: boolean;
+  className?: string;
+}
+
+// Save a post to the reading list. Safe inside card links: the click doesn't navigate.
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({ post, size = 12, showLabel = false, className = '' }) => {
+  const { saved, toggle } = useBookmark(post);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const nowSaved = toggle();
+    toast.success(nowSaved ? 'Saved to your reading list' : 'Removed from your reading list', { id: `bookmark-${post.id}` });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from reading list' : 'Save for later'}
+      title={saved ? 'Remove from reading list' : 'Save for later'}
+      className={`flex items-center justify-center gap-1 whitespace-nowrap transition-colors ${
+        saved ? 'text-azure-300' : 'text-white/55 hover:text-azure-300'
+      } ${className}`}
+    >
+      <Bookmark size={size} fill={saved ? 'currentColor' : 'none'} />
+      {showLabel && <span>{saved ? 'Saved' : 'Save'}</span>}
+    </button>
+  );
+};
+
+export default BookmarkButton;
@@ -0,0 +1,36 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import 'prismjs/themes/prism-tomorrow.css';
+import { renderCommentHtml } from '../../lib/markdown';
+
+interface CommentBodyProps {
+  content: string;
+  className?: string;
+}
+
+// A comment's markdown rendered through the strict comment policy, with code blocks
+// highlighted like the ones in posts
+const CommentBody: React.FC<CommentBodyProps> = ({ content, className = '' }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const html = useMemo(() => renderCommentHtml(content), [content]);
+
+  useEffect(() => {
+    const root = ref.current;
+    if (!root || !root.querySelector('pre code')) return;
+
+    import('prismjs').then(Prism => {
+      if (typeof Prism.highlightAllUnder === 'function') {
+        Prism.highlightAllUnder(root);
+      }
+    }).catch(() => {});
+  }, [html]);
+
+  return (
+    <div
+      ref={ref}
+      className={`comment-prose ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default CommentBody;
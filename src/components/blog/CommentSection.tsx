@@ -1,47 +1,23 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MessageCircle, Send, Calendar, AlertCircle, CheckCircle, Loader, Heart, Reply, ChevronDown, ChevronUp } from 'lucide-react';
+import { MessageCircle, Send, Calendar, AlertCircle, CheckCircle, Loader, Heart, Reply, ChevronDown, ChevronUp, Clock, CornerDownRight, ArrowLeft, Pencil, Trash2 } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import validator from 'validator';
-import { supabase } from '../../lib/supabase';
 import { abstractEmailValidator } from '../../lib/abstractEmailValidator';
 import { getCommentsForPost } from '../../data/blogData';
 import GlassCard from '../ui/GlassCard';
+import CommentBody from './CommentBody';
 import toast from 'react-hot-toast';
 import { getAvatarUrl } from '../../lib/gravatar';
-
-// Database comment interface
-interface DBComment {
-  id: string;
-  blog_post_id: string;
-  author_name: string;
-  author_email: string;
-  content: string;
-  status: 'pending' | 'approved' | 'rejected';
-  created_at: string;
-  updated_at: string;
-  avatar?: string; // Optional avatar URL
-  likes?: number; // Added for likes
-}
-
-// Database reply interface
-interface DBReply {
-  id: string;
-  comment_id: string;
-  author_name: string;
-  author_email: string;
-  content: string;
-  status: 'pending' | 'approved' | 'rejected';
-  created_at: string;
-  updated_at: string;
-  avatar?: string;
-  likes?: number; // Added for likes
-}
+import { blogService, type BlogComment } from '../../lib/blogService';
 
 interface CommentFormData {
   name: string;
   email: string;
   content: string;
+  // Honeypot: hidden from people, so only bots fill it in
+  website: string;
 }
 
 interface ReplyFormData {
@@ -56,21 +32,68 @@ interface CommentSectionProps {
   autoExpand?: boolean;
 }
 
+// Replies nest on screen down to this depth; deeper ones open as their own thread
+const MAX_VISUAL_DEPTH = 4;
+
+// ?thread=<comment id> shows just that comment and its replies
+const THREAD_PARAM = 'thread';
+
+// How often the comments are read again while the page is visible. Visitors can't subscribe
+// to table changes, so new comments, likes and moderation decisions arrive this way.
+const REFRESH_INTERVAL_MS = 30000;
+
+type SampleComment = ReturnType<typeof getCommentsForPost>[number];
+
+// Sample comments flattened into the same shape as stored ones
+const flattenSampleComments = (samples: SampleComment[], parentId: string | null = null, depth = 0): BlogComment[] =>
+  samples.flatMap(sample => {
+    const id = `sample-${sample.id}`;
+    const comment: BlogComment = {
+      id,
+      parent_id: parentId,
+      depth,
+      author_name: sample.author,
+      content: sample.content,
+      status: 'approved',
+      avatar: sample.avatar ?? null,
+      likes: sample.likes,
+      created_at: sample.date,
+      updated_at: sample.date,
+      edited_at: null,
+      deleted: false,
+      editable_until: null
+    };
+    return [comment, ...flattenSampleComments(sample.replies || [], id, depth + 1)];
+  });
+
+// Comments posted without a database and sample comments only live on this page
+const isStoredComment = (id: string) => !id.startsWith('local-') && !id.startsWith('sample-');
+
 const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unusedPostTitle, onCommentCountChange, autoOpenForm = false, autoExpand = false }) => {
-  const [comments, setComments] = useState<DBComment[]>([]);
-  const [replies, setReplies] = useState<DBReply[]>([]);
-  const [dummyComments, setDummyComments] = useState<any[]>([]);
+  // Every comment and reply of the post, oldest first; the tree is built from parent_id
+  const [comments, setComments] = useState<BlogComment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isValidatingEmail, setIsValidatingEmail] = useState(false);
   const [showCommentForm, setShowCommentForm] = useState(false);
+  const [commentFormTab, setCommentFormTab] = useState<'write' | 'preview'>('write');
   const [isMobile, setIsMobile] = useState(false);
   const [isMobileExpanded, setIsMobileExpanded] = useState(false);
   const [mobileVisibleCount, setMobileVisibleCount] = useState(3);
   const [likedComments, setLikedComments] = useState<Set<string>>(new Set());
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [replyFormData, setReplyFormData] = useState<{ [key: string]: string }>({});
-  const [expandedReplies, setExpandedReplies] = useState<Set<string>>(new Set());
+  const [collapsedThreads, setCollapsedThreads] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  // Bumped while any of this visitor's comments can still be changed, so the Edit and
+  // Delete buttons disappear once the window closes
+  const [, setClock] = useState(0);
+  const [searchParams] = useSearchParams();
+  const focusedThreadId = searchParams.get(THREAD_PARAM);
+  const previousThreadIdRef = useRef<string | null>(focusedThreadId);
   const autoOpenHandledRef = useRef<string | null>(null);
 
   // Add a ref to prevent duplicate like requests
@@ -91,6 +114,38 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
     loadComments();
   }, [postId]);
 
+  const commentsRef = useRef(comments);
+  commentsRef.current = comments;
+
+  // Keep the list current while the page is open, and catch up when the tab is shown again
+  useEffect(() => {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    if (isLoading || !supabaseUrl || supabaseUrl.includes('your-project')) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const before = commentsRef.current;
+      const rows = await blogService.getComments(postId);
+      // Anything the visitor did meanwhile wins until the next refresh, and a failed read
+      // (which comes back empty) doesn't blank the list
+      if (cancelled || commentsRef.current !== before) return;
+      if (rows.length === 0 && before.some(comment => isStoredComment(comment.id))) return;
+      setComments([...flattenSampleComments(getCommentsForPost(postId)), ...rows]);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+
+    const timer = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [postId, isLoading]);
+
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const mq = window.matchMedia('(max-width: 639px)');
@@ -193,105 +248,47 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
     }
   }, [watch('email'), debouncedEmailValidation]);
 
-  // Real-time subscription for likes
-  useEffect(() => {
-    const commentSub = supabase
-      .channel('public:blog_comments')
-  .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'blog_comments' }, (payload: any) => {
-        const updated = payload.new;
-        setComments(prev => prev.map(c => c.id === updated.id ? { ...c, likes: updated.likes } : c));
-      })
-      .subscribe();
-
-    const replySub = supabase
-      .channel('public:comment_replies')
-  .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'comment_replies' }, (payload: any) => {
-        const updated = payload.new;
-        setReplies(prev => prev.map(r => r.id === updated.id ? { ...r, likes: updated.likes } : r));
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(commentSub);
-      supabase.removeChannel(replySub);
-    };
-  }, []);
-
   useEffect(() => {
     // Update comment count when comments change
     if (onCommentCountChange) {
-      const totalCount = comments.length + getTotalDummyCommentCount();
-      onCommentCountChange(totalCount);
+      onCommentCountChange(comments.length);
     }
-  }, [comments, dummyComments, onCommentCountChange]);
+  }, [comments, onCommentCountChange]);
 
-  const getTotalDummyCommentCount = () => {
-    let count = dummyComments.length;
-    dummyComments.forEach(comment => {
-      if (comment.replies) {
-        count += comment.replies.length;
-      }
+  // Entering a thread scrolls to its first comment; leaving it returns to where it was opened
+  useEffect(() => {
+    const scrollTarget = focusedThreadId ?? previousThreadIdRef.current;
+    previousThreadIdRef.current = focusedThreadId;
+    if (!scrollTarget || isLoading) return;
+    requestAnimationFrame(() => {
+      document.getElementById(`comment-${scrollTarget}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
     });
-    return count;
-  };
+  }, [focusedThreadId, isLoading]);
+
+  const hasEditableComments = comments.some(comment => blogService.canEditComment(comment));
+  useEffect(() => {
+    if (!hasEditableComments) return;
+    const timer = window.setInterval(() => setClock(tick => tick + 1), 30000);
+    return () => window.clearInterval(timer);
+  }, [hasEditableComments]);
 
   const loadComments = async () => {
     try {
       setIsLoading(true);
       
-      // Load dummy comments
-      const dummyData = getCommentsForPost(postId);
-      setDummyComments(dummyData);
-      
+      const samples = flattenSampleComments(getCommentsForPost(postId));
+
       // Check if Supabase is properly configured
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
       if (!supabaseUrl || supabaseUrl.includes('your-project')) {
         console.log('Supabase not configured, using dummy comments only');
-        setComments([]);
+        setComments(samples);
         return;
       }
 
-      const { data, error } = await supabase
-        .from('blog_comments')
-        .select('*')
-        .eq('blog_post_id', postId)
-        .in('status', ['approved', 'pending']) // Show both approved and pending comments
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('Error loading comments:', error);
-        setComments([]);
-      } else {
-        // Add avatars to comments
-        const commentsWithAvatars = (data || []).map((comment: any) => ({
-          ...comment,
-          avatar: getAvatarUrl(comment.author_email, comment.author_name, { size: 40 })
-        }));
-        setComments(commentsWithAvatars);
-
-        // Load replies for all comments
-        if (commentsWithAvatars.length > 0) {
-          const commentIds = commentsWithAvatars.map((c: DBComment) => c.id);
-          const { data: repliesData, error: repliesError } = await supabase
-            .from('comment_replies')
-            .select('*')
-            .in('comment_id', commentIds)
-            .in('status', ['approved', 'pending'])
-            .order('created_at', { ascending: true });
-
-          if (repliesError) {
-            console.error('Error loading replies:', repliesError);
-            setReplies([]);
-          } else {
-            // Add avatars to replies
-            const repliesWithAvatars = (repliesData || []).map((reply: any) => ({
-              ...reply,
-              avatar: getAvatarUrl(reply.author_email, reply.author_name, { size: 32 })
-            }));
-            setReplies(repliesWithAvatars);
-          }
-        }
-      }
+      // Approved comments and replies at every depth, plus this visitor's own ones awaiting moderation
+      const rows = await blogService.getComments(postId);
+      setComments([...samples, ...rows]);
     } catch (error) {
       console.error('Error loading comments:', error);
       setComments([]);
@@ -348,161 +345,93 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
         }
       }
 
-      // Create comment immediately (local-first approach)
-      const newComment: DBComment = {
-        id: `local-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        blog_post_id: postId,
+      const input = {
         author_name: data.name.trim(),
         author_email: data.email.toLowerCase().trim(),
         content: data.content.trim(),
-        status: 'approved',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
         avatar: getAvatarUrl(data.email.toLowerCase().trim(), data.name.trim(), { size: 40 })
       };
 
-      // Add comment to state immediately
-      setComments(prev => [...prev, newComment]);
-      
-      // Update comment count immediately
-      if (onCommentCountChange) {
-        onCommentCountChange(getTotalDummyCommentCount() + comments.length + 1);
+      // Without a database the comment only lives on this page
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      if (!supabaseUrl || supabaseUrl.includes('your-project')) {
+        const now = new Date().toISOString();
+        setComments(prev => [...prev, {
+          ...input,
+          id: `local-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          parent_id: null,
+          depth: 0,
+          status: 'approved',
+          likes: 0,
+          created_at: now,
+          updated_at: now,
+          edited_at: null,
+          deleted: false,
+          editable_until: null
+        }]);
+        toast('Comment saved locally (database unavailable)', { icon: '💾', duration: 3000 });
+        reset();
+        setCommentFormTab('write');
+        setShowCommentForm(false);
+        return;
       }
 
-      // Show success message immediately
-      toast.success('Comment posted successfully!');
+      const saved = await blogService.submitComment(postId, { ...input, honeypot: data.website });
+      setComments(prev => [...prev, saved]);
+
+      if (saved.status === 'approved') {
+        toast.success('Comment posted successfully!');
+      } else {
+        toast.success('Thanks! Your comment is awaiting moderation. Only you can see it until it is approved.', {
+          duration: 6000
+        });
+      }
       reset();
+      setCommentFormTab('write');
       setShowCommentForm(false);
-
-      // Try to save to database in background (non-blocking)
-      const saveToDatabase = async () => {
-        try {
-          const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-          if (!supabaseUrl || supabaseUrl.includes('your-project')) {
-            console.log('📝 Supabase not configured, keeping comment local');
-            return;
-          }
-
-          console.log('🔄 Attempting to save comment to database...');
-          
-          // Try to save comment to database
-          const { data: insertedComment, error } = await supabase
-            .from('blog_comments')
-            .insert([{
-              blog_post_id: postId,
-              author_name: data.name.trim(),
-              author_email: data.email.toLowerCase().trim(),
-              content: data.content.trim(),
-              status: 'approved'
-            }])
-            .select()
-            .single();
-
-          if (error) {
-            console.log('❌ Database save failed:', error);
-            console.log('📝 Comment remains local (database unavailable)');
-            
-            // Show a subtle notification that it's saved locally
-            toast('Comment saved locally (database unavailable)', {
-              icon: '💾',
-              duration: 3000
-            });
-          } else {
-            console.log('✅ Database save successful:', insertedComment.id);
-            
-            // Update the comment with real ID
-            const realCommentWithAvatar = {
-              ...insertedComment,
-              avatar: insertedComment.avatar || getAvatarUrl(insertedComment.author_email, insertedComment.author_name, { size: 40 })
-            };
-            
-            setComments(prev => prev.map(c => 
-              c.id === newComment.id ? realCommentWithAvatar : c
-            ));
-            
-            console.log('✅ Comment updated with database ID');
-            
-            // Show success notification
-            toast.success('Comment saved to database!', {
-              duration: 2000
-            });
-          }
-
-        } catch (error) {
-          console.log('📝 Database save failed, comment remains local:', error);
-          
-          // Show a subtle notification that it's saved locally
-          toast('Comment saved locally (database unavailable)', {
-            icon: '💾',
-            duration: 3000
-          });
-        }
-      };
-
-      // Save to database in background (don't wait for it)
-      saveToDatabase();
-
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error in comment submission:', error);
-      
-      // Even if there's an error, try to add the comment locally
-      try {
-        const fallbackComment: DBComment = {
-          id: `fallback-${Date.now()}`,
-          blog_post_id: postId,
-          author_name: data.name.trim(),
-          author_email: data.email.toLowerCase().trim(),
-          content: data.content.trim(),
-          status: 'approved',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          avatar: getAvatarUrl(data.email.toLowerCase().trim(), data.name.trim(), { size: 40 })
-        };
-
-        setComments(prev => [...prev, fallbackComment]);
-        toast.success('Comment posted successfully! (Fallback mode)');
-        reset();
-        setShowCommentForm(false);
-      } catch (fallbackError) {
-        console.error('Fallback also failed:', fallbackError);
-        toast.error('Failed to submit comment. Please try again.');
-      }
+      toast.error(error?.message ? `Failed to submit comment: ${error.message}` : 'Failed to submit comment. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  // Update handleLikeComment to persist to DB
-  const handleLikeComment = async (commentId: string, isReply = false) => {
+  // Like or unlike a comment or reply. Stored comments are counted on the server; the
+  // sample comments only keep the like on this page.
+  const handleLikeComment = async (commentId: string) => {
     if (likeRequestInProgress.current[commentId]) return;
+
+    const wasLiked = likedComments.has(commentId);
+    const toggleLiked = () => setLikedComments(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(commentId)) newSet.delete(commentId); else newSet.add(commentId);
+      return newSet;
+    });
+
+    const stored = comments.find(c => c.id === commentId);
+    if (!stored || !isStoredComment(stored.id)) {
+      toggleLiked();
+      return;
+    }
+    if (stored.status !== 'approved') return;
+
     likeRequestInProgress.current[commentId] = true;
+    const delta = wasLiked ? -1 : 1;
+    toggleLiked();
+    setComments(prev => prev.map(c => c.id === commentId ? { ...c, likes: Math.max(0, c.likes + delta) } : c));
 
-    if (!isReply) {
-      const comment = comments.find(c => c.id === commentId);
-      if (!comment) return;
-      const newLikes = (comment.likes || 0) + (likedComments.has(commentId) ? -1 : 1);
-      setComments(prev => prev.map(c => c.id === commentId ? { ...c, likes: newLikes } : c));
-      setLikedComments(prev => {
-        const newSet = new Set(prev);
-        if (newSet.has(commentId)) newSet.delete(commentId); else newSet.add(commentId);
-        return newSet;
-      });
-      // Persist to DB
-      await supabase.from('blog_comments').update({ likes: newLikes }).eq('id', commentId);
-    } else {
-      const reply = replies.find(r => r.id === commentId);
-      if (!reply) return;
-      const newLikes = (reply.likes || 0) + (likedComments.has(commentId) ? -1 : 1);
-      setReplies(prev => prev.map(r => r.id === commentId ? { ...r, likes: newLikes } : r));
-      setLikedComments(prev => {
-        const newSet = new Set(prev);
-        if (newSet.has(commentId)) newSet.delete(commentId); else newSet.add(commentId);
-        return newSet;
-      });
-      // Persist to DB
-      await supabase.from('comment_replies').update({ likes: newLikes }).eq('id', commentId);
+    try {
+      const likes = await blogService.adjustCommentLikes(commentId, delta);
+      setComments(prev => prev.map(c => c.id === commentId ? { ...c, likes } : c));
+    } catch (error) {
+      console.error('Error updating comment like:', error);
+      toggleLiked();
+      setComments(prev => prev.map(c => c.id === commentId ? { ...c, likes: stored.likes } : c));
+      toast.error('Could not update the like. Please try again.');
+    } finally {
+      likeRequestInProgress.current[commentId] = false;
     }
-    likeRequestInProgress.current[commentId] = false;
   };
 
   const handleReplyClick = (commentId: string) => {
@@ -515,8 +444,8 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
     }
   };
 
-  const toggleReplies = (commentId: string) => {
-    setExpandedReplies(prev => {
+  const toggleThread = (commentId: string) => {
+    setCollapsedThreads(prev => {
       const newSet = new Set(prev);
       if (newSet.has(commentId)) {
         newSet.delete(commentId);
@@ -534,41 +463,59 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
       return;
     }
 
-    // Find the comment to get author info for the reply
     const parentComment = comments.find(c => c.id === commentId);
     if (!parentComment) {
       toast.error('Parent comment not found');
       return;
     }
 
-    // Create reply immediately (local-first approach)
-    const newReply: DBReply = {
-      id: `local-reply-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      comment_id: commentId,
+    const input = {
       author_name: 'You',
       author_email: 'reply@local.com',
       content: replyContent.trim(),
-      status: 'approved',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
       avatar: getAvatarUrl('reply@local.com', 'You', { size: 32 })
     };
 
-    // Add reply to state immediately
-    setReplies(prev => [...prev, newReply]);
+    let newReply: BlogComment;
+    if (!isStoredComment(parentComment.id)) {
+      // Replies to a comment that never reached the database stay on this page too
+      const now = new Date().toISOString();
+      newReply = {
+        ...input,
+        id: `local-reply-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        parent_id: commentId,
+        depth: parentComment.depth + 1,
+        status: 'approved',
+        likes: 0,
+        created_at: now,
+        updated_at: now,
+        edited_at: null,
+        deleted: false,
+        editable_until: null
+      };
+    } else {
+      try {
+        newReply = {
+          ...await blogService.submitComment(postId, input, commentId),
+          depth: parentComment.depth + 1
+        };
+      } catch (error: any) {
+        console.error('Error in reply submission:', error);
+        toast.error(error?.message ? `Failed to submit reply: ${error.message}` : 'Failed to submit reply. Please try again.');
+        return;
+      }
+    }
 
-    // Debug: Log expandedReplies before and after
-    console.log('Before expanding:', Array.from(expandedReplies));
-    setExpandedReplies(prev => {
-      const newSet = new Set(prev);
-      newSet.add(commentId);
-      console.log('After expanding:', Array.from(newSet));
-      return newSet;
+    setComments(prev => [...prev, newReply]);
+    setCollapsedThreads(prev => {
+      const next = new Set(prev);
+      next.delete(commentId);
+      return next;
     });
 
     // Scroll to the new reply after a short delay (for better UX)
     setTimeout(() => {
-      const replyElement = document.getElementById(`reply-${newReply.id}`);
+      const replyElement = document.getElementById(`comment-${newReply.id}`);
       if (replyElement) {
         replyElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
       }
@@ -577,59 +524,80 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
     // Clear reply form and close reply input
     setReplyFormData(prev => ({ ...prev, [commentId]: '' }));
     setReplyingTo(null);
-    
-    // Auto-expand replies to show the new reply
-    // setExpandedReplies(prev => new Set([...prev, commentId])); // This line is now handled by the new setExpandedReplies call
 
-    // Show success message immediately
-    toast.success('Reply added successfully!');
+    if (newReply.status === 'approved') {
+      toast.success('Reply added successfully!');
+    } else {
+      toast.success('Thanks! Your reply is awaiting moderation. Only you can see it until it is approved.', {
+        duration: 6000
+      });
+    }
+  };
 
-    // Try to save to database in background (non-blocking)
-    const saveReplyToDatabase = async () => {
-      try {
-        const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-        if (!supabaseUrl || supabaseUrl.includes('your-project')) {
-          console.log('📝 Supabase not configured, keeping reply local');
-          return;
-        }
+  const startEditing = (comment: BlogComment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.content);
+    setConfirmingDeleteId(null);
+  };
 
-        console.log('🔄 Attempting to save reply to database...');
-        
-        const { data: savedReply, error } = await supabase
-          .from('comment_replies')
-          .insert([{
-            comment_id: commentId,
-            author_name: 'You',
-            author_email: 'reply@local.com',
-            content: replyContent.trim()
-          }])
-          .select()
-          .single();
-
-        if (error) {
-          console.log('❌ Reply database save failed:', error);
-        } else {
-          console.log('✅ Reply database save successful:', savedReply.id);
-          
-          // Update reply with real ID
-          const realReplyWithAvatar: DBReply = {
-            ...savedReply,
-            avatar: savedReply.avatar || getAvatarUrl(savedReply.author_email, savedReply.author_name, { size: 32 })
-          };
-          
-          setReplies(prev => prev.map(r => 
-            r.id === newReply.id ? realReplyWithAvatar : r
-          ));
-          
-          console.log('✅ Reply updated with database ID');
-        }
-      } catch (error) {
-        console.log('📝 Reply database save failed, reply remains local:', error);
+  const handleEditSave = async (comment: BlogComment) => {
+    const content = editDraft.trim();
+    if (content.length < 10) {
+      toast.error('Comment must be at least 10 characters long');
+      return;
+    }
+    if (content === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      const saved = await blogService.editComment(comment.id, content);
+      setComments(prev => prev.map(c => c.id === comment.id ? { ...c, ...saved } : c));
+      setEditingId(null);
+      if (saved.status === 'pending' && comment.status !== 'pending') {
+        toast.success('Comment updated. It is awaiting moderation again; only you can see it until it is approved.', {
+          duration: 6000
+        });
+      } else {
+        toast.success('Comment updated');
       }
-    };
+    } catch (error: any) {
+      console.error('Error editing comment:', error);
+      toast.error(error?.message ? `Failed to update comment: ${error.message}` : 'Failed to update comment. Please try again.');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
 
-    // Save to database in background (don't wait for it)
-    saveReplyToDatabase();
+  const handleDelete = async (comment: BlogComment) => {
+    setConfirmingDeleteId(null);
+    try {
+      const result = await blogService.deleteComment(comment.id);
+      if (result === 'tombstoned') {
+        setComments(prev => prev.map(c => c.id === comment.id
+          ? { ...c, deleted: true, author_name: '', content: '', avatar: null, editable_until: null }
+          : c));
+      } else {
+        // Tombstones left without replies go too, as they do on the server
+        setComments(prev => {
+          let next = prev.filter(c => c.id !== comment.id);
+          let parentId = comment.parent_id;
+          while (parentId) {
+            const parent = next.find(c => c.id === parentId);
+            if (!parent?.deleted || next.some(c => c.parent_id === parentId)) break;
+            next = next.filter(c => c.id !== parentId);
+            parentId = parent.parent_id;
+          }
+          return next;
+        });
+      }
+      toast.success('Comment deleted');
+    } catch (error: any) {
+      console.error('Error deleting comment:', error);
+      toast.error(error?.message ? `Failed to delete comment: ${error.message}` : 'Failed to delete comment. Please try again.');
+    }
   };
 
   const handleReplyInputChange = (commentId: string, value: string) => {
@@ -661,19 +629,43 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
       .slice(0, 2);
   };
 
-  const getRepliesForComment = (commentId: string): DBReply[] => {
-    return replies.filter(reply => reply.comment_id === commentId);
+  const repliesByParent = useMemo(() => {
+    const byParent = new Map<string | null, BlogComment[]>();
+    comments.forEach(comment => {
+      const siblings = byParent.get(comment.parent_id);
+      if (siblings) siblings.push(comment); else byParent.set(comment.parent_id, [comment]);
+    });
+    return byParent;
+  }, [comments]);
+
+  const getReplies = (commentId: string | null): BlogComment[] => repliesByParent.get(commentId) || [];
+
+  const countDescendants = (commentId: string): number =>
+    getReplies(commentId).reduce((count, reply) => count + 1 + countDescendants(reply.id), 0);
+
+  // Link to a single thread (or back to every comment), keeping the rest of the query string
+  const threadLink = (commentId: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (commentId) next.set(THREAD_PARAM, commentId); else next.delete(THREAD_PARAM);
+    return { search: next.toString() };
   };
 
-  const renderComment = (comment: any, isReply = false) => (
+  // visualDepth counts from the top of what is on screen, so a thread opened on its own
+  // starts again at 0
+  const renderComment = (comment: BlogComment, visualDepth = 0): React.ReactNode => {
+    const canChange = blogService.canEditComment(comment);
+    const isEditing = editingId === comment.id;
+    const maxLength = comment.parent_id ? 500 : 1000;
+
+    return (
     <motion.div
       key={comment.id}
-      id={isReply ? `reply-${comment.id}` : undefined}
+      id={`comment-${comment.id}`}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.5 }}
-      className={`w-full max-w-full bg-white/5 rounded-lg p-3 sm:p-4 border border-white/10 overflow-hidden ${
-        isReply ? 'mt-3 border-l border-l-white/15 pl-3 sm:pl-4 sm:ml-6 sm:w-[calc(100%-1.5rem)]' : ''
+      className={`w-full max-w-full bg-white/5 rounded-lg p-3 sm:p-4 border border-white/10 overflow-hidden scroll-mt-24 ${
+        visualDepth > 0 ? 'border-l-white/15 pl-3 sm:pl-4' : ''
       }`}
     >
       <div className="flex items-start gap-4 min-w-0">
@@ -695,37 +687,88 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
         
         <div className="flex-1 min-w-0">
           <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2 min-w-0">
-            <h4 className="text-white font-semibold text-sm min-w-0 max-w-full truncate">
-              {comment.author || comment.author_name}
+            <h4 className={`font-semibold text-sm min-w-0 max-w-full truncate ${comment.deleted ? 'text-white/40 italic' : 'text-white'}`}>
+              {comment.deleted ? 'Deleted' : comment.author_name}
             </h4>
             <div className="flex items-center gap-1 text-white/60 text-xs min-w-0">
               <Calendar size={12} />
-              <span className="min-w-0 truncate">{formatDate(comment.date || comment.created_at)}</span>
+              <span className="min-w-0 truncate">{formatDate(comment.created_at)}</span>
             </div>
+            {comment.edited_at && !comment.deleted && (
+              <span className="text-white/40 text-xs italic" title={`Edited ${formatDate(comment.edited_at)}`}>
+                edited
+              </span>
+            )}
+            {comment.status === 'pending' && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded-full text-xs whitespace-nowrap"
+                title="Only you can see this until it is approved"
+              >
+                <Clock size={12} />
+                <span>Awaiting moderation</span>
+              </span>
+            )}
           </div>
           
-          <p className="text-white/80 leading-relaxed text-sm mb-3 break-words whitespace-pre-wrap">{comment.content}</p>
-          
-          <div className="flex flex-wrap items-center gap-4">
-            <button
-              onClick={() => handleLikeComment(comment.id, isReply)}
-              className={`flex items-center space-x-1 text-xs transition-colors duration-200 hover:scale-105 ${
-                likedComments.has(comment.id) 
-                  ? 'text-red-400' 
-                  : 'text-white/60 hover:text-red-400'
-              }`}
-            >
-              <Heart 
-                size={14} 
-                fill={likedComments.has(comment.id) ? 'currentColor' : 'none'} 
-                className="transition-transform duration-200"
+          {comment.deleted ? (
+            <p className="text-white/40 italic text-sm mb-3">This comment was deleted.</p>
+          ) : isEditing ? (
+            <div className="mb-3">
+              <textarea
+                value={editDraft}
+                onChange={(e) => setEditDraft(e.target.value)}
+                maxLength={maxLength}
+                rows={4}
+                aria-label="Edit your comment"
+                className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 resize-none text-sm"
               />
-              <span>
-                {(comment.likes || 0) + (likedComments.has(comment.id) ? (isReply ? 0 : 1) : 0)}
-              </span>
-            </button>
+              <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <p className="text-white/40 text-xs">
+                  {editDraft.length}/{maxLength} characters
+                </p>
+                <div className="flex flex-wrap gap-2 sm:justify-end">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-white/60 hover:text-white transition-colors duration-200 text-xs"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleEditSave(comment)}
+                    disabled={isSavingEdit || editDraft.trim().length < 10}
+                    className="bg-azure-500 hover:bg-azure-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1 rounded text-xs transition-colors duration-200 flex items-center space-x-1 whitespace-nowrap"
+                  >
+                    {isSavingEdit ? <Loader className="animate-spin" size={12} /> : <Send size={12} />}
+                    <span>Save</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <CommentBody content={comment.content} className="mb-3" />
+          )}
+
+          {!comment.deleted && (
+            <div className="flex flex-wrap items-center gap-4">
+              <button
+                onClick={() => handleLikeComment(comment.id)}
+                disabled={comment.status === 'pending'}
+                className={`flex items-center space-x-1 text-xs transition-colors duration-200 hover:scale-105 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100 ${
+                  likedComments.has(comment.id) 
+                    ? 'text-red-400' 
+                    : 'text-white/60 hover:text-red-400'
+                }`}
+              >
+                <Heart 
+                  size={14} 
+                  fill={likedComments.has(comment.id) ? 'currentColor' : 'none'} 
+                  className="transition-transform duration-200"
+                />
+                <span>
+                  {(comment.likes || 0) + (likedComments.has(comment.id) && !isStoredComment(comment.id) ? 1 : 0)}
+                </span>
+              </button>
             
-            {!isReply && (
               <button 
                 onClick={() => handleReplyClick(comment.id)}
                 className={`flex items-center space-x-1 transition-colors duration-200 text-xs hover:scale-105 whitespace-nowrap ${
@@ -737,8 +780,40 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
                 <Reply size={14} />
                 <span>{replyingTo === comment.id ? 'Cancel' : 'Reply'}</span>
               </button>
-            )}
-          </div>
+
+              {canChange && !isEditing && (
+                confirmingDeleteId === comment.id ? (
+                  <span className="flex items-center gap-2 text-xs text-white/60 whitespace-nowrap">
+                    <span>Delete this comment?</span>
+                    <button onClick={() => handleDelete(comment)} className="text-red-400 hover:text-red-300">
+                      Delete
+                    </button>
+                    <button onClick={() => setConfirmingDeleteId(null)} className="hover:text-white">
+                      Keep
+                    </button>
+                  </span>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => startEditing(comment)}
+                      title={comment.editable_until ? `You can change this until ${formatDate(comment.editable_until)}` : undefined}
+                      className="flex items-center space-x-1 text-white/60 hover:text-azure-400 transition-colors duration-200 text-xs hover:scale-105 whitespace-nowrap"
+                    >
+                      <Pencil size={14} />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={() => setConfirmingDeleteId(comment.id)}
+                      className="flex items-center space-x-1 text-white/60 hover:text-red-400 transition-colors duration-200 text-xs hover:scale-105 whitespace-nowrap"
+                    >
+                      <Trash2 size={14} />
+                      <span>Delete</span>
+                    </button>
+                  </>
+                )
+              )}
+            </div>
+          )}
 
           {/* Reply Form */}
           <AnimatePresence>
@@ -758,7 +833,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
                     <textarea
                       value={replyFormData[comment.id] || ''}
                       onChange={(e) => handleReplyInputChange(comment.id, e.target.value)}
-                      placeholder={`Reply to ${comment.author || comment.author_name}...`}
+                      placeholder={`Reply to ${comment.author_name}...`}
                       rows={3}
                       className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 resize-none text-sm"
                     />
@@ -790,63 +865,70 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
           </AnimatePresence>
 
           {/* Replies Section */}
-          {!isReply && (
-            <div className="mt-4">
-              {(() => {
-                const commentReplies = getRepliesForComment(comment.id);
-                const hasReplies = commentReplies.length > 0;
-                
-                return (
-                  <>
-                    {hasReplies && (
-                      <div className="mb-3">
-                        <button
-                          onClick={() => toggleReplies(comment.id)}
-                          className="flex items-center space-x-1 text-azure-400 hover:text-azure-300 text-xs transition-colors duration-200"
-                        >
-                          {expandedReplies.has(comment.id) ? (
-                            <ChevronUp size={12} />
-                          ) : (
-                            <ChevronDown size={12} />
-                          )}
-                          <span>
-                            {expandedReplies.has(comment.id) ? 'Hide' : 'Show'} {commentReplies.length} {commentReplies.length === 1 ? 'reply' : 'replies'}
-                          </span>
-                        </button>
-                      </div>
-                    )}
-                    
-                    <AnimatePresence>
-                      {expandedReplies.has(comment.id) && hasReplies && (
-                        <motion.div
-                          initial={{ opacity: 0, height: 0 }}
-                          animate={{ opacity: 1, height: 'auto' }}
-                          exit={{ opacity: 0, height: 0 }}
-                          transition={{ duration: 0.3 }}
-                          className="space-y-3"
-                        >
-                          {commentReplies.map((reply) => renderComment(reply, true))}
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-                  </>
-                );
-              })()}
-            </div>
-          )}
+          {(() => {
+            const commentReplies = getReplies(comment.id);
+            if (commentReplies.length === 0) return null;
+            const replyCount = countDescendants(comment.id);
+            const replyLabel = `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`;
+
+            if (visualDepth >= MAX_VISUAL_DEPTH) {
+              return (
+                <div className="mt-4">
+                  <Link
+                    to={threadLink(comment.id)}
+                    className="flex items-center space-x-1 text-azure-400 hover:text-azure-300 text-xs transition-colors duration-200"
+                  >
+                    <CornerDownRight size={12} />
+                    <span>Continue this thread ({replyLabel})</span>
+                  </Link>
+                </div>
+              );
+            }
+
+            const isCollapsed = collapsedThreads.has(comment.id);
+            return (
+              <div className="mt-4">
+                <div className="mb-3">
+                  <button
+                    onClick={() => toggleThread(comment.id)}
+                    aria-expanded={!isCollapsed}
+                    className="flex items-center space-x-1 text-azure-400 hover:text-azure-300 text-xs transition-colors duration-200"
+                  >
+                    {isCollapsed ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+                    <span>{isCollapsed ? 'Show' : 'Hide'} {replyLabel}</span>
+                  </button>
+                </div>
+
+                <AnimatePresence>
+                  {!isCollapsed && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                      transition={{ duration: 0.3 }}
+                      className="space-y-3"
+                    >
+                      {commentReplies.map(reply => renderComment(reply, visualDepth + 1))}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            );
+          })()}
         </div>
       </div>
     </motion.div>
-  );
+    );
+  };
 
-  const totalComments = comments.length + replies.length + getTotalDummyCommentCount();
+  const totalComments = comments.length;
 
-  const totalTopLevelCount = dummyComments.length + comments.length;
+  // A focused thread replaces the list of top-level comments with its own first comment
+  const focusedThread = focusedThreadId ? comments.find(c => c.id === focusedThreadId) : undefined;
+  const threadRoots = focusedThreadId ? (focusedThread ? [focusedThread] : []) : getReplies(null);
   const showAllOnThisViewport = !isMobile || isMobileExpanded;
-  const visibleDummy = showAllOnThisViewport ? dummyComments : dummyComments.slice(0, mobileVisibleCount);
-  const remainingSlots = showAllOnThisViewport ? comments.length : Math.max(0, mobileVisibleCount - visibleDummy.length);
-  const visibleReal = showAllOnThisViewport ? comments : comments.slice(0, remainingSlots);
-  const canShowMore = isMobile && isMobileExpanded && totalTopLevelCount > (visibleDummy.length + visibleReal.length);
+  const visibleRoots = showAllOnThisViewport ? threadRoots : threadRoots.slice(0, mobileVisibleCount);
+  const canShowMore = isMobile && isMobileExpanded && threadRoots.length > visibleRoots.length;
 
   return (
     <GlassCard className="p-4 sm:p-6">
@@ -935,6 +1017,14 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
               </div>
               
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-3 sm:space-y-4">
+                {/* Honeypot */}
+                <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                  <label>
+                    Website
+                    <input type="text" tabIndex={-1} autoComplete="off" {...register('website')} />
+                  </label>
+                </div>
+
                 {/* Avatar Preview */}
                 <div className="flex items-center space-x-3 mb-2 sm:mb-4">
                   <div className="w-10 h-10 sm:w-12 sm:h-12 bg-azure-500/20 rounded-full flex items-center justify-center text-azure-400 font-semibold text-sm overflow-hidden">
@@ -1052,9 +1142,37 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
                 </div>
 
                 <div>
-                  <label className="block text-white/80 text-xs sm:text-sm font-medium mb-1.5 sm:mb-2">
-                    Comment *
-                  </label>
+                  <div className="flex items-center justify-between mb-1.5 sm:mb-2">
+                    <label className="block text-white/80 text-xs sm:text-sm font-medium">
+                      Comment *
+                    </label>
+                    <div className="flex rounded-lg bg-white/5 p-0.5 text-xs" role="tablist">
+                      {(['write', 'preview'] as const).map(tab => (
+                        <button
+                          key={tab}
+                          type="button"
+                          role="tab"
+                          aria-selected={commentFormTab === tab}
+                          onClick={() => setCommentFormTab(tab)}
+                          className={`px-2.5 py-1 rounded-md capitalize transition-colors duration-200 ${
+                            commentFormTab === tab ? 'bg-azure-500/30 text-white' : 'text-white/60 hover:text-white'
+                          }`}
+                        >
+                          {tab}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {commentFormTab === 'preview' && (
+                    <div className="w-full min-h-[5.5rem] px-3 py-2 bg-white/5 border border-white/20 rounded-lg">
+                      {watch('content')?.trim() ? (
+                        <CommentBody content={watch('content')} />
+                      ) : (
+                        <p className="text-white/40 text-sm">Nothing to preview yet.</p>
+                      )}
+                    </div>
+                  )}
+                  {/* Stays mounted while previewing so the form keeps its value and validation */}
                   <textarea
                     {...register('content', { 
                       required: 'Comment is required',
@@ -1062,7 +1180,9 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
                       maxLength: { value: 1000, message: 'Comment must be less than 1000 characters' }
                     })}
                     rows={isMobile ? 3 : 4}
-                    className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 resize-none text-sm"
+                    className={`w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400 transition-colors duration-300 resize-none text-sm ${
+                      commentFormTab === 'preview' ? 'hidden' : ''
+                    }`}
                     placeholder="Share your thoughts about this post..."
                     disabled={isSubmitting}
                   />
@@ -1074,6 +1194,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
                       </p>
                     )}
                     <p className="text-white/40 text-xs ml-auto">
+                      <span className="hidden sm:inline">Markdown: `code`, ``` blocks, [links](url), lists, &gt; quotes · </span>
                       {watch('content')?.length || 0}/1000
                     </p>
                   </div>
@@ -1128,55 +1249,31 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId, postTitle: _unu
           </div>
         ) : (
           <>
-            {/* Dummy Comments */}
-            {visibleDummy.map((comment) => (
-              <div key={comment.id}>
-                {renderComment(comment)}
-                
-                {/* Replies Toggle Button */}
-                {comment.replies && comment.replies.length > 0 && (
-                  <div className="ml-8 mt-2">
-                    <button
-                      onClick={() => toggleReplies(comment.id)}
-                      className="flex items-center space-x-2 text-azure-400 hover:text-azure-300 transition-colors duration-200 text-sm"
-                    >
-                      {expandedReplies.has(comment.id) ? (
-                        <>
-                          <ChevronUp size={16} />
-                          <span>Hide {comment.replies.length} {comment.replies.length === 1 ? 'reply' : 'replies'}</span>
-                        </>
-                      ) : (
-                        <>
-                          <ChevronDown size={16} />
-                          <span>Show {comment.replies.length} {comment.replies.length === 1 ? 'reply' : 'replies'}</span>
-                        </>
-                      )}
-                    </button>
-                  </div>
+            {focusedThreadId && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+                <Link
+                  to={threadLink(null)}
+                  className="flex items-center space-x-1 text-azure-400 hover:text-azure-300 transition-colors duration-200"
+                >
+                  <ArrowLeft size={12} />
+                  <span>Back to all comments</span>
+                </Link>
+                {focusedThread?.parent_id && (
+                  <Link
+                    to={threadLink(focusedThread.parent_id)}
+                    className="text-white/60 hover:text-azure-300 transition-colors duration-200"
+                  >
+                    Show parent comment
+                  </Link>
                 )}
-
-                {/* Render replies when expanded */}
-                <AnimatePresence>
-                  {expandedReplies.has(comment.id) && comment.replies && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: 'auto' }}
-                      exit={{ opacity: 0, height: 0 }}
-                      transition={{ duration: 0.3 }}
-                    >
-                      {comment.replies.map((reply: any) => (
-                        renderComment(reply, true)
-                      ))}
-                    </motion.div>
-                  )}
-                </AnimatePresence>
               </div>
-            ))}
-            
-            {/* Real Comments from Supabase */}
-            {visibleReal.map((comment) => (
-              renderComment(comment)
-            ))}
+            )}
+
+            {focusedThreadId && !focusedThread && (
+              <p className="text-white/60 text-sm py-4">This thread is no longer available.</p>
+            )}
+
+            {visibleRoots.map(comment => renderComment(comment))}
 
             {canShowMore && (
               <div className="pt-2">
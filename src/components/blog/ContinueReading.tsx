@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { BookOpen, X } from 'lucide-react';
+import ProgressiveImage from '../ui/ProgressiveImage';
+import { getPostCardsByIds, type BlogPostCard } from '../../data/blogData';
+import { blogService, getPostPath } from '../../lib/blogService';
+import {
+  forgetReadingProgress,
+  getUnfinishedReads,
+  mergeReadingProgress,
+  type ReadingProgressEntry
+} from '../../lib/readingProgress';
+
+const MAX_POSTS = 6;
+
+interface UnfinishedPost {
+  post: BlogPostCard;
+  entry: ReadingProgressEntry;
+}
+
+const ContinueReading: React.FC = () => {
+  const [items, setItems] = useState<UnfinishedPost[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      // Pick up progress from the reader's other sessions before deciding what to show
+      mergeReadingProgress(await blogService.getRemoteReadingProgress());
+      const entries = getUnfinishedReads().slice(0, MAX_POSTS);
+      const posts = await getPostCardsByIds(entries.map(entry => entry.postId));
+      if (cancelled) return;
+
+      const byId = new Map(posts.map(post => [post.id, post]));
+      setItems(entries.flatMap(entry => {
+        const post = byId.get(entry.postId);
+        return post ? [{ post, entry }] : [];
+      }));
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const dismiss = (postId: string) => {
+    forgetReadingProgress(postId);
+    setItems(prev => prev.filter(item => item.post.id !== postId));
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6 }}
+      className="mb-8 px-3 sm:px-0"
+      aria-label="Continue reading"
+    >
+      <div className="flex items-center space-x-2 mb-3">
+        <BookOpen className="text-azure-400" size={18} />
+        <h2 className="text-white font-semibold">Continue reading</h2>
+      </div>
+      <div className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 -mx-1 px-1">
+        {items.map(({ post, entry }) => {
+          const percent = Math.round(entry.progress * 100);
+          return (
+            <div
+              key={post.id}
+              className="relative flex-none w-64 sm:w-72 snap-start overflow-hidden rounded-2xl bg-white/5 backdrop-blur-md border border-white/10"
+            >
+              <Link to={getPostPath(post)} className="group flex items-center gap-3 p-3">
+                <div className="w-16 h-16 flex-none rounded-lg overflow-hidden">
+                  <ProgressiveImage
+                    src={post.image_url || post.images?.[0] || ''}
+                    alt={post.title}
+                    wrapperClassName="w-full h-full"
+                    className="object-cover"
+                    skeleton
+                    lazy
+                  />
+                </div>
+                <div className="min-w-0 flex-1 pr-4">
+                  <p className="text-white text-sm font-medium line-clamp-2 group-hover:text-azure-300 transition-colors duration-300">
+                    {post.title}
+                  </p>
+                  <p className="text-white/50 text-xs mt-1">{percent}% read · {post.read_time}</p>
+                </div>
+              </Link>
+              <button
+                onClick={() => dismiss(post.id)}
+                aria-label={`Remove "${post.title}" from Continue reading`}
+                title="Remove"
+                className="absolute top-2 right-2 p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors duration-200"
+              >
+                <X size={12} />
+              </button>
+              <div className="h-1 bg-white/10">
+                <div className="h-full bg-azure-400" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.section>
+  );
+};
+
+export default ContinueReading;
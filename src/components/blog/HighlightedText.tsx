@@ -0,0 +1,28 @@
+import React from 'react';
+import { splitHighlights } from '../../lib/searchHighlights';
+
+interface HighlightedTextProps {
+  // Text with search matches marked up as described in lib/searchHighlights
+  text: string;
+  className?: string;
+}
+
+// Renders search matches as <mark> elements; the text itself is never parsed as HTML
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  className = 'bg-azure-400/30 text-azure-300 px-1 rounded'
+}) => (
+  <>
+    {splitHighlights(text).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className={className}>
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedText;
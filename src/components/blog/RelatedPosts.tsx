@@ -5,6 +5,7 @@ import { Link } from 'react-router-dom';
 import { Calendar, Clock, ArrowRight, Eye, Heart, BookOpen } from 'lucide-react';
 import GlassCard from '../ui/GlassCard';
 import { BlogPost } from '../../data/blogData';
+import { getPostPath } from '../../lib/blogService';
 
 interface RelatedPostsProps {
   posts: BlogPost[];
@@ -40,7 +41,7 @@ const RelatedPosts: React.FC<RelatedPostsProps> = ({
             transition={{ duration: 0.5, delay: index * 0.1 }}
           >
             <Link
-              to={`/blog/${post.id}`}
+              to={getPostPath(post)}
               className="group block h-full"
             >
               <div className="bg-white/5 rounded-lg overflow-hidden hover:bg-white/10 transition-all duration-300 h-full flex flex-col group-hover:scale-105">
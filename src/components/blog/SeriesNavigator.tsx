@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, ArrowLeft, ArrowRight, ChevronDown, CheckCircle2 } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import { getPostPath, getSeriesPath, type BlogSeriesWithPosts } from '../../lib/blogService';
+
+interface SeriesNavigatorProps {
+  series: BlogSeriesWithPosts;
+  currentPostId: string;
+}
+
+const SeriesNavigator: React.FC<SeriesNavigatorProps> = ({ series, currentPostId }) => {
+  const [showParts, setShowParts] = useState(false);
+  const index = series.posts.findIndex(post => post.id === currentPostId);
+
+  if (index === -1 || series.posts.length < 2) return null;
+
+  const total = series.posts.length;
+  const previous = index > 0 ? series.posts[index - 1] : null;
+  const next = index < total - 1 ? series.posts[index + 1] : null;
+  const progress = Math.round(((index + 1) / total) * 100);
+
+  return (
+    <GlassCard className="p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center space-x-2 text-azure-300 text-xs font-medium mb-1">
+            <Layers size={14} />
+            <span>Part {index + 1} of {total}</span>
+          </div>
+          <Link
+            to={getSeriesPath(series)}
+            className="text-white font-semibold hover:text-azure-300 transition-colors duration-300"
+          >
+            {series.title}
+          </Link>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowParts(prev => !prev)}
+          className="flex items-center space-x-1 text-white/60 hover:text-white text-xs transition-colors duration-300 flex-none"
+          aria-expanded={showParts}
+        >
+          <span>All parts</span>
+          <ChevronDown size={14} className={`transition-transform duration-300 ${showParts ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {/* Progress through the series */}
+      <div
+        className="h-1.5 bg-white/10 rounded-full overflow-hidden mb-4"
+        role="progressbar"
+        aria-valuemin={1}
+        aria-valuemax={total}
+        aria-valuenow={index + 1}
+        aria-label={`Part ${index + 1} of ${total}`}
+      >
+        <div className="h-full bg-azure-500 rounded-full" style={{ width: `${progress}%` }} />
+      </div>
+
+      {showParts && (
+        <ol className="space-y-1 mb-4">
+          {series.posts.map((part, partIndex) => {
+            const isCurrent = part.id === currentPostId;
+            return (
+              <li key={part.id}>
+                <Link
+                  to={getPostPath(part)}
+                  aria-current={isCurrent ? 'page' : undefined}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-colors duration-300 ${
+                    isCurrent ? 'bg-azure-500/20 text-azure-300' : 'text-white/70 hover:bg-white/5 hover:text-white'
+                  }`}
+                >
+                  {partIndex < index ? (
+                    <CheckCircle2 size={14} className="text-green-400 flex-none" />
+                  ) : (
+                    <span className="w-3.5 text-center text-xs text-white/50 flex-none">{partIndex + 1}</span>
+                  )}
+                  <span className="line-clamp-1">{part.title}</span>
+                </Link>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {previous ? (
+          <Link
+            to={getPostPath(previous)}
+            className="group bg-white/5 hover:bg-white/10 rounded-lg p-3 transition-colors duration-300"
+          >
+            <div className="flex items-center space-x-1 text-white/50 text-xs mb-1">
+              <ArrowLeft size={12} className="group-hover:-translate-x-1 transition-transform duration-300" />
+              <span>Previous</span>
+            </div>
+            <div className="text-white text-sm line-clamp-2">{previous.title}</div>
+          </Link>
+        ) : <div />}
+        {next ? (
+          <Link
+            to={getPostPath(next)}
+            className="group bg-white/5 hover:bg-white/10 rounded-lg p-3 text-right transition-colors duration-300"
+          >
+            <div className="flex items-center justify-end space-x-1 text-white/50 text-xs mb-1">
+              <span>Next</span>
+              <ArrowRight size={12} className="group-hover:translate-x-1 transition-transform duration-300" />
+            </div>
+            <div className="text-white text-sm line-clamp-2">{next.title}</div>
+          </Link>
+        ) : <div />}
+      </div>
+    </GlassCard>
+  );
+};
+
+export default SeriesNavigator;
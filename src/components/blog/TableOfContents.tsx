@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { List, Link2, ChevronDown, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { OutlineItem } from '../../lib/markdown';
+
+interface TableOfContentsProps {
+  outline: OutlineItem[];
+  activeId: string | null;
+}
+
+// Copy a deep link to a section of the current post
+export const copySectionLink = (id: string) => {
+  const url = `${window.location.origin}${window.location.pathname}#${id}`;
+  navigator.clipboard.writeText(url).then(
+    () => toast.success('Link to section copied'),
+    () => toast.error('Could not copy link')
+  );
+};
+
+const scrollToSection = (id: string) => {
+  const el = document.getElementById(id);
+  if (!el) return;
+  el.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  window.history.replaceState(window.history.state, '', `#${id}`);
+};
+
+const TableOfContents: React.FC<TableOfContentsProps> = ({ outline, activeId }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const minLevel = Math.min(...outline.map(item => item.level));
+
+  const renderItems = (onNavigate?: () => void) => (
+    <ul className="space-y-1">
+      {outline.map(item => {
+        const isActive = item.id === activeId;
+        return (
+          <li
+            key={item.id}
+            className="group flex items-center gap-1"
+            style={{ paddingLeft: `${(item.level - minLevel) * 0.75}rem` }}
+          >
+            <a
+              href={`#${item.id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                scrollToSection(item.id);
+                onNavigate?.();
+              }}
+              className={`flex-1 min-w-0 text-xs py-1 pl-2 border-l-2 transition-colors duration-300 line-clamp-2 ${
+                isActive
+                  ? 'border-azure-400 text-azure-300'
+                  : 'border-transparent text-white/60 hover:text-white'
+              }`}
+              aria-current={isActive ? 'location' : undefined}
+            >
+              {item.text}
+            </a>
+            <button
+              type="button"
+              onClick={() => copySectionLink(item.id)}
+              className="p-1 text-white/40 hover:text-azure-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity duration-300"
+              title="Copy link to section"
+              aria-label={`Copy link to ${item.text}`}
+            >
+              <Link2 size={12} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  if (outline.length === 0) return null;
+
+  return (
+    <>
+      {/* Desktop: sticky sidebar beside the article */}
+      <nav
+        aria-label="Table of contents"
+        className="hidden xl:block fixed top-28 right-4 xl:w-44 2xl:w-64 max-h-[calc(100vh-9rem)] overflow-y-auto glass-card rounded-2xl p-4 z-20"
+      >
+        <button
+          type="button"
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="w-full flex items-center justify-between text-white text-sm font-semibold mb-2"
+          aria-expanded={isExpanded}
+        >
+          <span className="flex items-center gap-2">
+            <List size={14} className="text-azure-400" />
+            On this page
+          </span>
+          <ChevronDown size={14} className={`transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+        {isExpanded && renderItems()}
+      </nav>
+
+      {/* Mobile/tablet: floating button that opens a drawer */}
+      <button
+        type="button"
+        onClick={() => setIsDrawerOpen(true)}
+        className="xl:hidden fixed bottom-24 lg:bottom-6 left-4 z-30 flex items-center gap-2 bg-azure-500 hover:bg-azure-600 text-white text-xs px-3 py-2 rounded-full shadow-lg transition-colors duration-300"
+        aria-label="Open table of contents"
+      >
+        <List size={14} />
+        <span>Contents</span>
+      </button>
+
+      <AnimatePresence>
+        {isDrawerOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="xl:hidden fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-end"
+            onClick={() => setIsDrawerOpen(false)}
+          >
+            <motion.nav
+              aria-label="Table of contents"
+              initial={{ y: '100%' }}
+              animate={{ y: 0 }}
+              exit={{ y: '100%' }}
+              transition={{ type: 'tween', duration: 0.25 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full max-h-[70vh] overflow-y-auto bg-[#111827] border-t border-white/10 rounded-t-2xl p-4"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="flex items-center gap-2 text-white text-sm font-semibold">
+                  <List size={14} className="text-azure-400" />
+                  On this page
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setIsDrawerOpen(false)}
+                  className="p-1 text-white/60 hover:text-white transition-colors duration-200"
+                  aria-label="Close table of contents"
+                >
+                  <X size={18} />
+                </button>
+              </div>
+              {renderItems(() => setIsDrawerOpen(false))}
+            </motion.nav>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
+export default TableOfContents;
@@ -1,18 +1,23 @@
 import React, { useEffect } from 'react';
 import ProgressiveImage from '../ui/ProgressiveImage';
-import { Outlet, useLocation } from 'react-router-dom';
+import { Outlet, useLocation, useNavigationType } from 'react-router-dom';
 import Header from './Header';
 import Footer from './Footer';
 import MobileBottomNav from './MobileBottomNav';
 import SocialLinks from '../ui/SocialLinks';
 import { motion } from 'framer-motion';
+import { getScrollPosition } from '../../lib/scrollRestoration';
 
 const Layout: React.FC = () => {
   const location = useLocation();
+  const navigationType = useNavigationType();
   const isHome = location.pathname === '/';
 
   // Smooth scroll to top on route change with minimal movement
   useEffect(() => {
+    // Back/forward to a page that saved its scroll position: that page restores it
+    if (navigationType === 'POP' && getScrollPosition(location.pathname) !== null) return;
+
     const scrollToTop = () => {
       window.scrollTo({
         top: 0,
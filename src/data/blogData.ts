@@ -1,9 +1,28 @@
-import { blogService, type BlogPost as DBBlogPost } from '../lib/blogService';
+import {
+  blogService,
+  type BlogPost as DBBlogPost,
+  type BlogPostCard as DBBlogPostCard,
+  type PostCursor,
+  type PostPageOptions,
+  type ForYouPageOptions,
+  type BlogSearchResult as DBBlogSearchResult,
+  type SearchFacetCounts,
+  type SearchOptions
+} from '../lib/blogService';
 
 export interface BlogPost extends DBBlogPost {
   comments: number; // This will be calculated from the comments table
 }
 
+// List-view projection of a post (no content)
+export interface BlogPostCard extends DBBlogPostCard {
+  comments: number;
+}
+
+export interface BlogSearchResult extends DBBlogSearchResult {
+  comments: number;
+}
+
 // Mock comment data for demonstration (keep for comment count calculation only)
 interface Comment {
   id: string;
@@ -36,6 +55,20 @@ export const getBlogPostById = async (id: string): Promise<BlogPost | undefined>
   }
 };
 
+export const getBlogPostBySlug = async (slug: string): Promise<BlogPost | undefined> => {
+  try {
+    const post = await blogService.getPostBySlug(slug);
+    if (!post) return undefined;
+    return {
+      ...post,
+      comments: 0
+    };
+  } catch (error) {
+    console.error('Error getting blog post by slug:', error);
+    return undefined;
+  }
+};
+
 export const getFeaturedPosts = async (): Promise<BlogPost[]> => {
   try {
     const posts = await blogService.getFeaturedPosts();
@@ -75,7 +108,7 @@ export const getPostsByCategory = async (category: string): Promise<BlogPost[]>
   }
 };
 
-export const getRelatedPosts = async (currentPostId: string, category: string, limit: number = 3): Promise<BlogPost[]> => {
+export const getRelatedPosts = async (currentPostId: string, category: string, limit: number = 3): Promise<BlogPostCard[]> => {
   try {
     const posts = await blogService.getRelatedPosts(currentPostId, category, limit);
     return posts.map(post => ({
@@ -97,9 +130,67 @@ export const getAllCategories = async (): Promise<string[]> => {
   }
 };
 
-export const searchPosts = async (query: string): Promise<BlogPost[]> => {
+export const getPostsPage = async (
+  options: PostPageOptions = {}
+): Promise<{ posts: BlogPostCard[]; nextCursor: PostCursor | null }> => {
+  try {
+    const page = await blogService.getPostsPage(options);
+    return {
+      posts: page.posts.map(post => ({
+        ...post,
+        comments: 0
+      })),
+      nextCursor: page.nextCursor
+    };
+  } catch (error) {
+    console.error('Error getting posts page:', error);
+    return { posts: [], nextCursor: null };
+  }
+};
+
+export const getForYouPage = async (
+  options: ForYouPageOptions = {}
+): Promise<{ posts: BlogPostCard[]; nextOffset: number | null }> => {
   try {
-    const posts = await blogService.searchPosts(query);
+    const page = await blogService.getForYouPage(options);
+    return {
+      posts: page.posts.map(post => ({
+        ...post,
+        comments: 0
+      })),
+      nextOffset: page.nextOffset
+    };
+  } catch (error) {
+    console.error('Error getting For You page:', error);
+    return { posts: [], nextOffset: null };
+  }
+};
+
+export const getPostCardsByIds = async (ids: string[]): Promise<BlogPostCard[]> => {
+  try {
+    const posts = await blogService.getPostCardsByIds(ids);
+    return posts.map(post => ({
+      ...post,
+      comments: 0
+    }));
+  } catch (error) {
+    console.error('Error getting posts by id:', error);
+    return [];
+  }
+};
+
+export const getCategoryCounts = async (): Promise<Record<string, number>> => {
+  try {
+    return await blogService.getCategoryCounts();
+  } catch (error) {
+    console.error('Error getting category counts:', error);
+    return {};
+  }
+};
+
+export const searchPosts = async (query: string, options: SearchOptions = {}): Promise<BlogSearchResult[]> => {
+  try {
+    const posts = await blogService.searchPosts(query, options);
     return posts.map(post => ({
       ...post,
       comments: 0
@@ -110,6 +201,15 @@ export const searchPosts = async (query: string): Promise<BlogPost[]> => {
   }
 };
 
+export const getSearchFacets = async (query: string, options: SearchOptions = {}): Promise<SearchFacetCounts | null> => {
+  try {
+    return await blogService.getSearchFacets(query, options);
+  } catch (error) {
+    console.error('Error getting search facets:', error);
+    return null;
+  }
+};
+
 export const getAllPosts = async (): Promise<BlogPost[]> => {
   try {
     const posts = await blogService.getAllPosts();
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { blogService } from '../lib/blogService';
+import {
+  getBookmarks,
+  isBookmarked,
+  setBookmark,
+  subscribeToBookmarks,
+  type Bookmark,
+  type BookmarkSnapshot
+} from '../lib/bookmarks';
+
+/**
+ * Whether a post is on the reading list, kept in step with other components and tabs.
+ * `toggle` saves locally straight away and syncs in the background.
+ */
+export const useBookmark = (post: BookmarkSnapshot | null | undefined) => {
+  const postId = post?.id;
+  const [saved, setSaved] = useState(() => (postId ? isBookmarked(postId) : false));
+
+  useEffect(() => {
+    if (!postId) return;
+    const update = () => setSaved(isBookmarked(postId));
+    update();
+    return subscribeToBookmarks(update);
+  }, [postId]);
+
+  const toggle = () => {
+    if (!post) return saved;
+    setBookmark(post, !saved);
+    blogService.syncBookmarks();
+    return !saved;
+  };
+
+  return { saved, toggle };
+};
+
+// The whole reading list, most recently saved first
+export const useBookmarks = () => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(getBookmarks);
+
+  useEffect(() => {
+    const update = () => setBookmarks(getBookmarks());
+    update();
+    return subscribeToBookmarks(update);
+  }, []);
+
+  return bookmarks;
+};
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getForYouPage, type BlogPostCard } from '../data/blogData';
+
+interface UseForYouFeedOptions {
+  category?: string;
+  limit?: number;
+  // Nothing is fetched while false (e.g. another tab is showing)
+  enabled: boolean;
+  // Changes when the reader's feed preferences do, so the ranking starts over
+  preferencesKey: string;
+}
+
+interface FeedState {
+  filterKey: string;
+  posts: BlogPostCard[];
+  nextOffset: number | null;
+  loaded: boolean;
+}
+
+/**
+ * The "For You" feed: published post cards ranked for this visitor, loaded page by page.
+ * Unlike usePostFeed it is not restored from sessionStorage on back navigation, because
+ * the post just read has dropped out of the ranking.
+ */
+export const useForYouFeed = ({ category, limit = 10, enabled, preferencesKey }: UseForYouFeedOptions) => {
+  const filterKey = JSON.stringify([category ?? null, limit, preferencesKey]);
+
+  const [state, setState] = useState<FeedState>({ filterKey, posts: [], nextOffset: null, loaded: false });
+  const [isLoading, setIsLoading] = useState(false);
+  const requestRef = useRef(0);
+  const isLoadingRef = useRef(false);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const requestId = ++requestRef.current;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+
+    const page = await getForYouPage({ category, limit, offset });
+    // A newer request (e.g. after a filter change) supersedes this one
+    if (requestId !== requestRef.current) return;
+
+    setState(prev => {
+      const known = new Set(offset > 0 ? prev.posts.map(post => post.id) : []);
+      return {
+        filterKey,
+        posts: offset > 0 ? [...prev.posts, ...page.posts.filter(post => !known.has(post.id))] : page.posts,
+        nextOffset: page.nextOffset,
+        loaded: true
+      };
+    });
+    isLoadingRef.current = false;
+    setIsLoading(false);
+  }, [filterKey]);
+
+  useEffect(() => {
+    if (!enabled || (state.loaded && state.filterKey === filterKey)) return;
+    setState({ filterKey, posts: [], nextOffset: null, loaded: false });
+    fetchPage(0);
+  }, [filterKey, enabled]);
+
+  const loadMore = useCallback(() => {
+    if (isLoadingRef.current || state.nextOffset === null) return;
+    fetchPage(state.nextOffset);
+  }, [fetchPage, state.nextOffset]);
+
+  return {
+    posts: state.posts,
+    hasMore: state.nextOffset !== null,
+    isLoading,
+    isLoaded: state.loaded,
+    loadMore
+  };
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Call `onLoadMore` whenever the returned sentinel ref comes within `rootMargin` of the
+ * viewport. Sentinels inside hidden (display: none) sections never trigger.
+ */
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean, rootMargin: string = '400px') => {
+  const [node, setNode] = useState<Element | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!node || !enabled) return;
+
+    // A fresh observer reports the current state, so a sentinel that is still
+    // visible after a page loads keeps loading until the viewport is filled
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+    }, { rootMargin });
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, enabled, rootMargin]);
+
+  return setNode;
+};
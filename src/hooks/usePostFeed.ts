@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getPostsPage, type BlogPostCard } from '../data/blogData';
+import type { PostCursor, PostPageOptions } from '../lib/blogService';
+
+interface UsePostFeedOptions extends Omit<PostPageOptions, 'cursor'> {
+  // Identifies the feed in sessionStorage so its pages survive a visit to a post
+  cacheKey: string;
+  // Start from the cached pages (when the filters match) instead of the first page
+  restore?: boolean;
+}
+
+interface FeedState {
+  filterKey: string;
+  posts: BlogPostCard[];
+  nextCursor: PostCursor | null;
+  loaded: boolean;
+}
+
+const storageKey = (cacheKey: string) => `post-feed:${cacheKey}`;
+
+const readCachedFeed = (cacheKey: string, filterKey: string): FeedState | null => {
+  try {
+    const raw = sessionStorage.getItem(storageKey(cacheKey));
+    if (!raw) return null;
+    const cached = JSON.parse(raw) as FeedState;
+    return cached.filterKey === filterKey && cached.loaded ? cached : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Paginated, filterable list of published post cards loaded with keyset cursors.
+ * Changing a filter starts over from the first page.
+ */
+export const usePostFeed = ({ cacheKey, restore = false, category, tag, featured, limit = 10 }: UsePostFeedOptions) => {
+  const filterKey = JSON.stringify([category ?? null, tag ?? null, featured ?? null, limit]);
+
+  const [state, setState] = useState<FeedState>(() =>
+    (restore && readCachedFeed(cacheKey, filterKey)) || { filterKey, posts: [], nextCursor: null, loaded: false }
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const requestRef = useRef(0);
+  const isLoadingRef = useRef(false);
+
+  const fetchPage = useCallback(async (cursor: PostCursor | null) => {
+    const requestId = ++requestRef.current;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+
+    const page = await getPostsPage({ category, tag, featured, limit, cursor });
+    // A newer request (e.g. after a filter change) supersedes this one
+    if (requestId !== requestRef.current) return;
+
+    setState(prev => {
+      const known = new Set(cursor ? prev.posts.map(post => post.id) : []);
+      return {
+        filterKey,
+        posts: cursor ? [...prev.posts, ...page.posts.filter(post => !known.has(post.id))] : page.posts,
+        nextCursor: page.nextCursor,
+        loaded: true
+      };
+    });
+    isLoadingRef.current = false;
+    setIsLoading(false);
+  }, [filterKey]);
+
+  useEffect(() => {
+    if (state.loaded && state.filterKey === filterKey) return;
+    setState({ filterKey, posts: [], nextCursor: null, loaded: false });
+    fetchPage(null);
+  }, [filterKey]);
+
+  useEffect(() => {
+    if (!state.loaded) return;
+    try {
+      sessionStorage.setItem(storageKey(cacheKey), JSON.stringify(state));
+    } catch {
+      // Caching is an optimisation only
+    }
+  }, [cacheKey, state]);
+
+  const loadMore = useCallback(() => {
+    if (isLoadingRef.current || !state.nextCursor) return;
+    fetchPage(state.nextCursor);
+  }, [fetchPage, state.nextCursor]);
+
+  return {
+    posts: state.posts,
+    hasMore: state.nextCursor !== null,
+    isLoading,
+    isLoaded: state.loaded,
+    loadMore
+  };
+};
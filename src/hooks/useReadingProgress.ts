@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { blogService } from '../lib/blogService';
+import { getReadingProgress, saveReadingProgress, READ_STARTED_AT, type ReadingProgressEntry } from '../lib/readingProgress';
+
+// Smallest change worth writing to localStorage, and how often at most
+const SAVE_STEP = 0.01;
+const SAVE_INTERVAL_MS = 1000;
+// Progress is synced to the server each time the reader passes another tenth of the post
+const SYNC_STEP = 0.1;
+// The returned progress moves in whole percents, so scrolling only re-renders the page
+// when the bar would visibly change
+const DISPLAY_STEPS = 100;
+
+// 0 with the article top at the viewport top, 1 once its end is at the viewport bottom
+const measureProgress = (root: HTMLElement) => {
+  const rect = root.getBoundingClientRect();
+  const scrollable = rect.height - window.innerHeight;
+  if (scrollable <= 0) return rect.top <= 0 ? 1 : 0;
+  return Math.min(1, Math.max(0, -rect.top / scrollable));
+};
+
+/**
+ * Track how far through the post body the reader has scrolled. Progress is saved locally
+ * as it changes and synced (see blogService.syncReadingProgress) at milestones and when
+ * the page is hidden or left. Returns the progress to show (to the nearest percent), what
+ * was saved before this visit, and `resume()` to scroll back to it. Roots are the post
+ * bodies of each layout; the visible one is measured.
+ */
+export const useReadingProgress = (
+  postId: string | undefined,
+  roots: Array<RefObject<HTMLElement>>,
+  enabled: boolean = true
+) => {
+  const [progress, setProgress] = useState(0);
+  const [savedProgress, setSavedProgress] = useState<ReadingProgressEntry | null>(null);
+  const progressRef = useRef(0);
+
+  const visibleRoot = () => {
+    const elements = roots.map(ref => ref.current).filter(Boolean) as HTMLElement[];
+    return elements.find(root => root.offsetParent !== null) || elements[0] || null;
+  };
+
+  useEffect(() => {
+    if (!postId || !enabled) return;
+
+    setSavedProgress(getReadingProgress(postId));
+    progressRef.current = 0;
+    setProgress(0);
+
+    let frame = 0;
+    let shown = 0;
+    let lastSaved = -1;
+    let lastSavedAt = 0;
+    let lastSynced = 0;
+    // Nothing is stored until the reader gets into the post, so merely opening it again
+    // doesn't overwrite where they left off
+    let started = false;
+
+    const save = () => {
+      if (!started) return;
+      saveReadingProgress(postId, progressRef.current);
+      lastSaved = progressRef.current;
+      lastSavedAt = Date.now();
+    };
+
+    const sync = () => {
+      if (started && progressRef.current !== lastSynced) {
+        lastSynced = progressRef.current;
+        blogService.syncReadingProgress(postId, lastSynced);
+      }
+    };
+
+    const update = () => {
+      frame = 0;
+      const root = visibleRoot();
+      if (!root) return;
+
+      const value = measureProgress(root);
+      progressRef.current = value;
+      const rounded = Math.round(value * DISPLAY_STEPS) / DISPLAY_STEPS;
+      if (rounded !== shown) {
+        shown = rounded;
+        setProgress(rounded);
+      }
+      if (value >= READ_STARTED_AT) started = true;
+
+      if (Math.abs(value - lastSaved) >= SAVE_STEP && Date.now() - lastSavedAt >= SAVE_INTERVAL_MS) save();
+      if (Math.floor(value / SYNC_STEP) > Math.floor(lastSynced / SYNC_STEP)) sync();
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    // Flush the latest position when the tab is backgrounded (and possibly discarded)
+    const onVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden') return;
+      save();
+      sync();
+    };
+
+    onScroll();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      if (frame) cancelAnimationFrame(frame);
+      save();
+      sync();
+    };
+  }, [postId, enabled]);
+
+  // Scroll the visible body back to the position saved before this visit
+  const resume = () => {
+    const root = visibleRoot();
+    if (!root || !savedProgress) return;
+    const rect = root.getBoundingClientRect();
+    const scrollable = Math.max(0, rect.height - window.innerHeight);
+    window.scrollTo({ top: window.scrollY + rect.top + scrollable * savedProgress.progress, behavior: 'smooth' });
+  };
+
+  return { progress, savedProgress, resume };
+};
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Track which of the given element ids is the section currently being read:
+ * the last one whose top has scrolled past `offset` pixels from the viewport top.
+ */
+export const useScrollSpy = (ids: string[], offset: number = 120) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const key = ids.join('|');
+
+  useEffect(() => {
+    if (ids.length === 0) {
+      setActiveId(null);
+      return;
+    }
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      let current: string | null = null;
+      for (const id of ids) {
+        const el = document.getElementById(id);
+        if (!el) continue;
+        if (el.getBoundingClientRect().top - offset <= 0) current = id;
+        else break;
+      }
+      setActiveId(current ?? ids[0]);
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [key, offset]);
+
+  return activeId;
+};
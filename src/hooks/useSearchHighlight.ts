@@ -0,0 +1,98 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+const MARK_CLASS = 'search-highlight';
+const MARK_STYLE = 'bg-azure-400/30 text-azure-200 rounded px-0.5';
+
+// Code is re-rendered by Prism and controls hold their own labels, so neither is touched
+const SKIPPED_ANCESTORS = `pre, code, button, summary, mark.${MARK_CLASS}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words that start with any of the terms ("secur" marks "security"); group 1 is the
+// character before the word, group 2 the word
+const termPattern = (terms: string[]) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])((?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+
+const clearMarks = (root: HTMLElement) => {
+  root.querySelectorAll(`mark.${MARK_CLASS}`).forEach(mark => {
+    mark.replaceWith(document.createTextNode(mark.textContent || ''));
+  });
+  root.normalize();
+};
+
+// Wrap every match in the root's text nodes with a <mark>, using DOM nodes only
+const markTerms = (root: HTMLElement, pattern: RegExp): HTMLElement[] => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => node.parentElement?.closest(SKIPPED_ANCESTORS)
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT
+  });
+
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  const marks: HTMLElement[] = [];
+  textNodes.forEach(node => {
+    const text = node.data;
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+
+    for (const match of text.matchAll(pattern)) {
+      const start = (match.index ?? 0) + match[1].length;
+      if (start > last) fragment.appendChild(document.createTextNode(text.slice(last, start)));
+      const mark = document.createElement('mark');
+      mark.className = `${MARK_CLASS} ${MARK_STYLE}`;
+      mark.textContent = match[2];
+      fragment.appendChild(mark);
+      marks.push(mark);
+      last = start + match[2].length;
+    }
+
+    if (last === 0) return;
+    if (last < text.length) fragment.appendChild(document.createTextNode(text.slice(last)));
+    node.replaceWith(fragment);
+  });
+
+  return marks;
+};
+
+/**
+ * Highlight search terms inside rendered post bodies and, when `scrollToFirst` is set,
+ * bring the first match in the visible body into view. `html` is the rendered content, so
+ * highlights are re-applied whenever it changes. Returns the number of matches.
+ */
+export const useSearchHighlight = (
+  roots: Array<RefObject<HTMLElement>>,
+  html: string,
+  terms: string[],
+  scrollToFirst: boolean = true
+) => {
+  const [matchCount, setMatchCount] = useState(0);
+  const key = terms.join(' ');
+
+  useEffect(() => {
+    const elements = roots.map(ref => ref.current).filter(Boolean) as HTMLElement[];
+    elements.forEach(clearMarks);
+    if (elements.length === 0 || terms.length === 0) {
+      setMatchCount(0);
+      return;
+    }
+
+    const pattern = termPattern(terms);
+    const marksByRoot = elements.map(root => markTerms(root, pattern));
+    // Each layout renders the same body, so count one of them
+    const visibleIndex = elements.findIndex(root => root.offsetParent !== null);
+    const visibleMarks = marksByRoot[visibleIndex === -1 ? 0 : visibleIndex];
+    setMatchCount(visibleMarks.length);
+
+    if (scrollToFirst && visibleMarks.length > 0) {
+      requestAnimationFrame(() => {
+        visibleMarks[0].scrollIntoView({ block: 'center' });
+      });
+    }
+
+    return () => elements.forEach(clearMarks);
+  }, [html, key]);
+
+  return matchCount;
+};
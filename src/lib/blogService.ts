@@ -1,8 +1,14 @@
 import { supabase } from './supabase';
-import { BLOG_CATEGORIES } from './blogCategories';
+import { extractMarkdownHeadings } from './markdown';
+import type { SearchDocument } from './searchIndex';
+import { scoreRecommendations } from './recommendations';
+import type { ReadingProgressEntry } from './readingProgress';
+import { applySyncedBookmarks, getBookmarks, getPendingBookmarkChanges } from './bookmarks';
+import { forgetEditToken, getEditToken, saveEditToken } from './commentEditTokens';
 
 export interface BlogPost {
   id: string;
+  slug: string;
   title: string;
   excerpt: string;
   content: string;
@@ -19,10 +25,233 @@ export interface BlogPost {
   author_avatar: string;
   author_bio: string;
   published: boolean;
+  publish_at: string;
   created_at: string;
   updated_at: string;
 }
 
+// Canonical public URL path of a post
+export const getPostPath = (post: Pick<BlogPost, 'slug'>) => `/blog/${post.slug}`;
+
+export type BlogPostStatus = 'draft' | 'scheduled' | 'published';
+
+// Derive the public status of a post from its published flag and publish_at
+export function getPostStatus(post: Pick<BlogPost, 'published' | 'publish_at'>, now: Date = new Date()): BlogPostStatus {
+  if (!post.published) return 'draft';
+  if (post.publish_at && new Date(post.publish_at).getTime() > now.getTime()) return 'scheduled';
+  return 'published';
+}
+
+// Fields an admin can write when creating or editing a post
+export type BlogPostInput = Omit<BlogPost, 'views' | 'likes' | 'created_at' | 'updated_at'>;
+
+// Slug history lives in blog_post_slug_aliases, so revisions don't track it
+export interface BlogPostRevision extends Omit<BlogPostInput, 'id' | 'slug'> {
+  id: string;
+  blog_post_id: string;
+  revision: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Lightweight projection used by list views; omits the post body
+export type BlogPostCard = Omit<BlogPost, 'content'>;
+
+// Keyset cursor: the (date, id) of the last post on the previous page
+export interface PostCursor {
+  date: string;
+  id: string;
+}
+
+export interface PostPageOptions {
+  category?: string;
+  tag?: string;
+  featured?: boolean;
+  cursor?: PostCursor | null;
+  limit?: number;
+}
+
+export interface PostPage {
+  posts: BlogPostCard[];
+  // null when there are no more posts
+  nextCursor: PostCursor | null;
+}
+
+// How the "For You" feed may use this browser's reading history
+export interface FeedPreferences {
+  // false: rank by popularity and freshness only, without sending the visitor id
+  personalized: boolean;
+  // Views and likes before this time no longer shape the ranking ("reset my preferences")
+  resetAt: string | null;
+}
+
+export interface ForYouPageOptions {
+  category?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ForYouPage {
+  posts: BlogPostCard[];
+  // null when there are no more posts
+  nextOffset: number | null;
+}
+
+const FEED_PREFERENCES_KEY = 'blog_feed_preferences';
+
+const DEFAULT_FEED_PREFERENCES: FeedPreferences = { personalized: true, resetAt: null };
+
+const POST_CARD_COLUMNS = [
+  'id', 'slug', 'title', 'excerpt', 'date', 'read_time', 'category', 'image_url', 'images',
+  'featured', 'views', 'likes', 'tags', 'author_name', 'author_avatar', 'author_bio',
+  'published', 'publish_at', 'created_at', 'updated_at'
+].join(', ');
+
+// Every BlogPost field. Posts are never read with '*', which would also ship search_vector.
+const POST_COLUMNS = `${POST_CARD_COLUMNS}, content`;
+
+// Per-post reading depth for the admin analytics
+export interface BlogReadingStats {
+  blog_post_id: string;
+  readers: number;
+  // Mean of each reader's deepest point, 0–1
+  average_depth: number;
+  // Readers who got to the end
+  completions: number;
+}
+
+// Quote a value for use inside a PostgREST `or=(...)` filter
+const quoteFilterValue = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export type SearchSortOrder = 'relevance' | 'date' | 'views' | 'likes';
+
+export type ReadTimeBucket = 'short' | 'medium' | 'long';
+
+export const READ_TIME_BUCKETS: Record<ReadTimeBucket, string> = {
+  short: 'Under 5 min',
+  medium: '5–10 min',
+  long: 'Over 10 min'
+};
+
+// Mirrors blog_post_read_time_bucket() in the database
+export const getReadTimeBucket = (readTime: string): ReadTimeBucket => {
+  const minutes = parseInt((readTime || '').match(/\d+/)?.[0] ?? '0', 10);
+  if (minutes < 5) return 'short';
+  return minutes <= 10 ? 'medium' : 'long';
+};
+
+export interface SearchOptions {
+  category?: string;
+  // Posts must carry every one of these tags
+  tags?: string[];
+  author?: string;
+  readTime?: ReadTimeBucket;
+  // Post date year ('YYYY') or month ('YYYY-MM')
+  period?: string;
+  // Only posts dated on or after this day (YYYY-MM-DD)
+  since?: string;
+  sortBy?: SearchSortOrder;
+  limit?: number;
+}
+
+export type SearchFacetName = 'category' | 'tag' | 'author' | 'read_time' | 'month';
+
+// Matching post counts per facet value; months are keyed 'YYYY-MM'
+export type SearchFacetCounts = Record<SearchFacetName, Record<string, number>>;
+
+export const emptyFacetCounts = (): SearchFacetCounts => ({
+  category: {},
+  tag: {},
+  author: {},
+  read_time: {},
+  month: {}
+});
+
+// A ranked search hit; highlights are marked up as described in lib/searchHighlights
+export interface BlogSearchResult extends BlogPostCard {
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+// A published post's id and last edit, used to sync the offline search index
+export interface PostVersion {
+  id: string;
+  updated_at: string;
+}
+
+// Keeps `.in('id', ...)` filters well under URL length limits
+const SEARCH_DOCUMENT_BATCH_SIZE = 50;
+
+export interface BlogSeries {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A series with its parts in reading order
+export interface BlogSeriesWithPosts extends BlogSeries {
+  posts: BlogPostCard[];
+}
+
+export type BlogSeriesInput = Pick<BlogSeries, 'slug' | 'title' | 'description'>;
+
+// Public URL path of a series index page
+export const getSeriesPath = (series: Pick<BlogSeries, 'slug'>) => `/blog/series/${series.slug}`;
+
+export interface BlogCategory {
+  id: string;
+  // As stored in blog_posts.category
+  name: string;
+  slug: string;
+  description: string;
+  // '#rrggbb'
+  color: string;
+  // A key of CATEGORY_ICONS (src/lib/categoryIcons.ts)
+  icon: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BlogCategoryInput = Pick<BlogCategory, 'name' | 'slug' | 'description' | 'color' | 'icon'>;
+
+// Public URL path of a category page
+export const getCategoryPath = (category: Pick<BlogCategory, 'slug'>) => `/blog/category/${category.slug}`;
+
+export interface BlogTag {
+  id: string;
+  // Canonical spelling, as stored in blog_posts.tags
+  name: string;
+  slug: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BlogTagWithCount extends BlogTag {
+  // Former and merged slugs that resolve to this tag
+  aliases: string[];
+  post_count: number;
+}
+
+// Mirrors blog_tag_slug() in the database: "React.js" -> 'react-js', "C#" -> 'c-sharp'
+export const getTagSlug = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\+/g, ' plus ')
+    .replace(/#/g, ' sharp ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const getTagPath = (tag: string | Pick<BlogTag, 'slug'>) =>
+  `/blog/tag/${typeof tag === 'string' ? getTagSlug(tag) : tag.slug}`;
+
 export interface BlogView {
   id: string;
   blog_post_id: string;
@@ -34,6 +263,12 @@ export interface BlogView {
   created_at: string;
 }
 
+// A visitor's like on a post, with the post's resulting like count
+export interface LikeState {
+  liked: boolean;
+  likes: number;
+}
+
 export interface BlogLike {
   id: string;
   blog_post_id: string;
@@ -41,6 +276,108 @@ export interface BlogLike {
   created_at: string;
 }
 
+export type CommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+// How new comments are published (see comment_moderation_status)
+export type CommentModerationMode = 'auto_approve' | 'first_time' | 'all';
+
+export const COMMENT_MODERATION_MODES: Record<CommentModerationMode, string> = {
+  auto_approve: 'Publish immediately',
+  first_time: 'Hold first-time commenters',
+  all: 'Hold every comment'
+};
+
+// Minutes after posting during which authors may edit or delete (see comment_edit_window)
+export const DEFAULT_COMMENT_EDIT_WINDOW = 15;
+
+// A comment or reply as visitors see it; email addresses never leave the database
+export interface BlogComment {
+  id: string;
+  // The comment this one replies to; null for top-level comments
+  parent_id: string | null;
+  // 0 for top-level comments, parent's depth + 1 for replies
+  depth: number;
+  author_name: string;
+  content: string;
+  status: CommentStatus;
+  avatar: string | null;
+  likes: number;
+  created_at: string;
+  updated_at: string;
+  // Last time the content changed; null when never edited
+  edited_at: string | null;
+  // Deleted while it had replies: name and content are gone, the replies stay
+  deleted: boolean;
+  // The author may edit or delete until then (see comment_edit_window)
+  editable_until: string | null;
+}
+
+export interface CommentInput {
+  author_name: string;
+  author_email: string;
+  content: string;
+  avatar?: string;
+  // Hidden form field; anything in it marks the comment as spam (see score_comment_spam)
+  honeypot?: string;
+}
+
+// A comment or reply in the admin moderation queue
+export interface ModerationComment {
+  id: string;
+  blog_post_id: string;
+  parent_id: string | null;
+  depth: number;
+  author_name: string;
+  author_email: string;
+  content: string;
+  status: CommentStatus;
+  // Spam score when posted, and what contributed to it
+  spam_score: number;
+  spam_reasons: string[];
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+// Content a comment had before an edit or deletion (see blog_comment_edits)
+export interface BlogCommentEdit {
+  id: string;
+  comment_id: string;
+  content: string;
+  // Admin who made the change; null when the author did
+  edited_by: string | null;
+  created_at: string;
+}
+
+// What deleteComment did: removed the comment, or left a tombstone holding its replies
+export type CommentDeletion = 'deleted' | 'tombstoned';
+
+// Spam scoring settings (see score_comment_spam)
+export interface CommentSpamSettings {
+  // Scores at or above this are held for moderation
+  hold_threshold: number;
+  // Scores at or above this go to the spam folder
+  spam_threshold: number;
+  max_links: number;
+  blocked_words: string[];
+  blocked_domains: string[];
+  // Posts allowed per visitor / per IP address within window_minutes
+  visitor_limit: number;
+  ip_limit: number;
+  window_minutes: number;
+}
+
+export const DEFAULT_COMMENT_SPAM_SETTINGS: CommentSpamSettings = {
+  hold_threshold: 3,
+  spam_threshold: 6,
+  max_links: 2,
+  blocked_words: [],
+  blocked_domains: [],
+  visitor_limit: 3,
+  ip_limit: 6,
+  window_minutes: 10
+};
+
 // Helper to normalize images and tags fields
 function normalizePostFields(post: any): BlogPost {
   return {
@@ -54,9 +391,47 @@ function normalizePostFields(post: any): BlogPost {
   };
 }
 
+function toComment(row: any): BlogComment {
+  return {
+    id: row.id,
+    parent_id: row.parent_id ?? null,
+    depth: Number(row.depth) || 0,
+    author_name: row.author_name ?? '',
+    content: row.content ?? '',
+    status: row.status,
+    avatar: row.avatar ?? null,
+    likes: Number(row.likes) || 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? row.created_at,
+    edited_at: row.edited_at ?? null,
+    deleted: Boolean(row.deleted),
+    editable_until: row.editable_until ?? null
+  };
+}
+
+// Series rows embed their membership; flatten it into ordered posts.
+// Public callers only keep parts that are live, even when RLS would return more (e.g. a signed-in admin).
+function toSeriesWithPosts(row: any, publicOnly: boolean): BlogSeriesWithPosts {
+  const { blog_series_posts: members, ...series } = row;
+  const posts = ((members || []) as any[])
+    .filter(member => member.blog_posts)
+    .sort((a, b) => a.position - b.position)
+    .map(member => normalizePostFields(member.blog_posts))
+    .filter(post => !publicOnly || getPostStatus(post) === 'published');
+  return { ...series, posts };
+}
+
+// Parts are embedded as cards; the series pages and the navigator never show their bodies
+const SERIES_SELECT = `*, blog_series_posts(position, blog_posts(${POST_CARD_COLUMNS}))`;
+
 class BlogService {
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache
+  // Newest updated_at seen in any fetched post, and who wants to hear when it moves
+  private latestUpdatedAt = '';
+  private updateListeners = new Set<(updatedAt: string) => void>();
+  private bookmarkSync: Promise<boolean> | null = null;
+  private bookmarkResyncRequested = false;
 
   private getCacheKey(method: string, params?: any): string {
     return `${method}_${params ? JSON.stringify(params) : ''}`;
@@ -116,13 +491,33 @@ class BlogService {
     }
   }
 
+  // Tell listeners when fetched posts carry a newer updated_at than any seen before
+  private notePostsSeen(posts: Array<{ updated_at?: string }>) {
+    const newest = posts.reduce((max, post) => (post.updated_at && post.updated_at > max ? post.updated_at : max), this.latestUpdatedAt);
+    if (newest === this.latestUpdatedAt) return;
+    this.latestUpdatedAt = newest;
+    this.updateListeners.forEach(listener => listener(newest));
+  }
+
+  // Subscribe to newer posts showing up in any fetch; returns an unsubscribe function
+  onNewerPosts(listener: (updatedAt: string) => void): () => void {
+    this.updateListeners.add(listener);
+    return () => this.updateListeners.delete(listener);
+  }
+
+  // Base query for posts that are published and past their publish_at
+  private publishedPosts(columns: string = POST_COLUMNS) {
+    return supabase
+      .from('blog_posts')
+      .select(columns)
+      .eq('published', true)
+      .lte('publish_at', new Date().toISOString());
+  }
+
   // Get all published blog posts
   async getAllPosts(): Promise<BlogPost[]> {
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
+      const { data, error } = await this.publishedPosts()
         .order('date', { ascending: false });
 
       if (error) {
@@ -130,7 +525,9 @@ class BlogService {
         return [];
       }
 
-      return (data || []).map((post: any) => normalizePostFields(post));
+      const posts = (data || []).map((post: any) => normalizePostFields(post));
+      this.notePostsSeen(posts);
+      return posts;
     } catch (error) {
       console.error('Error in getAllPosts:', error);
       return [];
@@ -144,10 +541,7 @@ class BlogService {
     if (cached) return cached;
 
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
+      const { data, error } = await this.publishedPosts()
         .eq('featured', true)
         .order('date', { ascending: false })
         .limit(3); // Limit to 3 for better performance
@@ -158,6 +552,7 @@ class BlogService {
       }
 
       const result = (data || []).map((post: any) => normalizePostFields(post));
+      this.notePostsSeen(result);
       this.setCache(cacheKey, result);
       return result;
     } catch (error) {
@@ -173,10 +568,7 @@ class BlogService {
     if (cached) return cached;
 
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
+      const { data, error } = await this.publishedPosts()
         .eq('featured', false)
         .order('date', { ascending: false })
         .limit(3); // Limit to 3 for better performance
@@ -187,6 +579,7 @@ class BlogService {
       }
 
       const result = (data || []).map((post: any) => normalizePostFields(post));
+      this.notePostsSeen(result);
       this.setCache(cacheKey, result);
       return result;
     } catch (error) {
@@ -195,14 +588,17 @@ class BlogService {
     }
   }
 
+  // Normalize a single fetched post; `likes` is kept in step with blog_likes by a trigger
+  private toPost(row: any): BlogPost {
+    this.notePostsSeen([row]);
+    return normalizePostFields(row);
+  }
+
   // Get single blog post by ID
   async getPostById(id: string): Promise<BlogPost | null> {
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
+      const { data, error } = await this.publishedPosts()
         .eq('id', id)
-        .eq('published', true)
         .single();
 
       if (error) {
@@ -210,25 +606,57 @@ class BlogService {
         return null;
       }
 
-      // Calculate actual like count from blog_likes table
-      const { data: likeCount, error: likeError } = await supabase
-        .from('blog_likes')
-        .select('id', { count: 'exact' })
-        .eq('blog_post_id', id);
+      return this.toPost(data);
+    } catch (error) {
+      console.error('Error in getPostById:', error);
+      return null;
+    }
+  }
+
+  // Get single blog post by its canonical slug
+  async getPostBySlug(slug: string): Promise<BlogPost | null> {
+    try {
+      const { data, error } = await this.publishedPosts()
+        .eq('slug', slug)
+        .maybeSingle();
 
-      if (likeError) {
-        console.error('Error fetching like count:', likeError);
-        return normalizePostFields(data);
+      if (error) {
+        console.error('Error fetching blog post by slug:', error);
+        return null;
       }
 
-      const actualLikeCount = likeCount?.length || 0;
-      
-      return {
-        ...normalizePostFields(data),
-        likes: actualLikeCount
-      };
+      return data ? this.toPost(data) : null;
     } catch (error) {
-      console.error('Error in getPostById:', error);
+      console.error('Error in getPostBySlug:', error);
+      return null;
+    }
+  }
+
+  // Map a former slug or a legacy post id to the post's current slug
+  async resolveLegacySlug(slugOrId: string): Promise<string | null> {
+    try {
+      const { data: alias, error: aliasError } = await supabase
+        .from('blog_post_slug_aliases')
+        .select('blog_post_id')
+        .eq('slug', slugOrId)
+        .maybeSingle();
+
+      if (aliasError) {
+        console.error('Error fetching slug alias:', aliasError);
+      }
+
+      const { data, error } = await this.publishedPosts('slug')
+        .eq('id', alias?.blog_post_id ?? slugOrId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error resolving legacy slug:', error);
+        return null;
+      }
+
+      return data?.slug ?? null;
+    } catch (error) {
+      console.error('Error in resolveLegacySlug:', error);
       return null;
     }
   }
@@ -236,10 +664,7 @@ class BlogService {
   // Get posts by category
   async getPostsByCategory(category: string): Promise<BlogPost[]> {
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
+      const { data, error } = await this.publishedPosts()
         .eq('category', category)
         .order('date', { ascending: false });
 
@@ -255,235 +680,655 @@ class BlogService {
     }
   }
 
-  // Get related posts (same category, excluding current post)
-  async getRelatedPosts(currentPostId: string, category: string, limit: number = 3): Promise<BlogPost[]> {
+  // Get related posts from the precomputed recommendations (see refreshRecommendations),
+  // topped up with the newest posts in the same category when there are too few
+  async getRelatedPosts(currentPostId: string, category: string, limit: number = 3): Promise<BlogPostCard[]> {
+    const cacheKey = this.getCacheKey('getRelatedPosts', { currentPostId, limit });
+    const cached = this.getFromCache<BlogPostCard[]>(cacheKey);
+    if (cached) return cached;
+
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
-        .eq('category', category)
-        .neq('id', currentPostId)
-        .order('date', { ascending: false })
-        .limit(limit);
+      const { data: recommendations, error: recommendationsError } = await supabase
+        .from('blog_post_recommendations')
+        .select(`score, blog_posts!blog_post_recommendations_related_post_id_fkey(${POST_CARD_COLUMNS})`)
+        .eq('post_id', currentPostId)
+        .order('score', { ascending: false })
+        .limit(limit * 2);
+
+      if (recommendationsError) {
+        console.error('Error fetching recommendations:', recommendationsError);
+      }
 
-      if (error) {
-        console.error('Error fetching related posts:', error);
-        return [];
+      // Drafts are hidden by RLS; scheduled posts are dropped here until they go live
+      const related: BlogPostCard[] = (recommendations || [])
+        .filter((row: any) => row.blog_posts && getPostStatus(row.blog_posts) === 'published')
+        .map((row: any) => normalizePostFields(row.blog_posts))
+        .slice(0, limit);
+
+      if (related.length < limit) {
+        const { data, error } = await this.publishedPosts(POST_CARD_COLUMNS)
+          .eq('category', category)
+          .not('id', 'in', `(${[currentPostId, ...related.map(post => post.id)].join(',')})`)
+          .order('date', { ascending: false })
+          .limit(limit - related.length);
+
+        if (error) {
+          console.error('Error fetching related posts:', error);
+        } else {
+          related.push(...(data || []).map((post: any) => normalizePostFields(post)));
+        }
       }
 
-      return (data || []).map((post: any) => normalizePostFields(post));
+      this.setCache(cacheKey, related);
+      return related;
     } catch (error) {
       console.error('Error in getRelatedPosts:', error);
       return [];
     }
   }
 
-  // Get all categories
-  async getAllCategories(): Promise<string[]> {
-    return [...BLOG_CATEGORIES];
-  }
+  // Get every series that has at least one published part
+  async getAllSeries(): Promise<BlogSeriesWithPosts[]> {
+    const cacheKey = this.getCacheKey('getAllSeries');
+    const cached = this.getFromCache<BlogSeriesWithPosts[]>(cacheKey);
+    if (cached) return cached;
 
-  // Advanced search with fuzzy matching and relevance scoring
-  async searchPosts(query: string): Promise<BlogPost[]> {
     try {
-      if (!query.trim()) return [];
-
-      // Use PostgreSQL full-text search with ranking
       const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('published', true)
-        .or(`title.ilike.%${query}%,excerpt.ilike.%${query}%,content.ilike.%${query}%,category.ilike.%${query}%`)
-        .order('views', { ascending: false }); // Order by popularity as secondary sort
+        .from('blog_series')
+        .select(SERIES_SELECT)
+        .order('updated_at', { ascending: false });
 
       if (error) {
-        console.error('Error searching posts:', error);
+        console.error('Error fetching blog series:', error);
         return [];
       }
 
-      // Client-side relevance scoring for better results
-      const scoredResults = (data || []).map((post: any) => {
-        let score = 0;
-        const queryLower = query.toLowerCase();
-        const queryWords = queryLower.split(/\s+/).filter(word => word.length > 2);
-        
-        // Title matching (highest weight)
-        const titleLower = post.title.toLowerCase();
-        if (titleLower.includes(queryLower)) score += 100;
-        queryWords.forEach(word => {
-          if (titleLower.includes(word)) score += 50;
-        });
-        
-        // Exact title match bonus
-        if (titleLower === queryLower) score += 200;
-        
-        // Category matching
-        if (post.category.toLowerCase().includes(queryLower)) score += 80;
-        
-        // Tags matching
-        if (post.tags) {
-          post.tags.forEach((tag: string) => {
-            if (tag.toLowerCase().includes(queryLower)) score += 60;
-            queryWords.forEach(word => {
-              if (tag.toLowerCase().includes(word)) score += 30;
-            });
-          });
-        }
-        
-        // Excerpt matching
-        const excerptLower = post.excerpt.toLowerCase();
-        if (excerptLower.includes(queryLower)) score += 40;
-        queryWords.forEach(word => {
-          if (excerptLower.includes(word)) score += 20;
-        });
-        
-        // Content matching (lower weight due to length)
-        const contentLower = post.content.toLowerCase();
-        if (contentLower.includes(queryLower)) score += 20;
-        queryWords.forEach(word => {
-          const matches = (contentLower.match(new RegExp(word, 'g')) || []).length;
-          score += Math.min(matches * 5, 25); // Cap content score
-        });
-        
-        // Popularity boost
-        score += Math.log(post.views + 1) * 2;
-        score += Math.log(post.likes + 1) * 3;
-        
-        // Recency boost
-        const daysSincePublished = (Date.now() - new Date(post.date).getTime()) / (1000 * 60 * 60 * 24);
-        if (daysSincePublished < 30) score += 20;
-        if (daysSincePublished < 7) score += 40;
-        
-        // Featured post boost
-        if (post.featured) score += 30;
-        
-        return { ...post, searchScore: score };
-      });
-
-      // Sort by relevance score and return top results
-      return scoredResults
-        .filter((post: any) => (post as any).searchScore > 0)
-        .sort((a: any, b: any) => (b as any).searchScore - (a as any).searchScore)
-        .slice(0, 20);
-        
+      const result = (data || [])
+        .map((row: any) => toSeriesWithPosts(row, true))
+        .filter((series: BlogSeriesWithPosts) => series.posts.length > 0);
+      this.setCache(cacheKey, result);
+      return result;
     } catch (error) {
-      console.error('Error in searchPosts:', error);
+      console.error('Error in getAllSeries:', error);
       return [];
     }
   }
 
-  // Track blog post view (non-blocking)
-  async trackView(postId: string): Promise<void> {
-    // Make this completely non-blocking
-    setTimeout(async () => {
-      try {
-        const visitorId = this.getVisitorId();
-        
-        // Check if this visitor has already viewed this post recently (within 24 hours)
-        const { data: recentView } = await supabase
-          .from('blog_views')
-          .select('id')
-          .eq('blog_post_id', postId)
-          .eq('visitor_id', visitorId)
-          .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
-          .maybeSingle();
-
-        // Only track if no recent view found
-        if (!recentView) {
-          // Get location data asynchronously
-          const location = await this.getLocationData();
-          
-          const { error } = await supabase.rpc('increment_blog_view', {
-            post_id: postId,
-            visitor_id: visitorId,
-            user_agent: navigator.userAgent,
-            referrer: document.referrer || null,
-            country: location.country,
-            city: location.city
-          });
+  // Get a single series and its published parts by slug
+  async getSeries(slug: string): Promise<BlogSeriesWithPosts | null> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_series')
+        .select(SERIES_SELECT)
+        .eq('slug', slug)
+        .maybeSingle();
 
-          if (error) {
-            console.error('Error tracking view:', error);
-          }
-        }
-      } catch (error) {
-        console.error('Error in trackView:', error);
+      if (error) {
+        console.error('Error fetching blog series:', error);
+        return null;
       }
-    }, 0); // Run in next tick to avoid blocking
+
+      return data ? toSeriesWithPosts(data, true) : null;
+    } catch (error) {
+      console.error('Error in getSeries:', error);
+      return null;
+    }
   }
 
-  // Bulletproof toggle like status - simplified version
-  async toggleLike(postId: string): Promise<boolean> {
-    const visitorId = this.getVisitorId();
-    const maxRetries = 3;
-    let retryCount = 0;
+  // Get the series a post belongs to, with its published parts
+  async getSeriesForPost(postId: string): Promise<BlogSeriesWithPosts | null> {
+    try {
+      const { data: membership, error: membershipError } = await supabase
+        .from('blog_series_posts')
+        .select('series_id')
+        .eq('blog_post_id', postId)
+        .maybeSingle();
 
-    console.log('🔄 Toggling like for post:', postId, 'visitor:', visitorId);
+      if (membershipError) {
+        console.error('Error fetching series membership:', membershipError);
+        return null;
+      }
+      if (!membership) return null;
+
+      const { data, error } = await supabase
+        .from('blog_series')
+        .select(SERIES_SELECT)
+        .eq('id', membership.series_id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching series for post:', error);
+        return null;
+      }
+
+      return data ? toSeriesWithPosts(data, true) : null;
+    } catch (error) {
+      console.error('Error in getSeriesForPost:', error);
+      return null;
+    }
+  }
+
+  // Get one page of published post cards, newest first, using a (date, id) keyset cursor
+  async getPostsPage({ category, tag, featured, cursor, limit = 10 }: PostPageOptions = {}): Promise<PostPage> {
+    try {
+      let query = this.publishedPosts(POST_CARD_COLUMNS);
+
+      if (category) query = query.eq('category', category);
+      if (tag) query = query.filter('tags', 'cs', JSON.stringify([tag]));
+      if (featured !== undefined) query = query.eq('featured', featured);
+      if (cursor) {
+        const date = quoteFilterValue(cursor.date);
+        query = query.or(`date.lt.${date},and(date.eq.${date},id.lt.${quoteFilterValue(cursor.id)})`);
+      }
+
+      // Fetch one extra row to find out whether another page exists
+      const { data, error } = await query
+        .order('date', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+      if (error) {
+        console.error('Error fetching posts page:', error);
+        return { posts: [], nextCursor: null };
+      }
+
+      const rows = data || [];
+      const posts: BlogPostCard[] = rows.slice(0, limit).map((post: any) => normalizePostFields(post));
+      this.notePostsSeen(posts);
+      const last = posts[posts.length - 1];
+      return {
+        posts,
+        nextCursor: rows.length > limit && last ? { date: last.date, id: last.id } : null
+      };
+    } catch (error) {
+      console.error('Error in getPostsPage:', error);
+      return { posts: [], nextCursor: null };
+    }
+  }
+
+  // Reading-history preferences for the "For You" feed, stored in this browser only
+  getFeedPreferences(): FeedPreferences {
+    try {
+      const raw = localStorage.getItem(FEED_PREFERENCES_KEY);
+      return raw ? { ...DEFAULT_FEED_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_FEED_PREFERENCES;
+    } catch {
+      return DEFAULT_FEED_PREFERENCES;
+    }
+  }
+
+  setFeedPreferences(changes: Partial<FeedPreferences>): FeedPreferences {
+    const preferences = { ...this.getFeedPreferences(), ...changes };
+    try {
+      localStorage.setItem(FEED_PREFERENCES_KEY, JSON.stringify(preferences));
+    } catch (error) {
+      console.error('Error saving feed preferences:', error);
+    }
+    return preferences;
+  }
+
+  // Forget the topics learned so far; posts already read stay out of the feed
+  resetFeedPreferences(): FeedPreferences {
+    return this.setFeedPreferences({ resetAt: new Date().toISOString() });
+  }
+
+  // One page of the "For You" feed, ranked for this visitor (see get_for_you_posts).
+  // Offset-paged because the ranking has no stable keyset.
+  async getForYouPage({ category, limit = 10, offset = 0 }: ForYouPageOptions = {}): Promise<ForYouPage> {
+    try {
+      const preferences = this.getFeedPreferences();
+      // Fetch one extra row to find out whether another page exists
+      const { data, error } = await supabase.rpc('get_for_you_posts', {
+        p_visitor_id: preferences.personalized ? this.getVisitorId() : null,
+        p_since: preferences.personalized ? preferences.resetAt : null,
+        category_filter: category ?? null,
+        result_limit: limit + 1,
+        result_offset: offset
+      });
+
+      if (error) {
+        console.error('Error fetching For You posts:', error);
+        return { posts: [], nextOffset: null };
+      }
+
+      const rows = data || [];
+      const posts: BlogPostCard[] = rows.slice(0, limit).map(({ score, ...post }: any) => normalizePostFields(post));
+      this.notePostsSeen(posts);
+      return {
+        posts,
+        nextOffset: rows.length > limit ? offset + limit : null
+      };
+    } catch (error) {
+      console.error('Error in getForYouPage:', error);
+      return { posts: [], nextOffset: null };
+    }
+  }
+
+  // Published post cards for the given ids, in the order given (missing ids are skipped)
+  async getPostCardsByIds(ids: string[]): Promise<BlogPostCard[]> {
+    if (ids.length === 0) return [];
+    try {
+      const { data, error } = await this.publishedPosts(POST_CARD_COLUMNS).in('id', ids);
+
+      if (error) {
+        console.error('Error fetching posts by id:', error);
+        return [];
+      }
+
+      const byId = new Map<string, BlogPostCard>(
+        (data || []).map((row: any) => [row.id, normalizePostFields(row)])
+      );
+      return ids.flatMap(id => byId.get(id) || []);
+    } catch (error) {
+      console.error('Error in getPostCardsByIds:', error);
+      return [];
+    }
+  }
+
+  // Count published posts per category
+  async getCategoryCounts(): Promise<Record<string, number>> {
+    const cacheKey = this.getCacheKey('getCategoryCounts');
+    const cached = this.getFromCache<Record<string, number>>(cacheKey);
+    if (cached) return cached;
 
-    while (retryCount < maxRetries) {
+    try {
+      const { data, error } = await this.publishedPosts('category');
+
+      if (error) {
+        console.error('Error fetching category counts:', error);
+        return {};
+      }
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach((post: any) => {
+        counts[post.category] = (counts[post.category] || 0) + 1;
+      });
+      this.setCache(cacheKey, counts);
+      return counts;
+    } catch (error) {
+      console.error('Error in getCategoryCounts:', error);
+      return {};
+    }
+  }
+
+  // Get all tags with their live post counts
+  async getAllTags(): Promise<BlogTagWithCount[]> {
+    const cacheKey = this.getCacheKey('getAllTags');
+    const cached = this.getFromCache<BlogTagWithCount[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const { data, error } = await supabase.rpc('get_blog_tags');
+
+      if (error) {
+        console.error('Error fetching tags:', error);
+        return [];
+      }
+
+      const tags: BlogTagWithCount[] = (data || []).map((tag: any) => ({ ...tag, post_count: Number(tag.post_count) }));
+      this.setCache(cacheKey, tags);
+      return tags;
+    } catch (error) {
+      console.error('Error in getAllTags:', error);
+      return [];
+    }
+  }
+
+  // Get a tag by its slug or by one of its aliases (former or merged slugs)
+  async getTag(slug: string): Promise<BlogTag | null> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_tags')
+        .select('*')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching tag:', error);
+        return null;
+      }
+      if (data) return data;
+
+      const { data: alias, error: aliasError } = await supabase
+        .from('blog_tag_aliases')
+        .select('blog_tags(*)')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (aliasError) {
+        console.error('Error resolving tag alias:', aliasError);
+        return null;
+      }
+      return alias?.blog_tags ?? null;
+    } catch (error) {
+      console.error('Error in getTag:', error);
+      return null;
+    }
+  }
+
+  // Get every category in display order
+  async getCategories(): Promise<BlogCategory[]> {
+    const cacheKey = this.getCacheKey('getCategories');
+    const cached = this.getFromCache<BlogCategory[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const { data, error } = await supabase
+        .from('blog_categories')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching categories:', error);
+        return [];
+      }
+
+      this.setCache(cacheKey, data || []);
+      return data || [];
+    } catch (error) {
+      console.error('Error in getCategories:', error);
+      return [];
+    }
+  }
+
+  // Get all category names in display order
+  async getAllCategories(): Promise<string[]> {
+    const categories = await this.getCategories();
+    return categories.map(category => category.name);
+  }
+
+  // Get a category by its slug
+  async getCategory(slug: string): Promise<BlogCategory | null> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_categories')
+        .select('*')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching category:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getCategory:', error);
+      return null;
+    }
+  }
+
+  // Full-text search ranked on the server (see search_blog_posts); the query is passed as
+  // a parameter and parsed with websearch_to_tsquery, so any input is safe
+  async searchPosts(query: string, options: SearchOptions = {}): Promise<BlogSearchResult[]> {
+    try {
+      if (!query.trim()) return [];
+
+      const { data, error } = await supabase.rpc('search_blog_posts', {
+        search_query: query.trim(),
+        category_filter: options.category ?? null,
+        published_since: options.since ?? null,
+        sort_by: options.sortBy ?? 'relevance',
+        result_limit: options.limit ?? 20,
+        tag_filter: options.tags?.length ? options.tags : null,
+        author_filter: options.author ?? null,
+        read_time_filter: options.readTime ?? null,
+        period_filter: options.period ?? null
+      });
+
+      if (error) {
+        console.error('Error searching posts:', error);
+        return [];
+      }
+
+      const results = (data || []).map((row: any) => ({
+        ...normalizePostFields(row),
+        rank: row.rank,
+        title_highlight: row.title_highlight,
+        snippet: row.snippet
+      }));
+      this.notePostsSeen(results);
+      return results;
+    } catch (error) {
+      console.error('Error in searchPosts:', error);
+      return [];
+    }
+  }
+
+  // Facet counts for a search (see search_blog_post_facets); an empty query counts every
+  // live post. Null when the request fails.
+  async getSearchFacets(query: string, options: SearchOptions = {}): Promise<SearchFacetCounts | null> {
+    try {
+      const { data, error } = await supabase.rpc('search_blog_post_facets', {
+        search_query: query.trim() || null,
+        category_filter: options.category ?? null,
+        published_since: options.since ?? null,
+        tag_filter: options.tags?.length ? options.tags : null,
+        author_filter: options.author ?? null,
+        read_time_filter: options.readTime ?? null,
+        period_filter: options.period ?? null
+      });
+
+      if (error) {
+        console.error('Error fetching search facets:', error);
+        return null;
+      }
+
+      const counts = emptyFacetCounts();
+      (data || []).forEach((row: any) => {
+        const facet = counts[row.facet as SearchFacetName];
+        if (facet && row.value !== null) facet[row.value] = Number(row.post_count);
+      });
+      return counts;
+    } catch (error) {
+      console.error('Error in getSearchFacets:', error);
+      return null;
+    }
+  }
+
+  // Ids and updated_at of every live post; null when the request fails (e.g. offline)
+  async getPostVersions(): Promise<PostVersion[] | null> {
+    try {
+      const { data, error } = await this.publishedPosts('id, updated_at');
+
+      if (error) {
+        console.error('Error fetching post versions:', error);
+        return null;
+      }
+
+      const versions: PostVersion[] = data || [];
+      this.notePostsSeen(versions);
+      return versions;
+    } catch (error) {
+      console.error('Error in getPostVersions:', error);
+      return null;
+    }
+  }
+
+  // Card fields plus body headings for the given live posts, for the offline search index.
+  // The content is only read to pull out headings and is not kept.
+  async getSearchDocuments(ids: string[]): Promise<SearchDocument[] | null> {
+    try {
+      const documents: SearchDocument[] = [];
+      for (let i = 0; i < ids.length; i += SEARCH_DOCUMENT_BATCH_SIZE) {
+        const { data, error } = await this.publishedPosts()
+          .in('id', ids.slice(i, i + SEARCH_DOCUMENT_BATCH_SIZE));
+
+        if (error) {
+          console.error('Error fetching search documents:', error);
+          return null;
+        }
+
+        (data || []).forEach((row: any) => {
+          const { content, ...card } = normalizePostFields(row);
+          documents.push({ ...card, headings: extractMarkdownHeadings(content) });
+        });
+      }
+      return documents;
+    } catch (error) {
+      console.error('Error in getSearchDocuments:', error);
+      return null;
+    }
+  }
+
+  // Track blog post view (non-blocking)
+  async trackView(postId: string): Promise<void> {
+    // Make this completely non-blocking
+    setTimeout(async () => {
       try {
-        // Check if user has already liked this post
-        const { data: existingLike, error: checkError } = await supabase
-          .from('blog_likes')
+        const visitorId = this.getVisitorId();
+        
+        // Check if this visitor has already viewed this post recently (within 24 hours)
+        const { data: recentView } = await supabase
+          .from('blog_views')
           .select('id')
           .eq('blog_post_id', postId)
           .eq('visitor_id', visitorId)
+          .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
           .maybeSingle();
 
-        if (checkError) {
-          console.error('❌ Error checking existing like:', checkError);
-          throw checkError;
+        // Only track if no recent view found
+        if (!recentView) {
+          // Get location data asynchronously
+          const location = await this.getLocationData();
+          
+          const { error } = await supabase.rpc('increment_blog_view', {
+            post_id: postId,
+            visitor_id: visitorId,
+            user_agent: navigator.userAgent,
+            referrer: document.referrer || null,
+            country: location.country,
+            city: location.city
+          });
+
+          if (error) {
+            console.error('Error tracking view:', error);
+          }
         }
+      } catch (error) {
+        console.error('Error in trackView:', error);
+      }
+    }, 0); // Run in next tick to avoid blocking
+  }
 
-        let isLiked: boolean;
+  // Like or unlike a post for this visitor in one round trip (see toggle_blog_like).
+  // Not retried: a repeated toggle would undo itself. Throws on failure so callers can
+  // roll back their optimistic update.
+  async toggleLike(postId: string): Promise<LikeState> {
+    const { data, error } = await supabase.rpc('toggle_blog_like', {
+      p_post_id: postId,
+      p_visitor_id: this.getVisitorId()
+    });
+
+    if (error) {
+      console.error('Error toggling like:', error);
+      throw error;
+    }
 
-        if (existingLike) {
-          // Remove like
-          const { error: deleteError } = await supabase
-            .from('blog_likes')
-            .delete()
-            .eq('blog_post_id', postId)
-            .eq('visitor_id', visitorId);
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) {
+      throw new Error('Toggle like returned no result');
+    }
 
-          if (deleteError) {
-            console.error('❌ Error removing like:', deleteError);
-            throw deleteError;
-          }
+    return { liked: !!row.liked, likes: Number(row.like_count) || 0 };
+  }
 
-          isLiked = false;
-        } else {
-          // Add like
-          const { error: insertError } = await supabase
-            .from('blog_likes')
-            .insert([{ blog_post_id: postId, visitor_id: visitorId }]);
-
-          if (insertError) {
-            console.error('❌ Error adding like:', insertError);
-            throw insertError;
-          }
+  // Mirror reading progress to the server, so it follows the visitor between sessions and
+  // shows up in the admin analytics. Skipped when the reader turned personalisation off.
+  async syncReadingProgress(postId: string, progress: number): Promise<void> {
+    if (!this.getFeedPreferences().personalized) return;
+    try {
+      const { error } = await supabase.rpc('record_reading_progress', {
+        p_visitor_id: this.getVisitorId(),
+        p_post_id: postId,
+        p_progress: progress
+      });
 
-          isLiked = true;
-        }
+      if (error) {
+        console.error('Error syncing reading progress:', error);
+      }
+    } catch (error) {
+      console.error('Error in syncReadingProgress:', error);
+    }
+  }
 
-        console.log('✅ Toggle like result:', { postId, result: isLiked, retryCount });
-        return isLiked;
+  // This visitor's synced reading progress, most recent first
+  async getRemoteReadingProgress(): Promise<ReadingProgressEntry[]> {
+    if (!this.getFeedPreferences().personalized) return [];
+    try {
+      const { data, error } = await supabase.rpc('get_visitor_reading_progress', {
+        p_visitor_id: this.getVisitorId()
+      });
 
-      } catch (error) {
-        retryCount++;
-        console.error(`❌ Error in toggleLike (attempt ${retryCount}/${maxRetries}):`, error);
-        
-        if (retryCount >= maxRetries) {
-          console.error('❌ Max retries reached, throwing error');
-          throw error;
-        }
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, 200 * retryCount));
+      if (error) {
+        console.error('Error fetching reading progress:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => ({
+        postId: row.blog_post_id,
+        progress: Number(row.progress) || 0,
+        maxProgress: Number(row.max_progress) || 0,
+        updatedAt: row.updated_at
+      }));
+    } catch (error) {
+      console.error('Error in getRemoteReadingProgress:', error);
+      return [];
+    }
+  }
+
+  // Push bookmark changes queued in this browser and pull the visitor's saved list back.
+  // Returns false when the database can't be reached; the queue is kept for next time.
+  async syncBookmarks(): Promise<boolean> {
+    // One sync at a time; changes made meanwhile go out in a follow-up run
+    if (this.bookmarkSync) {
+      this.bookmarkResyncRequested = true;
+      return this.bookmarkSync;
+    }
+
+    this.bookmarkSync = (async () => {
+      let synced = false;
+      do {
+        this.bookmarkResyncRequested = false;
+        synced = await this.pushBookmarks();
+      } while (synced && this.bookmarkResyncRequested);
+      return synced;
+    })();
+
+    try {
+      return await this.bookmarkSync;
+    } finally {
+      this.bookmarkSync = null;
+    }
+  }
+
+  private async pushBookmarks(): Promise<boolean> {
+    const changes = getPendingBookmarkChanges();
+    try {
+      const { data, error } = await supabase.rpc('sync_blog_bookmarks', {
+        p_visitor_id: this.getVisitorId(),
+        p_changes: changes
+      });
+
+      if (error) {
+        console.error('Error syncing bookmarks:', error);
+        return false;
       }
-    }
 
-    throw new Error('Toggle like failed after all retries');
+      const remote: Array<{ postId: string; savedAt: string }> = (data || [])
+        .map((row: any) => ({ postId: row.blog_post_id, savedAt: row.created_at }));
+      // Posts saved on another device need their cards for the local snapshot
+      const known = new Set(getBookmarks().map(bookmark => bookmark.post.id));
+      const cards = await this.getPostCardsByIds(
+        remote.filter(entry => !known.has(entry.postId)).map(entry => entry.postId)
+      );
+      applySyncedBookmarks(changes, remote, cards);
+      return true;
+    } catch (error) {
+      console.error('Error in syncBookmarks:', error);
+      return false;
+    }
   }
 
   // Check if user has liked a post
@@ -514,6 +1359,126 @@ class BlogService {
     }
   }
 
+  // Approved comments and replies of a post, plus this visitor's own pending ones
+  // (see get_blog_comments), oldest first
+  async getComments(postId: string): Promise<BlogComment[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_blog_comments', {
+        p_post_id: postId,
+        p_visitor_id: this.getVisitorId()
+      });
+
+      if (error) {
+        console.error('Error fetching comments:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => toComment(row));
+    } catch (error) {
+      console.error('Error in getComments:', error);
+      return [];
+    }
+  }
+
+  // Post a comment, or with parentId a reply to a comment at any depth. Its status comes
+  // from the moderation mode: pending comments are only shown back to this visitor.
+  // Throws so the caller can surface the error.
+  async submitComment(postId: string, input: CommentInput, parentId: string | null = null): Promise<BlogComment> {
+    const { data, error } = await supabase.rpc('submit_blog_comment', {
+      p_post_id: postId,
+      p_visitor_id: this.getVisitorId(),
+      p_author_name: input.author_name,
+      p_author_email: input.author_email,
+      p_content: input.content,
+      p_avatar: input.avatar ?? null,
+      p_honeypot: input.honeypot ?? null,
+      p_parent_id: parentId
+    });
+
+    if (error) {
+      console.error('Error submitting comment:', error);
+      throw error;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) {
+      throw new Error('Submit comment returned no result');
+    }
+
+    if (row.edit_token) {
+      saveEditToken(row.id, row.edit_token, row.created_at);
+    }
+
+    // The depth is filled in by the caller, which knows the parent
+    const { edit_token: _editToken, ...saved } = row;
+    return toComment({ ...input, ...saved, parent_id: parentId });
+  }
+
+  // Whether this browser posted the comment and its edit window is still open
+  canEditComment(comment: BlogComment): boolean {
+    return !comment.deleted &&
+      !!comment.editable_until &&
+      Date.now() < new Date(comment.editable_until).getTime() &&
+      getEditToken(comment.id) !== null;
+  }
+
+  // Change a comment's content: the author within the edit window, or an admin at any time.
+  // The previous content is kept in blog_comment_edits, and the new content is scored for
+  // spam, which can send an author's comment back to pending. Throws so the caller can
+  // surface the error.
+  async editComment(id: string, content: string): Promise<Pick<BlogComment, 'content' | 'edited_at' | 'status'>> {
+    const { data, error } = await supabase.rpc('edit_blog_comment', {
+      p_id: id,
+      p_content: content,
+      p_edit_token: getEditToken(id)
+    });
+
+    if (error) {
+      console.error('Error editing comment:', error);
+      throw error;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) {
+      throw new Error('Edit comment returned no result');
+    }
+
+    return { content: row.content, edited_at: row.edited_at ?? null, status: row.status };
+  }
+
+  // Delete a comment, with the same rules as editComment. A comment that has replies becomes
+  // a tombstone. Throws so the caller can surface the error.
+  async deleteComment(id: string): Promise<CommentDeletion> {
+    const { data, error } = await supabase.rpc('delete_blog_comment', {
+      p_id: id,
+      p_edit_token: getEditToken(id)
+    });
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      throw error;
+    }
+
+    forgetEditToken(id);
+    return data === 'tombstoned' ? 'tombstoned' : 'deleted';
+  }
+
+  // Add (1) or take back (-1) a like on an approved comment or reply; returns the new
+  // count. Throws so the caller can roll back their optimistic update.
+  async adjustCommentLikes(id: string, delta: 1 | -1): Promise<number> {
+    const { data, error } = await supabase.rpc('adjust_comment_likes', {
+      p_id: id,
+      p_delta: delta
+    });
+
+    if (error) {
+      console.error('Error updating comment likes:', error);
+      throw error;
+    }
+
+    return Number(data) || 0;
+  }
+
   // Get blog analytics for admin
   async getBlogAnalytics() {
     try {
@@ -557,6 +1522,542 @@ class BlogService {
       return null;
     }
   }
+
+  // Reading depth per post (admin only)
+  async getReadingStats(): Promise<BlogReadingStats[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_blog_reading_stats');
+
+      if (error) {
+        console.error('Error fetching reading stats:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => ({
+        blog_post_id: row.blog_post_id,
+        readers: Number(row.readers) || 0,
+        average_depth: Number(row.average_depth) || 0,
+        completions: Number(row.completions) || 0
+      }));
+    } catch (error) {
+      console.error('Error in getReadingStats:', error);
+      return [];
+    }
+  }
+
+  // Get every post, including drafts, for the admin panel
+  async getAllPostsForAdmin(): Promise<BlogPost[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_posts')
+        .select(POST_COLUMNS)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching admin blog posts:', error);
+        return [];
+      }
+
+      return (data || []).map((post: any) => normalizePostFields(post));
+    } catch (error) {
+      console.error('Error in getAllPostsForAdmin:', error);
+      return [];
+    }
+  }
+
+  // Create a new post (admin only). Throws so the caller can surface the error.
+  async createPost(input: BlogPostInput): Promise<BlogPost> {
+    const { data, error } = await supabase
+      .from('blog_posts')
+      .insert([{ ...input, views: 0, likes: 0 }])
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating blog post:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return normalizePostFields(data);
+  }
+
+  // Update an existing post (admin only). Throws so the caller can surface the error.
+  async updatePost(id: string, updates: Partial<BlogPostInput>): Promise<BlogPost> {
+    const { data, error } = await supabase
+      .from('blog_posts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating blog post:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return normalizePostFields(data);
+  }
+
+  // Delete a post (admin only). Throws so the caller can surface the error.
+  async deletePost(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('blog_posts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting blog post:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Recompute related-post recommendations for every post from tags, text, series and
+  // co-views, and replace the stored set (admin only). Returns the number of stored rows.
+  // Throws so the caller can surface the error.
+  async refreshRecommendations(): Promise<number> {
+    const [posts, seriesList, coViewResult] = await Promise.all([
+      this.getAllPostsForAdmin(),
+      this.getAllSeriesForAdmin(),
+      supabase.rpc('get_blog_post_co_views')
+    ]);
+
+    if (coViewResult.error) {
+      console.error('Error fetching co-views:', coViewResult.error);
+      throw coViewResult.error;
+    }
+
+    const seriesByPost = new Map<string, string>();
+    seriesList.forEach(series => series.posts.forEach(post => seriesByPost.set(post.id, series.id)));
+
+    const coViews = new Map<string, Map<string, number>>();
+    (coViewResult.data || []).forEach((row: any) => {
+      if (!coViews.has(row.post_id)) coViews.set(row.post_id, new Map());
+      coViews.get(row.post_id)!.set(row.related_post_id, Number(row.visitors));
+    });
+
+    const rows = Array.from(scoreRecommendations(posts, { seriesByPost, coViews }).values()).flat();
+    const { data, error } = await supabase.rpc('replace_blog_post_recommendations', { p_rows: rows });
+
+    if (error) {
+      console.error('Error storing recommendations:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return Number(data) || 0;
+  }
+
+  // Get the revision history of a post, newest first (admin only)
+  async getPostRevisions(postId: string): Promise<BlogPostRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_post_revisions')
+        .select('*')
+        .eq('blog_post_id', postId)
+        .order('revision', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching post revisions:', error);
+        return [];
+      }
+
+      return (data || []).map((revision: any) => normalizePostFields(revision) as unknown as BlogPostRevision);
+    } catch (error) {
+      console.error('Error in getPostRevisions:', error);
+      return [];
+    }
+  }
+
+  // Restore a post to a previous revision. The update itself is recorded as a new revision.
+  async restoreRevision(revision: BlogPostRevision): Promise<BlogPost> {
+    const { id, blog_post_id, revision: revisionNumber, created_by, created_at, ...fields } = revision;
+    return this.updatePost(blog_post_id, fields);
+  }
+
+  // Get every series with all of its parts, including drafts (admin only)
+  async getAllSeriesForAdmin(): Promise<BlogSeriesWithPosts[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_series')
+        .select(SERIES_SELECT)
+        .order('title', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching admin blog series:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => toSeriesWithPosts(row, false));
+    } catch (error) {
+      console.error('Error in getAllSeriesForAdmin:', error);
+      return [];
+    }
+  }
+
+  // Create a series (admin only). Throws so the caller can surface the error.
+  async createSeries(input: BlogSeriesInput): Promise<BlogSeries> {
+    const { data, error } = await supabase
+      .from('blog_series')
+      .insert([input])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating blog series:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Update a series' details (admin only). Throws so the caller can surface the error.
+  async updateSeries(id: string, updates: Partial<BlogSeriesInput>): Promise<BlogSeries> {
+    const { data, error } = await supabase
+      .from('blog_series')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating blog series:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Delete a series; its posts stay published (admin only). Throws so the caller can surface the error.
+  async deleteSeries(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('blog_series')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting blog series:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Replace the parts of a series, in reading order (admin only). Throws so the caller can surface the error.
+  async setSeriesPosts(seriesId: string, postIds: string[]): Promise<void> {
+    const { error } = await supabase.rpc('set_blog_series_posts', {
+      p_series_id: seriesId,
+      p_post_ids: postIds
+    });
+
+    if (error) {
+      console.error('Error updating series posts:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Create a category (admin only). Throws so the caller can surface the error.
+  async createCategory(input: BlogCategoryInput): Promise<BlogCategory> {
+    const categories = await this.getCategories();
+    const sortOrder = categories.reduce((max, category) => Math.max(max, category.sort_order), 0) + 1;
+    const { data, error } = await supabase
+      .from('blog_categories')
+      .insert([{ ...input, sort_order: sortOrder }])
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating category:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Update a category; a new name is carried to its posts by the database (admin only).
+  // Throws so the caller can surface the error.
+  async updateCategory(id: string, updates: Partial<BlogCategoryInput>): Promise<BlogCategory> {
+    const { data, error } = await supabase
+      .from('blog_categories')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating category:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Set the display order of categories (admin only). Throws so the caller can surface the error.
+  async reorderCategories(ids: string[]): Promise<void> {
+    const { error } = await supabase.rpc('reorder_blog_categories', { p_category_ids: ids });
+
+    if (error) {
+      console.error('Error reordering categories:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Delete a category, moving its posts to another one first (admin only).
+  // Returns how many posts were moved. Throws so the caller can surface the error.
+  async deleteCategory(id: string, reassignTo: string | null): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_blog_category', {
+      p_category_id: id,
+      p_reassign_to: reassignTo
+    });
+
+    if (error) {
+      console.error('Error deleting category:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return Number(data) || 0;
+  }
+
+  // Get every tag with aliases and counts over all posts, drafts included (admin only)
+  async getAllTagsForAdmin(): Promise<BlogTagWithCount[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_blog_tags');
+
+      if (error) {
+        console.error('Error fetching tags for admin:', error);
+        return [];
+      }
+
+      return (data || []).map((tag: any) => ({ ...tag, post_count: Number(tag.post_count) }));
+    } catch (error) {
+      console.error('Error in getAllTagsForAdmin:', error);
+      return [];
+    }
+  }
+
+  // Rename a tag and rewrite every post that carries it (admin only). Throws so the caller can surface the error.
+  async renameTag(id: string, name: string): Promise<BlogTag> {
+    const { data, error } = await supabase.rpc('rename_blog_tag', { p_tag_id: id, p_name: name });
+
+    if (error) {
+      console.error('Error renaming tag:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Update a tag's description (admin only)
+  async updateTagDescription(id: string, description: string): Promise<void> {
+    const { error } = await supabase
+      .from('blog_tags')
+      .update({ description, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating tag:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Fold the source tags into the target, retagging their posts (admin only)
+  async mergeTags(sourceIds: string[], targetId: string): Promise<BlogTag> {
+    const { data, error } = await supabase.rpc('merge_blog_tags', { p_source_ids: sourceIds, p_target_id: targetId });
+
+    if (error) {
+      console.error('Error merging tags:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+    return data;
+  }
+
+  // Remove a tag from every post and delete it (admin only)
+  async deleteTag(id: string): Promise<void> {
+    const { error } = await supabase.rpc('delete_blog_tag', { p_tag_id: id });
+
+    if (error) {
+      console.error('Error deleting tag:', error);
+      throw error;
+    }
+
+    this.cache.clear();
+  }
+
+  // Every comment and reply, newest first, for the moderation queue (admin only)
+  async getCommentsForModeration(): Promise<ModerationComment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_comments')
+        .select('id, blog_post_id, parent_id, depth, author_name, author_email, content, status, spam_score, spam_reasons, created_at, edited_at, deleted_at')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching comments for moderation:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => ({
+        ...row,
+        depth: Number(row.depth) || 0,
+        spam_score: Number(row.spam_score) || 0,
+        spam_reasons: row.spam_reasons || []
+      }));
+    } catch (error) {
+      console.error('Error in getCommentsForModeration:', error);
+      return [];
+    }
+  }
+
+  // Set the status of comments and replies in bulk (admin only). Throws so the caller can surface the error.
+  async moderateComments(ids: string[], status: CommentStatus): Promise<void> {
+    const { error } = await supabase
+      .from('blog_comments')
+      .update({ status })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error moderating comments:', error);
+      throw error;
+    }
+  }
+
+  // Current comment moderation mode (admin only); first_time when it was never set
+  async getCommentModerationMode(): Promise<CommentModerationMode> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_settings')
+        .select('value')
+        .eq('key', 'comment_moderation')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching comment moderation mode:', error);
+        return 'first_time';
+      }
+
+      return Object.prototype.hasOwnProperty.call(COMMENT_MODERATION_MODES, data?.value) ? data.value : 'first_time';
+    } catch (error) {
+      console.error('Error in getCommentModerationMode:', error);
+      return 'first_time';
+    }
+  }
+
+  // Change how new comments are published (admin only). Throws so the caller can surface the error.
+  async setCommentModerationMode(mode: CommentModerationMode): Promise<void> {
+    const { error } = await supabase
+      .from('blog_settings')
+      .upsert({ key: 'comment_moderation', value: mode });
+
+    if (error) {
+      console.error('Error saving comment moderation mode:', error);
+      throw error;
+    }
+  }
+
+  // Minutes authors may edit or delete their comments for (admin only); 0 means never
+  async getCommentEditWindow(): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_settings')
+        .select('value')
+        .eq('key', 'comment_edit_window')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching comment edit window:', error);
+        return DEFAULT_COMMENT_EDIT_WINDOW;
+      }
+
+      const minutes = Number(data?.value);
+      return data && Number.isFinite(minutes) ? Math.max(0, minutes) : DEFAULT_COMMENT_EDIT_WINDOW;
+    } catch (error) {
+      console.error('Error in getCommentEditWindow:', error);
+      return DEFAULT_COMMENT_EDIT_WINDOW;
+    }
+  }
+
+  // Change the author edit window (admin only). Throws so the caller can surface the error.
+  async setCommentEditWindow(minutes: number): Promise<void> {
+    const { error } = await supabase
+      .from('blog_settings')
+      .upsert({ key: 'comment_edit_window', value: Math.max(0, Math.round(minutes)) });
+
+    if (error) {
+      console.error('Error saving comment edit window:', error);
+      throw error;
+    }
+  }
+
+  // Earlier versions of a comment, oldest first (admin only)
+  async getCommentEditHistory(commentId: string): Promise<BlogCommentEdit[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_comment_edits')
+        .select('id, comment_id, content, edited_by, created_at')
+        .eq('comment_id', commentId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching comment edit history:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getCommentEditHistory:', error);
+      return [];
+    }
+  }
+
+  // Spam scoring settings (admin only); defaults fill in anything never set
+  async getCommentSpamSettings(): Promise<CommentSpamSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_settings')
+        .select('value')
+        .eq('key', 'comment_spam')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching comment spam settings:', error);
+        return DEFAULT_COMMENT_SPAM_SETTINGS;
+      }
+
+      return { ...DEFAULT_COMMENT_SPAM_SETTINGS, ...(data?.value || {}) };
+    } catch (error) {
+      console.error('Error in getCommentSpamSettings:', error);
+      return DEFAULT_COMMENT_SPAM_SETTINGS;
+    }
+  }
+
+  // Save spam scoring settings (admin only). Throws so the caller can surface the error.
+  async setCommentSpamSettings(settings: CommentSpamSettings): Promise<void> {
+    const { error } = await supabase
+      .from('blog_settings')
+      .upsert({ key: 'comment_spam', value: settings });
+
+    if (error) {
+      console.error('Error saving comment spam settings:', error);
+      throw error;
+    }
+  }
 }
 
 export const blogService = new BlogService();
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * The visitor's reading list, kept in localStorage so saving works offline and the saved
+ * page can render without the network. Each bookmark keeps a snapshot of the post card.
+ * Saves and removals made here are queued until blogService.syncBookmarks pushes them to
+ * blog_bookmarks; the server's list then replaces everything that isn't still queued.
+ */
+import type { BlogPostCard } from './blogService';
+
+export type BookmarkSnapshot = Pick<
+  BlogPostCard,
+  'id' | 'slug' | 'title' | 'excerpt' | 'category' | 'date' | 'read_time' | 'image_url' | 'images'
+>;
+
+export interface Bookmark {
+  post: BookmarkSnapshot;
+  savedAt: string;
+}
+
+export interface BookmarkChange {
+  post_id: string;
+  saved: boolean;
+  at: string;
+}
+
+interface BookmarkStore {
+  bookmarks: Record<string, Bookmark>;
+  // Changes not yet confirmed by the server, by post id
+  pending: Record<string, BookmarkChange>;
+}
+
+const STORAGE_KEY = 'blog-bookmarks:v1';
+
+const listeners = new Set<() => void>();
+
+const readStore = (): BookmarkStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const store = raw ? JSON.parse(raw) : null;
+    return { bookmarks: store?.bookmarks || {}, pending: store?.pending || {} };
+  } catch {
+    return { bookmarks: {}, pending: {} };
+  }
+};
+
+const writeStore = (store: BookmarkStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the change lasts for this page only
+  }
+  listeners.forEach(listener => listener());
+};
+
+const snapshot = (post: BookmarkSnapshot): BookmarkSnapshot => ({
+  id: post.id,
+  slug: post.slug,
+  title: post.title,
+  excerpt: post.excerpt,
+  category: post.category,
+  date: post.date,
+  read_time: post.read_time,
+  image_url: post.image_url,
+  images: post.images
+});
+
+export const isBookmarked = (postId: string) => postId in readStore().bookmarks;
+
+// Saved posts, most recently saved first
+export const getBookmarks = (): Bookmark[] =>
+  Object.values(readStore().bookmarks).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+export const setBookmark = (post: BookmarkSnapshot, saved: boolean) => {
+  const store = readStore();
+  const at = new Date().toISOString();
+  if (saved) {
+    store.bookmarks[post.id] = { post: snapshot(post), savedAt: at };
+  } else {
+    delete store.bookmarks[post.id];
+  }
+  store.pending[post.id] = { post_id: post.id, saved, at };
+  writeStore(store);
+};
+
+export const getPendingBookmarkChanges = (): BookmarkChange[] => Object.values(readStore().pending);
+
+/**
+ * Apply the server's list after `sent` was pushed. Changes made since then stay queued and
+ * keep overriding the server; everything else follows it. Snapshots for posts saved on
+ * another device come from `cards`.
+ */
+export const applySyncedBookmarks = (
+  sent: BookmarkChange[],
+  remote: Array<{ postId: string; savedAt: string }>,
+  cards: BookmarkSnapshot[]
+) => {
+  const store = readStore();
+  sent.forEach(change => {
+    const pending = store.pending[change.post_id];
+    if (pending && pending.at === change.at && pending.saved === change.saved) delete store.pending[change.post_id];
+  });
+
+  const cardById = new Map(cards.map(card => [card.id, card]));
+  const bookmarks: Record<string, Bookmark> = {};
+  remote.forEach(({ postId, savedAt }) => {
+    const post = store.bookmarks[postId]?.post || cardById.get(postId);
+    if (post) bookmarks[postId] = { post: snapshot(post), savedAt };
+  });
+  Object.values(store.pending).forEach(change => {
+    if (change.saved && store.bookmarks[change.post_id]) {
+      bookmarks[change.post_id] = store.bookmarks[change.post_id];
+    } else {
+      delete bookmarks[change.post_id];
+    }
+  });
+
+  writeStore({ bookmarks, pending: store.pending });
+};
+
+// Refresh a saved post's snapshot (e.g. after it was retitled)
+export const updateBookmarkSnapshots = (cards: BookmarkSnapshot[]) => {
+  const store = readStore();
+  let changed = false;
+  cards.forEach(card => {
+    if (store.bookmarks[card.id]) {
+      store.bookmarks[card.id] = { ...store.bookmarks[card.id], post: snapshot(card) };
+      changed = true;
+    }
+  });
+  if (changed) writeStore(store);
+};
+
+// Be told about changes from this tab and others; returns an unsubscribe function
+export const subscribeToBookmarks = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
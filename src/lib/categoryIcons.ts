@@ -0,0 +1,46 @@
+import {
+  Folder,
+  Bot,
+  Layers,
+  Shield,
+  Cloud,
+  Palette,
+  Glasses,
+  Users,
+  Code,
+  Cpu,
+  Database,
+  Terminal,
+  Smartphone,
+  Globe,
+  Rocket,
+  Lightbulb,
+  BookOpen,
+  Briefcase,
+  type LucideIcon
+} from 'lucide-react';
+
+// Icons a category can use; blog_categories.icon stores the key
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  folder: Folder,
+  bot: Bot,
+  layers: Layers,
+  shield: Shield,
+  cloud: Cloud,
+  palette: Palette,
+  glasses: Glasses,
+  users: Users,
+  code: Code,
+  cpu: Cpu,
+  database: Database,
+  terminal: Terminal,
+  smartphone: Smartphone,
+  globe: Globe,
+  rocket: Rocket,
+  lightbulb: Lightbulb,
+  'book-open': BookOpen,
+  briefcase: Briefcase
+};
+
+// Unknown keys fall back to a folder rather than rendering nothing
+export const getCategoryIcon = (icon: string): LucideIcon => CATEGORY_ICONS[icon] ?? Folder;
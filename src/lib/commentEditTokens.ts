@@ -0,0 +1,50 @@
+/**
+ * Edit tokens for comments posted from this browser. submit_blog_comment hands one back
+ * with each new comment; holding it is what lets the author edit or delete the comment
+ * until the edit window closes. Tokens past their window are dropped on the next write.
+ */
+
+interface EditTokenEntry {
+  token: string;
+  // When the comment was posted; the window itself comes from the server
+  postedAt: string;
+}
+
+const STORAGE_KEY = 'blog-comment-edit-tokens:v1';
+
+// Longest window worth remembering a token for
+const MAX_TOKEN_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const readTokens = (): Record<string, EditTokenEntry> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) || {} : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeTokens = (tokens: Record<string, EditTokenEntry>) => {
+  const cutoff = Date.now() - MAX_TOKEN_AGE_MS;
+  const kept = Object.fromEntries(
+    Object.entries(tokens).filter(([, entry]) => new Date(entry.postedAt).getTime() > cutoff)
+  );
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the comment just can't be edited later
+  }
+};
+
+export const getEditToken = (commentId: string): string | null => readTokens()[commentId]?.token ?? null;
+
+export const saveEditToken = (commentId: string, token: string, postedAt: string) => {
+  writeTokens({ ...readTokens(), [commentId]: { token, postedAt } });
+};
+
+export const forgetEditToken = (commentId: string) => {
+  const tokens = readTokens();
+  if (!(commentId in tokens)) return;
+  delete tokens[commentId];
+  writeTokens(tokens);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { convertMarkdownToHtml, renderPostHtml, isReservedPostSlug, postSlugFromTitle } from './markdown';
+
+// Each fixture is a markdown file next to the HTML renderPostHtml should produce for it
+const sources = import.meta.glob<string>('./__fixtures__/markdown/*.md', { query: '?raw', import: 'default', eager: true });
+const expected = import.meta.glob<string>('./__fixtures__/markdown/*.html', { query: '?raw', import: 'default', eager: true });
+
+const fixtures = Object.entries(sources).map(([path, markdown]) => ({
+  name: path.replace(/^.*\/(.+)\.md$/, '$1'),
+  markdown,
+  html: expected[path.replace(/\.md$/, '.html')]
+}));
+
+describe('renderPostHtml fixtures', () => {
+  it('has an expected HTML file for every fixture', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+    for (const fixture of fixtures) {
+      expect(fixture.html, fixture.name).toBeTypeOf('string');
+    }
+  });
+
+  it.each(fixtures)('$name', ({ markdown, html }) => {
+    expect(renderPostHtml(markdown)).toBe(html);
+  });
+});
+
+describe('convertMarkdownToHtml', () => {
+  it('suffixes repeated heading ids and starts over on each render', () => {
+    const markdown = '## Notes\n\n## Notes\n';
+    const html = '<h2 id="notes">Notes</h2>\n<h2 id="notes-1">Notes</h2>\n';
+
+    expect(convertMarkdownToHtml(markdown)).toBe(html);
+    expect(convertMarkdownToHtml(markdown)).toBe(html);
+  });
+
+  it('normalizes Windows line endings', () => {
+    expect(convertMarkdownToHtml('# Title\r\n\r\nBody\r\n')).toBe(convertMarkdownToHtml('# Title\n\nBody\n'));
+  });
+
+  it('leaves raw HTML for the sanitizer to deal with', () => {
+    expect(convertMarkdownToHtml('<img src=x onerror="alert(1)">')).toContain('onerror');
+    expect(renderPostHtml('<img src=x onerror="alert(1)">')).not.toContain('onerror');
+  });
+});
+
+describe('renderPostHtml', () => {
+  it('renders nothing for empty content', () => {
+    expect(renderPostHtml('')).toBe('');
+  });
+});
+
+describe('post slugs', () => {
+  it('reserves the static /blog/ pages', () => {
+    expect(isReservedPostSlug('saved')).toBe(true);
+    expect(isReservedPostSlug('saved-posts')).toBe(false);
+  });
+
+  it('moves titles that would take a page slug off it', () => {
+    expect(postSlugFromTitle('Saved')).toBe('saved-post');
+    expect(postSlugFromTitle('Saved for Later')).toBe('saved-for-later');
+    expect(postSlugFromTitle('Series')).toBe('series-post');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Markdown rendering shared by the public blog post page and the admin editor preview.
+ * Parsing follows CommonMark plus GitHub Flavored Markdown (tables, task lists,
+ * strikethrough, autolinks) via `marked`; code blocks and headings use our own markup.
+ * Reader comments get a smaller subset with their own renderer.
+ */
+import { Marked, type Renderer, type Tokens } from 'marked';
+import { sanitizeHtml, POST_HTML_POLICY, COMMENT_HTML_POLICY } from './sanitizeHtml';
+
+/**
+ * Turn heading text into a URL-safe anchor id
+ */
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-');
+
+/**
+ * Shape of a valid post or series URL slug
+ */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Segments under /blog/ taken by app pages (see App.tsx), which posts can't use as slugs.
+ * Keep in sync with the blog_posts_slug_not_reserved constraint.
+ */
+export const RESERVED_POST_SLUGS = ['saved', 'series', 'tag', 'category'];
+
+export const isReservedPostSlug = (slug: string) => RESERVED_POST_SLUGS.includes(slug);
+
+/**
+ * Slug suggested for a post title, moved off the reserved segments
+ */
+export const postSlugFromTitle = (title: string) => {
+  const slug = slugify(title);
+  return isReservedPostSlug(slug) ? `${slug}-post` : slug;
+};
+
+const escapeHtml = (s: string) => s
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Heading ids already handed out during the current render, used to keep anchors unique
+let usedHeadingIds = new Map<string, number>();
+
+const uniqueHeadingId = (html: string) => {
+  const base = slugify(html.replace(/<[^>]+>/g, '').replace(/&[#a-z0-9]+;/gi, ''));
+  const seen = usedHeadingIds.get(base) ?? 0;
+  usedHeadingIds.set(base, seen + 1);
+  return seen === 0 ? base : `${base}-${seen}`;
+};
+
+const renderer: Partial<Renderer> = {
+  // Collapsible code blocks; BlogPost.tsx wires up Prism and the copy buttons
+  code(code: string, infostring: string | undefined, escaped: boolean) {
+    const lang = escapeHtml((infostring || '').trim().split(/\s+/)[0] || 'text');
+    const safe = escaped ? code : escapeHtml(code);
+
+    return `<details class="md-codeblock" data-lang="${lang}">
+          <summary class="md-codeblock__summary">
+            <span class="md-codeblock__label">Show code</span>
+            <span class="md-codeblock__meta">${lang}</span>
+          </summary>
+          <pre><code class="language-${lang}">${safe}</code></pre>
+        </details>\n`;
+  },
+
+  heading(text: string, level: number) {
+    return `<h${level} id="${uniqueHeadingId(text)}">${text}</h${level}>\n`;
+  }
+};
+
+const markdownParser = new Marked({ gfm: true, breaks: false, async: false, renderer });
+
+/**
+ * Convert CommonMark/GFM markdown to HTML
+ */
+export const convertMarkdownToHtml = (markdown: string): string => {
+  usedHeadingIds = new Map();
+  return markdownParser.parse(markdown.replace(/\r\n?/g, '\n')) as string;
+};
+
+/**
+ * Render post markdown to HTML that is safe to inject into the article body
+ */
+export const renderPostHtml = (markdown: string): string =>
+  markdown ? sanitizeHtml(convertMarkdownToHtml(markdown), POST_HTML_POLICY) : '';
+
+// Comments support inline and fenced code, links, emphasis, lists and quotes. Everything
+// else is flattened to text: headings become paragraphs, images their alt text, raw HTML
+// is shown as typed, and tables read row by row.
+const commentRenderer: Partial<Renderer> = {
+  // Plain blocks (no collapsing) that CommentBody highlights with Prism
+  code(code: string, infostring: string | undefined, escaped: boolean) {
+    const lang = escapeHtml((infostring || '').trim().split(/\s+/)[0] || 'text');
+    return `<pre><code class="language-${lang}">${escaped ? code : escapeHtml(code)}</code></pre>\n`;
+  },
+
+  // rel="nofollow ugc" is added by the sanitizer policy
+  link(href: string, _title: string | null | undefined, text: string) {
+    return `<a href="${escapeHtml(href)}" target="_blank">${text}</a>`;
+  },
+
+  heading(text: string) {
+    return `<p>${text}</p>\n`;
+  },
+
+  image(_href: string, _title: string | null, text: string) {
+    return escapeHtml(text);
+  },
+
+  html(html: string) {
+    return escapeHtml(html);
+  },
+
+  hr() {
+    return '';
+  },
+
+  checkbox() {
+    return '';
+  },
+
+  table(header: string, body: string) {
+    return `${header}${body}`;
+  },
+
+  tablerow(content: string) {
+    return `<p>${content.trim()}</p>\n`;
+  },
+
+  tablecell(content: string) {
+    return `${content} `;
+  }
+};
+
+// Single line breaks are kept, as they were when comments were plain text
+const commentParser = new Marked({ gfm: true, breaks: true, async: false, renderer: commentRenderer });
+
+/**
+ * Render a reader comment (the comment markdown subset) to HTML under the strict
+ * comment policy
+ */
+export const renderCommentHtml = (text: string): string =>
+  text ? sanitizeHtml(commentParser.parse(text.replace(/\r\n?/g, '\n')) as string, COMMENT_HTML_POLICY) : '';
+
+export interface OutlineItem {
+  id: string;
+  text: string;
+  level: number;
+}
+
+/**
+ * Extract the h1–h3 outline (with anchor ids) from rendered post HTML
+ */
+export const extractOutline = (html: string): OutlineItem[] => {
+  if (!html) return [];
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.querySelectorAll('h1[id], h2[id], h3[id]')).map(heading => ({
+    id: heading.id,
+    text: (heading.textContent || '').trim(),
+    level: Number(heading.tagName.slice(1))
+  }));
+};
+
+/**
+ * Plain text of the h1–h3 headings in post markdown, without rendering it (used by the
+ * offline search index)
+ */
+export const extractMarkdownHeadings = (markdown: string): string[] => {
+  if (!markdown) return [];
+  return markdownParser
+    .lexer(markdown.replace(/\r\n?/g, '\n'))
+    .filter((token): token is Tokens.Heading => token.type === 'heading' && token.depth <= 3)
+    .map(token => token.text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[*_`~]/g, '')
+      .trim())
+    .filter(Boolean);
+};
@@ -0,0 +1,165 @@
+/**
+ * The offline search index, kept in localStorage and loaded on demand (BlogSearch imports
+ * this module dynamically). A stored index is usable immediately, even without a
+ * connection; it is brought up to date in the background by comparing every live post's
+ * updated_at, and again whenever blogService fetches a post newer than anything indexed.
+ */
+import {
+  blogService,
+  emptyFacetCounts,
+  getReadTimeBucket,
+  type BlogSearchResult,
+  type SearchFacetCounts,
+  type SearchFacetName,
+  type SearchOptions,
+  type SearchSortOrder
+} from './blogService';
+import { SearchIndex, type SearchDocument } from './searchIndex';
+
+export interface OfflineSearch {
+  // Same options and result shape as blogService.searchPosts; `rank` is the local score
+  search(query: string, options?: SearchOptions): BlogSearchResult[];
+  // Same counting rules as search_blog_post_facets
+  facets(query: string, options?: SearchOptions): SearchFacetCounts;
+}
+
+const STORAGE_KEY = 'blog-search-index:v1';
+
+const readStoredDocuments = (): SearchDocument[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SearchDocument[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeDocuments = (index: SearchIndex) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(index.getDocuments()));
+  } catch {
+    // Persisting is an optimisation only (e.g. storage may be full)
+  }
+};
+
+const latestIndexedUpdate = (index: SearchIndex) =>
+  index.getDocuments().reduce((max, doc) => (doc.updated_at > max ? doc.updated_at : max), '');
+
+const SORTERS: Record<Exclude<SearchSortOrder, 'relevance'>, (a: BlogSearchResult, b: BlogSearchResult) => number> = {
+  date: (a, b) => b.date.localeCompare(a.date),
+  views: (a, b) => b.views - a.views,
+  likes: (a, b) => b.likes - a.likes
+};
+
+// Whether a document passes the filters in `options`, ignoring the one for `skip`
+const matchesFilters = (doc: SearchDocument, options: SearchOptions, skip?: SearchFacetName) =>
+  (skip === 'category' || !options.category || doc.category === options.category) &&
+  (!options.tags?.length || options.tags.every(tag => doc.tags.includes(tag))) &&
+  (skip === 'author' || !options.author || doc.author_name === options.author) &&
+  (skip === 'read_time' || !options.readTime || getReadTimeBucket(doc.read_time) === options.readTime) &&
+  (skip === 'month' || !options.period || doc.date.slice(0, 7) === options.period || doc.date.slice(0, 4) === options.period) &&
+  (!options.since || doc.date >= options.since);
+
+const searchWithOptions = (index: SearchIndex, query: string, options: SearchOptions = {}) => {
+  const { sortBy = 'relevance', limit = 20 } = options;
+  const results = index.search(query, index.size)
+    .filter(({ document }) => matchesFilters(document, options))
+    .map(({ document: { headings, ...card }, score, title_highlight, snippet }): BlogSearchResult => ({
+      ...card,
+      rank: score,
+      title_highlight,
+      snippet
+    }));
+
+  // Hits come best first and the sort is stable, so ties keep their relevance order
+  if (sortBy !== 'relevance') results.sort(SORTERS[sortBy]);
+  return results.slice(0, limit);
+};
+
+const facetsWithOptions = (index: SearchIndex, query: string, options: SearchOptions = {}) => {
+  const documents = query.trim()
+    ? index.search(query, index.size).map(hit => hit.document)
+    : index.getDocuments();
+
+  const counts = emptyFacetCounts();
+  const add = (facet: SearchFacetName, value: string) => {
+    if (value) counts[facet][value] = (counts[facet][value] ?? 0) + 1;
+  };
+
+  documents.forEach(doc => {
+    if (matchesFilters(doc, options, 'category')) add('category', doc.category);
+    if (matchesFilters(doc, options)) doc.tags.forEach(tag => add('tag', tag));
+    if (matchesFilters(doc, options, 'author')) add('author', doc.author_name);
+    if (matchesFilters(doc, options, 'read_time')) add('read_time', getReadTimeBucket(doc.read_time));
+    if (matchesFilters(doc, options, 'month')) add('month', doc.date.slice(0, 7));
+  });
+  return counts;
+};
+
+let indexPromise: Promise<SearchIndex> | null = null;
+let syncPromise: Promise<void> | null = null;
+// Newest updated_at reported while a sync was already running
+let pendingUpdate = '';
+
+// Fetch posts that are new or changed since they were indexed, and drop removed ones
+const syncIndex = (index: SearchIndex): Promise<void> => {
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    const versions = await blogService.getPostVersions();
+    // Offline or failing: keep serving what we have
+    if (!versions) return;
+
+    const stale = versions
+      .filter(version => index.get(version.id)?.updated_at !== version.updated_at)
+      .map(version => version.id);
+    const documents = stale.length ? await blogService.getSearchDocuments(stale) : [];
+    if (!documents) return;
+
+    index.retain(new Set(versions.map(version => version.id)));
+    index.upsert(documents);
+    storeDocuments(index);
+  })().finally(() => {
+    syncPromise = null;
+    if (pendingUpdate > latestIndexedUpdate(index)) {
+      pendingUpdate = '';
+      syncIndex(index);
+    }
+  });
+
+  return syncPromise;
+};
+
+// Resolve the shared index, waiting for the first build only when nothing is stored yet
+const loadSearchIndex = (): Promise<SearchIndex> => {
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const index = new SearchIndex(readStoredDocuments());
+
+      blogService.onNewerPosts(updatedAt => {
+        if (updatedAt <= latestIndexedUpdate(index)) return;
+        if (syncPromise) {
+          if (updatedAt > pendingUpdate) pendingUpdate = updatedAt;
+        } else {
+          syncIndex(index);
+        }
+      });
+
+      const initialSync = syncIndex(index);
+      if (index.size === 0) await initialSync;
+      return index;
+    })();
+  }
+  return indexPromise;
+};
+
+/**
+ * Load the offline index (building it on first use) and return a searcher over it
+ */
+export const loadOfflineSearch = async (): Promise<OfflineSearch> => {
+  const index = await loadSearchIndex();
+  return {
+    search: (query, options) => searchWithOptions(index, query, options),
+    facets: (query, options) => facetsWithOptions(index, query, options)
+  };
+};
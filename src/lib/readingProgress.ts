@@ -0,0 +1,97 @@
+/**
+ * Per-post reading progress kept in localStorage, so "Continue reading" works without
+ * any network round trip. blogService mirrors it to blog_reading_progress when the
+ * reader allows personalisation; remote entries are merged back in here.
+ */
+
+export interface ReadingProgressEntry {
+  postId: string;
+  // Latest position through the article, 0–1
+  progress: number;
+  // Deepest point reached, 0–1
+  maxProgress: number;
+  updatedAt: string;
+}
+
+// Below this a post was only opened, not started
+export const READ_STARTED_AT = 0.05;
+// At or past this a post counts as read (the tail is usually comments and related posts)
+export const READ_FINISHED_AT = 0.9;
+
+const STORAGE_KEY = 'reading-progress:v1';
+const MAX_ENTRIES = 100;
+
+type ProgressStore = Record<string, Omit<ReadingProgressEntry, 'postId'>>;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+
+const readStore = (): ProgressStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeStore = (store: ProgressStore) => {
+  // Keep only the most recently touched posts
+  const entries = Object.entries(store)
+    .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch {
+    // Storage can be unavailable (private mode, quota); progress is best-effort
+  }
+};
+
+export const getReadingProgress = (postId: string): ReadingProgressEntry | null => {
+  const entry = readStore()[postId];
+  return entry ? { postId, ...entry } : null;
+};
+
+export const saveReadingProgress = (postId: string, progress: number): ReadingProgressEntry => {
+  const store = readStore();
+  const value = clamp(progress);
+  const entry = {
+    progress: value,
+    maxProgress: Math.max(store[postId]?.maxProgress || 0, value),
+    updatedAt: new Date().toISOString()
+  };
+  writeStore({ ...store, [postId]: entry });
+  return { postId, ...entry };
+};
+
+// Fold in entries synced from another device or tab; the most recent update wins
+export const mergeReadingProgress = (remote: ReadingProgressEntry[]) => {
+  const store = readStore();
+  remote.forEach(({ postId, ...entry }) => {
+    const local = store[postId];
+    if (!local || entry.updatedAt > local.updatedAt) {
+      store[postId] = {
+        progress: clamp(entry.progress),
+        maxProgress: Math.max(local?.maxProgress || 0, clamp(entry.maxProgress)),
+        updatedAt: entry.updatedAt
+      };
+    }
+  });
+  writeStore(store);
+};
+
+export const forgetReadingProgress = (postId: string) => {
+  const store = readStore();
+  if (!(postId in store)) return;
+  delete store[postId];
+  writeStore(store);
+};
+
+export const isUnfinished = (entry: Pick<ReadingProgressEntry, 'progress' | 'maxProgress'>) =>
+  entry.progress >= READ_STARTED_AT && entry.maxProgress < READ_FINISHED_AT;
+
+// Posts started but not finished, most recently read first
+export const getUnfinishedReads = (): ReadingProgressEntry[] =>
+  Object.entries(readStore())
+    .map(([postId, entry]) => ({ postId, ...entry }))
+    .filter(isUnfinished)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTfIdfVectors,
+  coViewSignal,
+  combineSignals,
+  cosineSimilarity,
+  scoreRecommendations,
+  tagOverlap,
+  RECOMMENDATION_WEIGHTS,
+  type RecommendablePost
+} from './recommendations';
+
+const makePost = (id: string, overrides: Partial<RecommendablePost> = {}): RecommendablePost => ({
+  id,
+  title: '',
+  excerpt: '',
+  content: '',
+  tags: [],
+  category: 'general',
+  date: '2026-01-01',
+  ...overrides
+});
+
+const norm = (vector: Map<string, number>) =>
+  Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+
+describe('tagOverlap', () => {
+  it('is the Jaccard index of the two tag sets', () => {
+    expect(tagOverlap(['react', 'hooks'], ['react', 'testing', 'vite'])).toBeCloseTo(1 / 4);
+    expect(tagOverlap(['a', 'b'], ['a', 'b'])).toBe(1);
+    expect(tagOverlap(['a'], ['b'])).toBe(0);
+  });
+
+  it('ignores case and duplicates', () => {
+    expect(tagOverlap(['React', 'react', 'Hooks'], ['REACT', 'hooks'])).toBe(1);
+  });
+
+  it('is symmetric', () => {
+    expect(tagOverlap(['a', 'b', 'c'], ['c', 'd'])).toBe(tagOverlap(['c', 'd'], ['a', 'b', 'c']));
+  });
+
+  it('is zero when either side has no tags', () => {
+    expect(tagOverlap([], ['a'])).toBe(0);
+    expect(tagOverlap(['a'], [])).toBe(0);
+    expect(tagOverlap([], [])).toBe(0);
+  });
+});
+
+describe('buildTfIdfVectors', () => {
+  const posts = [
+    makePost('a', { title: 'Postgres indexes', content: 'btree indexes speed lookups' }),
+    makePost('b', { title: 'Postgres locks', content: 'row locks block writers' }),
+    makePost('c', { title: 'Postgres vacuum', content: 'vacuum reclaims dead tuples' })
+  ];
+  const vectors = buildTfIdfVectors(posts);
+
+  it('returns a unit-length vector per post', () => {
+    expect(Array.from(vectors.keys())).toEqual(['a', 'b', 'c']);
+    vectors.forEach(vector => expect(norm(vector)).toBeCloseTo(1));
+  });
+
+  it('gives no weight to terms found in every post', () => {
+    vectors.forEach(vector => expect(vector.has('postgres')).toBe(false));
+  });
+
+  it('weights title words above content words', () => {
+    const a = vectors.get('a')!;
+    expect(a.get('indexes')!).toBeGreaterThan(a.get('btree')!);
+  });
+
+  it('skips stop words, short words, numbers, code and URLs', () => {
+    const [vector] = buildTfIdfVectors([
+      makePost('x', { content: 'the db has 42 rows `SELECT secret` see https://example.com/hidden and ```sql\nhiddenquery\n``` [docs](https://example.com/linked)' }),
+      makePost('y', { content: 'unrelated' })
+    ]).values();
+    expect(Array.from(vector.keys()).sort()).toEqual(['docs', 'rows', 'see']);
+  });
+
+  it('leaves an empty vector for a post with nothing distinctive', () => {
+    const vectors = buildTfIdfVectors([makePost('x', { title: 'shared' }), makePost('y', { title: 'shared' })]);
+    expect(vectors.get('x')!.size).toBe(0);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  const vectors = buildTfIdfVectors([
+    makePost('a', { title: 'react hooks state', content: 'effects and memoization' }),
+    makePost('b', { title: 'react hooks testing', content: 'effects under test' }),
+    makePost('c', { title: 'sourdough baking', content: 'starter hydration' }),
+    makePost('d', { title: 'garden compost', content: 'worms soil' })
+  ]);
+
+  it('is one for a post with itself', () => {
+    expect(cosineSimilarity(vectors.get('a')!, vectors.get('a')!)).toBeCloseTo(1);
+  });
+
+  it('is zero for posts sharing no terms', () => {
+    expect(cosineSimilarity(vectors.get('a')!, vectors.get('c')!)).toBe(0);
+  });
+
+  it('is symmetric and between zero and one', () => {
+    const ab = cosineSimilarity(vectors.get('a')!, vectors.get('b')!);
+    expect(ab).toBeGreaterThan(0);
+    expect(ab).toBeLessThan(1);
+    expect(cosineSimilarity(vectors.get('b')!, vectors.get('a')!)).toBeCloseTo(ab);
+  });
+
+  it('is zero against an empty vector', () => {
+    expect(cosineSimilarity(new Map(), vectors.get('a')!)).toBe(0);
+  });
+});
+
+describe('coViewSignal and combineSignals', () => {
+  it('saturates co-views towards one', () => {
+    expect(coViewSignal(0)).toBe(0);
+    expect(coViewSignal(5)).toBeCloseTo(0.5);
+    expect(coViewSignal(1000)).toBeLessThan(1);
+    expect(coViewSignal(10)).toBeGreaterThan(coViewSignal(5));
+  });
+
+  it('weights the signals', () => {
+    expect(combineSignals({ tags: 1, text: 1, series: 1, coViews: 1 })).toBeCloseTo(1);
+    expect(combineSignals({ tags: 0, text: 0, series: 1, coViews: 0 })).toBeCloseTo(RECOMMENDATION_WEIGHTS.series);
+  });
+});
+
+describe('scoreRecommendations', () => {
+  const ids = (recommendations: { related_post_id: string }[] | undefined) =>
+    (recommendations || []).map(recommendation => recommendation.related_post_id);
+
+  it('orders candidates by score and never recommends a post to itself', () => {
+    const posts = [
+      makePost('hooks', { title: 'react hooks', tags: ['react', 'hooks'] }),
+      makePost('testing-hooks', { title: 'testing react hooks', tags: ['react', 'hooks', 'testing'] }),
+      makePost('router', { title: 'react router', tags: ['react', 'routing'] }),
+      makePost('bread', { title: 'sourdough', tags: ['baking'] })
+    ];
+    const result = scoreRecommendations(posts);
+    const forHooks = result.get('hooks')!;
+
+    expect(ids(forHooks)).toEqual(['testing-hooks', 'router']);
+    expect(forHooks[0].score).toBeGreaterThan(forHooks[1].score);
+    expect(forHooks[0]).toMatchObject({ post_id: 'hooks', related_post_id: 'testing-hooks' });
+    expect(forHooks[0].score).toBeCloseTo(combineSignals(forHooks[0].signals));
+    result.forEach((recommendations, postId) => expect(ids(recommendations)).not.toContain(postId));
+  });
+
+  it('drops candidates with nothing in common', () => {
+    const result = scoreRecommendations([
+      makePost('a', { title: 'alpha', tags: ['one'] }),
+      makePost('b', { title: 'bravo', tags: ['two'] })
+    ]);
+    expect(result.get('a')).toEqual([]);
+  });
+
+  it('scores series membership and co-views', () => {
+    const posts = [makePost('a', { title: 'alpha' }), makePost('b', { title: 'bravo' }), makePost('c', { title: 'charlie' })];
+    const result = scoreRecommendations(posts, {
+      seriesByPost: new Map([['a', 's1'], ['b', 's1'], ['c', 's2']]),
+      coViews: new Map([['a', new Map([['c', 5]])]])
+    });
+    const [b, c] = result.get('a')!;
+
+    expect(b).toMatchObject({ related_post_id: 'b', signals: { tags: 0, text: 0, series: 1, coViews: 0 } });
+    expect(b.score).toBeCloseTo(RECOMMENDATION_WEIGHTS.series);
+    expect(c).toMatchObject({ related_post_id: 'c', signals: { series: 0 } });
+    expect(c.signals.coViews).toBeCloseTo(0.5);
+    // Co-views are directional: only what was passed for the post itself counts
+    expect(ids(result.get('c'))).toEqual([]);
+  });
+
+  it('breaks ties by same category, then by the newer post', () => {
+    const posts = [
+      makePost('current', { title: 'alpha', tags: ['shared'], category: 'dev' }),
+      makePost('old-other', { title: 'bravo', tags: ['shared'], category: 'life', date: '2026-01-01' }),
+      makePost('new-other', { title: 'charlie', tags: ['shared'], category: 'life', date: '2026-03-01' }),
+      makePost('old-same', { title: 'delta', tags: ['shared'], category: 'dev', date: '2025-06-01' })
+    ];
+    const recommendations = scoreRecommendations(posts).get('current')!;
+
+    expect(new Set(recommendations.map(recommendation => recommendation.score)).size).toBe(1);
+    expect(ids(recommendations)).toEqual(['old-same', 'new-other', 'old-other']);
+  });
+
+  it('keeps at most `limit` recommendations per post', () => {
+    const posts = Array.from({ length: 10 }, (_, index) => makePost(`p${index}`, { title: `topic${index}`, tags: ['shared'] }));
+    const result = scoreRecommendations(posts, { limit: 3 });
+    result.forEach(recommendations => expect(recommendations).toHaveLength(3));
+    expect(scoreRecommendations(posts).get('p0')).toHaveLength(6);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Related-post scoring. Pure functions over plain post data, so scores can be computed
+ * (and tested) without the database: blogService feeds in posts, series membership and
+ * co-view counts and stores the result in blog_post_recommendations.
+ *
+ * A candidate's score is a weighted sum of four signals, each in 0–1:
+ * - tags: Jaccard overlap of the two tag sets
+ * - text: cosine similarity of TF-IDF vectors over title, excerpt and content
+ * - series: both posts are parts of the same series
+ * - coViews: distinct visitors who read both posts, saturating as the count grows
+ */
+import { tokenize } from './searchIndex';
+
+export interface RecommendablePost {
+  id: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  tags: string[];
+  category: string;
+  date: string;
+}
+
+export type RecommendationSignal = 'tags' | 'text' | 'series' | 'coViews';
+
+export interface RecommendationInputs {
+  // Post id -> series id, for posts that are part of a series
+  seriesByPost?: Map<string, string>;
+  // Post id -> (other post id -> distinct visitors who viewed both)
+  coViews?: Map<string, Map<string, number>>;
+  // Recommendations kept per post
+  limit?: number;
+}
+
+export interface Recommendation {
+  post_id: string;
+  related_post_id: string;
+  score: number;
+  signals: Record<RecommendationSignal, number>;
+}
+
+export const RECOMMENDATION_WEIGHTS: Record<RecommendationSignal, number> = {
+  tags: 0.3,
+  text: 0.4,
+  series: 0.15,
+  coViews: 0.15
+};
+
+// Title words count three times and excerpt words twice towards a post's term frequencies
+const FIELD_REPEATS = { title: 3, excerpt: 2, content: 1 };
+
+// Co-viewers at which the co-view signal reaches one half
+const CO_VIEW_HALF_SATURATION = 5;
+
+const DEFAULT_LIMIT = 6;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'and', 'any', 'are', 'because', 'been', 'before', 'being', 'but',
+  'can', 'could', 'did', 'does', 'each', 'for', 'from', 'get', 'had', 'has', 'have', 'here',
+  'how', 'into', 'its', 'just', 'like', 'more', 'most', 'not', 'now', 'only', 'other', 'our',
+  'out', 'over', 'same', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too', 'use', 'used', 'using',
+  'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will',
+  'with', 'would', 'you', 'your'
+]);
+
+type TermVector = Map<string, number>;
+
+// Code blocks, link targets and image URLs say little about what a post is about
+const stripMarkdown = (markdown: string) =>
+  (markdown || '')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ');
+
+const contentTerms = (text: string) =>
+  tokenize(text).filter(term => term.length > 2 && !STOP_WORDS.has(term) && !/^\d+$/.test(term));
+
+const termCounts = (post: RecommendablePost): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (text: string, repeat: number) => {
+    contentTerms(text).forEach(term => counts.set(term, (counts.get(term) || 0) + repeat));
+  };
+  add(post.title, FIELD_REPEATS.title);
+  add(post.excerpt, FIELD_REPEATS.excerpt);
+  add(stripMarkdown(post.content), FIELD_REPEATS.content);
+  return counts;
+};
+
+/**
+ * Unit-length TF-IDF vectors for each post (sublinear term frequency, idf = ln(N / df)).
+ * Terms that appear in every post carry no weight.
+ */
+export const buildTfIdfVectors = (posts: RecommendablePost[]): Map<string, TermVector> => {
+  const counts = posts.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(terms => terms.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }));
+
+  const vectors = new Map<string, TermVector>();
+  posts.forEach((post, index) => {
+    const vector: TermVector = new Map();
+    let norm = 0;
+    counts[index].forEach((count, term) => {
+      const weight = (1 + Math.log(count)) * Math.log(posts.length / (documentFrequency.get(term) || 1));
+      if (weight > 0) {
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+    });
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    vectors.set(post.id, vector);
+  });
+  return vectors;
+};
+
+// Dot product of two unit-length vectors
+export const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) || 0);
+  });
+  return Math.min(1, dot);
+};
+
+// Jaccard overlap of two tag lists, ignoring case
+export const tagOverlap = (a: string[], b: string[]): number => {
+  const left = new Set(a.map(tag => tag.toLowerCase()));
+  const right = new Set(b.map(tag => tag.toLowerCase()));
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach(tag => {
+    if (right.has(tag)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+// 0 with no shared readers, approaching 1 as they grow
+export const coViewSignal = (visitors: number): number =>
+  visitors > 0 ? visitors / (visitors + CO_VIEW_HALF_SATURATION) : 0;
+
+export const combineSignals = (signals: Record<RecommendationSignal, number>): number =>
+  (Object.keys(RECOMMENDATION_WEIGHTS) as RecommendationSignal[])
+    .reduce((sum, signal) => sum + RECOMMENDATION_WEIGHTS[signal] * signals[signal], 0);
+
+/**
+ * Score every pair of posts and keep each post's best `limit` candidates with a positive
+ * score. Ties go to the same category, then the newer post.
+ */
+export const scoreRecommendations = (
+  posts: RecommendablePost[],
+  { seriesByPost = new Map(), coViews = new Map(), limit = DEFAULT_LIMIT }: RecommendationInputs = {}
+): Map<string, Recommendation[]> => {
+  const vectors = buildTfIdfVectors(posts);
+  const result = new Map<string, Recommendation[]>();
+
+  posts.forEach(post => {
+    const series = seriesByPost.get(post.id);
+    const viewedWith = coViews.get(post.id);
+
+    const scored = posts
+      .filter(candidate => candidate.id !== post.id)
+      .map(candidate => {
+        const signals: Record<RecommendationSignal, number> = {
+          tags: tagOverlap(post.tags, candidate.tags),
+          text: cosineSimilarity(vectors.get(post.id)!, vectors.get(candidate.id)!),
+          series: series !== undefined && seriesByPost.get(candidate.id) === series ? 1 : 0,
+          coViews: coViewSignal(viewedWith?.get(candidate.id) || 0)
+        };
+        return { candidate, signals, score: combineSignals(signals) };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) =>
+        b.score - a.score ||
+        Number(b.candidate.category === post.category) - Number(a.candidate.category === post.category) ||
+        b.candidate.date.localeCompare(a.candidate.date)
+      )
+      .slice(0, limit);
+
+    result.set(post.id, scored.map(({ candidate, signals, score }) => ({
+      post_id: post.id,
+      related_post_id: candidate.id,
+      score,
+      signals
+    })));
+  });
+
+  return result;
+};
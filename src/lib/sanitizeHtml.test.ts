@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml, isSafeUrl, POST_HTML_POLICY, COMMENT_HTML_POLICY } from './sanitizeHtml';
+import { renderCommentHtml } from './markdown';
+
+const post = (html: string) => sanitizeHtml(html, POST_HTML_POLICY);
+const comment = (html: string) => sanitizeHtml(html, COMMENT_HTML_POLICY);
+
+describe('event handler attributes', () => {
+  it.each([
+    ['<img src="a.png" onerror="alert(1)">', '<img src="a.png">'],
+    ['<a href="/x" onclick="alert(1)">x</a>', '<a href="/x">x</a>'],
+    ['<p ONMOUSEOVER="alert(1)">x</p>', '<p>x</p>'],
+    ['<details open ontoggle="alert(1)">x</details>', '<details open="">x</details>'],
+    ['<img src=x onerror=alert(1)//>', '<img src="x">'],
+    ['<div style="position:fixed" onfocus="alert(1)" tabindex="0">x</div>', '<div>x</div>']
+  ])('%s', (input, output) => {
+    expect(post(input)).toBe(output);
+  });
+
+  it('strips handlers from tags that are unwrapped', () => {
+    expect(post('<font onmouseover="alert(1)">text</font>')).toBe('text');
+  });
+});
+
+describe('javascript: URLs', () => {
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    ' javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'java\rscript:alert(1)',
+    '\u0001javascript:alert(1)',
+    'javascript\u0000:alert(1)',
+    '\u0085javascript:alert(1)',
+    'vbscript:msgbox(1)',
+    'data:text/html,<script>alert(1)</script>'
+  ])('rejects %j', url => {
+    expect(isSafeUrl(url, POST_HTML_POLICY.allowedSchemes)).toBe(false);
+  });
+
+  it.each([
+    ['&#106;avascript:alert(1)'],
+    ['java&#x09;script:alert(1)'],
+    ['java&Tab;script:alert(1)'],
+    ['&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)']
+  ])('removes entity-encoded %s from href and src', url => {
+    expect(post(`<a href="${url}">x</a>`)).toBe('<a>x</a>');
+    expect(post(`<img src="${url}">`)).toBe('<img>');
+  });
+
+  it.each(['https://example.com', 'mailto:me@example.com', '/blog/post', '#section', '?q=1', '//cdn.example.com/a.png'])(
+    'allows %s',
+    url => {
+      expect(isSafeUrl(url, POST_HTML_POLICY.allowedSchemes)).toBe(true);
+    }
+  );
+
+  it('rejects empty and whitespace-only URLs', () => {
+    expect(isSafeUrl('', POST_HTML_POLICY.allowedSchemes)).toBe(false);
+    expect(isSafeUrl(' \t\n', POST_HTML_POLICY.allowedSchemes)).toBe(false);
+  });
+
+  it('removes unsafe links produced from comment markdown', () => {
+    expect(renderCommentHtml('[click](javascript:alert(1))')).not.toContain('javascript');
+    expect(renderCommentHtml('<javascript:alert(1)>')).not.toContain('href');
+  });
+});
+
+describe('foreign namespaces', () => {
+  it.each([
+    '<svg onload="alert(1)"></svg>',
+    '<svg><script>alert(1)</script></svg>',
+    '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+    '<svg><foreignObject><img src=x onerror=alert(1)></foreignObject></svg>',
+    '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+    '<math><maction actiontype="statusline" xlink:href="javascript:alert(1)">x</maction></math>',
+    '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">'
+  ])('drops %s', payload => {
+    const html = post(payload);
+    expect(html).not.toMatch(/onerror|onload|javascript|<svg|<math|<script/i);
+  });
+
+  it('keeps the surrounding markup', () => {
+    expect(post('<p>before</p><svg><circle r="1"/></svg><p>after</p>')).toBe('<p>before</p><p>after</p>');
+  });
+});
+
+describe('embedding and form elements', () => {
+  it.each([
+    ['<iframe src="https://evil.example"></iframe>', ''],
+    ['<iframe srcdoc="<script>alert(1)</script>"></iframe>', ''],
+    ['<object data="evil.swf"><param name="x"></object>', ''],
+    ['<embed src="evil.swf">', ''],
+    ['<form action="https://evil.example"><input type="password" name="pw"><button>Log in</button></form>', ''],
+    ['<p>a</p><form><p>b</p></form><p>c</p>', '<p>a</p><p>c</p>'],
+    ['<a href="/x"><button formaction="javascript:alert(1)">x</button></a>', '<a href="/x"></a>'],
+    ['<template><img src=x onerror=alert(1)></template>', ''],
+    ['<base href="https://evil.example/">', ''],
+    ['<meta http-equiv="refresh" content="0;url=https://evil.example">', ''],
+    ['<style>body { display: none }</style>', ''],
+    ['<script>alert(1)</script>', ''],
+    ['<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>', '']
+  ])('%s', (input, output) => {
+    expect(post(input)).toBe(output);
+  });
+});
+
+describe('link targets', () => {
+  it('adds noopener and noreferrer to new-tab links', () => {
+    expect(post('<a href="/x" target="_blank">x</a>')).toBe('<a href="/x" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it('replaces author-supplied rel on new-tab links', () => {
+    expect(post('<a href="/x" target="_blank" rel="opener">x</a>')).toBe('<a href="/x" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it.each(['_self', '_top', '_parent', 'someframe', '_BLANK', ' _blank', ''])('removes target=%j', target => {
+    expect(post(`<a href="/x" target="${target}">x</a>`)).toBe('<a href="/x">x</a>');
+  });
+
+  it('forces nofollow ugc on comment links', () => {
+    expect(comment('<a href="https://example.com" rel="author">x</a>')).toBe('<a href="https://example.com" rel="nofollow ugc">x</a>');
+    expect(comment('<a href="https://example.com" target="_top">x</a>')).toBe('<a href="https://example.com" rel="nofollow ugc">x</a>');
+    expect(renderCommentHtml('[x](https://example.com)')).toBe(
+      '<p><a href="https://example.com" target="_blank" rel="nofollow ugc noopener noreferrer">x</a></p>\n'
+    );
+  });
+});
+
+describe('class allowlist', () => {
+  it('keeps only our markup classes in posts', () => {
+    expect(post('<div class="fixed inset-0 z-50 md-callout">x</div>')).toBe('<div class="md-callout">x</div>');
+    expect(post('<code class="language-ts bg-red-500">x</code>')).toBe('<code class="language-ts">x</code>');
+  });
+
+  it('removes the attribute when nothing is left', () => {
+    expect(post('<div class="fixed inset-0">x</div>')).toBe('<div>x</div>');
+    expect(post('<div class="">x</div>')).toBe('<div>x</div>');
+  });
+
+  it('matches whole language class names', () => {
+    expect(post('<code class="language-ts&quot;onclick language-">x</code>')).toBe('<code>x</code>');
+  });
+
+  it('only allows language classes in comments', () => {
+    expect(comment('<code class="language-js md-codeblock">x</code>')).toBe('<code class="language-js">x</code>');
+    expect(comment('<p class="md-callout">x</p>')).toBe('<p>x</p>');
+  });
+});
+
+describe('inputs', () => {
+  it('keeps task-list checkboxes and forces them disabled', () => {
+    expect(post('<input type="checkbox" checked>')).toBe('<input type="checkbox" checked="" disabled="">');
+    expect(post('<input type="checkbox" disabled>')).toBe('<input type="checkbox" disabled="">');
+  });
+
+  it('strips handlers and other attributes from checkboxes', () => {
+    expect(post('<input type="checkbox" onchange="alert(1)" name="x" form="f">')).toBe('<input type="checkbox" disabled="">');
+  });
+
+  it.each([
+    '<input>',
+    '<input type="text" value="x">',
+    '<input type="password">',
+    '<input type="image" src="x" onerror="alert(1)">',
+    '<input type="hidden" name="csrf">',
+    '<input type="submit" formaction="https://evil.example">',
+    '<input type="CHECKBOX">'
+  ])('removes %s', input => {
+    expect(post(input)).toBe('');
+  });
+
+  it('never keeps inputs in comments', () => {
+    expect(comment('<input type="checkbox" checked>')).toBe('');
+  });
+});
+
+describe('everything else', () => {
+  it('unwraps unknown tags but keeps their text', () => {
+    expect(post('<marquee><b>hi</b></marquee>')).toBe('<b>hi</b>');
+  });
+
+  it('drops HTML comments', () => {
+    expect(post('<p>a<!-- <img src=x onerror=alert(1)> -->b</p>')).toBe('<p>ab</p>');
+  });
+
+  it('returns an empty string for empty input', () => {
+    expect(sanitizeHtml('', POST_HTML_POLICY)).toBe('');
+  });
+});
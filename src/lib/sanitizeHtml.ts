@@ -0,0 +1,178 @@
+/**
+ * Allowlist-based HTML sanitizer for content injected with dangerouslySetInnerHTML.
+ * Anything not explicitly allowed by the policy is removed: unknown tags are unwrapped
+ * (their text survives), dangerous containers are dropped with their content, and URL
+ * attributes must use an allowed scheme.
+ */
+
+export interface SanitizePolicy {
+  /** Tags that are kept (lowercase) */
+  allowedTags: string[];
+  /** Attributes allowed per tag; the `*` key applies to every allowed tag */
+  allowedAttributes: Record<string, string[]>;
+  /** URL schemes allowed in URL attributes; relative URLs and #fragments are always allowed */
+  allowedSchemes: string[];
+  /** Attributes whose values are treated as URLs */
+  urlAttributes: string[];
+  /** Tags removed together with everything inside them */
+  dropContentTags: string[];
+  /** Optional class-name allowlist; when set, other class names are stripped */
+  allowedClasses?: RegExp[];
+  /** rel values every link gets, replacing whatever the markup said */
+  linkRel?: string[];
+}
+
+const DANGEROUS_CONTAINERS = [
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'svg', 'math', 'template', 'noscript', 'noembed', 'noframes', 'xmp', 'plaintext',
+  'form', 'textarea', 'select', 'button', 'link', 'meta', 'base', 'title', 'head'
+];
+
+/**
+ * Policy for rendered blog post bodies (markdown output plus limited raw HTML)
+ */
+export const POST_HTML_POLICY: SanitizePolicy = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+    'ul', 'ol', 'li', 'strong', 'b', 'em', 'i', 'del', 's', 'code', 'pre', 'kbd', 'sup', 'sub', 'mark',
+    'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+    'details', 'summary', 'span', 'div', 'figure', 'figcaption', 'input'
+  ],
+  allowedAttributes: {
+    '*': ['id', 'class', 'title'],
+    a: ['href', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height', 'loading'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align'],
+    details: ['open', 'data-lang'],
+    input: ['type', 'checked', 'disabled']
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  urlAttributes: ['href', 'src'],
+  dropContentTags: DANGEROUS_CONTAINERS,
+  // Only our own markup classes, so raw HTML can't borrow layout utilities for overlays
+  allowedClasses: [/^md-/, /^language-[\w-]+$/]
+};
+
+/**
+ * Strict policy for reader-submitted comments (the comment markdown subset). Links are
+ * marked as user content that search engines should not follow.
+ */
+export const COMMENT_HTML_POLICY: SanitizePolicy = {
+  allowedTags: ['p', 'br', 'strong', 'b', 'em', 'i', 'del', 's', 'code', 'pre', 'blockquote', 'ul', 'ol', 'li', 'a'],
+  allowedAttributes: {
+    a: ['href', 'target'],
+    code: ['class']
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  urlAttributes: ['href'],
+  dropContentTags: [...DANGEROUS_CONTAINERS, 'img', 'video', 'audio', 'input'],
+  // Code block languages for Prism, nothing that could style the page
+  allowedClasses: [/^language-[\w-]+$/],
+  linkRel: ['nofollow', 'ugc']
+};
+
+/**
+ * Check a URL attribute value against the allowed schemes
+ */
+export function isSafeUrl(value: string, allowedSchemes: string[]): boolean {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  const normalized = value.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  if (normalized === '') return false;
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  // No scheme: a relative path, protocol-relative URL, query or fragment
+  if (!scheme) return true;
+  return allowedSchemes.includes(scheme[1]);
+}
+
+function sanitizeElement(el: Element, policy: SanitizePolicy): void {
+  const tag = el.tagName.toLowerCase();
+  const allowed = new Set([...(policy.allowedAttributes['*'] || []), ...(policy.allowedAttributes[tag] || [])]);
+
+  Array.from(el.attributes).forEach(attr => {
+    const name = attr.name.toLowerCase();
+    if (!allowed.has(name)) {
+      el.removeAttribute(attr.name);
+      return;
+    }
+    if (policy.urlAttributes.includes(name) && !isSafeUrl(attr.value, policy.allowedSchemes)) {
+      el.removeAttribute(attr.name);
+      return;
+    }
+    if (name === 'class' && policy.allowedClasses) {
+      const kept = attr.value
+        .split(/\s+/)
+        .filter(cls => cls && policy.allowedClasses!.some(pattern => pattern.test(cls)));
+      if (kept.length) el.setAttribute('class', kept.join(' '));
+      else el.removeAttribute('class');
+    }
+  });
+
+  // Task-list checkboxes are the only inputs we render, and they are never interactive
+  if (tag === 'input') {
+    if (el.getAttribute('type') !== 'checkbox') {
+      el.remove();
+      return;
+    }
+    el.setAttribute('disabled', '');
+  }
+
+  if (tag === 'a') {
+    const rel = [...(policy.linkRel || [])];
+
+    // Only new-tab targets are allowed, and they must not get a handle on this window
+    if (el.hasAttribute('target')) {
+      if (el.getAttribute('target') === '_blank') {
+        rel.push('noopener', 'noreferrer');
+      } else {
+        el.removeAttribute('target');
+      }
+    }
+
+    if (rel.length) el.setAttribute('rel', rel.join(' '));
+  }
+}
+
+function sanitizeChildren(parent: Node, policy: SanitizePolicy): void {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+
+      if (policy.dropContentTags.includes(tag) || el.namespaceURI !== 'http://www.w3.org/1999/xhtml') {
+        el.remove();
+        return;
+      }
+
+      sanitizeChildren(el, policy);
+
+      if (!policy.allowedTags.includes(tag)) {
+        // Unwrap: keep the (already sanitized) children, drop the element itself
+        el.replaceWith(...Array.from(el.childNodes));
+        return;
+      }
+
+      sanitizeElement(el, policy);
+      return;
+    }
+
+    // Keep text; drop comments, processing instructions and anything else
+    if (node.nodeType !== Node.TEXT_NODE) {
+      node.parentNode?.removeChild(node);
+    }
+  });
+}
+
+/**
+ * Sanitize an HTML string according to a policy
+ */
+export function sanitizeHtml(html: string, policy: SanitizePolicy = POST_HTML_POLICY): string {
+  if (!html) return '';
+
+  // DOMParser documents are inert: scripts don't run and resources don't load
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+  sanitizeChildren(doc.body, policy);
+  return doc.body.innerHTML;
+}
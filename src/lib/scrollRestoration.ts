@@ -0,0 +1,24 @@
+/**
+ * Per-path window scroll positions kept in sessionStorage, for pages whose content
+ * loads on the client (like the infinite blog feed) and so can't rely on the
+ * browser's own restoration after a back/forward navigation.
+ */
+
+const storageKey = (path: string) => `scroll-position:${path}`;
+
+export const saveScrollPosition = (path: string) => {
+  try {
+    sessionStorage.setItem(storageKey(path), String(Math.round(window.scrollY)));
+  } catch {
+    // Storage can be unavailable (private mode, quota); restoration is best-effort
+  }
+};
+
+export const getScrollPosition = (path: string): number | null => {
+  try {
+    const value = sessionStorage.getItem(storageKey(path));
+    return value === null ? null : Number(value);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * Search highlights come back from `search_blog_posts` as plain text with matches wrapped
+ * in private-use characters (U+E000 ... U+E001) instead of HTML tags, so they can be
+ * rendered as React nodes without touching innerHTML.
+ */
+
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split marked-up text into plain and highlighted runs
+ */
+export const splitHighlights = (marked: string): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let rest = marked || '';
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlighted: false });
+
+    const end = rest.indexOf(HIGHLIGHT_END, start + 1);
+    const stop = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + 1, stop), highlighted: true });
+    rest = end === -1 ? '' : rest.slice(end + 1);
+  }
+
+  return parts.filter(part => part.text);
+};
+
+/**
+ * Drop the highlight markers, leaving the plain text
+ */
+export const stripHighlights = (marked: string) =>
+  (marked || '').split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('');
+
+// Query parameter carrying the matched terms from a search result to the post page
+export const HIGHLIGHT_PARAM = 'highlight';
+
+/**
+ * The distinct words highlighted in any of the given marked-up strings, lowercased
+ */
+export const getHighlightedTerms = (...marked: string[]): string[] =>
+  Array.from(new Set(
+    marked
+      .flatMap(text => splitHighlights(text))
+      .filter(part => part.highlighted)
+      .map(part => part.text.trim().toLowerCase())
+      .filter(Boolean)
+  ));
+
+/**
+ * Link to a post that opens at the first match of the result's highlighted terms
+ */
+export const getSearchResultPath = (
+  postPath: string,
+  result: { title_highlight?: string; snippet?: string }
+) => {
+  const terms = getHighlightedTerms(result.title_highlight || '', result.snippet || '');
+  return terms.length ? `${postPath}?${HIGHLIGHT_PARAM}=${encodeURIComponent(terms.join(' '))}` : postPath;
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { boundedEditDistance, tokenize, SearchIndex, type SearchDocument } from './searchIndex';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from './searchHighlights';
+
+const makeDocument = (id: string, overrides: Partial<SearchDocument> = {}): SearchDocument => ({
+  id,
+  slug: id,
+  title: '',
+  excerpt: '',
+  date: '2026-01-01',
+  read_time: '5 min read',
+  category: 'general',
+  image_url: '',
+  images: [],
+  featured: false,
+  views: 0,
+  likes: 0,
+  tags: [],
+  author_name: '',
+  author_avatar: '',
+  author_bio: '',
+  published: true,
+  publish_at: '2026-01-01T00:00:00Z',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  headings: [],
+  ...overrides
+});
+
+const ids = (index: SearchIndex, query: string) => index.search(query).map(hit => hit.document.id);
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on anything but letters and digits', () => {
+    expect(tokenize('Café-Crème, déjà vu & React18!')).toEqual(['cafe', 'creme', 'deja', 'vu', 'react18']);
+  });
+});
+
+describe('boundedEditDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(boundedEditDistance('react', 'react', 2)).toBe(0);
+    expect(boundedEditDistance('react', 'reacts', 2)).toBe(1);
+    expect(boundedEditDistance('react', 'rect', 2)).toBe(1);
+    expect(boundedEditDistance('react', 'reakt', 2)).toBe(1);
+    expect(boundedEditDistance('react', 'raect', 2)).toBe(2);
+  });
+
+  it('gives up at max + 1', () => {
+    expect(boundedEditDistance('react', 'angular', 2)).toBe(3);
+    expect(boundedEditDistance('a', 'abcdef', 1)).toBe(2);
+    expect(boundedEditDistance('kitten', 'sitting', 2)).toBe(3);
+  });
+});
+
+describe('SearchIndex typo budget', () => {
+  const index = new SearchIndex([
+    makeDocument('car', { title: 'car' }),
+    makeDocument('hooks', { title: 'hooks' }),
+    makeDocument('typescript', { title: 'typescript' })
+  ]);
+
+  it('allows no typos in terms shorter than four letters', () => {
+    expect(ids(index, 'cat')).toEqual([]);
+  });
+
+  it('allows one typo in terms of four to seven letters', () => {
+    expect(ids(index, 'hoiks')).toEqual(['hooks']);
+    expect(ids(index, 'hiiks')).toEqual([]);
+  });
+
+  it('allows two typos from eight letters on', () => {
+    expect(ids(index, 'typscirpt')).toEqual([]);
+    expect(ids(index, 'typescirpt')).toEqual(['typescript']);
+  });
+
+  it('scores typo matches below exact ones', () => {
+    const [exact] = index.search('hooks');
+    const [fuzzy] = index.search('hoiks');
+    expect(fuzzy.score).toBeLessThan(exact.score);
+  });
+});
+
+describe('SearchIndex scoring', () => {
+  it('scores prefix hits below exact hits', () => {
+    const index = new SearchIndex([
+      makeDocument('testing', { title: 'testing' }),
+      makeDocument('test', { title: 'test' })
+    ]);
+    const hits = index.search('test');
+
+    expect(hits.map(hit => hit.document.id)).toEqual(['test', 'testing']);
+    expect(hits[1].score).toBeLessThan(hits[0].score);
+  });
+
+  it('weights fields by their boost', () => {
+    const index = new SearchIndex([
+      makeDocument('in-excerpt', { excerpt: 'deploying with vite' }),
+      makeDocument('in-tags', { tags: ['vite'] }),
+      makeDocument('in-title', { title: 'vite' }),
+      makeDocument('in-headings', { headings: ['Why vite'] })
+    ]);
+    expect(ids(index, 'vite')).toEqual(['in-title', 'in-tags', 'in-headings', 'in-excerpt']);
+  });
+
+  it('drops documents that miss any query term', () => {
+    const index = new SearchIndex([
+      makeDocument('hooks', { title: 'react hooks' }),
+      makeDocument('router', { title: 'react router' }),
+      makeDocument('vue', { title: 'vue hooks' })
+    ]);
+
+    expect(ids(index, 'react hooks')).toEqual(['hooks']);
+    expect(ids(index, 'react')).toHaveLength(2);
+    expect(ids(index, 'react svelte')).toEqual([]);
+  });
+
+  it('highlights the terms that matched', () => {
+    const index = new SearchIndex([makeDocument('a', { title: 'Testing Hooks', excerpt: 'About hooks.' })]);
+    const [hit] = index.search('test hooks');
+
+    expect(hit.title_highlight).toBe(`${HIGHLIGHT_START}Testing${HIGHLIGHT_END} ${HIGHLIGHT_START}Hooks${HIGHLIGHT_END}`);
+    expect(hit.snippet).toBe(`About ${HIGHLIGHT_START}hooks${HIGHLIGHT_END}.`);
+  });
+
+  it('returns nothing for a query without terms', () => {
+    const index = new SearchIndex([makeDocument('a', { title: 'anything' })]);
+    expect(index.search('  !? ')).toEqual([]);
+  });
+});
+
+describe('SearchIndex updates', () => {
+  it('upsert replaces the postings of a changed document', () => {
+    const index = new SearchIndex([makeDocument('a', { title: 'alpha release' })]);
+    expect(ids(index, 'alpha')).toEqual(['a']);
+
+    index.upsert([makeDocument('a', { title: 'bravo release' })]);
+
+    expect(index.size).toBe(1);
+    expect(ids(index, 'alpha')).toEqual([]);
+    expect(ids(index, 'alp')).toEqual([]);
+    expect(ids(index, 'bravo')).toEqual(['a']);
+    expect(index.search('release')).toHaveLength(1);
+  });
+
+  it('retain removes every other document and its postings', () => {
+    const index = new SearchIndex([
+      makeDocument('a', { title: 'shared alpha' }),
+      makeDocument('b', { title: 'shared bravo' })
+    ]);
+
+    index.retain(new Set(['b']));
+
+    expect(index.has('a')).toBe(false);
+    expect(index.size).toBe(1);
+    expect(ids(index, 'shared')).toEqual(['b']);
+    expect(ids(index, 'alpha')).toEqual([]);
+    // A removed term no longer counts as a near miss or prefix either
+    expect(ids(index, 'alphq')).toEqual([]);
+    expect(ids(index, 'alp')).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * In-memory inverted index over published posts for instant, offline search.
+ * Matches whole terms, prefixes and near misses (edit distance 1–2, by term length),
+ * and scores them with per-field boosts. Highlights use the same markers as the
+ * server-side search (see lib/searchHighlights).
+ */
+import type { BlogPostCard } from './blogService';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from './searchHighlights';
+
+// A post card plus the h1–h3 headings of its body
+export interface SearchDocument extends BlogPostCard {
+  headings: string[];
+}
+
+export interface LocalSearchHit {
+  document: SearchDocument;
+  score: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+type SearchField = 'title' | 'tags' | 'category' | 'headings' | 'excerpt';
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 5,
+  tags: 3,
+  category: 2,
+  headings: 2,
+  excerpt: 1
+};
+
+// How much of a term's weight a looser match keeps
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.4;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalize(text || '').match(WORD_PATTERN) ?? [];
+
+// Edits allowed for a query term of this length
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it must exceed `max`
+ */
+export const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const fieldText = (doc: SearchDocument): Record<SearchField, string> => ({
+  title: doc.title,
+  tags: (doc.tags || []).join(' '),
+  category: doc.category,
+  headings: (doc.headings || []).join(' '),
+  excerpt: doc.excerpt
+});
+
+/**
+ * Wrap every word of `text` whose normalized form is in `terms` with highlight markers
+ */
+const markTerms = (text: string, terms: Set<string>) =>
+  (text || '').replace(WORD_PATTERN, word =>
+    terms.has(normalize(word)) ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word
+  );
+
+export class SearchIndex {
+  private documents = new Map<string, SearchDocument>();
+  // term -> (document id -> boosted term frequency)
+  private postings = new Map<string, Map<string, number>>();
+  // All terms, sorted, for prefix lookups; rebuilt lazily after changes
+  private sortedTerms: string[] | null = null;
+
+  constructor(documents: SearchDocument[] = []) {
+    this.upsert(documents);
+  }
+
+  get size() {
+    return this.documents.size;
+  }
+
+  getDocuments(): SearchDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  has(id: string) {
+    return this.documents.has(id);
+  }
+
+  get(id: string) {
+    return this.documents.get(id);
+  }
+
+  // Add or replace documents
+  upsert(documents: SearchDocument[]) {
+    documents.forEach(doc => {
+      if (this.documents.has(doc.id)) this.removeOne(doc.id);
+      this.documents.set(doc.id, doc);
+
+      const text = fieldText(doc);
+      (Object.keys(FIELD_BOOSTS) as SearchField[]).forEach(field => {
+        tokenize(text[field]).forEach(term => {
+          let posting = this.postings.get(term);
+          if (!posting) {
+            posting = new Map();
+            this.postings.set(term, posting);
+          }
+          posting.set(doc.id, (posting.get(doc.id) ?? 0) + FIELD_BOOSTS[field]);
+        });
+      });
+    });
+    if (documents.length) this.sortedTerms = null;
+  }
+
+  // Drop every document whose id is not in `ids`
+  retain(ids: Set<string>) {
+    Array.from(this.documents.keys())
+      .filter(id => !ids.has(id))
+      .forEach(id => this.removeOne(id));
+  }
+
+  private removeOne(id: string) {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+    this.documents.delete(id);
+
+    const text = fieldText(doc);
+    new Set((Object.keys(FIELD_BOOSTS) as SearchField[]).flatMap(field => tokenize(text[field]))).forEach(term => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) this.postings.delete(term);
+    });
+    this.sortedTerms = null;
+  }
+
+  private terms(): string[] {
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.postings.keys()).sort();
+    return this.sortedTerms;
+  }
+
+  // Index terms that start with `prefix`, via binary search over the sorted term list
+  private termsWithPrefix(prefix: string): string[] {
+    const terms = this.terms();
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) matches.push(terms[i]);
+    return matches;
+  }
+
+  // Index terms within the typo budget of `term`
+  private termsNear(term: string): string[] {
+    const max = maxTypos(term);
+    if (max === 0) return [];
+    return this.terms().filter(candidate =>
+      candidate !== term && boundedEditDistance(term, candidate, max) <= max
+    );
+  }
+
+  /**
+   * Find documents matching every query term (exactly, by prefix or with a typo),
+   * best first
+   */
+  search(query: string, limit: number = 20): LocalSearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    const matchedTerms = new Set<string>();
+
+    for (const queryTerm of queryTerms) {
+      // Best score per document for this query term
+      const termScores = new Map<string, number>();
+      const collect = (term: string, factor: number) => {
+        const posting = this.postings.get(term);
+        if (!posting) return;
+        matchedTerms.add(term);
+        posting.forEach((weight, id) => {
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, weight * factor));
+        });
+      };
+
+      collect(queryTerm, 1);
+      this.termsWithPrefix(queryTerm).forEach(term => {
+        if (term !== queryTerm) collect(term, PREFIX_FACTOR);
+      });
+      this.termsNear(queryTerm).forEach(term => collect(term, FUZZY_FACTOR));
+
+      // Every query term has to match
+      const previous: Map<string, number> | null = scores;
+      const next = new Map<string, number>();
+      termScores.forEach((score, id) => {
+        if (previous === null) next.set(id, score);
+        else if (previous.has(id)) next.set(id, previous.get(id)! + score);
+      });
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      .sort((a, b) => b[1] - a[1] || b[0].localeCompare(a[0]))
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const document = this.documents.get(id)!;
+        return {
+          document,
+          score,
+          title_highlight: markTerms(document.title, matchedTerms),
+          snippet: markTerms(document.excerpt, matchedTerms)
+        };
+      });
+  }
+}
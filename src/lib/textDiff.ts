@@ -0,0 +1,98 @@
+/**
+ * Line-based text diff used to compare blog post revisions side by side
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed' | 'changed';
+
+export interface SideBySideRow {
+  type: DiffLineType;
+  left: { number: number; text: string } | null;
+  right: { number: number; text: string } | null;
+}
+
+type DiffOp =
+  | { type: 'equal'; left: number; right: number }
+  | { type: 'removed'; left: number }
+  | { type: 'added'; right: number };
+
+/**
+ * Compute the edit script between two line arrays using a longest common subsequence table
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', left: i++, right: j++ });
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: 'removed', left: i++ });
+    } else {
+      ops.push({ type: 'added', right: j++ });
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', left: i++ });
+  while (j < m) ops.push({ type: 'added', right: j++ });
+
+  return ops;
+}
+
+/**
+ * Build side-by-side rows from two texts. Adjacent removals and additions are paired
+ * into "changed" rows so edited lines line up with each other.
+ */
+export function buildSideBySideDiff(before: string, after: string): SideBySideRow[] {
+  const a = before.replace(/\r/g, '').split('\n');
+  const b = after.replace(/\r/g, '').split('\n');
+  const ops = diffLines(a, b);
+  const rows: SideBySideRow[] = [];
+
+  let k = 0;
+  while (k < ops.length) {
+    const op = ops[k];
+    if (op.type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { number: op.left + 1, text: a[op.left] },
+        right: { number: op.right + 1, text: b[op.right] }
+      });
+      k++;
+      continue;
+    }
+
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      const current = ops[k];
+      if (current.type === 'removed') removed.push(current.left);
+      if (current.type === 'added') added.push(current.right);
+      k++;
+    }
+
+    const count = Math.max(removed.length, added.length);
+    for (let r = 0; r < count; r++) {
+      const left = removed[r];
+      const right = added[r];
+      rows.push({
+        type: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+        left: left !== undefined ? { number: left + 1, text: a[left] } : null,
+        right: right !== undefined ? { number: right + 1, text: b[right] } : null
+      });
+    }
+  }
+
+  return rows;
+}
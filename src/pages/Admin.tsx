@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
 import { 
   Github, 
@@ -29,10 +29,32 @@ import {
   MapPin,
   Clock,
   ThumbsUp,
-  ThumbsDown
+  ThumbsDown,
+  History,
+  CalendarDays,
+  Layers,
+  Hash,
+  FolderTree,
+  BookOpen
 } from 'lucide-react';
 import { supabase, checkAdminAuthorization, getGitHubUserData } from '../lib/supabase';
+import {
+  blogService,
+  getPostStatus,
+  type BlogPost,
+  type BlogPostStatus,
+  type BlogReadingStats,
+  type ModerationComment
+} from '../lib/blogService';
 import EmailValidator from '../components/admin/EmailValidator';
+import BlogPostEditor from '../components/admin/BlogPostEditor';
+import PostRevisionHistory from '../components/admin/PostRevisionHistory';
+import ScheduledPostsCalendar from '../components/admin/ScheduledPostsCalendar';
+import SeriesManager from '../components/admin/SeriesManager';
+import TagManager from '../components/admin/TagManager';
+import CategoryManager from '../components/admin/CategoryManager';
+import CommentModerationQueue from '../components/admin/CommentModerationQueue';
+import CommentSpamSettingsPanel from '../components/admin/CommentSpamSettingsPanel';
 import GlassCard from '../components/ui/GlassCard';
 import toast from 'react-hot-toast';
 
@@ -65,28 +87,11 @@ interface Review {
   created_at: string;
 }
 
-interface BlogPost {
-  id: string;
-  title: string;
-  excerpt: string;
-  content: string;
-  category: string;
-  featured: boolean;
-  published: boolean;
-  views: number;
-  likes: number;
-  created_at: string;
-}
-
-interface Comment {
-  id: string;
-  blog_post_id: string;
-  author_name: string;
-  author_email: string;
-  content: string;
-  status: 'pending' | 'approved' | 'rejected';
-  created_at: string;
-}
+const POST_STATUS_BADGES: Record<BlogPostStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-500/20 text-gray-400' },
+  scheduled: { label: 'Scheduled', className: 'bg-purple-500/20 text-purple-300' },
+  published: { label: 'Published', className: 'bg-green-500/20 text-green-400' }
+};
 
 interface AnalyticsData {
   totalViews: number;
@@ -96,6 +101,8 @@ interface AnalyticsData {
   recentViews: Array<{ date: string; views: number }>;
   topPages: Array<{ page: string; views: number }>;
   topCountries: Array<{ country: string; views: number }>;
+  // Posts with the most readers who scrolled into them
+  readingDepth: BlogReadingStats[];
 }
 
 const Admin: React.FC = () => {
@@ -115,7 +122,7 @@ const Admin: React.FC = () => {
   // Data state
   const [reviews, setReviews] = useState<Review[]>([]);
   const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<ModerationComment[]>([]);
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
 
   // Filters and search
@@ -127,6 +134,18 @@ const Admin: React.FC = () => {
   const [, setModalType] = useState<'edit' | 'view' | 'delete'>('view');
   const [, setSelectedItem] = useState<any>(null);
 
+  // Blog post editor
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingPost, setEditingPost] = useState<BlogPost | null>(null);
+  const [postPendingDelete, setPostPendingDelete] = useState<BlogPost | null>(null);
+  const [isDeletingPost, setIsDeletingPost] = useState(false);
+  const [historyPost, setHistoryPost] = useState<BlogPost | null>(null);
+  const [postsView, setPostsView] = useState<'list' | 'calendar'>('list');
+  const [isSeriesManagerOpen, setIsSeriesManagerOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isRefreshingRecommendations, setIsRefreshingRecommendations] = useState(false);
+
   // Bulletproof state update function
   const updateAuthState = (updates: Partial<AuthState>) => {
     setAuthState(prev => ({ ...prev, ...updates }));
@@ -189,32 +208,14 @@ const Admin: React.FC = () => {
 
   // Load blog posts
   const loadBlogPosts = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setBlogPosts(data || []);
-    } catch (error) {
-      console.error('Error loading blog posts:', error);
-    }
+    const posts = await blogService.getAllPostsForAdmin();
+    setBlogPosts(posts);
   };
 
-  // Load comments
+  // Load comments and replies for the moderation queue
   const loadComments = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('blog_comments')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setComments(data || []);
-    } catch (error) {
-      console.error('Error loading comments:', error);
-    }
+    const data = await blogService.getCommentsForModeration();
+    setComments(data);
   };
 
   // Load analytics
@@ -224,7 +225,7 @@ const Admin: React.FC = () => {
       const [viewsResult, usersResult, postsResult, commentsResult] = await Promise.all([
         supabase.from('analytics').select('*', { count: 'exact' }),
         supabase.from('admin_users').select('*', { count: 'exact' }),
-        supabase.from('blog_posts').select('*', { count: 'exact' }),
+        supabase.from('blog_posts').select('id', { count: 'exact', head: true }),
         supabase.from('blog_comments').select('*', { count: 'exact' })
       ]);
 
@@ -248,6 +249,9 @@ const Admin: React.FC = () => {
         .not('country', 'is', null)
         .limit(10);
 
+      // Reading depth per post
+      const readingStats = await blogService.getReadingStats();
+
       // Process data
       const recentViews = processRecentViews(recentViewsData || []);
       const topPages = processTopPages(topPagesData || []);
@@ -260,7 +264,8 @@ const Admin: React.FC = () => {
         totalComments: commentsResult.count || 0,
         recentViews,
         topPages,
-        topCountries
+        topCountries,
+        readingDepth: [...readingStats].sort((a, b) => b.readers - a.readers).slice(0, 5)
       });
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -322,34 +327,10 @@ const Admin: React.FC = () => {
     }
   };
 
-  // Update comment status
-  const updateCommentStatus = async (commentId: string, status: 'approved' | 'rejected') => {
-    try {
-      const { error } = await supabase
-        .from('blog_comments')
-        .update({ status })
-        .eq('id', commentId);
-
-      if (error) throw error;
-      
-      await loadComments();
-      toast.success(`Comment ${status} successfully`);
-    } catch (error) {
-      console.error('Error updating comment:', error);
-      toast.error('Failed to update comment');
-    }
-  };
-
   // Toggle blog post featured status
   const togglePostFeatured = async (postId: string, featured: boolean) => {
     try {
-      const { error } = await supabase
-        .from('blog_posts')
-        .update({ featured: !featured })
-        .eq('id', postId);
-
-      if (error) throw error;
-      
+      await blogService.updatePost(postId, { featured: !featured });
       await loadBlogPosts();
       toast.success(`Post ${!featured ? 'featured' : 'unfeatured'} successfully`);
     } catch (error) {
@@ -361,13 +342,7 @@ const Admin: React.FC = () => {
   // Toggle blog post published status
   const togglePostPublished = async (postId: string, published: boolean) => {
     try {
-      const { error } = await supabase
-        .from('blog_posts')
-        .update({ published: !published })
-        .eq('id', postId);
-
-      if (error) throw error;
-      
+      await blogService.updatePost(postId, { published: !published });
       await loadBlogPosts();
       toast.success(`Post ${!published ? 'published' : 'unpublished'} successfully`);
     } catch (error) {
@@ -376,6 +351,55 @@ const Admin: React.FC = () => {
     }
   };
 
+  // Open the post editor (null creates a new post)
+  const openPostEditor = (post: BlogPost | null) => {
+    setEditingPost(post);
+    setIsEditorOpen(true);
+  };
+
+  const closePostEditor = () => {
+    setIsEditorOpen(false);
+    setEditingPost(null);
+  };
+
+  // Recompute related-post recommendations; quiet refreshes only report failures
+  const refreshRecommendations = async (quiet: boolean = false) => {
+    setIsRefreshingRecommendations(true);
+    try {
+      const stored = await blogService.refreshRecommendations();
+      if (!quiet) toast.success(`Recommendations refreshed (${stored} links)`);
+    } catch (error: any) {
+      console.error('Error refreshing recommendations:', error);
+      toast.error(error?.message ? `Failed to refresh recommendations: ${error.message}` : 'Failed to refresh recommendations');
+    } finally {
+      setIsRefreshingRecommendations(false);
+    }
+  };
+
+  const handlePostSaved = async () => {
+    closePostEditor();
+    await loadBlogPosts();
+    refreshRecommendations(true);
+  };
+
+  // Delete blog post after confirmation
+  const deletePost = async () => {
+    if (!postPendingDelete) return;
+    setIsDeletingPost(true);
+    try {
+      await blogService.deletePost(postPendingDelete.id);
+      await loadBlogPosts();
+      toast.success('Post deleted successfully');
+      setPostPendingDelete(null);
+      refreshRecommendations(true);
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      toast.error('Failed to delete post');
+    } finally {
+      setIsDeletingPost(false);
+    }
+  };
+
 
   // Bulletproof authentication check with comprehensive error handling
   const checkAuth = async () => {
@@ -588,13 +612,6 @@ const Admin: React.FC = () => {
     return matchesSearch && matchesStatus;
   });
 
-  const filteredComments = comments.filter(comment => {
-    const matchesSearch = comment.author_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      comment.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || comment.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
-
   const filteredBlogPosts = blogPosts.filter(post => {
     const matchesSearch = post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       post.excerpt.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -863,6 +880,7 @@ const Admin: React.FC = () => {
                           <span className={`px-2 py-1 rounded-full text-xs ${
                             comment.status === 'approved' ? 'bg-green-500/20 text-green-400' :
                             comment.status === 'rejected' ? 'bg-red-500/20 text-red-400' :
+                            comment.status === 'spam' ? 'bg-orange-500/20 text-orange-400' :
                             'bg-yellow-500/20 text-yellow-400'
                           }`}>
                             {comment.status}
@@ -962,6 +980,38 @@ const Admin: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                {/* Reading Depth */}
+                <div className="bg-white/5 p-4 rounded-lg mt-6">
+                  <h3 className="text-white font-semibold mb-3 flex items-center space-x-2">
+                    <BookOpen size={16} />
+                    <span>Reading Depth</span>
+                  </h3>
+                  {analytics?.readingDepth.length ? (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 text-xs text-white/50">
+                        <span>Post</span>
+                        <span className="text-right">Readers</span>
+                        <span className="text-right">Avg. depth</span>
+                        <span className="text-right">Finished</span>
+                      </div>
+                      {analytics.readingDepth.map(stats => (
+                        <div key={stats.blog_post_id} className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 text-sm">
+                          <span className="text-white/70 truncate">
+                            {blogPosts.find(post => post.id === stats.blog_post_id)?.title || stats.blog_post_id}
+                          </span>
+                          <span className="text-azure-400 font-medium text-right">{stats.readers}</span>
+                          <span className="text-azure-400 font-medium text-right">{Math.round(stats.average_depth * 100)}%</span>
+                          <span className="text-green-400 font-medium text-right">
+                            {Math.round((stats.completions / stats.readers) * 100)}%
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-white/50">No reading progress recorded yet.</p>
+                  )}
+                </div>
               </GlassCard>
             </motion.div>
           )}
@@ -978,10 +1028,45 @@ const Admin: React.FC = () => {
                     <FileText className="text-azure-400" size={24} />
                     <h2 className="text-xl font-bold text-white">Blog Posts Management</h2>
                   </div>
-                  <button className="bg-azure-500 hover:bg-azure-600 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2">
-                    <Plus size={16} />
-                    <span>New Post</span>
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setIsSeriesManagerOpen(true)}
+                      className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                    >
+                      <Layers size={16} />
+                      <span>Series</span>
+                    </button>
+                    <button
+                      onClick={() => setIsTagManagerOpen(true)}
+                      className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                    >
+                      <Hash size={16} />
+                      <span>Tags</span>
+                    </button>
+                    <button
+                      onClick={() => setIsCategoryManagerOpen(true)}
+                      className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                    >
+                      <FolderTree size={16} />
+                      <span>Categories</span>
+                    </button>
+                    <button
+                      onClick={() => refreshRecommendations()}
+                      disabled={isRefreshingRecommendations}
+                      className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                      title="Recompute related posts from tags, content, series and co-views"
+                    >
+                      <RefreshCw size={16} className={isRefreshingRecommendations ? 'animate-spin' : ''} />
+                      <span>Recommendations</span>
+                    </button>
+                    <button
+                      onClick={() => openPostEditor(null)}
+                      className="bg-azure-500 hover:bg-azure-600 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                    >
+                      <Plus size={16} />
+                      <span>New Post</span>
+                    </button>
+                  </div>
                 </div>
 
                 {/* Search and Filter */}
@@ -996,81 +1081,107 @@ const Admin: React.FC = () => {
                       className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400"
                     />
                   </div>
+                  <div className="flex bg-white/10 rounded-lg p-1">
+                    <button
+                      onClick={() => setPostsView('list')}
+                      className={`px-3 py-1 rounded-md text-sm transition-colors duration-300 flex items-center space-x-1 ${
+                        postsView === 'list' ? 'bg-azure-500 text-white' : 'text-white/70 hover:text-white'
+                      }`}
+                    >
+                      <FileText size={14} />
+                      <span>List</span>
+                    </button>
+                    <button
+                      onClick={() => setPostsView('calendar')}
+                      className={`px-3 py-1 rounded-md text-sm transition-colors duration-300 flex items-center space-x-1 ${
+                        postsView === 'calendar' ? 'bg-azure-500 text-white' : 'text-white/70 hover:text-white'
+                      }`}
+                    >
+                      <CalendarDays size={14} />
+                      <span>Calendar</span>
+                    </button>
+                  </div>
                 </div>
 
+                {postsView === 'calendar' && (
+                  <ScheduledPostsCalendar posts={filteredBlogPosts} onSelectPost={openPostEditor} />
+                )}
+
                 {/* Posts List */}
-                <div className="space-y-4">
-                  {filteredBlogPosts.map(post => (
-                    <div key={post.id} className="bg-white/5 p-4 rounded-lg">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-3 mb-2">
-                            <h3 className="text-white font-semibold">{post.title}</h3>
-                            {post.featured && (
-                              <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 rounded-full text-xs">
-                                Featured
+                {postsView === 'list' && (
+                  <div className="space-y-4">
+                    {filteredBlogPosts.map(post => (
+                      <div key={post.id} className="bg-white/5 p-4 rounded-lg">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-3 mb-2">
+                              <h3 className="text-white font-semibold">{post.title}</h3>
+                              {post.featured && (
+                                <span className="px-2 py-1 bg-yellow-500/20 text-yellow-400 rounded-full text-xs">
+                                  Featured
+                                </span>
+                              )}
+                              <span className={`px-2 py-1 rounded-full text-xs ${POST_STATUS_BADGES[getPostStatus(post)].className}`}>
+                                {POST_STATUS_BADGES[getPostStatus(post)].label}
                               </span>
-                            )}
-                            <span className={`px-2 py-1 rounded-full text-xs ${
-                              post.published ? 'bg-green-500/20 text-green-400' : 'bg-gray-500/20 text-gray-400'
-                            }`}>
-                              {post.published ? 'Published' : 'Draft'}
-                            </span>
+                            </div>
+                            <p className="text-white/70 text-sm mb-2">{post.excerpt}</p>
+                            <div className="flex items-center space-x-4 text-xs text-white/60">
+                              <span>Category: {post.category}</span>
+                              <span>Views: {post.views}</span>
+                              <span>Likes: {post.likes}</span>
+                              <span>{new Date(post.created_at).toLocaleDateString()}</span>
+                              {getPostStatus(post) === 'scheduled' && (
+                                <span className="text-purple-300">Goes live {new Date(post.publish_at).toLocaleString()}</span>
+                              )}
+                            </div>
                           </div>
-                          <p className="text-white/70 text-sm mb-2">{post.excerpt}</p>
-                          <div className="flex items-center space-x-4 text-xs text-white/60">
-                            <span>Category: {post.category}</span>
-                            <span>Views: {post.views}</span>
-                            <span>Likes: {post.likes}</span>
-                            <span>{new Date(post.created_at).toLocaleDateString()}</span>
+                          <div className="flex items-center space-x-2 ml-4">
+                            <button
+                              onClick={() => togglePostFeatured(post.id, post.featured)}
+                              className={`p-2 rounded-lg transition-colors duration-300 ${
+                                post.featured ? 'text-yellow-400 hover:bg-yellow-500/20' : 'text-white/60 hover:bg-white/10'
+                              }`}
+                              title={post.featured ? 'Remove from featured' : 'Add to featured'}
+                            >
+                              <Star size={16} fill={post.featured ? 'currentColor' : 'none'} />
+                            </button>
+                            <button
+                              onClick={() => togglePostPublished(post.id, post.published)}
+                              className={`p-2 rounded-lg transition-colors duration-300 ${
+                                post.published ? 'text-green-400 hover:bg-green-500/20' : 'text-gray-400 hover:bg-gray-500/20'
+                              }`}
+                              title={post.published ? 'Unpublish' : 'Publish'}
+                            >
+                              <Globe size={16} />
+                            </button>
+                            <button
+                              onClick={() => openPostEditor(post)}
+                              className="p-2 text-azure-400 hover:bg-azure-500/20 rounded-lg transition-colors duration-300"
+                              title="Edit post"
+                            >
+                              <Edit size={16} />
+                            </button>
+                            <button
+                              onClick={() => setHistoryPost(post)}
+                              className="p-2 text-white/60 hover:bg-white/10 rounded-lg transition-colors duration-300"
+                              title="Revision history"
+                            >
+                              <History size={16} />
+                            </button>
+                            <button
+                              onClick={() => setPostPendingDelete(post)}
+                              className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors duration-300"
+                              title="Delete post"
+                            >
+                              <Trash2 size={16} />
+                            </button>
                           </div>
                         </div>
-                        <div className="flex items-center space-x-2 ml-4">
-                          <button
-                            onClick={() => togglePostFeatured(post.id, post.featured)}
-                            className={`p-2 rounded-lg transition-colors duration-300 ${
-                              post.featured ? 'text-yellow-400 hover:bg-yellow-500/20' : 'text-white/60 hover:bg-white/10'
-                            }`}
-                            title={post.featured ? 'Remove from featured' : 'Add to featured'}
-                          >
-                            <Star size={16} fill={post.featured ? 'currentColor' : 'none'} />
-                          </button>
-                          <button
-                            onClick={() => togglePostPublished(post.id, post.published)}
-                            className={`p-2 rounded-lg transition-colors duration-300 ${
-                              post.published ? 'text-green-400 hover:bg-green-500/20' : 'text-gray-400 hover:bg-gray-500/20'
-                            }`}
-                            title={post.published ? 'Unpublish' : 'Publish'}
-                          >
-                            <Globe size={16} />
-                          </button>
-                          <button
-                            onClick={() => {
-                              setSelectedItem(post);
-                              setModalType('edit');
-                              setShowModal(true);
-                            }}
-                            className="p-2 text-azure-400 hover:bg-azure-500/20 rounded-lg transition-colors duration-300"
-                            title="Edit post"
-                          >
-                            <Edit size={16} />
-                          </button>
-                          <button
-                            onClick={() => {
-                              setSelectedItem(post);
-                              setModalType('delete');
-                              setShowModal(true);
-                            }}
-                            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors duration-300"
-                            title="Delete post"
-                          >
-                            <Trash2 size={16} />
-                          </button>
-                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </GlassCard>
             </motion.div>
           )}
@@ -1087,88 +1198,7 @@ const Admin: React.FC = () => {
                   <h2 className="text-xl font-bold text-white">Comments Management</h2>
                 </div>
 
-                {/* Search and Filter */}
-                <div className="flex space-x-4 mb-6">
-                  <div className="flex-1 relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60" size={16} />
-                    <input
-                      type="text"
-                      placeholder="Search comments..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-azure-400"
-                    />
-                  </div>
-                  <select
-                    value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value)}
-                    className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:border-azure-400"
-                  >
-                    <option value="all">All Status</option>
-                    <option value="pending">Pending</option>
-                    <option value="approved">Approved</option>
-                    <option value="rejected">Rejected</option>
-                  </select>
-                </div>
-
-                {/* Comments List */}
-                <div className="space-y-4">
-                  {filteredComments.map(comment => (
-                    <div key={comment.id} className="bg-white/5 p-4 rounded-lg">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-3 mb-2">
-                            <h3 className="text-white font-semibold">{comment.author_name}</h3>
-                            <span className="text-white/60 text-sm">{comment.author_email}</span>
-                            <span className={`px-2 py-1 rounded-full text-xs ${
-                              comment.status === 'approved' ? 'bg-green-500/20 text-green-400' :
-                              comment.status === 'rejected' ? 'bg-red-500/20 text-red-400' :
-                              'bg-yellow-500/20 text-yellow-400'
-                            }`}>
-                              {comment.status}
-                            </span>
-                          </div>
-                          <p className="text-white/70 text-sm mb-2">{comment.content}</p>
-                          <div className="flex items-center space-x-4 text-xs text-white/60">
-                            <span>Post ID: {comment.blog_post_id}</span>
-                            <span>{new Date(comment.created_at).toLocaleDateString()}</span>
-                          </div>
-                        </div>
-                        <div className="flex items-center space-x-2 ml-4">
-                          {comment.status === 'pending' && (
-                            <>
-                              <button
-                                onClick={() => updateCommentStatus(comment.id, 'approved')}
-                                className="p-2 text-green-400 hover:bg-green-500/20 rounded-lg transition-colors duration-300"
-                                title="Approve comment"
-                              >
-                                <ThumbsUp size={16} />
-                              </button>
-                              <button
-                                onClick={() => updateCommentStatus(comment.id, 'rejected')}
-                                className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors duration-300"
-                                title="Reject comment"
-                              >
-                                <ThumbsDown size={16} />
-                              </button>
-                            </>
-                          )}
-                          <button
-                            onClick={() => {
-                              setSelectedItem(comment);
-                              setModalType('delete');
-                              setShowModal(true);
-                            }}
-                            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors duration-300"
-                            title="Delete comment"
-                          >
-                            <Trash2 size={16} />
-                          </button>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <CommentModerationQueue comments={comments} posts={blogPosts} onChanged={loadComments} />
               </GlassCard>
             </motion.div>
           )}
@@ -1424,6 +1454,8 @@ const Admin: React.FC = () => {
                     </div>
                   </div>
                   
+                  <CommentSpamSettingsPanel />
+
                   <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
                     <h3 className="text-red-400 font-medium mb-2">Danger Zone</h3>
                     <button
@@ -1440,6 +1472,109 @@ const Admin: React.FC = () => {
           )}
         </div>
       </div>
+
+      {/* Blog post editor */}
+      <AnimatePresence>
+        {isEditorOpen && (
+          <BlogPostEditor
+            key={editingPost?.id ?? 'new-post'}
+            post={editingPost}
+            onClose={closePostEditor}
+            onSaved={handlePostSaved}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Post revision history */}
+      <AnimatePresence>
+        {historyPost && (
+          <PostRevisionHistory
+            key={historyPost.id}
+            post={historyPost}
+            onClose={() => setHistoryPost(null)}
+            onRestored={() => loadBlogPosts()}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Series membership and order */}
+      <AnimatePresence>
+        {isSeriesManagerOpen && (
+          <SeriesManager
+            posts={blogPosts}
+            onClose={() => setIsSeriesManagerOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Tag taxonomy: rename, merge, delete */}
+      <AnimatePresence>
+        {isTagManagerOpen && (
+          <TagManager
+            onClose={() => setIsTagManagerOpen(false)}
+            onPostsChanged={loadBlogPosts}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Categories: details, order, delete with reassignment */}
+      <AnimatePresence>
+        {isCategoryManagerOpen && (
+          <CategoryManager
+            posts={blogPosts}
+            onClose={() => setIsCategoryManagerOpen(false)}
+            onPostsChanged={loadBlogPosts}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Delete post confirmation */}
+      <AnimatePresence>
+        {postPendingDelete && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            onClick={() => !isDeletingPost && setPostPendingDelete(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full max-w-md"
+            >
+              <GlassCard className="p-6">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Trash2 className="text-red-400" size={24} />
+                  <h3 className="text-lg font-bold text-white">Delete post?</h3>
+                </div>
+                <p className="text-white/70 text-sm mb-6">
+                  "{postPendingDelete.title}" will be permanently removed along with its views and likes. This cannot be undone.
+                </p>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setPostPendingDelete(null)}
+                    disabled={isDeletingPost}
+                    className="px-4 py-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={deletePost}
+                    disabled={isDeletingPost}
+                    className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-300 flex items-center space-x-2"
+                  >
+                    {isDeletingPost ? <Loader className="animate-spin" size={16} /> : <Trash2 size={16} />}
+                    <span>Delete</span>
+                  </button>
+                </div>
+              </GlassCard>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
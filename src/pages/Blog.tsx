@@ -1,39 +1,129 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, Clock, Tag, ArrowDown, Eye, Heart, MessageCircle, Sparkles, ArrowRight } from 'lucide-react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Calendar, Clock, Tag, ArrowDown, Eye, Heart, MessageCircle, Sparkles, ArrowRight, Layers, RotateCcw, Bookmark } from 'lucide-react';
+import { Link, useNavigate, useNavigationType } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import GlassCard from '../components/ui/GlassCard';
 import SocialLinks from '../components/ui/SocialLinks';
 import BlogSearch from '../components/blog/BlogSearch';
+import HighlightedText from '../components/blog/HighlightedText';
 import SEO from '../components/SEO';
 import { useAnalytics } from '../hooks/useAnalytics';
-import { getFeaturedPosts, getRecentPosts, getAllCategories, getAllPosts, type BlogPost } from '../data/blogData';
+import { usePostFeed } from '../hooks/usePostFeed';
+import { useForYouFeed } from '../hooks/useForYouFeed';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { getFeaturedPosts, getRecentPosts, getCategoryCounts, type BlogPost, type BlogPostCard, type BlogSearchResult } from '../data/blogData';
 import ProgressiveImage from '../components/ui/ProgressiveImage';
 import BlogCardCarousel from '../components/blog/BlogCardCarousel';
+import ContinueReading from '../components/blog/ContinueReading';
+import BookmarkButton from '../components/blog/BookmarkButton';
 import { supabase } from '../lib/supabase';
-import { blogService } from '../lib/blogService';
+import { blogService, getPostPath, getSeriesPath, getCategoryPath, type BlogCategory, type BlogSeriesWithPosts, type FeedPreferences } from '../lib/blogService';
+import { getSearchResultPath } from '../lib/searchHighlights';
+import { saveScrollPosition, getScrollPosition } from '../lib/scrollRestoration';
+
+const FEED_PAGE_SIZE = 10;
+const MORE_ARTICLES_PAGE_SIZE = 6;
+
+type MobileFeedTab = 'forYou' | 'latest';
+
+// Filters the reader had selected, restored together with the feed pages on back navigation
+interface BlogViewState {
+  selectedCategory: string;
+  moreArticlesCategory: string;
+  mobileFeedTab: MobileFeedTab;
+}
+
+const VIEW_STORAGE_KEY = 'blog-view';
+
+const readSavedView = (): BlogViewState | null => {
+  try {
+    const raw = sessionStorage.getItem(VIEW_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as BlogViewState : null;
+  } catch {
+    return null;
+  }
+};
 
 const Blog: React.FC = () => {
   const navigate = useNavigate();
+  // Back/forward navigation (e.g. returning from a post) restores filters, loaded pages and scroll
+  const isReturning = useNavigationType() === 'POP';
+  const [savedView] = useState(() => (isReturning ? readSavedView() : null));
+  const [restoreScrollY] = useState(() => (isReturning ? getScrollPosition('/blog') : null));
   const [featuredPosts, setFeaturedPosts] = useState<BlogPost[]>([]);
   const [recentPosts, setRecentPosts] = useState<BlogPost[]>([]);
-  const [additionalPosts, setAdditionalPosts] = useState<BlogPost[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
+  const [categoryDetails, setCategoryDetails] = useState<BlogCategory[]>([]);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [seriesList, setSeriesList] = useState<BlogSeriesWithPosts[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchResults, setSearchResults] = useState<BlogPost[]>([]);
+  const [searchResults, setSearchResults] = useState<BlogSearchResult[]>([]);
+  // Per-category counts for the active search, from the search facets
+  const [searchCategoryCounts, setSearchCategoryCounts] = useState<Record<string, number> | null>(null);
   const [showSearchResults, setShowSearchResults] = useState(false);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [moreArticlesCategory, setMoreArticlesCategory] = useState<string>('all');
+  const [selectedCategory, setSelectedCategory] = useState<string>(savedView?.selectedCategory ?? 'all');
+  const [moreArticlesCategory, setMoreArticlesCategory] = useState<string>(savedView?.moreArticlesCategory ?? 'all');
 
   // Mobile feed controls (X/Twitter-like)
-  const [mobileFeedTab, setMobileFeedTab] = useState<'forYou' | 'latest'>('forYou');
-  const [mobileVisibleCount, setMobileVisibleCount] = useState(10);
+  const [mobileFeedTab, setMobileFeedTab] = useState<MobileFeedTab>(savedView?.mobileFeedTab ?? 'forYou');
+  const [feedPreferences, setFeedPreferences] = useState<FeedPreferences>(() => blogService.getFeedPreferences());
   
   // Streaming loading states
   const [featuredLoaded, setFeaturedLoaded] = useState(false);
   const [recentLoaded, setRecentLoaded] = useState(false);
   const [categoriesLoaded, setCategoriesLoaded] = useState(false);
-  const [additionalLoaded, setAdditionalLoaded] = useState(false);
+
+  // Paginated lists: the mobile reading feed and the desktop "More Articles" grid
+  const feed = usePostFeed({
+    cacheKey: 'blog-feed',
+    restore: isReturning,
+    category: selectedCategory === 'all' ? undefined : selectedCategory,
+    limit: FEED_PAGE_SIZE
+  });
+  const moreArticles = usePostFeed({
+    cacheKey: 'blog-more-articles',
+    restore: isReturning,
+    category: moreArticlesCategory === 'all' ? undefined : moreArticlesCategory,
+    featured: false,
+    limit: MORE_ARTICLES_PAGE_SIZE
+  });
+  const forYouFeed = useForYouFeed({
+    category: selectedCategory === 'all' ? undefined : selectedCategory,
+    limit: FEED_PAGE_SIZE,
+    enabled: mobileFeedTab === 'forYou' && !showSearchResults,
+    preferencesKey: JSON.stringify(feedPreferences)
+  });
+  const activeFeed = mobileFeedTab === 'forYou' ? forYouFeed : feed;
+  const feedSentinelRef = useInfiniteScroll(activeFeed.loadMore, activeFeed.hasMore && !activeFeed.isLoading && !showSearchResults);
+  const moreArticlesSentinelRef = useInfiniteScroll(moreArticles.loadMore, moreArticles.hasMore && !moreArticles.isLoading);
+
+  // Recent posts already have their own section
+  const additionalPosts = React.useMemo(() => {
+    const recentIds = new Set(recentPosts.map(post => post.id));
+    return moreArticles.posts.filter(post => !recentIds.has(post.id));
+  }, [moreArticles.posts, recentPosts]);
+
+  useEffect(() => {
+    try {
+      const view: BlogViewState = { selectedCategory, moreArticlesCategory, mobileFeedTab };
+      sessionStorage.setItem(VIEW_STORAGE_KEY, JSON.stringify(view));
+    } catch {
+      // Restoring the view is best-effort
+    }
+  }, [selectedCategory, moreArticlesCategory, mobileFeedTab]);
+
+  // Remember where the reader was when they open a post
+  useEffect(() => () => saveScrollPosition('/blog'), []);
+
+  // ...and put them back there once the sections above the fold have rendered again
+  const hasRestoredScroll = useRef(false);
+  const pageReady = !isLoading && recentLoaded && feed.isLoaded && moreArticles.isLoaded;
+  useEffect(() => {
+    if (hasRestoredScroll.current || restoreScrollY === null || !pageReady) return;
+    hasRestoredScroll.current = true;
+    requestAnimationFrame(() => window.scrollTo({ top: restoreScrollY }));
+  }, [pageReady, restoreScrollY]);
 
   // Track page visit
   useAnalytics('blog');
@@ -51,21 +141,14 @@ const Blog: React.FC = () => {
   const CARD_HEIGHT_RESP = 'md:h-[400px] lg:h-[420px]'; // scale up on larger screens
   const cardHeightClass = `${CARD_HEIGHT_BASE} ${CARD_HEIGHT_RESP} flex flex-col`; // applied to outer card
 
-  // Mobile: unified, minimal list (avoids clutter from multiple sections)
+  // Every post card currently on the page, used to hydrate like state
   const allPostsMerged = React.useMemo(() => {
-    const byId = new Map<string, BlogPost>();
-    [...featuredPosts, ...recentPosts, ...additionalPosts].forEach(post => {
+    const byId = new Map<string, BlogPostCard>();
+    [...featuredPosts, ...recentPosts, ...feed.posts, ...forYouFeed.posts, ...additionalPosts].forEach(post => {
       byId.set(post.id, post);
     });
-    return Array.from(byId.values()).sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-  }, [featuredPosts, recentPosts, additionalPosts]);
-
-  const mobileSourcePosts = showSearchResults ? searchResults : allPostsMerged;
-  const mobileFilteredPosts = selectedCategory === 'all'
-    ? mobileSourcePosts
-    : mobileSourcePosts.filter(post => post.category === selectedCategory);
+    return Array.from(byId.values());
+  }, [featuredPosts, recentPosts, feed.posts, forYouFeed.posts, additionalPosts]);
 
   const timeAgo = (dateString: string) => {
     const date = new Date(dateString);
@@ -99,8 +182,8 @@ const Blog: React.FC = () => {
     return `${(n / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
   };
 
-  const goToCommentForm = (postId: string) => {
-    navigate(`/blog/${postId}#comments`, { state: { openComment: true } });
+  const goToCommentForm = (post: BlogPostCard) => {
+    navigate(`${getPostPath(post)}#comments`, { state: { openComment: true } });
   };
 
   type LikeEntry = { liked: boolean; count: number; busy: boolean; userSet: boolean };
@@ -110,7 +193,7 @@ const Blog: React.FC = () => {
     likeByIdRef.current = likeById;
   }, [likeById]);
 
-  const seedLikeState = (posts: BlogPost[]) => {
+  const seedLikeState = (posts: BlogPostCard[]) => {
     if (!posts || posts.length === 0) return;
     setLikeById(prev => {
       const next = { ...prev };
@@ -144,13 +227,15 @@ const Blog: React.FC = () => {
     }));
 
     try {
-      await blogService.toggleLike(postId);
+      // The server's count also reflects other readers' likes since the page loaded
+      const { liked, likes } = await blogService.toggleLike(postId);
       setLikeById(prev => ({
         ...prev,
-        [postId]: { liked: optimisticLiked, count: optimisticCount, busy: false, userSet: true }
+        [postId]: { liked, count: likes, busy: false, userSet: true }
       }));
     } catch (e) {
       console.error('Error toggling like:', e);
+      toast.error('Could not update your like. Please try again.');
       setLikeById(prev => ({
         ...prev,
         [postId]: { ...before, busy: false }
@@ -159,26 +244,42 @@ const Blog: React.FC = () => {
   };
 
   const isVideoUrl = (url?: string) => !!url && /\.(mp4|webm|ogg|mov|m4v)(\?|#|$)/i.test(url);
-  const getPrimaryMedia = (post: BlogPost) => {
+  const getPrimaryMedia = (post: BlogPostCard) => {
     const list = (Array.isArray(post.images) ? post.images : []).filter(Boolean);
     if (list.length > 0) return list[0];
     return post.image_url || '';
   };
 
-  const mobileFeedPosts = React.useMemo(() => {
-    const posts = [...mobileFilteredPosts];
-    if (showSearchResults) return posts;
-    if (mobileFeedTab === 'latest') {
-      return posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const mobileFeedPosts = React.useMemo((): BlogPostCard[] => {
+    if (showSearchResults) {
+      return selectedCategory === 'all'
+        ? searchResults
+        : searchResults.filter(post => post.category === selectedCategory);
     }
-    // "For you": lightweight ranking, still minimal
-    return posts.sort((a, b) => {
-      const scoreA = (a.likes ?? 0) * 3 + (a.views ?? 0);
-      const scoreB = (b.likes ?? 0) * 3 + (b.views ?? 0);
-      if (scoreB !== scoreA) return scoreB - scoreA;
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
-    });
-  }, [mobileFilteredPosts, mobileFeedTab, showSearchResults]);
+    // "Latest" arrives newest first; "For you" arrives ranked for this visitor
+    return activeFeed.posts;
+  }, [activeFeed.posts, searchResults, selectedCategory, showSearchResults]);
+
+  useEffect(() => {
+    seedLikeState(feed.posts);
+  }, [feed.posts]);
+
+  useEffect(() => {
+    seedLikeState(forYouFeed.posts);
+  }, [forYouFeed.posts]);
+
+  const togglePersonalizedFeed = () => {
+    setFeedPreferences(blogService.setFeedPreferences({ personalized: !feedPreferences.personalized }));
+  };
+
+  const resetFeedPreferences = () => {
+    setFeedPreferences(blogService.resetFeedPreferences());
+    toast.success('Your For You feed has been reset');
+  };
+
+  useEffect(() => {
+    seedLikeState(additionalPosts);
+  }, [additionalPosts]);
 
   useEffect(() => {
     loadBlogData();
@@ -233,27 +334,20 @@ const Blog: React.FC = () => {
       });
       
       // Stream 3: Load categories (third priority)
-      getAllCategories().then(allCategories => {
-        setCategories(allCategories);
+      blogService.getCategories().then(allCategories => {
+        setCategoryDetails(allCategories);
+        setCategories(allCategories.map(category => category.name));
         setCategoriesLoaded(true);
       }).catch(error => {
         console.error('Error loading categories:', error);
         setCategoriesLoaded(true);
       });
       
-      // Stream 4: Load additional posts (lowest priority)
-      getAllPosts().then(allPosts => {
-        const additional = allPosts
-          .filter(post => !post.featured)
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-          .slice(3, 9);
-        setAdditionalPosts(additional);
-        seedLikeState(additional);
-        setAdditionalLoaded(true);
-      }).catch(error => {
-        console.error('Error loading additional posts:', error);
-        setAdditionalLoaded(true);
-      });
+      // Stream 4: Load per-category post counts for the filters
+      getCategoryCounts().then(setCategoryCounts);
+
+      // Stream 5: Load multi-part series for the series index
+      blogService.getAllSeries().then(setSeriesList);
       
     } catch (error) {
       console.error('Error loading blog data:', error);
@@ -261,17 +355,18 @@ const Blog: React.FC = () => {
     }
   };
 
-  // Load initial liked status for the visitor (first batch only to keep it snappy)
+  // Load liked status for the visitor, once per post as pages come in
+  const likeStatusRequested = useRef(new Set<string>());
   useEffect(() => {
-    const posts = allPostsMerged.slice(0, 30);
+    const posts = allPostsMerged.filter(p => !likeStatusRequested.current.has(p.id));
     if (posts.length === 0) return;
+    posts.forEach(p => likeStatusRequested.current.add(p.id));
 
-    let cancelled = false;
+    // Not cancelled when more posts arrive: each post is only requested once
     (async () => {
       const results = await Promise.all(
         posts.map(p => blogService.hasLiked(p.id).catch(() => false))
       );
-      if (cancelled) return;
 
       setLikeById(prev => {
         const next = { ...prev };
@@ -288,13 +383,9 @@ const Blog: React.FC = () => {
         return next;
       });
     })();
-
-    return () => {
-      cancelled = true;
-    };
   }, [allPostsMerged]);
 
-  const handleSearchResults = (results: BlogPost[]) => {
+  const handleSearchResults = (results: BlogSearchResult[]) => {
     setSearchResults(results);
     setShowSearchResults(results.length > 0);
     // Reset category filter when searching to show all search results
@@ -323,27 +414,15 @@ const Blog: React.FC = () => {
     return posts.filter(post => post.category === selectedCategory);
   };
 
-  // Filter posts for More Articles section
-  const getFilteredMoreArticlesPosts = (posts: BlogPost[]) => {
-    if (moreArticlesCategory === 'all') return posts;
-    return posts.filter(post => post.category === moreArticlesCategory);
-  };
+  const selectedCategoryDetails = categoryDetails.find(category => category.name === selectedCategory);
 
-  // Get post count for each category
+  // Get post count for each category, narrowed to the search while results are shown
   const getCategoryCount = (category: string) => {
+    const counts = (showSearchResults && searchCategoryCounts) || categoryCounts;
     if (category === 'all') {
-      return featuredPosts.length + recentPosts.length + additionalPosts.length;
-    }
-    const allPosts = [...featuredPosts, ...recentPosts, ...additionalPosts];
-    return allPosts.filter(post => post.category === category).length;
-  };
-
-  // Get post count for More Articles section specifically
-  const getMoreArticlesCategoryCount = (category: string) => {
-    if (category === 'all') {
-      return additionalPosts.length;
+      return Object.values(counts).reduce((sum, count) => sum + count, 0);
     }
-    return additionalPosts.filter(post => post.category === category).length;
+    return counts[category] || 0;
   };
 
   if (isLoading) {
@@ -411,7 +490,7 @@ const Blog: React.FC = () => {
               "@type": "Person",
               "name": post.author_name
             },
-            "url": `https://owen-portfolio.com/blog/${post.id}`
+            "url": `https://owen-portfolio.com${getPostPath(post)}`
           }))
         }}
       />
@@ -451,9 +530,16 @@ const Blog: React.FC = () => {
           <div className="flex items-center justify-center mb-4">
             <div className="h-1 w-24 bg-azure-400"></div>
           </div>
-          <p className="ui-lead max-w-2xl mx-auto mb-5 sm:mb-8">
+          <p className="ui-lead max-w-2xl mx-auto mb-3 sm:mb-4">
             Insights, tutorials, and thoughts on modern web development
           </p>
+          <Link
+            to="/blog/saved"
+            className="inline-flex items-center space-x-1 text-azure-400 hover:text-azure-300 text-sm font-medium transition-colors duration-300 mb-5 sm:mb-8"
+          >
+            <Bookmark size={14} />
+            <span>Saved posts</span>
+          </Link>
 
           {/* Search Component */}
           <motion.div
@@ -462,7 +548,11 @@ const Blog: React.FC = () => {
             transition={{ duration: 0.8, delay: 0.2 }}
             className="max-w-2xl mx-auto"
           >
-            <BlogSearch onSearchResults={handleSearchResults} onCategoryChange={handleCategorySelect} />
+            <BlogSearch
+              onSearchResults={handleSearchResults}
+              onCategoryChange={handleCategorySelect}
+              onFacetCounts={counts => setSearchCategoryCounts(counts?.category ?? null)}
+            />
           </motion.div>
 
           {/* Categories Filter */}
@@ -531,6 +621,9 @@ const Blog: React.FC = () => {
           </motion.div>
         </motion.div>
 
+        {/* Posts the reader started but didn't finish */}
+        {!showSearchResults && <ContinueReading />}
+
         {/* Mobile: Minimal Articles List */}
         <motion.section
           initial={{ opacity: 0, y: 20 }}
@@ -565,7 +658,6 @@ const Blog: React.FC = () => {
                       type="button"
                       onClick={() => {
                         setMobileFeedTab('forYou');
-                        setMobileVisibleCount(10);
                       }}
                       className={`rounded-lg py-2 text-xs font-semibold border transition-colors ${
                         mobileFeedTab === 'forYou'
@@ -579,7 +671,6 @@ const Blog: React.FC = () => {
                       type="button"
                       onClick={() => {
                         setMobileFeedTab('latest');
-                        setMobileVisibleCount(10);
                       }}
                       className={`rounded-lg py-2 text-xs font-semibold border transition-colors ${
                         mobileFeedTab === 'latest'
@@ -591,14 +682,49 @@ const Blog: React.FC = () => {
                     </button>
                   </div>
                 )}
+
+                {!showSearchResults && mobileFeedTab === 'forYou' && (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-[11px] text-white/50">
+                    <span>
+                      {feedPreferences.personalized
+                        ? 'Picked from what you read and like here'
+                        : 'Personalisation is off: popular and recent posts'}
+                    </span>
+                    <div className="flex items-center gap-2 flex-none">
+                      {feedPreferences.personalized && (
+                        <button
+                          type="button"
+                          onClick={resetFeedPreferences}
+                          className="inline-flex items-center gap-1 text-white/60 hover:text-white transition-colors"
+                          title="Forget the topics learned so far; posts you've read stay hidden"
+                        >
+                          <RotateCcw size={11} />
+                          <span>Reset</span>
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={togglePersonalizedFeed}
+                        className="text-azure-300 hover:text-white transition-colors"
+                        aria-pressed={feedPreferences.personalized}
+                      >
+                        {feedPreferences.personalized ? 'Turn off' : 'Turn on'}
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
           {/* Feed items */}
           <div className="p-3 space-y-3">
-              {mobileFeedPosts.slice(0, mobileVisibleCount).map(post => (
-                <Link key={post.id} to={`/blog/${post.id}`} className="block">
+              {mobileFeedPosts.map(post => (
+                <Link
+                  key={post.id}
+                  to={showSearchResults ? getSearchResultPath(getPostPath(post), post as BlogSearchResult) : getPostPath(post)}
+                  className="block"
+                >
                   <div className="glass-card rounded-2xl p-3">
                     <div className="flex gap-3 items-start">
                       {/* Avatar */}
@@ -632,11 +758,15 @@ const Blog: React.FC = () => {
                         </div>
 
                         <h3 className="mt-1 text-[15px] font-semibold text-white leading-snug line-clamp-2">
-                          {post.title}
+                          {showSearchResults
+                            ? <HighlightedText text={(post as BlogSearchResult).title_highlight || post.title} />
+                            : post.title}
                         </h3>
 
                         <p className="mt-1 text-[13px] text-white/70 leading-snug line-clamp-2">
-                          {truncateExcerpt(post.excerpt, 150)}
+                          {showSearchResults
+                            ? <HighlightedText text={(post as BlogSearchResult).snippet || post.excerpt} />
+                            : truncateExcerpt(post.excerpt, 150)}
                         </p>
 
                         {/* Media (optional, tweet-like) */}
@@ -677,7 +807,7 @@ const Blog: React.FC = () => {
                             </span>
                           </div>
 
-                          <div className="mt-2 grid grid-cols-3 gap-2">
+                          <div className="mt-2 grid grid-cols-4 gap-2">
                             <span className="flex items-center justify-center gap-1 whitespace-nowrap">
                               <Eye size={12} />
                               {formatCount(post.views)}
@@ -707,13 +837,13 @@ const Blog: React.FC = () => {
                               onClick={(e) => {
                                 e.preventDefault();
                                 e.stopPropagation();
-                                goToCommentForm(post.id);
+                                goToCommentForm(post);
                               }}
                               onKeyDown={(e) => {
                                 if (e.key === 'Enter' || e.key === ' ') {
                                   e.preventDefault();
                                   e.stopPropagation();
-                                  goToCommentForm(post.id);
+                                  goToCommentForm(post);
                                 }
                               }}
                               className="flex items-center justify-center gap-1 whitespace-nowrap cursor-pointer hover:text-azure-300 transition-colors"
@@ -721,6 +851,7 @@ const Blog: React.FC = () => {
                               <MessageCircle size={12} />
                               {formatCount(post.comments)}
                             </span>
+                            <BookmarkButton post={post} />
                           </div>
                         </div>
 
@@ -731,23 +862,24 @@ const Blog: React.FC = () => {
                 </Link>
               ))}
 
-              {mobileFeedPosts.length === 0 && (
+              {mobileFeedPosts.length === 0 && (showSearchResults || activeFeed.isLoaded) && (
                 <div className="glass-card rounded-2xl p-6 text-center text-white/60 text-sm">
                   No posts found.
                 </div>
               )}
             </div>
 
-            {/* Load more */}
-            {mobileFeedPosts.length > mobileVisibleCount && (
-              <div className="px-3 pb-3">
-                <button
-                  type="button"
-                  onClick={() => setMobileVisibleCount(v => v + 10)}
-                  className="w-full py-2.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white/80 text-sm transition-colors"
-                >
-                  Show more
-                </button>
+            {/* Infinite scroll: the next page loads as this sentinel nears the viewport */}
+            {!showSearchResults && (
+              <div ref={feedSentinelRef} className="px-3 pb-3">
+                {activeFeed.isLoading && (
+                  <div className="flex justify-center py-3">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-azure-400"></div>
+                  </div>
+                )}
+                {activeFeed.isLoaded && !activeFeed.hasMore && activeFeed.posts.length > 0 && (
+                  <p className="text-center text-white/40 text-xs py-2">You're all caught up</p>
+                )}
               </div>
             )}
         </motion.section>
@@ -783,7 +915,7 @@ const Blog: React.FC = () => {
               
               <div className="grid md:grid-cols-2 lg:grid-cols-3 ui-grid-gap">
                 {searchResults.map((post, index) => (
-                  <Link key={post.id} to={`/blog/${post.id}`}>
+                  <Link key={post.id} to={getSearchResultPath(getPostPath(post), post)}>
                     <motion.div
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -820,10 +952,12 @@ const Blog: React.FC = () => {
                           </div>
                           
                           <h3 className="text-lg font-bold text-white mb-2 line-clamp-2 group-hover:text-azure-400 transition-colors duration-300 h-[44px]">
-                            {post.title}
+                            <HighlightedText text={post.title_highlight || post.title} />
                           </h3>
                           
-                          <p className="text-white/70 text-sm mb-3 line-clamp-2 h-[40px]">{truncateExcerpt(post.excerpt)}</p>
+                          <p className="text-white/70 text-sm mb-3 line-clamp-2 h-[40px]">
+                            <HighlightedText text={post.snippet || post.excerpt} />
+                          </p>
                           
                           <div className="flex items-center justify-between mt-auto h-[24px]">
                             <div className="flex items-center space-x-4 text-white/60 text-xs">
@@ -878,12 +1012,23 @@ const Blog: React.FC = () => {
                 {selectedCategory === 'all' ? 'Featured Posts' : `Featured Posts in ${selectedCategory}`}
               </h2>
               {selectedCategory !== 'all' && (
-                <button
-                  onClick={() => handleCategorySelect('all')}
-                  className="text-azure-400 hover:text-white text-sm transition-colors duration-300"
-                >
-                  View All
-                </button>
+                <div className="flex items-center space-x-4">
+                  {selectedCategoryDetails && (
+                    <Link
+                      to={getCategoryPath(selectedCategoryDetails)}
+                      className="text-azure-400 hover:text-white text-sm transition-colors duration-300 inline-flex items-center space-x-1"
+                    >
+                      <span>All {selectedCategory} posts</span>
+                      <ArrowRight size={14} />
+                    </Link>
+                  )}
+                  <button
+                    onClick={() => handleCategorySelect('all')}
+                    className="text-azure-400 hover:text-white text-sm transition-colors duration-300"
+                  >
+                    View All
+                  </button>
+                </div>
               )}
             </div>
             <div className="grid md:grid-cols-3 ui-grid-gap">
@@ -906,7 +1051,7 @@ const Blog: React.FC = () => {
                 const filteredFeaturedPosts = getFilteredPosts(featuredPosts);
                 return filteredFeaturedPosts.length > 0 ? (
                   filteredFeaturedPosts.slice(0, 3).map((post, index) => (
-                    <Link key={post.id} to={`/blog/${post.id}`}>
+                    <Link key={post.id} to={getPostPath(post)}>
                       <GlassCard delay={0.5 + index * 0.1} className={`p-4 group hover:scale-105 transition-transform duration-300 ${cardHeightClass}`}>
                         <div className="rounded-lg overflow-hidden mb-3 relative h-[140px] md:h-[160px] lg:h-[180px]">
                           <BlogCardCarousel
@@ -915,6 +1060,7 @@ const Blog: React.FC = () => {
                             alt={post.title}
                             badge={<div className="absolute top-2 right-2 bg-azure-500 text-white px-2 py-1 rounded-full text-xs font-medium">Featured</div>}
                             className="h-full"
+                            bookmark={post}
                           />
                         </div>
                         <div className="flex items-center space-x-3 mb-2 h-[28px]">
@@ -1008,7 +1154,7 @@ const Blog: React.FC = () => {
                 const filteredRecentPosts = getFilteredPosts(recentPosts);
                 return filteredRecentPosts.length > 0 ? (
                   filteredRecentPosts.slice(0, 3).map((post, index) => (
-                    <Link key={post.id} to={`/blog/${post.id}`}>
+                    <Link key={post.id} to={getPostPath(post)}>
                       <GlassCard delay={0.7 + index * 0.1} className={`p-4 group hover:scale-105 transition-transform duration-300 ${cardHeightClass}`}>
                         <div className="aspect-video rounded-lg overflow-hidden mb-3 relative">
                           <BlogCardCarousel
@@ -1016,6 +1162,7 @@ const Blog: React.FC = () => {
                             fallback={post.image_url}
                             alt={post.title}
                             className="h-full"
+                            bookmark={post}
                           />
                         </div>
                         <div className="flex items-center space-x-3 mb-2 h-[28px]">
@@ -1063,6 +1210,59 @@ const Blog: React.FC = () => {
           </motion.section>
         )}
 
+        {/* Series index */}
+        {!showSearchResults && seriesList.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.8 }}
+            className="mb-8"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="ui-section-title">Series</h2>
+            </div>
+            <div className="grid md:grid-cols-2 ui-grid-gap">
+              {seriesList.map((series, index) => (
+                <GlassCard key={series.id} delay={0.9 + index * 0.1} className="p-4 sm:p-6 flex flex-col">
+                  <div className="flex items-center space-x-2 text-azure-300 text-xs font-medium mb-1">
+                    <Layers size={14} />
+                    <span>{series.posts.length} parts</span>
+                  </div>
+                  <Link
+                    to={getSeriesPath(series)}
+                    className="text-white font-semibold text-lg hover:text-azure-300 transition-colors duration-300 mb-2"
+                  >
+                    {series.title}
+                  </Link>
+                  {series.description && (
+                    <p className="text-white/60 text-sm line-clamp-2 mb-3">{series.description}</p>
+                  )}
+                  <ol className="space-y-1 mb-4">
+                    {series.posts.slice(0, 4).map((post, partIndex) => (
+                      <li key={post.id}>
+                        <Link
+                          to={getPostPath(post)}
+                          className="flex items-center gap-2 text-sm text-white/70 hover:text-white transition-colors duration-300"
+                        >
+                          <span className="w-5 text-xs text-white/40 flex-none">{partIndex + 1}.</span>
+                          <span className="line-clamp-1">{post.title}</span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ol>
+                  <Link
+                    to={getSeriesPath(series)}
+                    className="mt-auto inline-flex items-center space-x-1 text-azure-400 hover:text-azure-300 text-sm font-medium transition-colors duration-300"
+                  >
+                    <span>{series.posts.length > 4 ? `View all ${series.posts.length} parts` : 'View series'}</span>
+                    <ArrowRight size={14} />
+                  </Link>
+                </GlassCard>
+              ))}
+            </div>
+          </motion.section>
+        )}
+
         {/* More Articles Snippet (desktop) */}
         {!showSearchResults && (
           <motion.section
@@ -1087,7 +1287,7 @@ const Blog: React.FC = () => {
                       : 'bg-azure-400/20 text-azure-400 hover:bg-azure-400/30'
                   }`}
                 >
-                  All{getMoreArticlesCategoryCount('all') > 0 ? ` (${getMoreArticlesCategoryCount('all')})` : ''}
+                  All
                 </button>
                 {categories.map((category) => (
                   <button 
@@ -1099,14 +1299,14 @@ const Blog: React.FC = () => {
                         : 'bg-azure-400/20 text-azure-400 hover:bg-azure-400/30'
                     }`}
                   >
-                    {category}{getMoreArticlesCategoryCount(category) > 0 ? ` (${getMoreArticlesCategoryCount(category)})` : ''}
+                    {category}
                   </button>
                 ))}
               </div>
             </div>
             
             <div className="grid md:grid-cols-2 lg:grid-cols-3 ui-grid-gap">
-              {!additionalLoaded ? (
+              {!moreArticles.isLoaded ? (
                 // Skeleton loading for additional posts
                 [...Array(6)].map((_, index) => (
                   <motion.div
@@ -1129,14 +1329,13 @@ const Blog: React.FC = () => {
                   </motion.div>
                 ))
               ) : (() => {
-                const filteredAdditionalPosts = getFilteredMoreArticlesPosts(additionalPosts);
-                return filteredAdditionalPosts.length > 0 ? (
-                  filteredAdditionalPosts.map((post, index) => (
-                    <Link key={post.id} to={`/blog/${post.id}`}>
+                return additionalPosts.length > 0 ? (
+                  additionalPosts.map((post, index) => (
+                    <Link key={post.id} to={getPostPath(post)}>
                       <motion.div
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
-                        transition={{ duration: 0.5, delay: 1.1 + index * 0.1 }}
+                        transition={{ duration: 0.5, delay: (index < MORE_ARTICLES_PAGE_SIZE ? 1.1 : 0) + (index % MORE_ARTICLES_PAGE_SIZE) * 0.1 }}
                         className="group"
                       >
                         <GlassCard className={`p-4 hover:scale-105 transition-transform duration-300 h-full ${cardHeightClass}`}> 
@@ -1146,6 +1345,7 @@ const Blog: React.FC = () => {
                               fallback={post.image_url}
                               alt={post.title}
                               className="h-full"
+                              bookmark={post}
                             />
                           </div>
                           
@@ -1211,9 +1411,18 @@ const Blog: React.FC = () => {
                 );
               })()}
             </div>
+
+            {/* Infinite scroll sentinel for the next page of articles */}
+            <div ref={moreArticlesSentinelRef}>
+              {moreArticles.isLoading && moreArticles.isLoaded && (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-azure-400"></div>
+                </div>
+              )}
+            </div>
             
             {/* View All Posts Button */}
-            {additionalLoaded && (
+            {moreArticles.isLoaded && !moreArticles.hasMore && (
               <div className="text-center mt-6">
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ArrowRight, Calendar, Clock, Loader } from 'lucide-react';
+import GlassCard from '../components/ui/GlassCard';
+import ProgressiveImage from '../components/ui/ProgressiveImage';
+import SEO from '../components/SEO';
+import { usePostFeed } from '../hooks/usePostFeed';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { blogService, getPostPath, getCategoryPath, type BlogCategory as BlogCategoryRecord } from '../lib/blogService';
+import { getCategoryIcon } from '../lib/categoryIcons';
+
+const CATEGORY_PAGE_SIZE = 12;
+
+// Posts in the category, newest first, loaded page by page as the reader scrolls
+const CategoryPosts: React.FC<{ category: BlogCategoryRecord }> = ({ category }) => {
+  const feed = usePostFeed({ cacheKey: `category:${category.slug}`, category: category.name, limit: CATEGORY_PAGE_SIZE });
+  const sentinelRef = useInfiniteScroll(feed.loadMore, feed.hasMore && !feed.isLoading);
+
+  if (feed.isLoaded && feed.posts.length === 0) {
+    return (
+      <GlassCard className="p-8 text-center">
+        <p className="text-white/70">No published posts in this category yet.</p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-3">
+        {feed.posts.map(post => (
+          <li key={post.id}>
+            <Link to={getPostPath(post)} className="group block">
+              <GlassCard className="p-4 sm:p-5 flex items-start gap-4 group-hover:bg-white/10 transition-colors duration-300">
+                <div className="w-20 h-16 sm:w-28 sm:h-20 rounded-lg overflow-hidden bg-white/10 flex-none">
+                  <ProgressiveImage
+                    src={post.image_url}
+                    alt={post.title}
+                    wrapperClassName="w-full h-full"
+                    className="object-cover"
+                    initialBlur
+                    skeleton
+                    lazy
+                  />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-white font-semibold group-hover:text-azure-300 transition-colors duration-300 line-clamp-2">
+                    {post.title}
+                  </h2>
+                  <p className="text-white/60 text-sm line-clamp-2 mt-1">{post.excerpt}</p>
+                  <div className="flex items-center space-x-3 mt-2 text-white/50 text-xs">
+                    <span className="flex items-center space-x-1">
+                      <Calendar size={12} />
+                      <span>{new Date(post.date).toLocaleDateString()}</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <Clock size={12} />
+                      <span>{post.read_time}</span>
+                    </span>
+                  </div>
+                </div>
+                <ArrowRight size={16} className="text-azure-400 flex-none mt-2 group-hover:translate-x-1 transition-transform duration-300" />
+              </GlassCard>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {(feed.isLoading || !feed.isLoaded) && <Loader className="animate-spin text-azure-400" size={20} />}
+      </div>
+    </>
+  );
+};
+
+const BlogCategory: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [category, setCategory] = useState<BlogCategoryRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!slug) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    blogService.getCategory(slug).then(result => {
+      if (cancelled) return;
+      setCategory(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-azure-400 mx-auto mb-4"></div>
+          <p className="text-white/70">Loading category...</p>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  if (!category) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <h1 className="ui-section-title">Category Not Found</h1>
+          <p className="ui-lead mb-6">The category you're looking for doesn't exist.</p>
+          <Link
+            to="/blog"
+            className="bg-azure-500 hover:bg-azure-600 text-white px-6 py-3 rounded-lg transition-colors duration-300 inline-flex items-center space-x-2"
+          >
+            <ArrowLeft size={16} />
+            <span>Back to Blog</span>
+          </Link>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  const description = category.description || `${category.name} articles: tutorials, insights and notes.`;
+  const Icon = getCategoryIcon(category.icon);
+
+  return (
+    <div className="min-h-screen pt-24 pb-12">
+      <SEO
+        title={`${category.name} Articles`}
+        description={description}
+        url={getCategoryPath(category)}
+        structuredData={{
+          "@context": "https://schema.org",
+          "@type": "CollectionPage",
+          "name": `${category.name} Articles`,
+          "description": description,
+          "url": `https://owen-portfolio.com${getCategoryPath(category)}`,
+          "about": category.name
+        }}
+      />
+
+      <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="space-y-6"
+        >
+          <GlassCard className="p-6 sm:p-8">
+            <div className="flex items-center space-x-2 text-sm font-medium mb-2" style={{ color: category.color }}>
+              <span className="p-1.5 rounded-lg" style={{ backgroundColor: `${category.color}33` }}>
+                <Icon size={16} />
+              </span>
+              <span>Category</span>
+            </div>
+            <h1 className="ui-article-title leading-tight mb-3">{category.name}</h1>
+            {category.description && (
+              <p className="text-white/80 leading-relaxed">{category.description}</p>
+            )}
+          </GlassCard>
+
+          <CategoryPosts key={category.id} category={category} />
+
+          <div className="text-center">
+            <Link
+              to="/blog"
+              className="text-azure-400 hover:text-azure-300 transition-colors duration-300 inline-flex items-center space-x-2 text-sm"
+            >
+              <ArrowLeft size={16} />
+              <span>Back to All Posts</span>
+            </Link>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default BlogCategory;
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, Link, useNavigate, useLocation } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { 
   Calendar, 
@@ -10,24 +11,37 @@ import {
   MessageCircle,
   ArrowRight,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  X,
+  BookOpen
 } from 'lucide-react';
 import ProgressiveImage from '../components/ui/ProgressiveImage';
 import GlassCard from '../components/ui/GlassCard';
 import CommentSection from '../components/blog/CommentSection';
 import SocialShare from '../components/blog/SocialShare';
+import TableOfContents, { copySectionLink } from '../components/blog/TableOfContents';
+import SeriesNavigator from '../components/blog/SeriesNavigator';
+import BookmarkButton from '../components/blog/BookmarkButton';
 import SEO from '../components/SEO';
 import { useAnalytics } from '../hooks/useAnalytics';
-import { getBlogPostById, getRelatedPosts, getAllPosts, type BlogPost } from '../data/blogData';
-import { blogService } from '../lib/blogService';
+import { useScrollSpy } from '../hooks/useScrollSpy';
+import { useSearchHighlight } from '../hooks/useSearchHighlight';
+import { useReadingProgress } from '../hooks/useReadingProgress';
+import { getBlogPostBySlug, getRelatedPosts, getPostsPage, type BlogPost, type BlogPostCard } from '../data/blogData';
+import { blogService, getPostPath, getTagPath, getCategoryPath, type BlogCategory, type BlogSeriesWithPosts } from '../lib/blogService';
+import { renderPostHtml, extractOutline } from '../lib/markdown';
+import { HIGHLIGHT_PARAM } from '../lib/searchHighlights';
+import { isUnfinished } from '../lib/readingProgress';
 import 'prismjs/themes/prism-tomorrow.css';
 
 const BlogPost: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const location = useLocation();
   const [post, setPost] = useState<BlogPost | null>(null);
-  const [relatedPosts, setRelatedPosts] = useState<BlogPost[]>([]);
+  const [relatedPosts, setRelatedPosts] = useState<BlogPostCard[]>([]);
+  const [series, setSeries] = useState<BlogSeriesWithPosts | null>(null);
+  const [category, setCategory] = useState<BlogCategory | null>(null);
 
   // Generate streamlined fallback content
   const generateFallbackContent = (p: BlogPost) => {
@@ -55,7 +69,7 @@ function createHandler(config: Config) {
 **What's Next:** Continue exploring these concepts by implementing similar patterns in your own projects. This placeholder content will be replaced when the full article is added.`;
   };
 
-  const [additionalRelatedPosts, setAdditionalRelatedPosts] = useState<BlogPost[]>([]);
+  const [additionalRelatedPosts, setAdditionalRelatedPosts] = useState<BlogPostCard[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLiked, setIsLiked] = useState(false);
   const [commentCount, setCommentCount] = useState(0);
@@ -79,10 +93,10 @@ function createHandler(config: Config) {
   }>({ isLiked: false, count: 0, isUserSet: false, lastAction: 0, isProcessing: false });
 
   // Track page visit
-  useAnalytics(`blog-post-${id}`);
+  useAnalytics(`blog-post-${slug}`);
 
   useEffect(() => {
-    if (!id) {
+    if (!slug) {
       navigate('/blog');
       return;
     }
@@ -96,7 +110,7 @@ function createHandler(config: Config) {
       isProcessing: false 
     };
     loadBlogPost();
-  }, [id]);
+  }, [slug]);
 
   useEffect(() => {
     const openFromLink = location.hash === '#comments' || (location.state as any)?.openComment === true;
@@ -112,7 +126,7 @@ function createHandler(config: Config) {
   }, [location.hash, location.state, isLoading, post?.id]);
 
   const loadBlogPost = async () => {
-    if (!id) return;
+    if (!slug) return;
     
     // Don't reload if we're in the middle of a like operation
     if (likeStateRef.current.isProcessing) {
@@ -120,13 +134,25 @@ function createHandler(config: Config) {
       return;
     }
 
+    let redirecting = false;
     try {
       setIsLoading(true);
       
       // Load the blog post
-      const foundPost = await getBlogPostById(id);
+      const foundPost = await getBlogPostBySlug(slug);
+
+      if (!foundPost) {
+        // Old /blog/:id links and renamed slugs redirect to the canonical URL
+        const canonicalSlug = await blogService.resolveLegacySlug(slug);
+        if (canonicalSlug && canonicalSlug !== slug) {
+          redirecting = true;
+          navigate(`${getPostPath({ slug: canonicalSlug })}${location.search}${location.hash}`, { replace: true, state: location.state });
+          return;
+        }
+      }
       
       if (foundPost) {
+        const id = foundPost.id;
         setPost(foundPost);
         setCommentCount(foundPost.comments || 0);
         
@@ -148,16 +174,22 @@ function createHandler(config: Config) {
           setIsLiked(likeStateRef.current.isLiked);
         }
         setIsLikeStatusLoaded(true);
+
+        // Get the series this post is part of, if any
+        setSeries(await blogService.getSeriesForPost(id));
+
+        // Category details for the category link
+        const categories = await blogService.getCategories();
+        setCategory(categories.find(c => c.name === foundPost.category) ?? null);
         
         // Get related posts
         const related = await getRelatedPosts(id, foundPost.category, 3);
         setRelatedPosts(related);
 
         // Get additional related posts for the bottom snippet
-        const allPosts = await getAllPosts();
-        const additional = allPosts
+        const { posts: latestPosts } = await getPostsPage({ limit: 10 });
+        const additional = latestPosts
           .filter(p => p.id !== id && !related.some(rp => rp.id === p.id))
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
           .slice(0, 6);
         setAdditionalRelatedPosts(additional);
       }
@@ -165,7 +197,7 @@ function createHandler(config: Config) {
       console.error('Error loading blog post:', error);
       setIsLikeStatusLoaded(true);
     } finally {
-      setIsLoading(false);
+      if (!redirecting) setIsLoading(false);
     }
   };
 
@@ -181,6 +213,7 @@ function createHandler(config: Config) {
   };
 
   const handleLike = async () => {
+    const id = post?.id;
     if (!id) return;
 
     // Prevent multiple rapid clicks with timestamp check
@@ -221,35 +254,21 @@ function createHandler(config: Config) {
         isProcessing: true
       };
       
-      // Make the API call to sync with server
-      const serverResponse = await blogService.toggleLike(id);
-      
-      console.log('🔄 Server response:', { serverResponse, expected: newLikeState });
-      
-      // The server response should match our optimistic update
-      // If it doesn't, there was an error or the server state is different
-      if (serverResponse !== newLikeState) {
-        console.warn('❌ Server state mismatch, reverting optimistic update...');
-        // Revert to original state if server response doesn't match
-        setIsLiked(currentLikeState);
-        setLikeCount(currentLikeCount);
-        
-        // Update the ref to match reverted state
-        likeStateRef.current = {
-          isLiked: currentLikeState,
-          count: currentLikeCount,
-          isUserSet: true,
-          lastAction: now,
-          isProcessing: false
-        };
-      } else {
-        console.log('✅ Server response matches optimistic update');
-        // Update ref to mark processing as complete
-        likeStateRef.current.isProcessing = false;
-      }
-      
+      // Sync with the server and adopt its state and count, which include other readers' likes
+      const serverState = await blogService.toggleLike(id);
+      setIsLiked(serverState.liked);
+      setLikeCount(serverState.likes);
+      likeStateRef.current = {
+        isLiked: serverState.liked,
+        count: serverState.likes,
+        isUserSet: true,
+        lastAction: now,
+        isProcessing: false
+      };
+
     } catch (error) {
       console.error('❌ Error handling like:', error);
+      toast.error('Could not update your like. Please try again.');
       // Revert to original state on error
       setIsLiked(currentLikeState);
       setLikeCount(currentLikeCount);
@@ -282,70 +301,6 @@ function createHandler(config: Config) {
   };
 
 
-  // Enhanced markdown to HTML conversion
-  const slugify = (text: string) =>
-    text
-      .toLowerCase()
-      .trim()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-');
-
-  const convertMarkdownToHtml = (markdown: string): string => {
-    const escapeHtml = (s: string) => s
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
-
-    const codeBlocks: string[] = [];
-
-    const processed = markdown
-      .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-      .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-      .replace(/^# (.*$)/gim, '<h1>$1</h1>')
-      .replace(/```(\w+)?\n([\s\S]*?)```/g, (_m, lang, code) => {
-        const normalizedLang = (lang || 'text').toString();
-        const safe = escapeHtml(code);
-
-        const idx = codeBlocks.push(
-          `<details class="md-codeblock" data-lang="${escapeHtml(normalizedLang)}">
-            <summary class="md-codeblock__summary">
-              <span class="md-codeblock__label">Show code</span>
-              <span class="md-codeblock__meta">${escapeHtml(normalizedLang)}</span>
-            </summary>
-            <pre><code class="language-${escapeHtml(normalizedLang)}">${safe}</code></pre>
-          </details>`
-        ) - 1;
-
-        // Use a <pre> placeholder so later paragraph logic doesn't wrap it.
-        return `<pre data-codeblock="${idx}"></pre>`;
-      })
-      .replace(/`([^`]+)`/g, '<code>$1</code>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      // paragraphs
-      .replace(/\r/g, '')
-      .replace(/\n{2,}/g, '</p><p>')
-      .replace(/^((?!<h[1-3]|<pre|<ul|<ol|<li|<p>|<details|<summary).+)$/gim, '<p>$1</p>');
-
-    const withCodeBlocks = processed.replace(/<pre data-codeblock="(\d+)"><\/pre>/g, (_m, idx) => {
-      const i = Number(idx);
-      return codeBlocks[i] ?? '';
-    });
-
-    // Add IDs to headings
-    return withCodeBlocks.replace(/<h([1-3])>(.*?)<\/h\1>/g, (_m, level, text) => {
-      const id = slugify(text.replace(/<[^>]+>/g, ''));
-      return `<h${level} id="${id}">${text}</h${level}>`;
-    });
-  };
-
-  const sanitizeSimple = (html: string) => html
-    .replace(/<script.*?>[\s\S]*?<\/script>/gi, '')
-    .replace(/ on[a-zA-Z]+="[^"]*"/g, '')
-    .replace(/ on[a-zA-Z]+='[^']*'/g, '');
-
   const isoDurationFromReadTime = (read: string) => {
     const minutesMatch = read.match(/(\d+)/);
     if (!minutesMatch) return null;
@@ -360,8 +315,7 @@ function createHandler(config: Config) {
         ? (existingContent + (existingContent ? '\n\n---\n\n' : '') + generateFallbackContent(post))
         : existingContent)
     : '';
-  const processedHtml = rawContent ? convertMarkdownToHtml(rawContent) : '';
-  const safeHtml = sanitizeSimple(processedHtml);
+  const safeHtml = useMemo(() => renderPostHtml(rawContent), [rawContent]);
   const contentRefMobile = useRef<HTMLDivElement | null>(null);
   const contentRefDesktop = useRef<HTMLDivElement | null>(null);
 
@@ -370,6 +324,11 @@ function createHandler(config: Config) {
     ? safeHtml
     : '<p>No article content has been added yet. This post is awaiting full content.</p>';
 
+  // Section outline for the table of contents; short posts don't get one
+  const outline = useMemo(() => extractOutline(safeHtml), [safeHtml]);
+  const showTableOfContents = outline.length >= 3;
+  const activeHeadingId = useScrollSpy(showTableOfContents ? outline.map(item => item.id) : []);
+
   useEffect(() => {
     const roots = [contentRefMobile.current, contentRefDesktop.current].filter(Boolean) as HTMLDivElement[];
     if (roots.length === 0) return;
@@ -444,6 +403,28 @@ function createHandler(config: Config) {
       }
     });
 
+    // Copyable deep links next to each heading
+    const headings = roots.flatMap(root => Array.from(root.querySelectorAll('h1[id], h2[id], h3[id]'))) as HTMLElement[];
+    headings.forEach(heading => {
+      if (heading.querySelector('button.heading-anchor')) return;
+      const anchor = document.createElement('button');
+      anchor.type = 'button';
+      anchor.innerText = '#';
+      anchor.title = 'Copy link to section';
+      anchor.setAttribute('aria-label', `Copy link to ${heading.textContent || 'section'}`);
+      anchor.className = 'heading-anchor ml-2 text-azure-400/70 hover:text-azure-300 text-[0.8em] align-middle transition-opacity';
+      anchor.onclick = () => copySectionLink(heading.id);
+      heading.appendChild(anchor);
+    });
+
+    // Deep links: scroll to the section named in the URL hash once the content exists
+    const sectionId = decodeURIComponent(location.hash.slice(1));
+    if (sectionId && sectionId !== 'comments') {
+      requestAnimationFrame(() => {
+        document.getElementById(sectionId)?.scrollIntoView({ block: 'start' });
+      });
+    }
+
     // Lazy-load images in markdown
     const imgs = roots.flatMap(root => Array.from(root.querySelectorAll('img'))) as HTMLImageElement[];
     const io = new IntersectionObserver(entries => {
@@ -507,6 +488,11 @@ function createHandler(config: Config) {
         .blogpost-prose-tight :where(p) { margin-top: 0.35rem; margin-bottom: 0.35rem; }
         .blogpost-prose-tight :where(ul,ol) { margin-top: 0.4rem; margin-bottom: 0.4rem; }
 
+        .blogpost-prose-tight :where(h1,h2,h3)[id] { scroll-margin-top: 6rem; }
+        .heading-anchor { opacity: 0; }
+        .blogpost-prose-tight :where(h1,h2,h3):hover .heading-anchor, .heading-anchor:focus { opacity: 1; }
+        @media (hover: none) { .heading-anchor { opacity: 0.6; } }
+
         .md-inline-img { transition: filter .4s ease, transform .6s ease; filter: blur(6px); transform: scale(1.02); }
         .md-inline-img:not([data-src]) { filter: blur(0); transform: scale(1); }
       `;
@@ -518,6 +504,38 @@ function createHandler(config: Config) {
     };
   }, [safeHtml]);
 
+  // Terms from the search result that linked here; the first match is scrolled into view
+  // unless the URL also names a section
+  const highlightTerms = useMemo(() =>
+    (new URLSearchParams(location.search).get(HIGHLIGHT_PARAM) || '')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 10),
+  [location.search]);
+  const highlightCount = useSearchHighlight(
+    [contentRefMobile, contentRefDesktop],
+    isLoading ? '' : safeHtml,
+    highlightTerms,
+    !location.hash
+  );
+
+  // Reading progress through the body, and where the reader left off last time
+  const { progress: readingProgress, savedProgress, resume: resumeReading } = useReadingProgress(
+    post?.id,
+    [contentRefMobile, contentRefDesktop],
+    !isLoading && !!post
+  );
+  const [resumeDismissed, setResumeDismissed] = useState(false);
+  useEffect(() => setResumeDismissed(false), [post?.id]);
+  // Offered only when the link doesn't already point somewhere in the post
+  const showResume = !!savedProgress && isUnfinished(savedProgress) && !resumeDismissed &&
+    !location.hash && highlightTerms.length === 0 && readingProgress < savedProgress.progress;
+
+  const clearHighlights = () => {
+    navigate(`${location.pathname}${location.hash}`, { replace: true, state: location.state });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen md:min-h-0 lg:min-h-screen pt-24 pb-0.5 lg:pb-12 flex items-center justify-center">
@@ -551,12 +569,64 @@ function createHandler(config: Config) {
 
   return (
     <div className="min-h-screen md:min-h-0 lg:min-h-screen relative pt-4 lg:pt-20 pb-0.5 lg:pb-12">
+      <div
+        className="fixed top-0 left-0 right-0 h-1 z-50 pointer-events-none"
+        role="progressbar"
+        aria-label="Reading progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(readingProgress * 100)}
+      >
+        <div
+          className="h-full bg-gradient-to-r from-azure-400 to-azure-600 origin-left transition-transform duration-150"
+          style={{ transform: `scaleX(${readingProgress})` }}
+        />
+      </div>
+      {showResume && savedProgress && (
+        <div className="fixed bottom-20 lg:bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-black/80 backdrop-blur-xl border border-white/20 rounded-full text-sm text-white/80 shadow-lg">
+          <BookOpen size={14} className="text-azure-400 flex-none" />
+          <button
+            onClick={() => {
+              resumeReading();
+              setResumeDismissed(true);
+            }}
+            className="hover:text-white transition-colors duration-200"
+          >
+            Continue where you left off ({Math.round(savedProgress.progress * 100)}%)
+          </button>
+          <button
+            onClick={() => setResumeDismissed(true)}
+            aria-label="Dismiss"
+            title="Dismiss"
+            className="p-1 rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors duration-200"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+      {highlightTerms.length > 0 && (
+        <div className="fixed bottom-20 lg:bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-black/80 backdrop-blur-xl border border-white/20 rounded-full text-sm text-white/80 shadow-lg">
+          <span>
+            {highlightCount > 0
+              ? `${highlightCount} match${highlightCount !== 1 ? 'es' : ''} for “${highlightTerms.join(' ')}”`
+              : `No matches for “${highlightTerms.join(' ')}” in the article`}
+          </span>
+          <button
+            onClick={clearHighlights}
+            aria-label="Clear highlights"
+            title="Clear highlights"
+            className="p-1 rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors duration-200"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
       {post && (
         <SEO 
           title={post.title}
           description={post.excerpt}
           image={post.image_url}
-          url={`/blog/${post.id}`}
+          url={getPostPath(post)}
           type="article"
           author={post.author_name}
           publishedTime={new Date(post.date).toISOString()}
@@ -583,7 +653,7 @@ function createHandler(config: Config) {
             },
             "mainEntityOfPage": {
               "@type": "WebPage",
-              "@id": `https://owen-portfolio.com/blog/${post.id}`
+              "@id": `https://owen-portfolio.com${getPostPath(post)}`
             },
             "wordCount": post.content.split(' ').length,
             "timeRequired": isoDurationFromReadTime(post.read_time) || post.read_time,
@@ -609,8 +679,9 @@ function createHandler(config: Config) {
       {/* Optional: remove fixed vertical social links for cleaner article page */}
       {/* Removed to reduce visual noise */}
 
-      {/* Scroll Indicator */}
-      {/* Scroll indicator removed for simplicity */}
+      {showTableOfContents && (
+        <TableOfContents outline={outline} activeId={activeHeadingId} />
+      )}
 
       <div className="container mx-auto px-4 sm:px-6 max-w-4xl space-y-4 lg:space-y-0">
         {/* Back Button */}
@@ -681,9 +752,19 @@ function createHandler(config: Config) {
                 </>
               )}
               <div className="absolute top-3 sm:top-4 left-3 sm:left-4">
-                <span className="px-3 py-1 bg-azure-500 text-white rounded-full text-xs sm:text-sm font-medium">
-                  {post.category}
-                </span>
+                {category ? (
+                  <Link
+                    to={getCategoryPath(category)}
+                    className="px-3 py-1 text-white rounded-full text-xs sm:text-sm font-medium hover:opacity-90 transition-opacity"
+                    style={{ backgroundColor: category.color }}
+                  >
+                    {post.category}
+                  </Link>
+                ) : (
+                  <span className="px-3 py-1 bg-azure-500 text-white rounded-full text-xs sm:text-sm font-medium">
+                    {post.category}
+                  </span>
+                )}
               </div>
             </div>
           )}
@@ -725,12 +806,13 @@ function createHandler(config: Config) {
                 {/* Tags */}
                 <div className="flex flex-wrap gap-1">
                   {post.tags.slice(0, 4).map((tag) => (
-                    <span
+                    <Link
                       key={tag}
+                      to={getTagPath(tag)}
                       className="px-2 py-1 bg-azure-400/15 text-azure-300 rounded-full text-[10px] hover:bg-azure-400/25 transition-colors"
                     >
                       {tag}
-                    </span>
+                    </Link>
                   ))}
                   {post.tags.length > 4 && (
                     <span className="text-white/40 text-[10px] px-2 py-1">
@@ -777,6 +859,7 @@ function createHandler(config: Config) {
                         <MessageCircle size={14} />
                         {commentCount}
                       </button>
+                      <BookmarkButton post={post} size={14} />
                     </div>
 
                     <div className="relative">
@@ -807,6 +890,9 @@ function createHandler(config: Config) {
             </GlassCard>
           </div>
 
+          {/* Series navigation: previous/next part and progress */}
+          {series && <SeriesNavigator series={series} currentPostId={post.id} />}
+
           {/* Desktop: keep the original separated meta + content cards */}
           <div className="hidden">
             <GlassCard className="p-4 sm:p-6 -mt-3 sm:-mt-4 relative z-10">
@@ -858,13 +944,23 @@ function createHandler(config: Config) {
                       <p className="text-white/50 text-xs">{post.author_bio}</p>
                     </div>
                     <div className="flex flex-wrap gap-1">
+                      {category && (
+                        <Link
+                          to={getCategoryPath(category)}
+                          className="px-2 py-1 text-white rounded-full text-[10px] hover:opacity-90 transition-opacity"
+                          style={{ backgroundColor: category.color }}
+                        >
+                          {category.name}
+                        </Link>
+                      )}
                       {post.tags.slice(0, 4).map((tag) => (
-                        <span
+                        <Link
                           key={tag}
+                          to={getTagPath(tag)}
                           className="px-2 py-1 bg-azure-400/15 text-azure-300 rounded-full text-[10px] hover:bg-azure-400/25 transition-colors"
                         >
                           {tag}
-                        </span>
+                        </Link>
                       ))}
                       {post.tags.length > 4 && (
                         <span className="text-white/40 text-[10px] px-2 py-1">
@@ -906,6 +1002,12 @@ function createHandler(config: Config) {
                       <MessageCircle size={16} />
                       <span>Comments</span>
                     </button>
+                    <BookmarkButton
+                      post={post}
+                      size={16}
+                      showLabel
+                      className="px-3 sm:px-4 py-2 rounded-lg hover:bg-white/10 text-sm"
+                    />
                   </div>
                   <div className="relative self-end sm:self-auto">
                     <details className="group">
@@ -957,7 +1059,7 @@ function createHandler(config: Config) {
               {/* Mobile: minimal list */}
               <div className="sm:hidden divide-y divide-white/10">
                 {(relatedPosts.concat(additionalRelatedPosts).slice(0, 3)).map(rp => (
-                  <Link key={rp.id} to={`/blog/${rp.id}`} className="block">
+                  <Link key={rp.id} to={getPostPath(rp)} className="block">
                     <div className="py-3 flex items-center justify-between gap-3 hover:bg-white/5 transition-colors rounded-lg px-2">
                       <div className="min-w-0">
                         <div className="text-[11px] text-azure-300/90 mb-1">{rp.category}</div>
@@ -973,7 +1075,7 @@ function createHandler(config: Config) {
               {/* Desktop: cards */}
               <div className="hidden sm:grid grid-cols-1 md:grid-cols-3 ui-grid-gap">
                 {(relatedPosts.concat(additionalRelatedPosts).slice(0,3)).map((rp) => (
-                  <Link key={rp.id} to={`/blog/${rp.id}`} className="group">
+                  <Link key={rp.id} to={getPostPath(rp)} className="group">
                     <div className="bg-white/5 hover:bg-white/10 transition-all duration-300 rounded-lg overflow-hidden border border-white/10 h-full group-hover:border-azure-400/30">
                       <div className="aspect-[16/10] overflow-hidden relative">
                         <ProgressiveImage
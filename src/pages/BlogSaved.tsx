@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ArrowRight, Bookmark, Calendar, Clock, WifiOff } from 'lucide-react';
+import GlassCard from '../components/ui/GlassCard';
+import ProgressiveImage from '../components/ui/ProgressiveImage';
+import BookmarkButton from '../components/blog/BookmarkButton';
+import SEO from '../components/SEO';
+import { useBookmarks } from '../hooks/useBookmarks';
+import { blogService, getPostPath } from '../lib/blogService';
+import { getBookmarks, updateBookmarkSnapshots } from '../lib/bookmarks';
+
+// The visitor's reading list. Rendered from the copies kept in this browser, so it works
+// offline; syncs with the server on open and whenever the connection comes back.
+const BlogSaved: React.FC = () => {
+  const bookmarks = useBookmarks();
+  const [isOffline, setIsOffline] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const sync = async () => {
+      const synced = await blogService.syncBookmarks();
+      if (cancelled) return;
+      setIsOffline(!synced);
+      if (!synced) return;
+      // Pick up titles and images that changed since the posts were saved
+      const ids = getBookmarks().map(bookmark => bookmark.post.id);
+      updateBookmarkSnapshots(await blogService.getPostCardsByIds(ids));
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', sync);
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen pt-24 pb-12">
+      <SEO
+        title="Saved Posts"
+        description="Posts you saved to read later."
+        url="/blog/saved"
+      />
+
+      <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="space-y-6"
+        >
+          <GlassCard className="p-6 sm:p-8">
+            <div className="flex items-center space-x-2 text-azure-300 text-sm font-medium mb-2">
+              <Bookmark size={16} />
+              <span>Reading list</span>
+            </div>
+            <h1 className="ui-article-title leading-tight mb-3">Saved Posts</h1>
+            <p className="text-white/80 leading-relaxed">
+              {bookmarks.length > 0
+                ? `${bookmarks.length} post${bookmarks.length !== 1 ? 's' : ''} saved for later.`
+                : 'Posts you save for later show up here.'}
+            </p>
+            {isOffline && (
+              <p className="flex items-center space-x-2 text-white/50 text-sm mt-3">
+                <WifiOff size={14} />
+                <span>Offline: showing the copies saved on this device. Changes will sync when you're back online.</span>
+              </p>
+            )}
+          </GlassCard>
+
+          {bookmarks.length === 0 ? (
+            <GlassCard className="p-8 text-center">
+              <p className="text-white/70 mb-4">
+                Use the bookmark button on any post to save it here. Your list stays on this device and syncs when you're online.
+              </p>
+              <Link
+                to="/blog"
+                className="bg-azure-500 hover:bg-azure-600 text-white px-6 py-3 rounded-lg transition-colors duration-300 inline-flex items-center space-x-2"
+              >
+                <span>Browse posts</span>
+                <ArrowRight size={16} />
+              </Link>
+            </GlassCard>
+          ) : (
+            <ul className="space-y-3">
+              {bookmarks.map(({ post, savedAt }) => (
+                <li key={post.id}>
+                  <Link to={getPostPath(post)} className="group block">
+                    <GlassCard className="p-4 sm:p-5 flex items-start gap-4 group-hover:bg-white/10 transition-colors duration-300">
+                      <div className="w-20 h-16 sm:w-28 sm:h-20 rounded-lg overflow-hidden bg-white/10 flex-none">
+                        <ProgressiveImage
+                          src={post.image_url || post.images?.[0] || ''}
+                          alt={post.title}
+                          wrapperClassName="w-full h-full"
+                          className="object-cover"
+                          initialBlur
+                          skeleton
+                          lazy
+                        />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h2 className="text-white font-semibold group-hover:text-azure-300 transition-colors duration-300 line-clamp-2">
+                          {post.title}
+                        </h2>
+                        <p className="text-white/60 text-sm line-clamp-2 mt-1">{post.excerpt}</p>
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-white/50 text-xs">
+                          <span className="px-2 py-0.5 bg-azure-400/20 text-azure-400 rounded-full">{post.category}</span>
+                          <span className="flex items-center space-x-1">
+                            <Calendar size={12} />
+                            <span>{new Date(post.date).toLocaleDateString()}</span>
+                          </span>
+                          <span className="flex items-center space-x-1">
+                            <Clock size={12} />
+                            <span>{post.read_time}</span>
+                          </span>
+                          <span>Saved {new Date(savedAt).toLocaleDateString()}</span>
+                        </div>
+                      </div>
+                      <BookmarkButton post={post} size={16} className="flex-none p-1 mt-1" />
+                    </GlassCard>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="text-center">
+            <Link
+              to="/blog"
+              className="text-azure-400 hover:text-azure-300 transition-colors duration-300 inline-flex items-center space-x-2 text-sm"
+            >
+              <ArrowLeft size={16} />
+              <span>Back to All Posts</span>
+            </Link>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default BlogSaved;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ArrowRight, Layers, Calendar, Clock } from 'lucide-react';
+import GlassCard from '../components/ui/GlassCard';
+import SEO from '../components/SEO';
+import { blogService, getPostPath, getSeriesPath, type BlogSeriesWithPosts } from '../lib/blogService';
+
+const BlogSeries: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [series, setSeries] = useState<BlogSeriesWithPosts | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!slug) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    blogService.getSeries(slug).then(result => {
+      if (cancelled) return;
+      setSeries(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-azure-400 mx-auto mb-4"></div>
+          <p className="text-white/70">Loading series...</p>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  if (!series || series.posts.length === 0) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <h1 className="ui-section-title">Series Not Found</h1>
+          <p className="ui-lead mb-6">The series you're looking for doesn't exist.</p>
+          <Link
+            to="/blog"
+            className="bg-azure-500 hover:bg-azure-600 text-white px-6 py-3 rounded-lg transition-colors duration-300 inline-flex items-center space-x-2"
+          >
+            <ArrowLeft size={16} />
+            <span>Back to Blog</span>
+          </Link>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-24 pb-12">
+      <SEO
+        title={series.title}
+        description={series.description || `A ${series.posts.length}-part series`}
+        url={getSeriesPath(series)}
+      />
+
+      <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="space-y-6"
+        >
+          <GlassCard className="p-6 sm:p-8">
+            <div className="flex items-center space-x-2 text-azure-300 text-sm font-medium mb-2">
+              <Layers size={16} />
+              <span>Series · {series.posts.length} parts</span>
+            </div>
+            <h1 className="ui-article-title leading-tight mb-3">{series.title}</h1>
+            {series.description && (
+              <p className="text-white/80 leading-relaxed">{series.description}</p>
+            )}
+            <Link
+              to={getPostPath(series.posts[0])}
+              className="mt-6 bg-azure-500 hover:bg-azure-600 text-white px-6 py-2.5 rounded-lg transition-colors duration-300 inline-flex items-center space-x-2 text-sm"
+            >
+              <span>Start with part 1</span>
+              <ArrowRight size={16} />
+            </Link>
+          </GlassCard>
+
+          <ol className="space-y-3">
+            {series.posts.map((post, index) => (
+              <li key={post.id}>
+                <Link to={getPostPath(post)} className="group block">
+                  <GlassCard className="p-4 sm:p-5 flex items-start gap-4 group-hover:bg-white/10 transition-colors duration-300">
+                    <span className="flex-none w-8 h-8 rounded-full bg-azure-500/20 text-azure-300 flex items-center justify-center text-sm font-semibold">
+                      {index + 1}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <h2 className="text-white font-semibold group-hover:text-azure-300 transition-colors duration-300">
+                        {post.title}
+                      </h2>
+                      <p className="text-white/60 text-sm line-clamp-2 mt-1">{post.excerpt}</p>
+                      <div className="flex items-center space-x-3 mt-2 text-white/50 text-xs">
+                        <span className="flex items-center space-x-1">
+                          <Calendar size={12} />
+                          <span>{new Date(post.date).toLocaleDateString()}</span>
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <Clock size={12} />
+                          <span>{post.read_time}</span>
+                        </span>
+                      </div>
+                    </div>
+                    <ArrowRight size={16} className="text-azure-400 flex-none mt-2 group-hover:translate-x-1 transition-transform duration-300" />
+                  </GlassCard>
+                </Link>
+              </li>
+            ))}
+          </ol>
+
+          <div className="text-center">
+            <Link
+              to="/blog"
+              className="text-azure-400 hover:text-azure-300 transition-colors duration-300 inline-flex items-center space-x-2 text-sm"
+            >
+              <ArrowLeft size={16} />
+              <span>Back to All Posts</span>
+            </Link>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default BlogSeries;
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ArrowRight, Hash, Calendar, Clock, Loader } from 'lucide-react';
+import GlassCard from '../components/ui/GlassCard';
+import ProgressiveImage from '../components/ui/ProgressiveImage';
+import SEO from '../components/SEO';
+import { usePostFeed } from '../hooks/usePostFeed';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { blogService, getPostPath, getTagPath, type BlogTag as BlogTagRecord } from '../lib/blogService';
+
+const TAG_PAGE_SIZE = 12;
+
+// Posts carrying the tag, newest first, loaded page by page as the reader scrolls
+const TaggedPosts: React.FC<{ tag: BlogTagRecord }> = ({ tag }) => {
+  const feed = usePostFeed({ cacheKey: `tag:${tag.slug}`, tag: tag.name, limit: TAG_PAGE_SIZE });
+  const sentinelRef = useInfiniteScroll(feed.loadMore, feed.hasMore && !feed.isLoading);
+
+  if (feed.isLoaded && feed.posts.length === 0) {
+    return (
+      <GlassCard className="p-8 text-center">
+        <p className="text-white/70">No published posts use this tag yet.</p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-3">
+        {feed.posts.map(post => (
+          <li key={post.id}>
+            <Link to={getPostPath(post)} className="group block">
+              <GlassCard className="p-4 sm:p-5 flex items-start gap-4 group-hover:bg-white/10 transition-colors duration-300">
+                <div className="w-20 h-16 sm:w-28 sm:h-20 rounded-lg overflow-hidden bg-white/10 flex-none">
+                  <ProgressiveImage
+                    src={post.image_url}
+                    alt={post.title}
+                    wrapperClassName="w-full h-full"
+                    className="object-cover"
+                    initialBlur
+                    skeleton
+                    lazy
+                  />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-white font-semibold group-hover:text-azure-300 transition-colors duration-300 line-clamp-2">
+                    {post.title}
+                  </h2>
+                  <p className="text-white/60 text-sm line-clamp-2 mt-1">{post.excerpt}</p>
+                  <div className="flex items-center space-x-3 mt-2 text-white/50 text-xs">
+                    <span className="px-2 py-0.5 bg-azure-400/20 text-azure-400 rounded-full">{post.category}</span>
+                    <span className="flex items-center space-x-1">
+                      <Calendar size={12} />
+                      <span>{new Date(post.date).toLocaleDateString()}</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <Clock size={12} />
+                      <span>{post.read_time}</span>
+                    </span>
+                  </div>
+                </div>
+                <ArrowRight size={16} className="text-azure-400 flex-none mt-2 group-hover:translate-x-1 transition-transform duration-300" />
+              </GlassCard>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {(feed.isLoading || !feed.isLoaded) && <Loader className="animate-spin text-azure-400" size={20} />}
+      </div>
+    </>
+  );
+};
+
+const BlogTag: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [tag, setTag] = useState<BlogTagRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!slug) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    blogService.getTag(slug).then(result => {
+      if (cancelled) return;
+      // Former and merged slugs redirect to the tag's current URL
+      if (result && result.slug !== slug) {
+        navigate(getTagPath(result), { replace: true });
+        return;
+      }
+      setTag(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-azure-400 mx-auto mb-4"></div>
+          <p className="text-white/70">Loading tag...</p>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  if (!tag) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <h1 className="ui-section-title">Tag Not Found</h1>
+          <p className="ui-lead mb-6">The tag you're looking for doesn't exist.</p>
+          <Link
+            to="/blog"
+            className="bg-azure-500 hover:bg-azure-600 text-white px-6 py-3 rounded-lg transition-colors duration-300 inline-flex items-center space-x-2"
+          >
+            <ArrowLeft size={16} />
+            <span>Back to Blog</span>
+          </Link>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  const description = tag.description || `Articles tagged ${tag.name}: tutorials, insights and notes on ${tag.name}.`;
+
+  return (
+    <div className="min-h-screen pt-24 pb-12">
+      <SEO
+        title={`${tag.name} Articles`}
+        description={description}
+        url={getTagPath(tag)}
+        tags={[tag.name]}
+        structuredData={{
+          "@context": "https://schema.org",
+          "@type": "CollectionPage",
+          "name": `${tag.name} Articles`,
+          "description": description,
+          "url": `https://owen-portfolio.com${getTagPath(tag)}`,
+          "about": tag.name
+        }}
+      />
+
+      <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="space-y-6"
+        >
+          <GlassCard className="p-6 sm:p-8">
+            <div className="flex items-center space-x-2 text-azure-300 text-sm font-medium mb-2">
+              <Hash size={16} />
+              <span>Tag</span>
+            </div>
+            <h1 className="ui-article-title leading-tight mb-3">{tag.name}</h1>
+            {tag.description && (
+              <p className="text-white/80 leading-relaxed">{tag.description}</p>
+            )}
+          </GlassCard>
+
+          <TaggedPosts key={tag.id} tag={tag} />
+
+          <div className="text-center">
+            <Link
+              to="/blog"
+              className="text-azure-400 hover:text-azure-300 transition-colors duration-300 inline-flex items-center space-x-2 text-sm"
+            >
+              <ArrowLeft size={16} />
+              <span>Back to All Posts</span>
+            </Link>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default BlogTag;
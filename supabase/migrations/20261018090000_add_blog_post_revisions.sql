@@ -0,0 +1,110 @@
+/*
+  # Add blog post revision history
+
+  1. New Tables
+    - `blog_post_revisions`
+      - Snapshot of every editorial field of a post, numbered per post
+      - `revision` starts at 1 and increases with each saved change
+
+  2. Triggers
+    - `record_blog_post_revision` runs after INSERT and UPDATE on `blog_posts`
+    - Updates that only touch counters (views, likes) or `updated_at` are skipped,
+      so view tracking does not flood the history
+
+  3. Security
+    - RLS enabled; only authenticated users (admins) can read revisions
+    - Rows are written exclusively by the SECURITY DEFINER trigger function
+
+  4. Backfill
+    - Existing posts get their current state recorded as revision 1
+*/
+
+CREATE TABLE IF NOT EXISTS blog_post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blog_post_id text NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  title text NOT NULL,
+  excerpt text NOT NULL,
+  content text NOT NULL,
+  date date NOT NULL,
+  read_time text NOT NULL,
+  category text NOT NULL,
+  image_url text NOT NULL,
+  images jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tags jsonb NOT NULL DEFAULT '[]'::jsonb,
+  author_name text NOT NULL,
+  author_avatar text NOT NULL,
+  author_bio text NOT NULL,
+  featured boolean NOT NULL DEFAULT false,
+  published boolean NOT NULL DEFAULT false,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(blog_post_id, revision)
+);
+
+ALTER TABLE blog_post_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read blog post revisions" ON blog_post_revisions;
+CREATE POLICY "Authenticated users can read blog post revisions"
+  ON blog_post_revisions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS blog_post_revisions_post_idx
+  ON blog_post_revisions(blog_post_id, revision DESC);
+
+-- Snapshot the new state of a post whenever an editorial field changes
+CREATE OR REPLACE FUNCTION record_blog_post_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  next_revision integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    NEW.title, NEW.excerpt, NEW.content, NEW.date, NEW.read_time, NEW.category,
+    NEW.image_url, NEW.images, NEW.tags, NEW.author_name, NEW.author_avatar,
+    NEW.author_bio, NEW.featured, NEW.published
+  ) IS NOT DISTINCT FROM (
+    OLD.title, OLD.excerpt, OLD.content, OLD.date, OLD.read_time, OLD.category,
+    OLD.image_url, OLD.images, OLD.tags, OLD.author_name, OLD.author_avatar,
+    OLD.author_bio, OLD.featured, OLD.published
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision), 0) + 1 INTO next_revision
+  FROM blog_post_revisions
+  WHERE blog_post_id = NEW.id;
+
+  INSERT INTO blog_post_revisions (
+    blog_post_id, revision, title, excerpt, content, date, read_time, category,
+    image_url, images, tags, author_name, author_avatar, author_bio, featured, published
+  ) VALUES (
+    NEW.id, next_revision, NEW.title, NEW.excerpt, NEW.content, NEW.date, NEW.read_time, NEW.category,
+    NEW.image_url, NEW.images, NEW.tags, NEW.author_name, NEW.author_avatar, NEW.author_bio, NEW.featured, NEW.published
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_blog_post_revision ON blog_posts;
+CREATE TRIGGER record_blog_post_revision
+  AFTER INSERT OR UPDATE ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_blog_post_revision();
+
+-- Record the current state of existing posts as their first revision
+INSERT INTO blog_post_revisions (
+  blog_post_id, revision, title, excerpt, content, date, read_time, category,
+  image_url, images, tags, author_name, author_avatar, author_bio, featured, published, created_by, created_at
+)
+SELECT
+  p.id, 1, p.title, p.excerpt, p.content, p.date, p.read_time, p.category,
+  p.image_url, p.images, p.tags, p.author_name, p.author_avatar, p.author_bio, p.featured, p.published, NULL, COALESCE(p.updated_at, now())
+FROM blog_posts p
+WHERE NOT EXISTS (
+  SELECT 1 FROM blog_post_revisions r WHERE r.blog_post_id = p.id
+);
+
+COMMENT ON TABLE blog_post_revisions IS 'Point-in-time snapshots of blog posts, written by record_blog_post_revision';
@@ -0,0 +1,74 @@
+/*
+  # Scheduled publishing for blog posts
+
+  1. Changes
+    - Add `publish_at` to `blog_posts`; existing rows are backfilled from `created_at`
+    - A post is publicly visible when `published = true AND publish_at <= now()`,
+      so a post with a future `publish_at` goes live on its own once that time passes
+    - `blog_post_revisions` also records `publish_at`
+
+  2. Security
+    - Replace the public read policy on `blog_posts` so scheduled posts stay hidden
+*/
+
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+UPDATE blog_posts
+SET publish_at = COALESCE(created_at, date::timestamptz, now())
+WHERE publish_at IS NULL;
+
+ALTER TABLE blog_posts ALTER COLUMN publish_at SET DEFAULT now();
+ALTER TABLE blog_posts ALTER COLUMN publish_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS blog_posts_publish_at_idx ON blog_posts(publish_at);
+
+-- Scheduled posts are hidden from the public until publish_at
+DROP POLICY IF EXISTS "Public can read published blog posts" ON blog_posts;
+CREATE POLICY "Public can read published blog posts"
+  ON blog_posts
+  FOR SELECT
+  TO public
+  USING (published = true AND publish_at <= now());
+
+-- Keep publish_at in the revision history
+ALTER TABLE blog_post_revisions ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+UPDATE blog_post_revisions r
+SET publish_at = p.publish_at
+FROM blog_posts p
+WHERE r.blog_post_id = p.id AND r.publish_at IS NULL;
+
+CREATE OR REPLACE FUNCTION record_blog_post_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  next_revision integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    NEW.title, NEW.excerpt, NEW.content, NEW.date, NEW.read_time, NEW.category,
+    NEW.image_url, NEW.images, NEW.tags, NEW.author_name, NEW.author_avatar,
+    NEW.author_bio, NEW.featured, NEW.published, NEW.publish_at
+  ) IS NOT DISTINCT FROM (
+    OLD.title, OLD.excerpt, OLD.content, OLD.date, OLD.read_time, OLD.category,
+    OLD.image_url, OLD.images, OLD.tags, OLD.author_name, OLD.author_avatar,
+    OLD.author_bio, OLD.featured, OLD.published, OLD.publish_at
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision), 0) + 1 INTO next_revision
+  FROM blog_post_revisions
+  WHERE blog_post_id = NEW.id;
+
+  INSERT INTO blog_post_revisions (
+    blog_post_id, revision, title, excerpt, content, date, read_time, category,
+    image_url, images, tags, author_name, author_avatar, author_bio, featured, published, publish_at
+  ) VALUES (
+    NEW.id, next_revision, NEW.title, NEW.excerpt, NEW.content, NEW.date, NEW.read_time, NEW.category,
+    NEW.image_url, NEW.images, NEW.tags, NEW.author_name, NEW.author_avatar, NEW.author_bio, NEW.featured, NEW.published, NEW.publish_at
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN blog_posts.publish_at IS 'When a published post becomes publicly visible; future values schedule the post';
@@ -0,0 +1,113 @@
+/*
+  # Slug-based blog URLs
+
+  1. Changes
+    - `slugify(text)` mirrors the client-side slugify in src/lib/markdown.ts
+      (lowercase, trim, drop anything but a-z, 0-9, whitespace and hyphens, whitespace to hyphens)
+    - Add a unique, non-null `slug` to `blog_posts`, backfilled from the title;
+      duplicate titles get a numeric suffix
+    - Posts inserted without a slug get one generated from the title
+
+  2. New Tables
+    - `blog_post_slug_aliases`
+      - Previous slugs of a post, so old links keep resolving after a rename
+      - Filled automatically when a post's slug changes
+
+  3. Security
+    - RLS enabled on `blog_post_slug_aliases`; public read, authenticated manage
+*/
+
+CREATE OR REPLACE FUNCTION slugify(value text)
+RETURNS text AS $$
+  SELECT regexp_replace(
+    regexp_replace(lower(trim(value)), '[^a-z0-9\s-]', '', 'g'),
+    '\s+', '-', 'g'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS slug text;
+
+WITH ranked AS (
+  SELECT
+    id,
+    COALESCE(NULLIF(slugify(title), ''), id) AS base,
+    row_number() OVER (
+      PARTITION BY COALESCE(NULLIF(slugify(title), ''), id)
+      ORDER BY created_at, id
+    ) AS n
+  FROM blog_posts
+  WHERE slug IS NULL
+)
+UPDATE blog_posts p
+SET slug = CASE WHEN r.n = 1 THEN r.base ELSE r.base || '-' || r.n END
+FROM ranked r
+WHERE p.id = r.id;
+
+ALTER TABLE blog_posts ALTER COLUMN slug SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'blog_posts_slug_key'
+  ) THEN
+    ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_slug_key UNIQUE (slug);
+  END IF;
+END $$;
+
+-- Previous slugs that should redirect to the post's current slug
+CREATE TABLE IF NOT EXISTS blog_post_slug_aliases (
+  slug text PRIMARY KEY,
+  blog_post_id text NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE blog_post_slug_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read blog post slug aliases" ON blog_post_slug_aliases;
+CREATE POLICY "Public can read blog post slug aliases"
+  ON blog_post_slug_aliases
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog post slug aliases" ON blog_post_slug_aliases;
+CREATE POLICY "Authenticated users can manage blog post slug aliases"
+  ON blog_post_slug_aliases
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS blog_post_slug_aliases_post_idx ON blog_post_slug_aliases(blog_post_id);
+
+-- Generate missing slugs and remember the old slug when a post is renamed
+CREATE OR REPLACE FUNCTION manage_blog_post_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := COALESCE(NULLIF(slugify(NEW.title), ''), NEW.id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slug IS DISTINCT FROM OLD.slug THEN
+    INSERT INTO blog_post_slug_aliases (slug, blog_post_id)
+    VALUES (OLD.slug, OLD.id)
+    ON CONFLICT (slug) DO UPDATE
+      SET blog_post_id = EXCLUDED.blog_post_id,
+          created_at = now();
+  END IF;
+
+  -- A slug that is in use by a post can no longer act as an alias
+  DELETE FROM blog_post_slug_aliases WHERE slug = NEW.slug;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS manage_blog_post_slug ON blog_posts;
+CREATE TRIGGER manage_blog_post_slug
+  BEFORE INSERT OR UPDATE OF slug, title ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION manage_blog_post_slug();
+
+COMMENT ON COLUMN blog_posts.slug IS 'Canonical URL segment for /blog/:slug';
+COMMENT ON TABLE blog_post_slug_aliases IS 'Former slugs of blog posts, kept so old links redirect to the current slug';
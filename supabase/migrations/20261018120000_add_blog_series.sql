@@ -0,0 +1,99 @@
+/*
+  # Blog post series
+
+  1. New Tables
+    - `blog_series`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - URL segment for the series
+      - `title` (text)
+      - `description` (text)
+      - `created_at`, `updated_at` (timestamptz)
+    - `blog_series_posts`
+      - Ordered membership of posts in a series
+      - `position` is 1-based; a post belongs to at most one series
+
+  2. Functions
+    - `set_blog_series_posts(series_id, post_ids)` replaces a series' membership
+      in one transaction, using the array order as the part order
+
+  3. Security
+    - RLS enabled on both tables; public read, authenticated manage
+    - Post visibility is still enforced by the `blog_posts` policies, so drafts and
+      scheduled parts never reach the public client
+*/
+
+CREATE TABLE IF NOT EXISTS blog_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS blog_series_posts (
+  series_id uuid NOT NULL REFERENCES blog_series(id) ON DELETE CASCADE,
+  blog_post_id text NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  position integer NOT NULL CHECK (position > 0),
+  PRIMARY KEY (series_id, blog_post_id),
+  UNIQUE (blog_post_id),
+  UNIQUE (series_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+ALTER TABLE blog_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blog_series_posts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read blog series" ON blog_series;
+CREATE POLICY "Public can read blog series"
+  ON blog_series
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog series" ON blog_series;
+CREATE POLICY "Authenticated users can manage blog series"
+  ON blog_series
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Public can read blog series posts" ON blog_series_posts;
+CREATE POLICY "Public can read blog series posts"
+  ON blog_series_posts
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog series posts" ON blog_series_posts;
+CREATE POLICY "Authenticated users can manage blog series posts"
+  ON blog_series_posts
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS blog_series_posts_series_idx ON blog_series_posts(series_id, position);
+
+-- Replace the posts of a series; the array order becomes the part order.
+-- Posts listed here are moved out of any other series they belonged to.
+CREATE OR REPLACE FUNCTION set_blog_series_posts(p_series_id uuid, p_post_ids text[])
+RETURNS void AS $$
+BEGIN
+  DELETE FROM blog_series_posts
+  WHERE series_id = p_series_id
+     OR blog_post_id = ANY(p_post_ids);
+
+  INSERT INTO blog_series_posts (series_id, blog_post_id, position)
+  SELECT p_series_id, post_id, ordinality::integer
+  FROM unnest(p_post_ids) WITH ORDINALITY AS t(post_id, ordinality);
+
+  UPDATE blog_series SET updated_at = now() WHERE id = p_series_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION set_blog_series_posts(uuid, text[]) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_blog_series_posts(uuid, text[]) TO authenticated;
+
+COMMENT ON TABLE blog_series IS 'Multi-part collections of blog posts';
+COMMENT ON TABLE blog_series_posts IS 'Ordered membership of blog posts in a series (position is 1-based)';
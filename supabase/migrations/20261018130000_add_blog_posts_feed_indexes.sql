@@ -0,0 +1,20 @@
+/*
+  # Indexes for the paginated blog feed
+
+  1. Changes
+    - Composite `(date DESC, id DESC)` index on published posts, matching the keyset
+      cursor used by `blogService.getPostsPage` (many posts share a `date`, so `id`
+      breaks ties and keeps pages stable)
+    - GIN index on `tags` for the `tags @> '["tag"]'` filter
+*/
+
+CREATE INDEX IF NOT EXISTS blog_posts_feed_idx
+  ON blog_posts (date DESC, id DESC)
+  WHERE published = true;
+
+CREATE INDEX IF NOT EXISTS blog_posts_category_feed_idx
+  ON blog_posts (category, date DESC, id DESC)
+  WHERE published = true;
+
+CREATE INDEX IF NOT EXISTS blog_posts_tags_idx
+  ON blog_posts USING gin (tags jsonb_path_ops);
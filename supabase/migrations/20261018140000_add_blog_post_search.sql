@@ -0,0 +1,125 @@
+/*
+  # Server-side full-text search for blog posts
+
+  1. Changes
+    - `blog_posts.search_vector`: generated, weighted `tsvector`
+      (A: title, B: excerpt, category and tags, C: content)
+    - GIN index on `search_vector`
+
+  2. Functions
+    - `search_blog_posts(search_query, category_filter, published_since, sort_by, result_limit)`
+      - Parses the query with `websearch_to_tsquery`, so any user input is safe
+        (quotes, `or`, `-exclusions`; commas and parentheses are plain text)
+      - Returns published, live posts (no `content`) with:
+        - `rank`: `ts_rank_cd` over the weighted vector, with small boosts for likes,
+          views, recency and featured posts; this is the only relevance model
+        - `title_highlight` and `snippet`: `ts_headline` output where matches are wrapped
+          in U+E000 ... U+E001, so the client can render highlights without parsing HTML
+      - `sort_by`: 'relevance' (default), 'date', 'views' or 'likes'
+
+  3. Security
+    - SECURITY INVOKER, so the `blog_posts` RLS policies still apply
+*/
+
+ALTER TABLE blog_posts
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(category, '') || ' ' || coalesce(tags::text, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS blog_posts_search_vector_idx ON blog_posts USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION search_blog_posts(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  published_since date DEFAULT NULL,
+  sort_by text DEFAULT 'relevance',
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id text,
+  slug text,
+  title text,
+  excerpt text,
+  date date,
+  read_time text,
+  category text,
+  image_url text,
+  images jsonb,
+  featured boolean,
+  views integer,
+  likes integer,
+  tags jsonb,
+  author_name text,
+  author_avatar text,
+  author_bio text,
+  published boolean,
+  publish_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      (
+        ts_rank_cd('{0.1, 0.2, 0.4, 1.0}', p.search_vector, q.query, 32)
+        * (1 + 0.1 * ln(1 + greatest(p.likes, 0)) + 0.05 * ln(1 + greatest(p.views, 0)))
+        * (CASE WHEN p.date >= current_date - 30 THEN 1.2 ELSE 1 END)
+        * (CASE WHEN p.featured THEN 1.1 ELSE 1 END)
+      )::real AS rank,
+      q.query
+    FROM blog_posts p, q
+    WHERE numnode(q.query) > 0
+      AND p.search_vector @@ q.query
+      AND p.published = true
+      AND p.publish_at <= now()
+      AND (category_filter IS NULL OR p.category = category_filter)
+      AND (published_since IS NULL OR p.date >= published_since)
+    ORDER BY
+      CASE WHEN sort_by = 'date' THEN extract(epoch FROM p.date) END DESC NULLS LAST,
+      CASE WHEN sort_by = 'views' THEN p.views END DESC NULLS LAST,
+      CASE WHEN sort_by = 'likes' THEN p.likes END DESC NULLS LAST,
+      rank DESC,
+      p.date DESC,
+      p.id DESC
+    LIMIT least(greatest(result_limit, 1), 50)
+  )
+  SELECT
+    m.id, m.slug, m.title, m.excerpt, m.date, m.read_time, m.category, m.image_url,
+    m.images, m.featured, m.views, m.likes, m.tags,
+    m.author_name, m.author_avatar, m.author_bio, m.published, m.publish_at,
+    m.created_at, m.updated_at,
+    m.rank,
+    ts_headline('english', m.title, m.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true'),
+    CASE
+      WHEN to_tsvector('english', coalesce(m.excerpt, '')) @@ m.query THEN
+        ts_headline('english', m.excerpt, m.query,
+          'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true')
+      ELSE
+        ts_headline('english', m.content, m.query,
+          'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+          ', MaxFragments=2, MaxWords=24, MinWords=12, FragmentDelimiter=" … "')
+    END
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'date' THEN extract(epoch FROM m.date) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'views' THEN m.views END DESC NULLS LAST,
+    CASE WHEN sort_by = 'likes' THEN m.likes END DESC NULLS LAST,
+    m.rank DESC,
+    m.date DESC,
+    m.id DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION search_blog_posts(text, text, date, text, integer) TO anon, authenticated;
+
+COMMENT ON COLUMN blog_posts.search_vector IS 'Weighted full-text vector: A title, B excerpt/category/tags, C content';
@@ -0,0 +1,187 @@
+/*
+  # Faceted blog search
+
+  1. Functions
+    - `blog_post_read_time_bucket(read_time)`: 'short' (< 5 min), 'medium' (5–10 min) or
+      'long' (> 10 min), from the leading number in `read_time` ("7 min read")
+    - `search_blog_posts(...)`: replaced with a version that also filters by
+      - `tag_filter`: every listed tag must be present
+      - `author_filter`: exact `author_name`
+      - `read_time_filter`: a read-time bucket
+      - `period_filter`: 'YYYY' or 'YYYY-MM' of the post date
+    - `search_blog_post_facets(...)`: counts of matching posts per facet value
+      (`category`, `tag`, `author`, `read_time`, `month` as 'YYYY-MM') for the same
+      query and filters. Each facet is counted with every filter except its own applied,
+      so the other values stay selectable; tags are multi-select (all must match) and
+      are counted with the tag filter applied. An empty query counts all live posts.
+
+  2. Security
+    - SECURITY INVOKER, so the `blog_posts` RLS policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION blog_post_read_time_bucket(read_time text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN coalesce(nullif(substring(read_time FROM '\d+'), ''), '0')::int < 5 THEN 'short'
+    WHEN substring(read_time FROM '\d+')::int <= 10 THEN 'medium'
+    ELSE 'long'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP FUNCTION IF EXISTS search_blog_posts(text, text, date, text, integer);
+
+CREATE OR REPLACE FUNCTION search_blog_posts(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  published_since date DEFAULT NULL,
+  sort_by text DEFAULT 'relevance',
+  result_limit integer DEFAULT 20,
+  tag_filter text[] DEFAULT NULL,
+  author_filter text DEFAULT NULL,
+  read_time_filter text DEFAULT NULL,
+  period_filter text DEFAULT NULL
+)
+RETURNS TABLE (
+  id text,
+  slug text,
+  title text,
+  excerpt text,
+  date date,
+  read_time text,
+  category text,
+  image_url text,
+  images jsonb,
+  featured boolean,
+  views integer,
+  likes integer,
+  tags jsonb,
+  author_name text,
+  author_avatar text,
+  author_bio text,
+  published boolean,
+  publish_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      (
+        ts_rank_cd('{0.1, 0.2, 0.4, 1.0}', p.search_vector, q.query, 32)
+        * (1 + 0.1 * ln(1 + greatest(p.likes, 0)) + 0.05 * ln(1 + greatest(p.views, 0)))
+        * (CASE WHEN p.date >= current_date - 30 THEN 1.2 ELSE 1 END)
+        * (CASE WHEN p.featured THEN 1.1 ELSE 1 END)
+      )::real AS rank,
+      q.query
+    FROM blog_posts p, q
+    WHERE numnode(q.query) > 0
+      AND p.search_vector @@ q.query
+      AND p.published = true
+      AND p.publish_at <= now()
+      AND (category_filter IS NULL OR p.category = category_filter)
+      AND (published_since IS NULL OR p.date >= published_since)
+      AND (tag_filter IS NULL OR p.tags @> to_jsonb(tag_filter))
+      AND (author_filter IS NULL OR p.author_name = author_filter)
+      AND (read_time_filter IS NULL OR blog_post_read_time_bucket(p.read_time) = read_time_filter)
+      AND (period_filter IS NULL OR to_char(p.date, 'YYYY-MM') = period_filter OR to_char(p.date, 'YYYY') = period_filter)
+    ORDER BY
+      CASE WHEN sort_by = 'date' THEN extract(epoch FROM p.date) END DESC NULLS LAST,
+      CASE WHEN sort_by = 'views' THEN p.views END DESC NULLS LAST,
+      CASE WHEN sort_by = 'likes' THEN p.likes END DESC NULLS LAST,
+      rank DESC,
+      p.date DESC,
+      p.id DESC
+    LIMIT least(greatest(result_limit, 1), 50)
+  )
+  SELECT
+    m.id, m.slug, m.title, m.excerpt, m.date, m.read_time, m.category, m.image_url,
+    m.images, m.featured, m.views, m.likes, m.tags,
+    m.author_name, m.author_avatar, m.author_bio, m.published, m.publish_at,
+    m.created_at, m.updated_at,
+    m.rank,
+    ts_headline('english', m.title, m.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true'),
+    CASE
+      WHEN to_tsvector('english', coalesce(m.excerpt, '')) @@ m.query THEN
+        ts_headline('english', m.excerpt, m.query,
+          'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true')
+      ELSE
+        ts_headline('english', m.content, m.query,
+          'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+          ', MaxFragments=2, MaxWords=24, MinWords=12, FragmentDelimiter=" … "')
+    END
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'date' THEN extract(epoch FROM m.date) END DESC NULLS LAST,
+    CASE WHEN sort_by = 'views' THEN m.views END DESC NULLS LAST,
+    CASE WHEN sort_by = 'likes' THEN m.likes END DESC NULLS LAST,
+    m.rank DESC,
+    m.date DESC,
+    m.id DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION search_blog_post_facets(
+  search_query text DEFAULT NULL,
+  category_filter text DEFAULT NULL,
+  published_since date DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  author_filter text DEFAULT NULL,
+  read_time_filter text DEFAULT NULL,
+  period_filter text DEFAULT NULL
+)
+RETURNS TABLE (
+  facet text,
+  value text,
+  post_count bigint
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  base AS (
+    SELECT
+      p.category,
+      CASE WHEN jsonb_typeof(p.tags) = 'array' THEN p.tags ELSE '[]'::jsonb END AS tags,
+      p.author_name,
+      blog_post_read_time_bucket(p.read_time) AS read_time_bucket,
+      to_char(p.date, 'YYYY-MM') AS month,
+      (category_filter IS NULL OR p.category = category_filter) AS category_ok,
+      (tag_filter IS NULL OR p.tags @> to_jsonb(tag_filter)) AS tags_ok,
+      (author_filter IS NULL OR p.author_name = author_filter) AS author_ok,
+      (read_time_filter IS NULL OR blog_post_read_time_bucket(p.read_time) = read_time_filter) AS read_time_ok,
+      (period_filter IS NULL OR to_char(p.date, 'YYYY-MM') = period_filter OR to_char(p.date, 'YYYY') = period_filter) AS period_ok
+    FROM blog_posts p, q
+    WHERE p.published = true
+      AND p.publish_at <= now()
+      AND (nullif(trim(search_query), '') IS NULL OR p.search_vector @@ q.query)
+      AND (published_since IS NULL OR p.date >= published_since)
+  )
+  SELECT 'category', b.category, count(*) FROM base b
+    WHERE b.tags_ok AND b.author_ok AND b.read_time_ok AND b.period_ok
+    GROUP BY b.category
+  UNION ALL
+  SELECT 'tag', t.tag, count(*) FROM base b CROSS JOIN LATERAL jsonb_array_elements_text(b.tags) AS t(tag)
+    WHERE b.category_ok AND b.tags_ok AND b.author_ok AND b.read_time_ok AND b.period_ok
+    GROUP BY t.tag
+  UNION ALL
+  SELECT 'author', b.author_name, count(*) FROM base b
+    WHERE b.category_ok AND b.tags_ok AND b.read_time_ok AND b.period_ok AND b.author_name IS NOT NULL
+    GROUP BY b.author_name
+  UNION ALL
+  SELECT 'read_time', b.read_time_bucket, count(*) FROM base b
+    WHERE b.category_ok AND b.tags_ok AND b.author_ok AND b.period_ok
+    GROUP BY b.read_time_bucket
+  UNION ALL
+  SELECT 'month', b.month, count(*) FROM base b
+    WHERE b.category_ok AND b.tags_ok AND b.author_ok AND b.read_time_ok
+    GROUP BY b.month;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION blog_post_read_time_bucket(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_blog_posts(text, text, date, text, integer, text[], text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_blog_post_facets(text, text, date, text[], text, text, text) TO anon, authenticated;
@@ -0,0 +1,315 @@
+/*
+  # Normalized blog tags
+
+  1. New Tables
+    - `blog_tags`
+      - `id` (uuid, primary key)
+      - `name` (text) - canonical spelling, the value stored in `blog_posts.tags`
+      - `slug` (text, unique) - URL segment for /blog/tag/:slug, from `blog_tag_slug(name)`
+      - `description` (text) - used for the tag page's SEO description
+      - `created_at`, `updated_at` (timestamptz)
+    - `blog_tag_aliases`
+      - Other slugs that resolve to a tag: former slugs after a rename and the slugs of
+        tags merged into it, so old links and spellings keep working
+
+  2. Functions
+    - `blog_tag_slug(text)` mirrors `getTagSlug` in src/lib/blogService.ts: lowercase,
+      '+' and '#' spelled out, any other run of non-alphanumerics becomes one hyphen
+      ("React.js" and "react js" -> 'react-js', "C#" -> 'c-sharp')
+    - `resolve_blog_tag(name)` returns the tag a spelling belongs to (by slug, then by
+      alias), creating it when it is new
+    - `rename_blog_tag`, `merge_blog_tags`, `delete_blog_tag` change the taxonomy and
+      rewrite every affected post in the same transaction
+    - `get_blog_tags()` lists tags with their aliases and post counts
+
+  3. Triggers
+    - `normalize_blog_post_tags` (BEFORE INSERT/UPDATE OF tags on `blog_posts`) replaces
+      each tag with its canonical name and drops duplicates, keeping the order.
+      `blog_posts.tags` stays the list the rest of the app filters and searches on.
+
+  4. Security
+    - RLS enabled on both tables; public read, authenticated manage
+    - The taxonomy functions are SECURITY INVOKER and only granted to authenticated
+
+  5. Backfill
+    - One tag per distinct slug in existing posts, named after its most common spelling;
+      existing posts are then normalized
+*/
+
+CREATE OR REPLACE FUNCTION blog_tag_slug(value text)
+RETURNS text AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(
+    replace(replace(lower(trim(value)), '+', ' plus '), '#', ' sharp '),
+    '[^a-z0-9]+', '-', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS blog_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  slug text NOT NULL UNIQUE CHECK (slug <> ''),
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS blog_tag_aliases (
+  slug text PRIMARY KEY,
+  tag_id uuid NOT NULL REFERENCES blog_tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE blog_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blog_tag_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read blog tags" ON blog_tags;
+CREATE POLICY "Public can read blog tags"
+  ON blog_tags
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog tags" ON blog_tags;
+CREATE POLICY "Authenticated users can manage blog tags"
+  ON blog_tags
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Public can read blog tag aliases" ON blog_tag_aliases;
+CREATE POLICY "Public can read blog tag aliases"
+  ON blog_tag_aliases
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog tag aliases" ON blog_tag_aliases;
+CREATE POLICY "Authenticated users can manage blog tag aliases"
+  ON blog_tag_aliases
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS blog_tag_aliases_tag_idx ON blog_tag_aliases(tag_id);
+
+-- The tag a spelling belongs to; unknown spellings become new tags
+CREATE OR REPLACE FUNCTION resolve_blog_tag(p_name text)
+RETURNS blog_tags AS $$
+DECLARE
+  tag_slug text := blog_tag_slug(p_name);
+  tag blog_tags;
+BEGIN
+  IF tag_slug = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO tag FROM blog_tags WHERE slug = tag_slug;
+  IF FOUND THEN
+    RETURN tag;
+  END IF;
+
+  SELECT t.* INTO tag
+  FROM blog_tag_aliases a
+  JOIN blog_tags t ON t.id = a.tag_id
+  WHERE a.slug = tag_slug;
+  IF FOUND THEN
+    RETURN tag;
+  END IF;
+
+  INSERT INTO blog_tags (name, slug)
+  VALUES (trim(p_name), tag_slug)
+  ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+  RETURNING * INTO tag;
+  RETURN tag;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Store canonical tag names, de-duplicated, in their original order
+CREATE OR REPLACE FUNCTION normalize_blog_post_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tags IS NULL OR jsonb_typeof(NEW.tags) <> 'array' THEN
+    NEW.tags := '[]'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(jsonb_agg(canonical.name ORDER BY canonical.first_seen), '[]'::jsonb)
+  INTO NEW.tags
+  FROM (
+    SELECT (resolve_blog_tag(t.value)).name AS name, min(t.ord) AS first_seen
+    FROM jsonb_array_elements_text(NEW.tags) WITH ORDINALITY AS t(value, ord)
+    GROUP BY 1
+  ) canonical
+  WHERE canonical.name IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS normalize_blog_post_tags ON blog_posts;
+CREATE TRIGGER normalize_blog_post_tags
+  BEFORE INSERT OR UPDATE OF tags ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_blog_post_tags();
+
+-- Replace (or, with a NULL replacement, remove) tag names in every post that has them.
+-- The normalize trigger then resolves the new name and drops duplicates.
+CREATE OR REPLACE FUNCTION replace_blog_post_tags(p_old_names text[], p_new_name text)
+RETURNS void AS $$
+  UPDATE blog_posts p
+  SET tags = (
+    SELECT coalesce(jsonb_agg(
+      CASE WHEN t.value = ANY(p_old_names) THEN p_new_name ELSE t.value END
+      ORDER BY t.ord
+    ) FILTER (WHERE p_new_name IS NOT NULL OR NOT t.value = ANY(p_old_names)), '[]'::jsonb)
+    FROM jsonb_array_elements_text(p.tags) WITH ORDINALITY AS t(value, ord)
+  )
+  WHERE jsonb_typeof(p.tags) = 'array'
+    AND p.tags ?| p_old_names;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Rename a tag; its previous slug keeps resolving to it
+CREATE OR REPLACE FUNCTION rename_blog_tag(p_tag_id uuid, p_name text)
+RETURNS blog_tags AS $$
+DECLARE
+  old_tag blog_tags;
+  new_slug text := blog_tag_slug(p_name);
+  renamed blog_tags;
+BEGIN
+  SELECT * INTO old_tag FROM blog_tags WHERE id = p_tag_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag % not found', p_tag_id USING ERRCODE = 'P0002';
+  END IF;
+  IF new_slug = '' THEN
+    RAISE EXCEPTION 'Tag name must contain letters or numbers' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM blog_tags WHERE slug = new_slug AND id <> p_tag_id)
+     OR EXISTS (SELECT 1 FROM blog_tag_aliases WHERE slug = new_slug AND tag_id <> p_tag_id) THEN
+    RAISE EXCEPTION 'Another tag already uses the slug %; merge the tags instead', new_slug
+      USING ERRCODE = '23505';
+  END IF;
+
+  IF new_slug <> old_tag.slug THEN
+    INSERT INTO blog_tag_aliases (slug, tag_id) VALUES (old_tag.slug, p_tag_id)
+    ON CONFLICT (slug) DO UPDATE SET tag_id = EXCLUDED.tag_id, created_at = now();
+    DELETE FROM blog_tag_aliases WHERE slug = new_slug;
+  END IF;
+
+  UPDATE blog_tags
+  SET name = trim(p_name), slug = new_slug, updated_at = now()
+  WHERE id = p_tag_id
+  RETURNING * INTO renamed;
+
+  PERFORM replace_blog_post_tags(ARRAY[old_tag.name], renamed.name);
+  RETURN renamed;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Fold the source tags into the target: posts are retagged and the sources' slugs and
+-- aliases become aliases of the target
+CREATE OR REPLACE FUNCTION merge_blog_tags(p_source_ids uuid[], p_target_id uuid)
+RETURNS blog_tags AS $$
+DECLARE
+  target blog_tags;
+  source_names text[];
+BEGIN
+  SELECT * INTO target FROM blog_tags WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag % not found', p_target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT array_agg(name) INTO source_names
+  FROM blog_tags
+  WHERE id = ANY(p_source_ids) AND id <> p_target_id;
+  IF source_names IS NULL THEN
+    RETURN target;
+  END IF;
+
+  UPDATE blog_tag_aliases SET tag_id = p_target_id
+  WHERE tag_id = ANY(p_source_ids) AND tag_id <> p_target_id;
+
+  INSERT INTO blog_tag_aliases (slug, tag_id)
+  SELECT slug, p_target_id FROM blog_tags
+  WHERE id = ANY(p_source_ids) AND id <> p_target_id
+  ON CONFLICT (slug) DO UPDATE SET tag_id = EXCLUDED.tag_id, created_at = now();
+
+  PERFORM replace_blog_post_tags(source_names, target.name);
+
+  DELETE FROM blog_tags WHERE id = ANY(p_source_ids) AND id <> p_target_id;
+  UPDATE blog_tags SET updated_at = now() WHERE id = p_target_id RETURNING * INTO target;
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Remove a tag from every post, then delete it (with its aliases)
+CREATE OR REPLACE FUNCTION delete_blog_tag(p_tag_id uuid)
+RETURNS void AS $$
+DECLARE
+  tag_name text;
+BEGIN
+  SELECT name INTO tag_name FROM blog_tags WHERE id = p_tag_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM replace_blog_post_tags(ARRAY[tag_name], NULL);
+  DELETE FROM blog_tags WHERE id = p_tag_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Tags with their aliases and the number of posts carrying them. Counts follow the
+-- caller's `blog_posts` visibility, so the public only counts live posts.
+CREATE OR REPLACE FUNCTION get_blog_tags()
+RETURNS TABLE (
+  id uuid,
+  name text,
+  slug text,
+  description text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  aliases text[],
+  post_count bigint
+) AS $$
+  SELECT
+    t.id, t.name, t.slug, t.description, t.created_at, t.updated_at,
+    coalesce((SELECT array_agg(a.slug ORDER BY a.slug) FROM blog_tag_aliases a WHERE a.tag_id = t.id), '{}'),
+    (SELECT count(*) FROM blog_posts p
+      WHERE p.tags @> jsonb_build_array(t.name)
+        AND (auth.role() = 'authenticated' OR (p.published = true AND p.publish_at <= now())))
+  FROM blog_tags t
+  ORDER BY t.name;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION replace_blog_post_tags(text[], text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION rename_blog_tag(uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION merge_blog_tags(uuid[], uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION delete_blog_tag(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION replace_blog_post_tags(text[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION rename_blog_tag(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_blog_tags(uuid[], uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_blog_tag(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_blog_tags() TO anon, authenticated;
+
+-- Backfill: one tag per slug, named after the most common spelling
+INSERT INTO blog_tags (name, slug)
+SELECT DISTINCT ON (spelling.slug) spelling.name, spelling.slug
+FROM (
+  SELECT trim(t.value) AS name, blog_tag_slug(t.value) AS slug, count(*) AS uses
+  FROM blog_posts p
+  CROSS JOIN LATERAL jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(p.tags) = 'array' THEN p.tags ELSE '[]'::jsonb END
+  ) AS t(value)
+  GROUP BY 1, 2
+) spelling
+WHERE spelling.slug <> ''
+ORDER BY spelling.slug, spelling.uses DESC, spelling.name
+ON CONFLICT (slug) DO NOTHING;
+
+-- Rewrite existing posts through the normalize trigger
+UPDATE blog_posts SET tags = tags
+WHERE jsonb_typeof(tags) = 'array' AND jsonb_array_length(tags) > 0;
+
+COMMENT ON TABLE blog_tags IS 'Canonical blog tags; blog_posts.tags stores their names';
+COMMENT ON TABLE blog_tag_aliases IS 'Former and merged tag slugs that resolve to a current tag';
@@ -0,0 +1,148 @@
+/*
+  # Blog categories table
+
+  Categories used to live in `BLOG_CATEGORIES` (src/lib/blogCategories.ts) and in the
+  `blog_posts_category_check` constraint, so adding one meant a code change and a
+  migration. They now live in a table the admin UI manages.
+
+  1. New Tables
+    - `blog_categories`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - the value stored in `blog_posts.category`
+      - `slug` (text, unique) - URL segment for /blog/category/:slug
+      - `description` (text) - shown on the category page and used for its SEO description
+      - `color` (text) - '#rrggbb' accent for the category's badge and page
+      - `icon` (text) - a key of `CATEGORY_ICONS` in src/lib/categoryIcons.ts
+      - `sort_order` (integer) - position in category lists, ascending
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `blog_posts_category_check` is replaced by a foreign key from `blog_posts.category`
+      to `blog_categories.name` with ON UPDATE CASCADE, so renaming a category moves its
+      posts with it
+
+  3. Functions
+    - `reorder_blog_categories(category_ids)` sets `sort_order` from the array order
+    - `delete_blog_category(category_id, reassign_to)` moves the category's posts to
+      another category and deletes it in one transaction; returns the number of posts
+      moved. Raises if the category still has posts and no replacement is given.
+
+  4. Security
+    - RLS enabled; public read, authenticated manage
+    - The functions are SECURITY INVOKER and only granted to authenticated
+
+  5. Seed
+    - The seven categories from the old constraint, in their previous order
+*/
+
+CREATE TABLE IF NOT EXISTS blog_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (trim(name) <> ''),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  description text NOT NULL DEFAULT '',
+  color text NOT NULL DEFAULT '#38bdf8' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon text NOT NULL DEFAULT 'folder',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE blog_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read blog categories" ON blog_categories;
+CREATE POLICY "Public can read blog categories"
+  ON blog_categories
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog categories" ON blog_categories;
+CREATE POLICY "Authenticated users can manage blog categories"
+  ON blog_categories
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS blog_categories_sort_idx ON blog_categories(sort_order, name);
+
+INSERT INTO blog_categories (name, slug, description, color, icon, sort_order) VALUES
+  ('AI-Augmented Development', 'ai-augmented-development',
+    'Working with LLMs, copilots and agents in day-to-day software development.', '#a78bfa', 'bot', 1),
+  ('Full-Stack Architecture', 'full-stack-architecture',
+    'Designing and building web applications from the database to the browser.', '#38bdf8', 'layers', 2),
+  ('DevSecOps & Security', 'devsecops-security',
+    'Authentication, application security and secure delivery pipelines.', '#f87171', 'shield', 3),
+  ('Cloud-Native & Scaling', 'cloud-native-scaling',
+    'Containers, serverless and keeping systems fast as they grow.', '#34d399', 'cloud', 4),
+  ('Product & UI/UX Design', 'product-ui-ux-design',
+    'Interfaces, interaction design and building products people enjoy using.', '#f472b6', 'palette', 5),
+  ('Emerging Tech (Web3 & XR)', 'emerging-tech-web3-xr',
+    'Blockchain, extended reality and other technology on the horizon.', '#fbbf24', 'glasses', 6),
+  ('Engineering Culture & Career', 'engineering-culture-career',
+    'Teams, leadership and growing a career in engineering.', '#fb923c', 'users', 7)
+ON CONFLICT (name) DO NOTHING;
+
+-- Any category a post still uses must exist before the foreign key is added
+INSERT INTO blog_categories (name, slug, sort_order)
+SELECT DISTINCT p.category, COALESCE(NULLIF(blog_tag_slug(p.category), ''), 'category-' || md5(p.category)),
+  (SELECT COALESCE(max(sort_order), 0) + 1 FROM blog_categories)
+FROM blog_posts p
+WHERE NOT EXISTS (SELECT 1 FROM blog_categories c WHERE c.name = p.category)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_category_check;
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_category_fkey;
+ALTER TABLE blog_posts
+ADD CONSTRAINT blog_posts_category_fkey
+FOREIGN KEY (category) REFERENCES blog_categories(name) ON UPDATE CASCADE;
+
+-- Set the display order of categories from the array order
+CREATE OR REPLACE FUNCTION reorder_blog_categories(p_category_ids uuid[])
+RETURNS void AS $$
+  UPDATE blog_categories c
+  SET sort_order = ids.position, updated_at = now()
+  FROM unnest(p_category_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE c.id = ids.id;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Move a category's posts to another category, then delete it
+CREATE OR REPLACE FUNCTION delete_blog_category(p_category_id uuid, p_reassign_to uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  old_category blog_categories;
+  new_category blog_categories;
+  moved integer := 0;
+BEGIN
+  SELECT * INTO old_category FROM blog_categories WHERE id = p_category_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF p_reassign_to IS NOT NULL THEN
+    IF p_reassign_to = p_category_id THEN
+      RAISE EXCEPTION 'Posts cannot be moved to the category being deleted' USING ERRCODE = '22023';
+    END IF;
+    SELECT * INTO new_category FROM blog_categories WHERE id = p_reassign_to;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Category % not found', p_reassign_to USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE blog_posts SET category = new_category.name WHERE category = old_category.name;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+  ELSIF EXISTS (SELECT 1 FROM blog_posts WHERE category = old_category.name) THEN
+    RAISE EXCEPTION 'Category "%" still has posts; choose a category to move them to', old_category.name
+      USING ERRCODE = '23503';
+  END IF;
+
+  DELETE FROM blog_categories WHERE id = p_category_id;
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION reorder_blog_categories(uuid[]) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION delete_blog_category(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION reorder_blog_categories(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_blog_category(uuid, uuid) TO authenticated;
+
+COMMENT ON TABLE blog_categories IS 'Blog categories; blog_posts.category stores their names';
@@ -0,0 +1,107 @@
+/*
+  # Related-post recommendations
+
+  1. New Tables
+    - `blog_post_recommendations`
+      - Precomputed related posts for each post, scored by src/lib/recommendations.ts
+      - `post_id`, `related_post_id` (text, references `blog_posts`)
+      - `score` (real) - weighted sum of the signals, 0–1
+      - `signals` (jsonb) - the individual signals (`tags`, `text`, `series`, `coViews`)
+      - `computed_at` (timestamptz)
+
+  2. Functions
+    - `get_blog_post_co_views(since)`: for each ordered pair of posts, the number of
+      distinct visitors who viewed both since the given time. Counts only, no visitor ids.
+    - `replace_blog_post_recommendations(rows)`: swaps in a freshly computed set in one
+      transaction, so readers never see a partial set
+
+  3. Security
+    - RLS enabled; public read, authenticated manage. The related post itself is still
+      subject to the `blog_posts` policies, so drafts never reach the public client.
+    - `get_blog_post_co_views` is SECURITY INVOKER; `blog_views` is only readable by
+      authenticated users, so it is only granted to them
+*/
+
+CREATE TABLE IF NOT EXISTS blog_post_recommendations (
+  post_id text NOT NULL,
+  related_post_id text NOT NULL,
+  score real NOT NULL,
+  signals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  computed_at timestamptz DEFAULT now(),
+  PRIMARY KEY (post_id, related_post_id),
+  CONSTRAINT blog_post_recommendations_post_id_fkey
+    FOREIGN KEY (post_id) REFERENCES blog_posts(id) ON DELETE CASCADE,
+  CONSTRAINT blog_post_recommendations_related_post_id_fkey
+    FOREIGN KEY (related_post_id) REFERENCES blog_posts(id) ON DELETE CASCADE,
+  CHECK (post_id <> related_post_id)
+);
+
+ALTER TABLE blog_post_recommendations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read blog post recommendations" ON blog_post_recommendations;
+CREATE POLICY "Public can read blog post recommendations"
+  ON blog_post_recommendations
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog post recommendations" ON blog_post_recommendations;
+CREATE POLICY "Authenticated users can manage blog post recommendations"
+  ON blog_post_recommendations
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS blog_post_recommendations_score_idx
+  ON blog_post_recommendations(post_id, score DESC);
+
+-- Serves the self-join on visitor in get_blog_post_co_views
+CREATE INDEX IF NOT EXISTS idx_blog_views_visitor_post ON blog_views(visitor_id, blog_post_id);
+
+CREATE OR REPLACE FUNCTION get_blog_post_co_views(since timestamptz DEFAULT now() - interval '180 days')
+RETURNS TABLE (
+  post_id text,
+  related_post_id text,
+  visitors bigint
+) AS $$
+  WITH visits AS (
+    SELECT DISTINCT v.blog_post_id, v.visitor_id
+    FROM blog_views v
+    WHERE since IS NULL OR v.created_at >= since
+  )
+  SELECT a.blog_post_id, b.blog_post_id, count(*)
+  FROM visits a
+  JOIN visits b ON b.visitor_id = a.visitor_id AND b.blog_post_id <> a.blog_post_id
+  GROUP BY a.blog_post_id, b.blog_post_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Replace every stored recommendation with the given rows:
+-- [{ "post_id", "related_post_id", "score", "signals" }, ...]
+CREATE OR REPLACE FUNCTION replace_blog_post_recommendations(p_rows jsonb)
+RETURNS integer AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  DELETE FROM blog_post_recommendations WHERE true;
+
+  INSERT INTO blog_post_recommendations (post_id, related_post_id, score, signals, computed_at)
+  SELECT r.post_id, r.related_post_id, r.score, coalesce(r.signals, '{}'::jsonb), now()
+  FROM jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb))
+    AS r(post_id text, related_post_id text, score real, signals jsonb)
+  WHERE EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = r.post_id)
+    AND EXISTS (SELECT 1 FROM blog_posts p WHERE p.id = r.related_post_id)
+  ON CONFLICT (post_id, related_post_id) DO UPDATE
+    SET score = EXCLUDED.score, signals = EXCLUDED.signals, computed_at = EXCLUDED.computed_at;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_blog_post_co_views(timestamptz) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION replace_blog_post_recommendations(jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION get_blog_post_co_views(timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION replace_blog_post_recommendations(jsonb) TO authenticated;
+
+COMMENT ON TABLE blog_post_recommendations IS 'Precomputed related posts, refreshed from the admin panel';
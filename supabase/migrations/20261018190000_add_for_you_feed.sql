@@ -0,0 +1,134 @@
+/*
+  # Personalised "For You" feed
+
+  1. Functions
+    - `get_for_you_posts(visitor_id, since, category_filter, result_limit, result_offset)`
+      ranks live posts for an anonymous visitor (`blog_visitor_id` in the browser):
+      - engagement: 1 per post the visitor viewed and 3 per post they liked, counting
+        only activity at or after `since` (the visitor's last "reset my preferences")
+      - category and tag affinity: each category's and tag's share of that engagement
+      - score = 0.45 × category affinity + 0.35 × tag affinity (summed over the post's
+        tags, capped at 1) + 0.1 × popularity (likes and views, log-scaled against the
+        most popular post) + 0.1 × freshness (decays over about two months)
+      - posts the visitor has ever viewed are left out
+      Without a visitor id (opted out, or no history yet) only popularity and freshness
+      apply. Returns post cards (no content) with their score, best first.
+
+  2. Security
+    - SECURITY DEFINER so it can read one visitor's rows in `blog_views`, which anon
+      cannot select; it only returns live posts and never another visitor's data.
+      `search_path` is pinned.
+*/
+
+CREATE OR REPLACE FUNCTION get_for_you_posts(
+  p_visitor_id text DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  category_filter text DEFAULT NULL,
+  result_limit integer DEFAULT 10,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id text,
+  slug text,
+  title text,
+  excerpt text,
+  date date,
+  read_time text,
+  category text,
+  image_url text,
+  images jsonb,
+  featured boolean,
+  views integer,
+  likes integer,
+  tags jsonb,
+  author_name text,
+  author_avatar text,
+  author_bio text,
+  published boolean,
+  publish_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  score real
+) AS $$
+  WITH live AS (
+    SELECT
+      p.*,
+      CASE WHEN jsonb_typeof(p.tags) = 'array' THEN p.tags ELSE '[]'::jsonb END AS tag_list
+    FROM blog_posts p
+    WHERE p.published = true
+      AND p.publish_at <= now()
+  ),
+  read_posts AS (
+    SELECT DISTINCT v.blog_post_id
+    FROM blog_views v
+    WHERE p_visitor_id IS NOT NULL
+      AND v.visitor_id = p_visitor_id
+  ),
+  engagement AS (
+    SELECT e.blog_post_id, sum(e.weight) AS weight
+    FROM (
+      SELECT DISTINCT v.blog_post_id, 1.0 AS weight
+      FROM blog_views v
+      WHERE p_visitor_id IS NOT NULL
+        AND v.visitor_id = p_visitor_id
+        AND (p_since IS NULL OR v.created_at >= p_since)
+      UNION ALL
+      SELECT l.blog_post_id, 3.0
+      FROM blog_likes l
+      WHERE p_visitor_id IS NOT NULL
+        AND l.visitor_id = p_visitor_id
+        AND (p_since IS NULL OR l.created_at >= p_since)
+    ) e
+    GROUP BY e.blog_post_id
+  ),
+  total AS (
+    SELECT nullif(sum(weight), 0) AS weight FROM engagement
+  ),
+  category_affinity AS (
+    SELECT l.category, sum(e.weight) / (SELECT weight FROM total) AS affinity
+    FROM engagement e
+    JOIN live l ON l.id = e.blog_post_id
+    GROUP BY l.category
+  ),
+  tag_affinity AS (
+    SELECT lower(t.tag) AS tag, sum(e.weight) / (SELECT weight FROM total) AS affinity
+    FROM engagement e
+    JOIN live l ON l.id = e.blog_post_id
+    CROSS JOIN LATERAL jsonb_array_elements_text(l.tag_list) AS t(tag)
+    GROUP BY lower(t.tag)
+  ),
+  popularity AS (
+    SELECT nullif(max(ln(1 + 3 * greatest(l.likes, 0) + greatest(l.views, 0))), 0) AS top
+    FROM live l
+  ),
+  scored AS (
+    SELECT
+      l.*,
+      (
+        0.45 * coalesce((SELECT ca.affinity FROM category_affinity ca WHERE ca.category = l.category), 0)
+        + 0.35 * least(1, coalesce((
+            SELECT sum(ta.affinity)
+            FROM tag_affinity ta
+            WHERE ta.tag IN (SELECT lower(t.tag) FROM jsonb_array_elements_text(l.tag_list) AS t(tag))
+          ), 0))
+        + 0.1 * coalesce(ln(1 + 3 * greatest(l.likes, 0) + greatest(l.views, 0)) / (SELECT top FROM popularity), 0)
+        + 0.1 * exp(-greatest(current_date - l.date, 0) / 60.0)
+      )::real AS score
+    FROM live l
+    WHERE NOT EXISTS (SELECT 1 FROM read_posts r WHERE r.blog_post_id = l.id)
+      AND (category_filter IS NULL OR l.category = category_filter)
+  )
+  SELECT
+    s.id, s.slug, s.title, s.excerpt, s.date, s.read_time, s.category, s.image_url,
+    s.images, s.featured, s.views, s.likes, s.tags,
+    s.author_name, s.author_avatar, s.author_bio, s.published, s.publish_at,
+    s.created_at, s.updated_at,
+    s.score
+  FROM scored s
+  ORDER BY s.score DESC, s.date DESC, s.id DESC
+  LIMIT least(greatest(result_limit, 1), 51)
+  OFFSET greatest(result_offset, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_for_you_posts(text, timestamptz, text, integer, integer) FROM public;
+GRANT EXECUTE ON FUNCTION get_for_you_posts(text, timestamptz, text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,121 @@
+/*
+  # Reading progress
+
+  1. New Tables
+    - `blog_reading_progress`
+      - How far each anonymous visitor (`blog_visitor_id` in the browser) has read a post
+      - `visitor_id` (text), `blog_post_id` (text, references `blog_posts`)
+      - `progress` (real) - latest scroll position through the article, 0–1
+      - `max_progress` (real) - deepest point reached, 0–1
+      - `completed_at` (timestamptz) - first time the reader got to 90%
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `record_reading_progress(visitor_id, post_id, progress)`: upserts a visitor's
+      progress on a live post; `max_progress` only ever grows
+    - `get_visitor_reading_progress(visitor_id)`: one visitor's progress on live posts,
+      so "Continue reading" follows them across tabs and sessions
+    - `get_blog_reading_stats()`: per-post readers, average depth and completions for
+      the admin analytics
+
+  3. Security
+    - RLS enabled; only authenticated users can read the table. Visitors write and read
+      their own rows through the two SECURITY DEFINER functions, which take the visitor
+      id as the key (the same model as `blog_likes`). `search_path` is pinned.
+    - `get_blog_reading_stats` is SECURITY INVOKER and only granted to authenticated
+*/
+
+CREATE TABLE IF NOT EXISTS blog_reading_progress (
+  visitor_id text NOT NULL,
+  blog_post_id text NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  progress real NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 1),
+  max_progress real NOT NULL DEFAULT 0 CHECK (max_progress >= 0 AND max_progress <= 1),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (visitor_id, blog_post_id)
+);
+
+ALTER TABLE blog_reading_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read blog reading progress" ON blog_reading_progress;
+CREATE POLICY "Authenticated users can read blog reading progress"
+  ON blog_reading_progress
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_blog_reading_progress_post ON blog_reading_progress(blog_post_id);
+
+CREATE OR REPLACE FUNCTION record_reading_progress(
+  p_visitor_id text,
+  p_post_id text,
+  p_progress real
+)
+RETURNS void AS $$
+DECLARE
+  clamped real := least(greatest(coalesce(p_progress, 0), 0), 1);
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_posts p
+    WHERE p.id = p_post_id AND p.published = true AND p.publish_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO blog_reading_progress AS r (visitor_id, blog_post_id, progress, max_progress, completed_at)
+  VALUES (p_visitor_id, p_post_id, clamped, clamped, CASE WHEN clamped >= 0.9 THEN now() END)
+  ON CONFLICT (visitor_id, blog_post_id) DO UPDATE
+    SET progress = EXCLUDED.progress,
+        max_progress = greatest(r.max_progress, EXCLUDED.max_progress),
+        completed_at = coalesce(r.completed_at, EXCLUDED.completed_at),
+        updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_visitor_reading_progress(p_visitor_id text)
+RETURNS TABLE (
+  blog_post_id text,
+  progress real,
+  max_progress real,
+  completed_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  SELECT r.blog_post_id, r.progress, r.max_progress, r.completed_at, r.updated_at
+  FROM blog_reading_progress r
+  JOIN blog_posts p ON p.id = r.blog_post_id
+  WHERE r.visitor_id = p_visitor_id
+    AND p.published = true
+    AND p.publish_at <= now()
+  ORDER BY r.updated_at DESC
+  LIMIT 100;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_blog_reading_stats()
+RETURNS TABLE (
+  blog_post_id text,
+  readers bigint,
+  average_depth real,
+  completions bigint
+) AS $$
+  SELECT
+    r.blog_post_id,
+    count(*),
+    avg(r.max_progress)::real,
+    count(r.completed_at)
+  FROM blog_reading_progress r
+  GROUP BY r.blog_post_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION record_reading_progress(text, text, real) FROM public;
+REVOKE EXECUTE ON FUNCTION get_visitor_reading_progress(text) FROM public;
+REVOKE EXECUTE ON FUNCTION get_blog_reading_stats() FROM public, anon;
+GRANT EXECUTE ON FUNCTION record_reading_progress(text, text, real) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_visitor_reading_progress(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_blog_reading_stats() TO authenticated;
+
+COMMENT ON TABLE blog_reading_progress IS 'How far each visitor has read each post, for "Continue reading" and reading-depth analytics';
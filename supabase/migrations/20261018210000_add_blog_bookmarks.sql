@@ -0,0 +1,89 @@
+/*
+  # Visitor bookmarks
+
+  1. New Tables
+    - `blog_bookmarks`
+      - Posts an anonymous visitor (`blog_visitor_id` in the browser) saved for later
+      - `visitor_id` (text), `blog_post_id` (text, references `blog_posts`)
+      - `created_at` (timestamptz) - when the post was saved, as recorded by the browser
+
+  2. Functions
+    - `sync_blog_bookmarks(visitor_id, changes)`: applies the saves and removals a browser
+      queued up (possibly while offline) and returns the visitor's bookmarks on live
+      posts, so one round trip both pushes and pulls.
+      `changes` is `[{ "post_id", "saved", "at" }, ...]`, applied oldest first.
+
+  3. Security
+    - RLS enabled; only authenticated users can read the table. Visitors read and write
+      their own rows through `sync_blog_bookmarks` (SECURITY DEFINER, `search_path`
+      pinned), keyed by the visitor id the same way as `blog_likes`.
+*/
+
+CREATE TABLE IF NOT EXISTS blog_bookmarks (
+  visitor_id text NOT NULL,
+  blog_post_id text NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (visitor_id, blog_post_id)
+);
+
+ALTER TABLE blog_bookmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read blog bookmarks" ON blog_bookmarks;
+CREATE POLICY "Authenticated users can read blog bookmarks"
+  ON blog_bookmarks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_blog_bookmarks_post ON blog_bookmarks(blog_post_id);
+
+CREATE OR REPLACE FUNCTION sync_blog_bookmarks(p_visitor_id text, p_changes jsonb DEFAULT '[]'::jsonb)
+RETURNS TABLE (
+  blog_post_id text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  change record;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RETURN;
+  END IF;
+
+  FOR change IN
+    SELECT c.post_id, coalesce(c.saved, false) AS saved, least(coalesce(c.at, now()), now()) AS at
+    FROM jsonb_to_recordset(
+      CASE WHEN jsonb_typeof(p_changes) = 'array' THEN p_changes ELSE '[]'::jsonb END
+    ) AS c(post_id text, saved boolean, at timestamptz)
+    ORDER BY c.at NULLS LAST
+    LIMIT 200
+  LOOP
+    IF change.saved THEN
+      INSERT INTO blog_bookmarks (visitor_id, blog_post_id, created_at)
+      SELECT p_visitor_id, p.id, change.at
+      FROM blog_posts p
+      WHERE p.id = change.post_id
+        AND p.published = true
+        AND p.publish_at <= now()
+      ON CONFLICT ON CONSTRAINT blog_bookmarks_pkey DO NOTHING;
+    ELSE
+      DELETE FROM blog_bookmarks b
+      WHERE b.visitor_id = p_visitor_id
+        AND b.blog_post_id = change.post_id;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+    SELECT b.blog_post_id, b.created_at
+    FROM blog_bookmarks b
+    JOIN blog_posts p ON p.id = b.blog_post_id
+    WHERE b.visitor_id = p_visitor_id
+      AND p.published = true
+      AND p.publish_at <= now()
+    ORDER BY b.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_blog_bookmarks(text, jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION sync_blog_bookmarks(text, jsonb) TO anon, authenticated;
+
+COMMENT ON TABLE blog_bookmarks IS 'Posts visitors saved to their reading list';
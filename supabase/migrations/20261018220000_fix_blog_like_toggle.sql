@@ -0,0 +1,130 @@
+/*
+  # Atomic like toggling with a trigger-maintained counter
+
+  1. Functions
+    - `toggle_blog_like(p_post_id, p_visitor_id)` replaces the unused (and, in its first
+      version, ambiguous) `toggle_blog_like(post_id, visitor_id)`. It likes or unlikes a
+      live post in one statement each way and returns the visitor's new state and the
+      post's like count: `(liked boolean, like_count integer)`.
+      Raises `no_data_found` (P0002) for unknown or unpublished posts.
+
+  2. Triggers
+    - `sync_blog_post_like_count` keeps `blog_posts.likes` equal to the number of
+      `blog_likes` rows, whichever way rows are added or removed
+    - `update_blog_posts_updated_at` now leaves `updated_at` alone when only the `views`
+      or `likes` counters change, so likes don't make posts look edited (clients use
+      `updated_at` to notice new and changed posts)
+
+  3. Security
+    - The public "manage their own likes" policy allowed anyone to insert or delete any
+      visitor's likes. Visitors now write only through `toggle_blog_like`
+      (SECURITY DEFINER, `search_path` pinned); reading likes stays public.
+
+  4. Backfill
+    - `blog_posts.likes` is recounted from `blog_likes`
+*/
+
+-- Counter maintenance
+CREATE OR REPLACE FUNCTION sync_blog_post_like_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE blog_posts SET likes = likes + 1 WHERE id = NEW.blog_post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE blog_posts SET likes = greatest(likes - 1, 0) WHERE id = OLD.blog_post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_blog_post_like_count ON blog_likes;
+CREATE TRIGGER sync_blog_post_like_count
+  AFTER INSERT OR DELETE ON blog_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_blog_post_like_count();
+
+-- Counter-only updates don't count as edits
+CREATE OR REPLACE FUNCTION update_blog_posts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'views' - 'likes' - 'updated_at' - 'search_vector')
+     IS NOT DISTINCT FROM (to_jsonb(OLD) - 'views' - 'likes' - 'updated_at' - 'search_vector') THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_blog_posts_updated_at ON blog_posts;
+CREATE TRIGGER update_blog_posts_updated_at
+  BEFORE UPDATE ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_blog_posts_updated_at();
+
+-- The toggle itself
+DROP FUNCTION IF EXISTS toggle_blog_like(text, text);
+
+CREATE FUNCTION toggle_blog_like(p_post_id text, p_visitor_id text)
+RETURNS TABLE (
+  liked boolean,
+  like_count integer
+) AS $$
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the post so concurrent toggles from the same visitor apply one after the other
+  PERFORM 1
+  FROM blog_posts p
+  WHERE p.id = p_post_id
+    AND p.published = true
+    AND p.publish_at <= now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM blog_likes l
+  WHERE l.blog_post_id = p_post_id
+    AND l.visitor_id = p_visitor_id;
+
+  IF FOUND THEN
+    liked := false;
+  ELSE
+    INSERT INTO blog_likes (blog_post_id, visitor_id)
+    VALUES (p_post_id, p_visitor_id);
+    liked := true;
+  END IF;
+
+  SELECT p.likes INTO like_count FROM blog_posts p WHERE p.id = p_post_id;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION toggle_blog_like(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION toggle_blog_like(text, text) TO anon, authenticated;
+
+-- Writes go through toggle_blog_like; reads stay public (the client checks its own like)
+DROP POLICY IF EXISTS "Public can manage their own likes" ON blog_likes;
+DROP POLICY IF EXISTS "Public can read blog likes" ON blog_likes;
+CREATE POLICY "Public can read blog likes"
+  ON blog_likes
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Bring the counters in line with the rows
+UPDATE blog_posts p
+SET likes = counted.total
+FROM (
+  SELECT p2.id, count(l.id)::integer AS total
+  FROM blog_posts p2
+  LEFT JOIN blog_likes l ON l.blog_post_id = p2.id
+  GROUP BY p2.id
+) counted
+WHERE counted.id = p.id
+  AND p.likes IS DISTINCT FROM counted.total;
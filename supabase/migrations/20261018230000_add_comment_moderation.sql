@@ -0,0 +1,325 @@
+/*
+  # Comment moderation queue
+
+  1. New Tables
+    - `blog_settings` (key/value site settings edited from the admin panel)
+      - `key` (text, primary key)
+      - `value` (jsonb)
+      - `updated_at` (timestamptz)
+    - Seeded with `comment_moderation` = `"first_time"`
+
+  2. Changes
+    - `blog_comments` and `comment_replies` get a `visitor_id` column (the browser that
+      wrote them) and a `spam` status
+    - The moderation mode decides the status of new comments and replies:
+      - `auto_approve`: published straight away
+      - `first_time`: held unless this browser already has an approved comment or reply,
+        or the email already has an approved comment
+      - `all`: every comment and reply is held
+
+  3. Functions
+    - `get_blog_comments(p_post_id, p_visitor_id)`: approved comments and replies of a
+      post, plus the ones still pending from this visitor. Email addresses and visitor ids
+      are never returned; rows without a stored avatar get a Gravatar URL instead.
+      Replies have `comment_id` set; top-level comments don't.
+    - `submit_blog_comment(...)` / `submit_comment_reply(...)`: validate and store a
+      comment or reply with the status the moderation mode gives it, and return it
+    - `adjust_comment_likes(p_kind, p_id, p_delta)`: add or remove one like on an
+      approved comment (`p_kind` = 'comment') or reply ('reply'); returns the new count
+
+  4. Security
+    - The public "Allow all operations", "Anyone can create" and "Public can read all"
+      policies let anyone read every comment (emails included), approve their own, and
+      edit or delete anyone else's. They are dropped: visitors go through the functions
+      above (SECURITY DEFINER, `search_path` pinned) and only authenticated users (the
+      admin) can read and moderate the tables directly.
+    - `blog_settings` is only readable by authenticated users
+*/
+
+-- Settings
+CREATE TABLE IF NOT EXISTS blog_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE blog_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage blog settings" ON blog_settings;
+CREATE POLICY "Authenticated users can manage blog settings"
+  ON blog_settings
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON blog_settings FROM public, anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON blog_settings TO authenticated;
+
+DROP TRIGGER IF EXISTS update_blog_settings_updated_at ON blog_settings;
+CREATE TRIGGER update_blog_settings_updated_at
+  BEFORE UPDATE ON blog_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO blog_settings (key, value)
+VALUES ('comment_moderation', '"first_time"'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Columns
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS visitor_id text;
+ALTER TABLE comment_replies ADD COLUMN IF NOT EXISTS visitor_id text;
+
+CREATE INDEX IF NOT EXISTS blog_comments_visitor_id_idx ON blog_comments(visitor_id);
+CREATE INDEX IF NOT EXISTS comment_replies_visitor_id_idx ON comment_replies(visitor_id);
+CREATE INDEX IF NOT EXISTS blog_comments_post_status_idx ON blog_comments(blog_post_id, status);
+
+ALTER TABLE blog_comments DROP CONSTRAINT IF EXISTS blog_comments_status_check;
+ALTER TABLE blog_comments
+ADD CONSTRAINT blog_comments_status_check
+CHECK (status = ANY (ARRAY['pending'::text, 'approved'::text, 'rejected'::text, 'spam'::text]));
+
+ALTER TABLE comment_replies DROP CONSTRAINT IF EXISTS comment_replies_status_check;
+ALTER TABLE comment_replies
+ADD CONSTRAINT comment_replies_status_check
+CHECK (status = ANY (ARRAY['pending'::text, 'approved'::text, 'rejected'::text, 'spam'::text]));
+
+-- Policies: visitors go through the functions below
+DROP POLICY IF EXISTS "Allow all operations on blog_comments" ON blog_comments;
+DROP POLICY IF EXISTS "Anyone can create comments" ON blog_comments;
+DROP POLICY IF EXISTS "Public can read all comments" ON blog_comments;
+DROP POLICY IF EXISTS "Public can read approved comments" ON blog_comments;
+
+DROP POLICY IF EXISTS "Allow all operations on comment_replies" ON comment_replies;
+DROP POLICY IF EXISTS "Anyone can create replies" ON comment_replies;
+DROP POLICY IF EXISTS "Public can read all replies" ON comment_replies;
+
+REVOKE ALL ON blog_comments FROM anon;
+REVOKE ALL ON comment_replies FROM anon;
+
+-- Status for a new comment or reply under the current moderation mode
+CREATE OR REPLACE FUNCTION comment_moderation_status(p_visitor_id text, p_author_email text)
+RETURNS text AS $$
+DECLARE
+  mode text;
+BEGIN
+  SELECT s.value #>> '{}' INTO mode
+  FROM blog_settings s
+  WHERE s.key = 'comment_moderation';
+
+  IF mode = 'auto_approve' THEN
+    RETURN 'approved';
+  ELSIF mode = 'all' THEN
+    RETURN 'pending';
+  END IF;
+
+  -- first_time (also the fallback for a missing or unknown setting). Only top-level
+  -- comments vouch for an email: their addresses are checked by the comment form.
+  IF EXISTS (
+       SELECT 1 FROM blog_comments c
+       WHERE c.status = 'approved'
+         AND (c.visitor_id = p_visitor_id OR lower(c.author_email) = lower(p_author_email))
+     )
+     OR EXISTS (
+       SELECT 1 FROM comment_replies r
+       WHERE r.status = 'approved'
+         AND r.visitor_id = p_visitor_id
+     ) THEN
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION comment_moderation_status(text, text) FROM public;
+
+-- Reading
+CREATE OR REPLACE FUNCTION get_blog_comments(p_post_id text, p_visitor_id text)
+RETURNS TABLE (
+  id uuid,
+  comment_id uuid,
+  author_name text,
+  content text,
+  status text,
+  avatar text,
+  likes integer,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  WITH visible_comments AS (
+    SELECT c.*
+    FROM blog_comments c
+    WHERE c.blog_post_id = p_post_id
+      AND (
+        c.status = 'approved'
+        OR (c.status = 'pending' AND p_visitor_id IS NOT NULL AND c.visitor_id = p_visitor_id)
+      )
+  )
+  SELECT c.id, NULL::uuid, c.author_name, c.content, c.status,
+         coalesce(c.avatar, 'https://www.gravatar.com/avatar/' || md5(lower(trim(c.author_email))) || '?s=40&d=identicon&r=g'),
+         coalesce(c.likes, 0), c.created_at, c.updated_at
+  FROM visible_comments c
+  UNION ALL
+  SELECT r.id, r.comment_id, r.author_name, r.content, r.status,
+         coalesce(r.avatar, 'https://www.gravatar.com/avatar/' || md5(lower(trim(r.author_email))) || '?s=32&d=identicon&r=g'),
+         coalesce(r.likes, 0), r.created_at, r.updated_at
+  FROM comment_replies r
+  JOIN visible_comments c ON c.id = r.comment_id
+  WHERE r.status = 'approved'
+     OR (r.status = 'pending' AND p_visitor_id IS NOT NULL AND r.visitor_id = p_visitor_id)
+  ORDER BY 8;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_blog_comments(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION get_blog_comments(text, text) TO anon, authenticated;
+
+-- Writing
+CREATE OR REPLACE FUNCTION submit_blog_comment(
+  p_post_id text,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  new_status text;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 2 AND 50 THEN
+    RAISE EXCEPTION 'Name must be between 2 and 50 characters' USING ERRCODE = '22023';
+  END IF;
+  IF coalesce(p_author_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(p_author_email) > 254 THEN
+    RAISE EXCEPTION 'A valid email is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND 1000 THEN
+    RAISE EXCEPTION 'Comment must be between 10 and 1000 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_posts p
+    WHERE p.id = p_post_id
+      AND p.published = true
+      AND p.publish_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id USING ERRCODE = 'P0002';
+  END IF;
+
+  new_status := comment_moderation_status(p_visitor_id, p_author_email);
+
+  RETURN QUERY
+  INSERT INTO blog_comments (blog_post_id, visitor_id, author_name, author_email, content, avatar, status)
+  VALUES (
+    p_post_id,
+    p_visitor_id,
+    trim(p_author_name),
+    lower(trim(p_author_email)),
+    trim(p_content),
+    nullif(left(p_avatar, 500), ''),
+    new_status
+  )
+  RETURNING blog_comments.id, blog_comments.status, blog_comments.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_comment_reply(
+  p_comment_id uuid,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  new_status text;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 1 AND 50
+     OR length(trim(coalesce(p_author_email, ''))) NOT BETWEEN 3 AND 254 THEN
+    RAISE EXCEPTION 'A name and email are required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND 500 THEN
+    RAISE EXCEPTION 'Reply must be between 10 and 500 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Replies can only go under comments that are public (or still pending for their author)
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.id = p_comment_id
+      AND (c.status = 'approved' OR (c.status = 'pending' AND c.visitor_id = p_visitor_id))
+  ) THEN
+    RAISE EXCEPTION 'Comment % not found', p_comment_id USING ERRCODE = 'P0002';
+  END IF;
+
+  new_status := comment_moderation_status(p_visitor_id, p_author_email);
+
+  RETURN QUERY
+  INSERT INTO comment_replies (comment_id, visitor_id, author_name, author_email, content, avatar, status)
+  VALUES (
+    p_comment_id,
+    p_visitor_id,
+    trim(p_author_name),
+    lower(trim(p_author_email)),
+    trim(p_content),
+    nullif(left(p_avatar, 500), ''),
+    new_status
+  )
+  RETURNING comment_replies.id, comment_replies.status, comment_replies.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_comment_reply(uuid, text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION submit_comment_reply(uuid, text, text, text, text, text) TO anon, authenticated;
+
+-- Likes (approved comments only)
+CREATE OR REPLACE FUNCTION adjust_comment_likes(p_kind text, p_id uuid, p_delta integer)
+RETURNS integer AS $$
+DECLARE
+  new_likes integer;
+BEGIN
+  IF p_delta NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Likes change by one at a time' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_kind = 'comment' THEN
+    UPDATE blog_comments c
+    SET likes = greatest(coalesce(c.likes, 0) + p_delta, 0)
+    WHERE c.id = p_id AND c.status = 'approved'
+    RETURNING c.likes INTO new_likes;
+  ELSIF p_kind = 'reply' THEN
+    UPDATE comment_replies r
+    SET likes = greatest(coalesce(r.likes, 0) + p_delta, 0)
+    WHERE r.id = p_id AND r.status = 'approved'
+    RETURNING r.likes INTO new_likes;
+  ELSE
+    RAISE EXCEPTION 'Unknown comment kind %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  IF new_likes IS NULL THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN new_likes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION adjust_comment_likes(text, uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION adjust_comment_likes(text, uuid, integer) TO anon, authenticated;
@@ -0,0 +1,384 @@
+/*
+  # Spam scoring for comments and replies
+
+  1. Changes
+    - `blog_comments` and `comment_replies` get:
+      - `spam_score` (integer): the score the comment got when it was posted
+      - `spam_reasons` (text[]): what contributed to it, for the admin queue
+      - `ip_hash` (text): salted hash of the poster's IP address, for rate limiting
+      - `content_hash` (text): hash of the normalised text, for spotting repeats
+    - New settings in `blog_settings`:
+      - `comment_spam`: thresholds, limits and blocklists (edited in Admin settings)
+      - `ip_hash_salt`: random salt for `ip_hash`, so stored hashes can't be
+        matched against known addresses
+
+  2. Scoring (`score_comment_spam`)
+    - Honeypot field filled in: +10
+    - Each link over `max_links`: +2
+    - Each blocked word: +3
+    - Each blocked domain in a link or the email address: +5
+    - Same text posted in the last 30 days: +4
+    - Visitor over `visitor_limit` posts in `window_minutes`: +5
+    - IP over `ip_limit` posts in `window_minutes`: +5
+
+  3. Outcome
+    - Score >= `spam_threshold`: stored as `spam` and shown only in the Admin spam folder.
+      The poster is told it is awaiting moderation.
+    - Score >= `hold_threshold`: held as `pending` whatever the moderation mode
+    - Otherwise the moderation mode decides, as before
+
+  4. Functions
+    - `submit_blog_comment` and `submit_comment_reply` take a `p_honeypot` argument
+      and score every comment before storing it
+*/
+
+-- Columns
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS spam_score integer NOT NULL DEFAULT 0;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS spam_reasons text[] NOT NULL DEFAULT '{}';
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS ip_hash text;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS content_hash text;
+
+ALTER TABLE comment_replies ADD COLUMN IF NOT EXISTS spam_score integer NOT NULL DEFAULT 0;
+ALTER TABLE comment_replies ADD COLUMN IF NOT EXISTS spam_reasons text[] NOT NULL DEFAULT '{}';
+ALTER TABLE comment_replies ADD COLUMN IF NOT EXISTS ip_hash text;
+ALTER TABLE comment_replies ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS blog_comments_content_hash_idx ON blog_comments(content_hash);
+CREATE INDEX IF NOT EXISTS comment_replies_content_hash_idx ON comment_replies(content_hash);
+CREATE INDEX IF NOT EXISTS blog_comments_ip_hash_idx ON blog_comments(ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS comment_replies_ip_hash_idx ON comment_replies(ip_hash, created_at);
+
+-- Settings
+INSERT INTO blog_settings (key, value)
+VALUES
+  ('comment_spam', '{
+    "hold_threshold": 3,
+    "spam_threshold": 6,
+    "max_links": 2,
+    "blocked_words": [],
+    "blocked_domains": [],
+    "visitor_limit": 3,
+    "ip_limit": 6,
+    "window_minutes": 10
+  }'::jsonb),
+  ('ip_hash_salt', to_jsonb(gen_random_uuid()::text))
+ON CONFLICT (key) DO NOTHING;
+
+-- Helpers
+CREATE OR REPLACE FUNCTION comment_content_hash(p_content text)
+RETURNS text AS $$
+  SELECT md5(regexp_replace(lower(trim(coalesce(p_content, ''))), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE blog_comments SET content_hash = comment_content_hash(content) WHERE content_hash IS NULL;
+UPDATE comment_replies SET content_hash = comment_content_hash(content) WHERE content_hash IS NULL;
+
+-- Salted hash of the caller's IP, from the headers PostgREST passes through; null when unknown
+CREATE OR REPLACE FUNCTION request_ip_hash()
+RETURNS text AS $$
+DECLARE
+  headers json;
+  ip text;
+  salt text;
+BEGIN
+  headers := nullif(current_setting('request.headers', true), '')::json;
+  ip := coalesce(
+    nullif(trim(headers->>'cf-connecting-ip'), ''),
+    nullif(trim(split_part(headers->>'x-forwarded-for', ',', 1)), ''),
+    nullif(trim(headers->>'x-real-ip'), '')
+  );
+
+  IF ip IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.value #>> '{}' INTO salt FROM blog_settings s WHERE s.key = 'ip_hash_salt';
+  RETURN md5(coalesce(salt, '') || ip);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_ip_hash() FROM public;
+
+CREATE OR REPLACE FUNCTION score_comment_spam(
+  p_visitor_id text,
+  p_ip_hash text,
+  p_author_email text,
+  p_content text,
+  p_honeypot text,
+  OUT score integer,
+  OUT reasons text[]
+) AS $$
+DECLARE
+  settings jsonb;
+  new_hash text := comment_content_hash(p_content);
+  link_count integer;
+  max_links integer;
+  domains text[];
+  blocked text;
+  window_start timestamptz;
+  recent integer;
+BEGIN
+  score := 0;
+  reasons := '{}';
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  -- People never see this field; bots fill in everything
+  IF coalesce(p_honeypot, '') <> '' THEN
+    score := score + 10;
+    reasons := reasons || 'Honeypot field filled in'::text;
+  END IF;
+
+  -- Links, and the domains they point at
+  SELECT count(*), coalesce(array_agg(DISTINCT lower(m.parts[1])), '{}')
+  INTO link_count, domains
+  FROM regexp_matches(p_content, '(?:https?://|www\.)([^/\s:?#]+)', 'gi') AS m(parts);
+
+  max_links := coalesce((settings->>'max_links')::integer, 2);
+  IF link_count > max_links THEN
+    score := score + 2 * (link_count - max_links);
+    reasons := reasons || format('%s links', link_count);
+  END IF;
+
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(w)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_words', '[]'::jsonb)) AS w
+    WHERE trim(w) <> ''
+  LOOP
+    IF p_content ~* ('\m' || regexp_replace(blocked, '([^[:alnum:][:space:]])', '\\\1', 'g') || '\M') THEN
+      score := score + 3;
+      reasons := reasons || format('Blocked word "%s"', blocked);
+    END IF;
+  END LOOP;
+
+  domains := domains || lower(split_part(coalesce(p_author_email, ''), '@', 2));
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(d)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_domains', '[]'::jsonb)) AS d
+    WHERE trim(d) <> ''
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM unnest(domains) AS domain
+      WHERE domain = blocked OR right(domain, length(blocked) + 1) = '.' || blocked
+    ) THEN
+      score := score + 5;
+      reasons := reasons || format('Blocked domain %s', blocked);
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+       SELECT 1 FROM blog_comments c
+       WHERE c.content_hash = new_hash AND c.created_at > now() - interval '30 days'
+     )
+     OR EXISTS (
+       SELECT 1 FROM comment_replies r
+       WHERE r.content_hash = new_hash AND r.created_at > now() - interval '30 days'
+     ) THEN
+    score := score + 4;
+    reasons := reasons || 'Repeated content'::text;
+  END IF;
+
+  -- Rate limits: comments and replies posted in the window count together
+  window_start := now() - make_interval(mins => coalesce((settings->>'window_minutes')::integer, 10));
+
+  SELECT
+    (SELECT count(*) FROM blog_comments c WHERE c.visitor_id = p_visitor_id AND c.created_at > window_start)
+    + (SELECT count(*) FROM comment_replies r WHERE r.visitor_id = p_visitor_id AND r.created_at > window_start)
+  INTO recent;
+  IF recent >= coalesce((settings->>'visitor_limit')::integer, 3) THEN
+    score := score + 5;
+    reasons := reasons || format('Visitor posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+  END IF;
+
+  IF p_ip_hash IS NOT NULL THEN
+    SELECT
+      (SELECT count(*) FROM blog_comments c WHERE c.ip_hash = p_ip_hash AND c.created_at > window_start)
+      + (SELECT count(*) FROM comment_replies r WHERE r.ip_hash = p_ip_hash AND r.created_at > window_start)
+    INTO recent;
+    IF recent >= coalesce((settings->>'ip_limit')::integer, 6) THEN
+      score := score + 5;
+      reasons := reasons || format('IP address posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION score_comment_spam(text, text, text, text, text) FROM public;
+
+-- Status, score and hashes for a new comment or reply
+CREATE OR REPLACE FUNCTION classify_new_comment(
+  p_visitor_id text,
+  p_author_email text,
+  p_content text,
+  p_honeypot text,
+  OUT new_status text,
+  OUT spam_score integer,
+  OUT spam_reasons text[],
+  OUT ip_hash text,
+  OUT content_hash text
+) AS $$
+DECLARE
+  settings jsonb;
+BEGIN
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  ip_hash := request_ip_hash();
+  content_hash := comment_content_hash(p_content);
+
+  SELECT scored.score, scored.reasons INTO spam_score, spam_reasons
+  FROM score_comment_spam(p_visitor_id, ip_hash, p_author_email, p_content, p_honeypot) AS scored;
+
+  IF spam_score >= coalesce((settings->>'spam_threshold')::integer, 6) THEN
+    new_status := 'spam';
+  ELSIF spam_score >= coalesce((settings->>'hold_threshold')::integer, 3) THEN
+    new_status := 'pending';
+  ELSE
+    new_status := comment_moderation_status(p_visitor_id, p_author_email);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION classify_new_comment(text, text, text, text) FROM public;
+
+-- Submitting, now with a honeypot and scoring
+DROP FUNCTION IF EXISTS submit_blog_comment(text, text, text, text, text, text);
+
+CREATE FUNCTION submit_blog_comment(
+  p_post_id text,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  verdict record;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 2 AND 50 THEN
+    RAISE EXCEPTION 'Name must be between 2 and 50 characters' USING ERRCODE = '22023';
+  END IF;
+  IF coalesce(p_author_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(p_author_email) > 254 THEN
+    RAISE EXCEPTION 'A valid email is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND 1000 THEN
+    RAISE EXCEPTION 'Comment must be between 10 and 1000 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_posts p
+    WHERE p.id = p_post_id
+      AND p.published = true
+      AND p.publish_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO verdict FROM classify_new_comment(p_visitor_id, p_author_email, trim(p_content), p_honeypot);
+
+  -- Spam is reported back as pending, so the poster can't tell it was caught
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO blog_comments (
+      blog_post_id, visitor_id, author_name, author_email, content, avatar, status,
+      spam_score, spam_reasons, ip_hash, content_hash
+    )
+    VALUES (
+      p_post_id,
+      p_visitor_id,
+      trim(p_author_name),
+      lower(trim(p_author_email)),
+      trim(p_content),
+      nullif(left(p_avatar, 500), ''),
+      verdict.new_status,
+      verdict.spam_score,
+      verdict.spam_reasons,
+      verdict.ip_hash,
+      verdict.content_hash
+    )
+    RETURNING blog_comments.id, blog_comments.status, blog_comments.created_at
+  )
+  SELECT i.id, CASE WHEN i.status = 'spam' THEN 'pending' ELSE i.status END, i.created_at
+  FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS submit_comment_reply(uuid, text, text, text, text, text);
+
+CREATE FUNCTION submit_comment_reply(
+  p_comment_id uuid,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  verdict record;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 1 AND 50
+     OR length(trim(coalesce(p_author_email, ''))) NOT BETWEEN 3 AND 254 THEN
+    RAISE EXCEPTION 'A name and email are required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND 500 THEN
+    RAISE EXCEPTION 'Reply must be between 10 and 500 characters' USING ERRCODE = '22023';
+  END IF;
+
+  -- Replies can only go under comments that are public (or still pending for their author)
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.id = p_comment_id
+      AND (c.status = 'approved' OR (c.status = 'pending' AND c.visitor_id = p_visitor_id))
+  ) THEN
+    RAISE EXCEPTION 'Comment % not found', p_comment_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO verdict FROM classify_new_comment(p_visitor_id, p_author_email, trim(p_content), p_honeypot);
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO comment_replies (
+      comment_id, visitor_id, author_name, author_email, content, avatar, status,
+      spam_score, spam_reasons, ip_hash, content_hash
+    )
+    VALUES (
+      p_comment_id,
+      p_visitor_id,
+      trim(p_author_name),
+      lower(trim(p_author_email)),
+      trim(p_content),
+      nullif(left(p_avatar, 500), ''),
+      verdict.new_status,
+      verdict.spam_score,
+      verdict.spam_reasons,
+      verdict.ip_hash,
+      verdict.content_hash
+    )
+    RETURNING comment_replies.id, comment_replies.status, comment_replies.created_at
+  )
+  SELECT i.id, CASE WHEN i.status = 'spam' THEN 'pending' ELSE i.status END, i.created_at
+  FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_comment_reply(uuid, text, text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION submit_comment_reply(uuid, text, text, text, text, text, text) TO anon, authenticated;
@@ -0,0 +1,370 @@
+/*
+  # Threaded comments in a single table
+
+  1. Changes
+    - `blog_comments` becomes a tree:
+      - `parent_id` (uuid, references blog_comments, cascades on delete): the comment
+        this one replies to; null for top-level comments
+      - `depth` (integer): 0 for top-level comments, parent's depth + 1 for replies
+      - `path` (uuid[]): ids from the thread's top-level comment down to this one, so a
+        whole subthread can be found with `path @> ARRAY[id]`
+    - `depth` and `path` are set by the `set_blog_comment_path` trigger, which also
+      copies the parent's `blog_post_id` onto replies
+    - Every row of `comment_replies` moves into `blog_comments` (same id, with the reply's
+      comment as its parent) and `comment_replies` is dropped
+
+  2. Functions
+    - `get_blog_comments(p_post_id, p_visitor_id)` returns the visible tree, with
+      `parent_id` and `depth`. A comment is visible when it is approved (or pending from
+      this visitor) and so is every comment above it.
+    - `submit_blog_comment(...)` takes an optional `p_parent_id` for replies at any depth;
+      `submit_comment_reply` is dropped
+    - `adjust_comment_likes(p_id, p_delta)` no longer needs to be told the comment's kind
+    - `comment_moderation_status` and `score_comment_spam` read only `blog_comments`
+*/
+
+-- Tree columns
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES blog_comments(id) ON DELETE CASCADE;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS depth integer NOT NULL DEFAULT 0;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS path uuid[];
+
+UPDATE blog_comments SET path = ARRAY[id], depth = 0 WHERE path IS NULL AND parent_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS blog_comments_parent_id_idx ON blog_comments(parent_id);
+CREATE INDEX IF NOT EXISTS blog_comments_path_idx ON blog_comments USING gin(path);
+
+CREATE OR REPLACE FUNCTION set_blog_comment_path()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent blog_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    NEW.depth := 0;
+    NEW.path := ARRAY[NEW.id];
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM blog_comments p WHERE p.id = NEW.parent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % not found', NEW.parent_id USING ERRCODE = 'P0002';
+  END IF;
+  IF NEW.id = ANY(parent.path) THEN
+    RAISE EXCEPTION 'A comment cannot reply to itself or its own replies' USING ERRCODE = '22023';
+  END IF;
+
+  NEW.blog_post_id := parent.blog_post_id;
+  NEW.depth := parent.depth + 1;
+  NEW.path := parent.path || NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_blog_comment_path ON blog_comments;
+CREATE TRIGGER set_blog_comment_path
+  BEFORE INSERT OR UPDATE OF parent_id ON blog_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_blog_comment_path();
+
+-- Move replies into the tree
+INSERT INTO blog_comments (
+  id, parent_id, blog_post_id, author_name, author_email, content, status, avatar, likes,
+  visitor_id, spam_score, spam_reasons, ip_hash, content_hash, created_at, updated_at
+)
+SELECT
+  r.id, r.comment_id, c.blog_post_id, r.author_name, r.author_email, r.content, r.status, r.avatar,
+  r.likes, r.visitor_id, r.spam_score, r.spam_reasons, r.ip_hash, r.content_hash, r.created_at, r.updated_at
+FROM comment_replies r
+JOIN blog_comments c ON c.id = r.comment_id
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE blog_comments ALTER COLUMN path SET NOT NULL;
+
+DROP TABLE IF EXISTS comment_replies;
+
+-- Moderation and scoring without comment_replies
+CREATE OR REPLACE FUNCTION comment_moderation_status(p_visitor_id text, p_author_email text)
+RETURNS text AS $$
+DECLARE
+  mode text;
+BEGIN
+  SELECT s.value #>> '{}' INTO mode
+  FROM blog_settings s
+  WHERE s.key = 'comment_moderation';
+
+  IF mode = 'auto_approve' THEN
+    RETURN 'approved';
+  ELSIF mode = 'all' THEN
+    RETURN 'pending';
+  END IF;
+
+  -- first_time (also the fallback for a missing or unknown setting). Only top-level
+  -- comments vouch for an email: their addresses are checked by the comment form.
+  IF EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.status = 'approved'
+      AND (c.visitor_id = p_visitor_id OR (c.depth = 0 AND lower(c.author_email) = lower(p_author_email)))
+  ) THEN
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION score_comment_spam(
+  p_visitor_id text,
+  p_ip_hash text,
+  p_author_email text,
+  p_content text,
+  p_honeypot text,
+  OUT score integer,
+  OUT reasons text[]
+) AS $$
+DECLARE
+  settings jsonb;
+  new_hash text := comment_content_hash(p_content);
+  link_count integer;
+  max_links integer;
+  domains text[];
+  blocked text;
+  window_start timestamptz;
+  recent integer;
+BEGIN
+  score := 0;
+  reasons := '{}';
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  -- People never see this field; bots fill in everything
+  IF coalesce(p_honeypot, '') <> '' THEN
+    score := score + 10;
+    reasons := reasons || 'Honeypot field filled in'::text;
+  END IF;
+
+  -- Links, and the domains they point at
+  SELECT count(*), coalesce(array_agg(DISTINCT lower(m.parts[1])), '{}')
+  INTO link_count, domains
+  FROM regexp_matches(p_content, '(?:https?://|www\.)([^/\s:?#]+)', 'gi') AS m(parts);
+
+  max_links := coalesce((settings->>'max_links')::integer, 2);
+  IF link_count > max_links THEN
+    score := score + 2 * (link_count - max_links);
+    reasons := reasons || format('%s links', link_count);
+  END IF;
+
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(w)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_words', '[]'::jsonb)) AS w
+    WHERE trim(w) <> ''
+  LOOP
+    IF p_content ~* ('\m' || regexp_replace(blocked, '([^[:alnum:][:space:]])', '\\\1', 'g') || '\M') THEN
+      score := score + 3;
+      reasons := reasons || format('Blocked word "%s"', blocked);
+    END IF;
+  END LOOP;
+
+  domains := domains || lower(split_part(coalesce(p_author_email, ''), '@', 2));
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(d)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_domains', '[]'::jsonb)) AS d
+    WHERE trim(d) <> ''
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM unnest(domains) AS domain
+      WHERE domain = blocked OR right(domain, length(blocked) + 1) = '.' || blocked
+    ) THEN
+      score := score + 5;
+      reasons := reasons || format('Blocked domain %s', blocked);
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.content_hash = new_hash AND c.created_at > now() - interval '30 days'
+  ) THEN
+    score := score + 4;
+    reasons := reasons || 'Repeated content'::text;
+  END IF;
+
+  -- Rate limits: comments and replies posted in the window count together
+  window_start := now() - make_interval(mins => coalesce((settings->>'window_minutes')::integer, 10));
+
+  SELECT count(*) INTO recent
+  FROM blog_comments c
+  WHERE c.visitor_id = p_visitor_id AND c.created_at > window_start;
+  IF recent >= coalesce((settings->>'visitor_limit')::integer, 3) THEN
+    score := score + 5;
+    reasons := reasons || format('Visitor posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+  END IF;
+
+  IF p_ip_hash IS NOT NULL THEN
+    SELECT count(*) INTO recent
+    FROM blog_comments c
+    WHERE c.ip_hash = p_ip_hash AND c.created_at > window_start;
+    IF recent >= coalesce((settings->>'ip_limit')::integer, 6) THEN
+      score := score + 5;
+      reasons := reasons || format('IP address posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reading the tree
+DROP FUNCTION IF EXISTS get_blog_comments(text, text);
+
+CREATE FUNCTION get_blog_comments(p_post_id text, p_visitor_id text)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  depth integer,
+  author_name text,
+  content text,
+  status text,
+  avatar text,
+  likes integer,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  WITH RECURSIVE visible AS (
+    SELECT c.*
+    FROM blog_comments c
+    WHERE c.blog_post_id = p_post_id
+      AND c.parent_id IS NULL
+      AND (
+        c.status = 'approved'
+        OR (c.status = 'pending' AND p_visitor_id IS NOT NULL AND c.visitor_id = p_visitor_id)
+      )
+    UNION ALL
+    SELECT c.*
+    FROM blog_comments c
+    JOIN visible v ON c.parent_id = v.id
+    WHERE c.status = 'approved'
+       OR (c.status = 'pending' AND p_visitor_id IS NOT NULL AND c.visitor_id = p_visitor_id)
+  )
+  SELECT v.id, v.parent_id, v.depth, v.author_name, v.content, v.status,
+         coalesce(
+           v.avatar,
+           'https://www.gravatar.com/avatar/' || md5(lower(trim(v.author_email)))
+             || CASE WHEN v.depth = 0 THEN '?s=40' ELSE '?s=32' END || '&d=identicon&r=g'
+         ),
+         coalesce(v.likes, 0), v.created_at, v.updated_at
+  FROM visible v
+  ORDER BY v.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_blog_comments(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION get_blog_comments(text, text) TO anon, authenticated;
+
+-- Writing: one function for comments and replies at any depth
+DROP FUNCTION IF EXISTS submit_comment_reply(uuid, text, text, text, text, text, text);
+DROP FUNCTION IF EXISTS submit_blog_comment(text, text, text, text, text, text, text);
+
+CREATE FUNCTION submit_blog_comment(
+  p_post_id text,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL,
+  p_parent_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  verdict record;
+  max_length integer := CASE WHEN p_parent_id IS NULL THEN 1000 ELSE 500 END;
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 2 AND 50 THEN
+    RAISE EXCEPTION 'Name must be between 2 and 50 characters' USING ERRCODE = '22023';
+  END IF;
+  IF coalesce(p_author_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(p_author_email) > 254 THEN
+    RAISE EXCEPTION 'A valid email is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND max_length THEN
+    RAISE EXCEPTION 'Comment must be between 10 and % characters', max_length USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_posts p
+    WHERE p.id = p_post_id
+      AND p.published = true
+      AND p.publish_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Replies go under comments of the same post that are public (or still pending for their author)
+  IF p_parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.id = p_parent_id
+      AND c.blog_post_id = p_post_id
+      AND (c.status = 'approved' OR (c.status = 'pending' AND c.visitor_id = p_visitor_id))
+  ) THEN
+    RAISE EXCEPTION 'Comment % not found', p_parent_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO verdict FROM classify_new_comment(p_visitor_id, p_author_email, trim(p_content), p_honeypot);
+
+  -- Spam is reported back as pending, so the poster can't tell it was caught
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO blog_comments (
+      blog_post_id, parent_id, visitor_id, author_name, author_email, content, avatar, status,
+      spam_score, spam_reasons, ip_hash, content_hash
+    )
+    VALUES (
+      p_post_id,
+      p_parent_id,
+      p_visitor_id,
+      trim(p_author_name),
+      lower(trim(p_author_email)),
+      trim(p_content),
+      nullif(left(p_avatar, 500), ''),
+      verdict.new_status,
+      verdict.spam_score,
+      verdict.spam_reasons,
+      verdict.ip_hash,
+      verdict.content_hash
+    )
+    RETURNING blog_comments.id, blog_comments.status, blog_comments.created_at
+  )
+  SELECT i.id, CASE WHEN i.status = 'spam' THEN 'pending' ELSE i.status END, i.created_at
+  FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text, uuid) TO anon, authenticated;
+
+-- Likes (approved comments only)
+DROP FUNCTION IF EXISTS adjust_comment_likes(text, uuid, integer);
+
+CREATE FUNCTION adjust_comment_likes(p_id uuid, p_delta integer)
+RETURNS integer AS $$
+DECLARE
+  new_likes integer;
+BEGIN
+  IF p_delta NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Likes change by one at a time' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE blog_comments c
+  SET likes = greatest(coalesce(c.likes, 0) + p_delta, 0)
+  WHERE c.id = p_id AND c.status = 'approved'
+  RETURNING c.likes INTO new_likes;
+
+  IF new_likes IS NULL THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN new_likes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION adjust_comment_likes(uuid, integer) FROM public;
+GRANT EXECUTE ON FUNCTION adjust_comment_likes(uuid, integer) TO anon, authenticated;
@@ -0,0 +1,375 @@
+/*
+  # Let commenters edit and delete their own comments
+
+  1. Changes
+    - `blog_comments`
+      - `edit_token_hash` (text): sha256 of the edit token handed to the author's browser
+        by `submit_blog_comment`; the token itself is never stored
+      - `edited_at` (timestamptz): last time the content changed, shown as "edited"
+      - `deleted_at` (timestamptz): set on tombstones, comments deleted while they still
+        had replies. Their content is emptied and the replies stay in place.
+    - Setting `comment_edit_window` in `blog_settings`: minutes after posting during which
+      the author may edit or delete (default 15, 0 turns author edits off)
+
+  2. New Tables
+    - `blog_comment_edits`
+      - Content a comment had before each edit or deletion, newest last
+      - `edited_by` is the admin's user id, or null when the author made the change
+
+  3. Functions
+    - `submit_blog_comment` also returns the `edit_token` and `editable_until`
+    - `get_blog_comments` also returns `edited_at`, `deleted` and `editable_until`; it
+      hides the name, content and avatar of tombstones
+    - `edit_blog_comment(p_id, p_content, p_edit_token)` and
+      `delete_blog_comment(p_id, p_edit_token)` accept the author's token within the window,
+      or a signed-in admin at any time. Deleting a comment without replies removes it,
+      along with any tombstones above it that no longer hold replies.
+
+  4. Security
+    - Authenticated users keep direct UPDATE on `status` only; content changes go through
+      the functions above so every one lands in `blog_comment_edits`
+    - RLS enabled on `blog_comment_edits`; only authenticated users (admins) can read it
+*/
+
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS edit_token_hash text;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE blog_comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+INSERT INTO blog_settings (key, value)
+VALUES ('comment_edit_window', '15'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Edit history
+CREATE TABLE IF NOT EXISTS blog_comment_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES blog_comments(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  edited_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE blog_comment_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read comment edits" ON blog_comment_edits;
+CREATE POLICY "Authenticated users can read comment edits"
+  ON blog_comment_edits
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+REVOKE ALL ON blog_comment_edits FROM anon;
+
+CREATE INDEX IF NOT EXISTS blog_comment_edits_comment_idx
+  ON blog_comment_edits(comment_id, created_at);
+
+-- Keep the previous content whenever it changes
+CREATE OR REPLACE FUNCTION record_blog_comment_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO blog_comment_edits (comment_id, content)
+  VALUES (OLD.id, OLD.content);
+
+  IF NEW.deleted_at IS NULL THEN
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_blog_comment_edit ON blog_comments;
+CREATE TRIGGER record_blog_comment_edit
+  BEFORE UPDATE OF content ON blog_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_blog_comment_edit();
+
+-- Content is no longer editable straight through the table
+REVOKE UPDATE ON blog_comments FROM authenticated;
+GRANT UPDATE (status) ON blog_comments TO authenticated;
+
+-- How long authors may change their comments
+CREATE OR REPLACE FUNCTION comment_edit_window()
+RETURNS interval AS $$
+  SELECT make_interval(mins => greatest(coalesce(
+    (SELECT (s.value #>> '{}')::integer FROM blog_settings s WHERE s.key = 'comment_edit_window'),
+    15
+  ), 0));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION comment_edit_window() FROM public;
+
+CREATE OR REPLACE FUNCTION comment_edit_token_hash(p_token text)
+RETURNS text AS $$
+  SELECT encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Raise unless the caller may change this comment: a signed-in admin (as in the table
+-- policies), or the author's token before the edit window closes
+CREATE OR REPLACE FUNCTION assert_can_change_comment(p_comment blog_comments, p_edit_token text)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_edit_token IS NULL
+     OR p_comment.edit_token_hash IS NULL
+     OR p_comment.edit_token_hash <> comment_edit_token_hash(p_edit_token) THEN
+    RAISE EXCEPTION 'You can only change your own comments' USING ERRCODE = '42501';
+  END IF;
+
+  IF now() > p_comment.created_at + comment_edit_window() THEN
+    RAISE EXCEPTION 'This comment can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_can_change_comment(blog_comments, text) FROM public;
+
+-- Reading the tree, with edit markers and tombstones
+DROP FUNCTION IF EXISTS get_blog_comments(text, text);
+
+CREATE FUNCTION get_blog_comments(p_post_id text, p_visitor_id text)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  depth integer,
+  author_name text,
+  content text,
+  status text,
+  avatar text,
+  likes integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  edited_at timestamptz,
+  deleted boolean,
+  editable_until timestamptz
+) AS $$
+  WITH RECURSIVE visible AS (
+    SELECT c.*
+    FROM blog_comments c
+    WHERE c.blog_post_id = p_post_id
+      AND c.parent_id IS NULL
+      AND (
+        c.status = 'approved'
+        OR (c.status = 'pending' AND p_visitor_id IS NOT NULL AND c.visitor_id = p_visitor_id)
+      )
+    UNION ALL
+    SELECT c.*
+    FROM blog_comments c
+    JOIN visible v ON c.parent_id = v.id
+    WHERE c.status = 'approved'
+       OR (c.status = 'pending' AND p_visitor_id IS NOT NULL AND c.visitor_id = p_visitor_id)
+  )
+  SELECT v.id, v.parent_id, v.depth,
+         CASE WHEN v.deleted_at IS NULL THEN v.author_name END,
+         CASE WHEN v.deleted_at IS NULL THEN v.content ELSE '' END,
+         v.status,
+         CASE WHEN v.deleted_at IS NULL THEN coalesce(
+           v.avatar,
+           'https://www.gravatar.com/avatar/' || md5(lower(trim(v.author_email)))
+             || CASE WHEN v.depth = 0 THEN '?s=40' ELSE '?s=32' END || '&d=identicon&r=g'
+         ) END,
+         coalesce(v.likes, 0), v.created_at, v.updated_at, v.edited_at,
+         v.deleted_at IS NOT NULL,
+         v.created_at + comment_edit_window()
+  FROM visible v
+  ORDER BY v.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_blog_comments(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION get_blog_comments(text, text) TO anon, authenticated;
+
+-- Posting hands the edit token back to the author's browser
+DROP FUNCTION IF EXISTS submit_blog_comment(text, text, text, text, text, text, text, uuid);
+
+CREATE FUNCTION submit_blog_comment(
+  p_post_id text,
+  p_visitor_id text,
+  p_author_name text,
+  p_author_email text,
+  p_content text,
+  p_avatar text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL,
+  p_parent_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  created_at timestamptz,
+  edit_token text,
+  editable_until timestamptz
+) AS $$
+DECLARE
+  verdict record;
+  max_length integer := CASE WHEN p_parent_id IS NULL THEN 1000 ELSE 500 END;
+  new_token text := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  IF p_visitor_id IS NULL OR length(p_visitor_id) > 64 THEN
+    RAISE EXCEPTION 'A visitor id is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_author_name, ''))) NOT BETWEEN 2 AND 50 THEN
+    RAISE EXCEPTION 'Name must be between 2 and 50 characters' USING ERRCODE = '22023';
+  END IF;
+  IF coalesce(p_author_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(p_author_email) > 254 THEN
+    RAISE EXCEPTION 'A valid email is required' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND max_length THEN
+    RAISE EXCEPTION 'Comment must be between 10 and % characters', max_length USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM blog_posts p
+    WHERE p.id = p_post_id
+      AND p.published = true
+      AND p.publish_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Post % not found', p_post_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Replies go under comments of the same post that are public (or still pending for their
+  -- author); tombstones keep the replies they have but take no new ones
+  IF p_parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.id = p_parent_id
+      AND c.blog_post_id = p_post_id
+      AND c.deleted_at IS NULL
+      AND (c.status = 'approved' OR (c.status = 'pending' AND c.visitor_id = p_visitor_id))
+  ) THEN
+    RAISE EXCEPTION 'Comment % not found', p_parent_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO verdict FROM classify_new_comment(p_visitor_id, p_author_email, trim(p_content), p_honeypot);
+
+  -- Spam is reported back as pending, so the poster can't tell it was caught
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO blog_comments (
+      blog_post_id, parent_id, visitor_id, author_name, author_email, content, avatar, status,
+      spam_score, spam_reasons, ip_hash, content_hash, edit_token_hash
+    )
+    VALUES (
+      p_post_id,
+      p_parent_id,
+      p_visitor_id,
+      trim(p_author_name),
+      lower(trim(p_author_email)),
+      trim(p_content),
+      nullif(left(p_avatar, 500), ''),
+      verdict.new_status,
+      verdict.spam_score,
+      verdict.spam_reasons,
+      verdict.ip_hash,
+      verdict.content_hash,
+      comment_edit_token_hash(new_token)
+    )
+    RETURNING blog_comments.id, blog_comments.status, blog_comments.created_at
+  )
+  SELECT i.id, CASE WHEN i.status = 'spam' THEN 'pending' ELSE i.status END, i.created_at,
+         new_token, i.created_at + comment_edit_window()
+  FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION submit_blog_comment(text, text, text, text, text, text, text, uuid) TO anon, authenticated;
+
+-- Editing
+CREATE OR REPLACE FUNCTION edit_blog_comment(p_id uuid, p_content text, p_edit_token text DEFAULT NULL)
+RETURNS TABLE (
+  content text,
+  edited_at timestamptz
+) AS $$
+DECLARE
+  target blog_comments%ROWTYPE;
+  max_length integer;
+BEGIN
+  SELECT * INTO target FROM blog_comments c WHERE c.id = p_id AND c.deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM assert_can_change_comment(target, p_edit_token);
+
+  max_length := CASE WHEN target.parent_id IS NULL THEN 1000 ELSE 500 END;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND max_length THEN
+    RAISE EXCEPTION 'Comment must be between 10 and % characters', max_length USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  UPDATE blog_comments c
+  SET content = trim(p_content),
+      content_hash = comment_content_hash(trim(p_content))
+  WHERE c.id = p_id
+  RETURNING c.content, c.edited_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) TO anon, authenticated;
+
+-- Deleting: 'deleted' when the row is gone, 'tombstoned' when replies keep it in place
+CREATE OR REPLACE FUNCTION delete_blog_comment(p_id uuid, p_edit_token text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  target blog_comments%ROWTYPE;
+  next_parent uuid;
+BEGIN
+  SELECT * INTO target FROM blog_comments c WHERE c.id = p_id AND c.deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM assert_can_change_comment(target, p_edit_token);
+
+  IF EXISTS (SELECT 1 FROM blog_comments c WHERE c.parent_id = p_id) THEN
+    UPDATE blog_comments c
+    SET content = '', deleted_at = now(), edit_token_hash = NULL
+    WHERE c.id = p_id;
+    RETURN 'tombstoned';
+  END IF;
+
+  DELETE FROM blog_comments c WHERE c.id = p_id;
+
+  -- Tombstones only exist to hold their replies
+  next_parent := target.parent_id;
+  WHILE next_parent IS NOT NULL LOOP
+    DELETE FROM blog_comments c
+    WHERE c.id = next_parent
+      AND c.deleted_at IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM blog_comments r WHERE r.parent_id = c.id)
+    RETURNING c.parent_id INTO next_parent;
+  END LOOP;
+
+  RETURN 'deleted';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION delete_blog_comment(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION delete_blog_comment(uuid, text) TO anon, authenticated;
+
+-- Tombstones take no likes
+CREATE OR REPLACE FUNCTION adjust_comment_likes(p_id uuid, p_delta integer)
+RETURNS integer AS $$
+DECLARE
+  new_likes integer;
+BEGIN
+  IF p_delta NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Likes change by one at a time' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE blog_comments c
+  SET likes = greatest(coalesce(c.likes, 0) + p_delta, 0)
+  WHERE c.id = p_id AND c.status = 'approved' AND c.deleted_at IS NULL
+  RETURNING c.likes INTO new_likes;
+
+  IF new_likes IS NULL THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN new_likes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
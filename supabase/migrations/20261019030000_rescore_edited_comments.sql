@@ -0,0 +1,182 @@
+/*
+  # Score edited comments for spam again
+
+  1. Functions
+    - `score_comment_spam` takes an optional `p_comment_id`: the comment being scored
+      again after an edit. It is left out of the repeated-content check, and the rate
+      limits, which judged the original post, are skipped.
+    - `edit_blog_comment` scores the new content and stores `spam_score` and
+      `spam_reasons`. When an author's edit reaches the hold threshold the comment goes
+      back to pending (spam at the spam threshold); a lower score leaves the status as
+      it was. Admin edits are scored but keep their status.
+    - `edit_blog_comment` also returns the `status`, with spam reported as pending as
+      `submit_blog_comment` does
+*/
+
+-- Scoring, optionally for an edit of an existing comment
+DROP FUNCTION IF EXISTS score_comment_spam(text, text, text, text, text);
+
+CREATE FUNCTION score_comment_spam(
+  p_visitor_id text,
+  p_ip_hash text,
+  p_author_email text,
+  p_content text,
+  p_honeypot text,
+  p_comment_id uuid DEFAULT NULL,
+  OUT score integer,
+  OUT reasons text[]
+) AS $$
+DECLARE
+  settings jsonb;
+  new_hash text := comment_content_hash(p_content);
+  link_count integer;
+  max_links integer;
+  domains text[];
+  blocked text;
+  window_start timestamptz;
+  recent integer;
+BEGIN
+  score := 0;
+  reasons := '{}';
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  -- People never see this field; bots fill in everything
+  IF coalesce(p_honeypot, '') <> '' THEN
+    score := score + 10;
+    reasons := reasons || 'Honeypot field filled in'::text;
+  END IF;
+
+  -- Links, and the domains they point at
+  SELECT count(*), coalesce(array_agg(DISTINCT lower(m.parts[1])), '{}')
+  INTO link_count, domains
+  FROM regexp_matches(p_content, '(?:https?://|www\.)([^/\s:?#]+)', 'gi') AS m(parts);
+
+  max_links := coalesce((settings->>'max_links')::integer, 2);
+  IF link_count > max_links THEN
+    score := score + 2 * (link_count - max_links);
+    reasons := reasons || format('%s links', link_count);
+  END IF;
+
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(w)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_words', '[]'::jsonb)) AS w
+    WHERE trim(w) <> ''
+  LOOP
+    IF p_content ~* ('\m' || regexp_replace(blocked, '([^[:alnum:][:space:]])', '\\\1', 'g') || '\M') THEN
+      score := score + 3;
+      reasons := reasons || format('Blocked word "%s"', blocked);
+    END IF;
+  END LOOP;
+
+  domains := domains || lower(split_part(coalesce(p_author_email, ''), '@', 2));
+  FOR blocked IN
+    SELECT DISTINCT lower(trim(d)) FROM jsonb_array_elements_text(coalesce(settings->'blocked_domains', '[]'::jsonb)) AS d
+    WHERE trim(d) <> ''
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM unnest(domains) AS domain
+      WHERE domain = blocked OR right(domain, length(blocked) + 1) = '.' || blocked
+    ) THEN
+      score := score + 5;
+      reasons := reasons || format('Blocked domain %s', blocked);
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.content_hash = new_hash
+      AND c.created_at > now() - interval '30 days'
+      AND c.id IS DISTINCT FROM p_comment_id
+  ) THEN
+    score := score + 4;
+    reasons := reasons || 'Repeated content'::text;
+  END IF;
+
+  -- An edit doesn't post anything new
+  IF p_comment_id IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Rate limits: comments and replies posted in the window count together
+  window_start := now() - make_interval(mins => coalesce((settings->>'window_minutes')::integer, 10));
+
+  SELECT count(*) INTO recent
+  FROM blog_comments c
+  WHERE c.visitor_id = p_visitor_id AND c.created_at > window_start;
+  IF recent >= coalesce((settings->>'visitor_limit')::integer, 3) THEN
+    score := score + 5;
+    reasons := reasons || format('Visitor posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+  END IF;
+
+  IF p_ip_hash IS NOT NULL THEN
+    SELECT count(*) INTO recent
+    FROM blog_comments c
+    WHERE c.ip_hash = p_ip_hash AND c.created_at > window_start;
+    IF recent >= coalesce((settings->>'ip_limit')::integer, 6) THEN
+      score := score + 5;
+      reasons := reasons || format('IP address posted %s times in %s minutes', recent, coalesce((settings->>'window_minutes')::integer, 10));
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION score_comment_spam(text, text, text, text, text, uuid) FROM public;
+
+-- Editing, with the new content scored like a new comment's
+DROP FUNCTION IF EXISTS edit_blog_comment(uuid, text, text);
+
+CREATE FUNCTION edit_blog_comment(p_id uuid, p_content text, p_edit_token text DEFAULT NULL)
+RETURNS TABLE (
+  content text,
+  edited_at timestamptz,
+  status text
+) AS $$
+DECLARE
+  target blog_comments%ROWTYPE;
+  max_length integer;
+  settings jsonb;
+  scored record;
+  new_status text;
+BEGIN
+  SELECT * INTO target FROM blog_comments c WHERE c.id = p_id AND c.deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM assert_can_change_comment(target, p_edit_token);
+
+  max_length := CASE WHEN target.parent_id IS NULL THEN 1000 ELSE 500 END;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND max_length THEN
+    RAISE EXCEPTION 'Comment must be between 10 and % characters', max_length USING ERRCODE = '22023';
+  END IF;
+
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  SELECT * INTO scored
+  FROM score_comment_spam(target.visitor_id, target.ip_hash, target.author_email, trim(p_content), NULL, p_id);
+
+  -- Edits can hold a comment for review again but never approve it; admins keep their call
+  new_status := target.status;
+  IF auth.uid() IS NULL THEN
+    IF scored.score >= coalesce((settings->>'spam_threshold')::integer, 6) THEN
+      new_status := 'spam';
+    ELSIF scored.score >= coalesce((settings->>'hold_threshold')::integer, 3) AND target.status = 'approved' THEN
+      new_status := 'pending';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE blog_comments c
+  SET content = trim(p_content),
+      content_hash = comment_content_hash(trim(p_content)),
+      spam_score = scored.score,
+      spam_reasons = scored.reasons,
+      status = new_status
+  WHERE c.id = p_id
+  RETURNING c.content, c.edited_at, CASE WHEN c.status = 'spam' THEN 'pending' ELSE c.status END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) TO anon, authenticated;
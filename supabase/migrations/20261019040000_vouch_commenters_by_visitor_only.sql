@@ -0,0 +1,77 @@
+/*
+  # Vouch for returning commenters by browser only
+
+  1. Functions
+    - `comment_moderation_status(p_visitor_id)`: under `first_time`, a comment is published
+      straight away only when this browser already has an approved comment. Matching the
+      email of an approved comment is gone: addresses are never verified and are easy to
+      guess, so anyone could post as a regular and skip moderation.
+    - `classify_new_comment` calls it with the visitor id alone
+*/
+
+DROP FUNCTION IF EXISTS comment_moderation_status(text, text);
+
+CREATE FUNCTION comment_moderation_status(p_visitor_id text)
+RETURNS text AS $$
+DECLARE
+  mode text;
+BEGIN
+  SELECT s.value #>> '{}' INTO mode
+  FROM blog_settings s
+  WHERE s.key = 'comment_moderation';
+
+  IF mode = 'auto_approve' THEN
+    RETURN 'approved';
+  ELSIF mode = 'all' THEN
+    RETURN 'pending';
+  END IF;
+
+  -- first_time (also the fallback for a missing or unknown setting)
+  IF p_visitor_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM blog_comments c
+    WHERE c.status = 'approved'
+      AND c.visitor_id = p_visitor_id
+  ) THEN
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION comment_moderation_status(text) FROM public;
+
+CREATE OR REPLACE FUNCTION classify_new_comment(
+  p_visitor_id text,
+  p_author_email text,
+  p_content text,
+  p_honeypot text,
+  OUT new_status text,
+  OUT spam_score integer,
+  OUT spam_reasons text[],
+  OUT ip_hash text,
+  OUT content_hash text
+) AS $$
+DECLARE
+  settings jsonb;
+BEGIN
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  ip_hash := request_ip_hash();
+  content_hash := comment_content_hash(p_content);
+
+  SELECT scored.score, scored.reasons INTO spam_score, spam_reasons
+  FROM score_comment_spam(p_visitor_id, ip_hash, p_author_email, p_content, p_honeypot) AS scored;
+
+  IF spam_score >= coalesce((settings->>'spam_threshold')::integer, 6) THEN
+    new_status := 'spam';
+  ELSIF spam_score >= coalesce((settings->>'hold_threshold')::integer, 3) THEN
+    new_status := 'pending';
+  ELSE
+    new_status := comment_moderation_status(p_visitor_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION classify_new_comment(text, text, text, text) FROM public;
@@ -0,0 +1,36 @@
+/*
+  # Hash the IP address the proxy saw, not one the client claimed
+
+  1. Functions
+    - `request_ip_hash()` no longer takes the first `x-forwarded-for` entry. Clients can
+      send that header themselves, and proxies append to it, so the first entry is
+      whatever the poster wrote and the IP rate limit could be dodged with a new value
+      on every request. The address now comes from `cf-connecting-ip`, then
+      `x-real-ip` (both set by the proxy), then the last `x-forwarded-for` entry, which
+      is the one the proxy in front of PostgREST appended.
+*/
+
+CREATE OR REPLACE FUNCTION request_ip_hash()
+RETURNS text AS $$
+DECLARE
+  headers json;
+  ip text;
+  salt text;
+BEGIN
+  headers := nullif(current_setting('request.headers', true), '')::json;
+  ip := coalesce(
+    nullif(trim(headers->>'cf-connecting-ip'), ''),
+    nullif(trim(headers->>'x-real-ip'), ''),
+    nullif(trim(regexp_replace(headers->>'x-forwarded-for', '^.*,', '')), '')
+  );
+
+  IF ip IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.value #>> '{}' INTO salt FROM blog_settings s WHERE s.key = 'ip_hash_salt';
+  RETURN md5(coalesce(salt, '') || ip);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_ip_hash() FROM public;
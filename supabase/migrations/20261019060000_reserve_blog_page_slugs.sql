@@ -0,0 +1,55 @@
+/*
+  # Keep post slugs off the blog's own pages
+
+  1. Changes
+    - `/blog/saved` is an app page, so a post with the slug `saved` could never be
+      opened. The static segments under /blog/ (`saved`, `series`, `tag`, `category`)
+      are reserved for pages; the client-side list is RESERVED_POST_SLUGS in
+      src/lib/markdown.ts.
+    - Existing posts with a reserved slug are renamed to `<slug>-post`. No alias is kept
+      for the old slug, since the page answers that URL.
+    - Slugs generated from a title get the same `-post` suffix when they would be reserved
+    - Constraint `blog_posts_slug_not_reserved` rejects reserved slugs
+*/
+
+CREATE OR REPLACE FUNCTION manage_blog_post_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := COALESCE(NULLIF(slugify(NEW.title), ''), NEW.id);
+    IF NEW.slug IN ('saved', 'series', 'tag', 'category') THEN
+      NEW.slug := NEW.slug || '-post';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slug IS DISTINCT FROM OLD.slug THEN
+    INSERT INTO blog_post_slug_aliases (slug, blog_post_id)
+    VALUES (OLD.slug, OLD.id)
+    ON CONFLICT (slug) DO UPDATE
+      SET blog_post_id = EXCLUDED.blog_post_id,
+          created_at = now();
+  END IF;
+
+  -- A slug that is in use by a post can no longer act as an alias
+  DELETE FROM blog_post_slug_aliases WHERE slug = NEW.slug;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+UPDATE blog_posts
+SET slug = slug || '-post'
+WHERE slug IN ('saved', 'series', 'tag', 'category');
+
+DELETE FROM blog_post_slug_aliases
+WHERE slug IN ('saved', 'series', 'tag', 'category');
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'blog_posts_slug_not_reserved'
+  ) THEN
+    ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_slug_not_reserved
+      CHECK (slug NOT IN ('saved', 'series', 'tag', 'category'));
+  END IF;
+END $$;
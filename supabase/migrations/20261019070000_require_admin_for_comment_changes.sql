@@ -0,0 +1,125 @@
+/*
+  # Only admins may change any comment
+
+  1. Functions
+    - `is_blog_admin()`: whether the caller is signed in with a GitHub account listed in
+      `admin_users`. The GitHub id comes from `auth.identities`, which users can't edit,
+      not from the user metadata in their token.
+    - `assert_can_change_comment` lets through admins instead of any signed-in user, so
+      other accounts (any GitHub login, or an anonymous sign-in) need the author's edit
+      token and the open window like everyone else
+    - `edit_blog_comment` keeps the status of admin edits only for actual admins
+    - `record_blog_comment_edit` sets `edited_by` only when an admin made the change, so
+      the history doesn't attribute an author's edit to an admin
+*/
+
+CREATE OR REPLACE FUNCTION is_blog_admin()
+RETURNS boolean AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM auth.identities i
+    JOIN admin_users a ON a.github_id = i.identity_data->>'sub'
+    WHERE i.user_id = auth.uid()
+      AND i.provider = 'github'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_blog_admin() FROM public;
+
+-- Raise unless the caller may change this comment: an admin, or the author's token before
+-- the edit window closes
+CREATE OR REPLACE FUNCTION assert_can_change_comment(p_comment blog_comments, p_edit_token text)
+RETURNS void AS $$
+BEGIN
+  IF is_blog_admin() THEN
+    RETURN;
+  END IF;
+
+  IF p_edit_token IS NULL
+     OR p_comment.edit_token_hash IS NULL
+     OR p_comment.edit_token_hash <> comment_edit_token_hash(p_edit_token) THEN
+    RAISE EXCEPTION 'You can only change your own comments' USING ERRCODE = '42501';
+  END IF;
+
+  IF now() > p_comment.created_at + comment_edit_window() THEN
+    RAISE EXCEPTION 'This comment can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_can_change_comment(blog_comments, text) FROM public;
+
+-- Keep the previous content whenever it changes
+CREATE OR REPLACE FUNCTION record_blog_comment_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO blog_comment_edits (comment_id, content, edited_by)
+  VALUES (OLD.id, OLD.content, CASE WHEN is_blog_admin() THEN auth.uid() END);
+
+  IF NEW.deleted_at IS NULL THEN
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Editing: only admins keep the status when the new content scores high
+CREATE OR REPLACE FUNCTION edit_blog_comment(p_id uuid, p_content text, p_edit_token text DEFAULT NULL)
+RETURNS TABLE (
+  content text,
+  edited_at timestamptz,
+  status text
+) AS $$
+DECLARE
+  target blog_comments%ROWTYPE;
+  max_length integer;
+  settings jsonb;
+  scored record;
+  new_status text;
+BEGIN
+  SELECT * INTO target FROM blog_comments c WHERE c.id = p_id AND c.deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM assert_can_change_comment(target, p_edit_token);
+
+  max_length := CASE WHEN target.parent_id IS NULL THEN 1000 ELSE 500 END;
+  IF length(trim(coalesce(p_content, ''))) NOT BETWEEN 10 AND max_length THEN
+    RAISE EXCEPTION 'Comment must be between 10 and % characters', max_length USING ERRCODE = '22023';
+  END IF;
+
+  SELECT s.value INTO settings FROM blog_settings s WHERE s.key = 'comment_spam';
+  settings := coalesce(settings, '{}'::jsonb);
+
+  SELECT * INTO scored
+  FROM score_comment_spam(target.visitor_id, target.ip_hash, target.author_email, trim(p_content), NULL, p_id);
+
+  -- Edits can hold a comment for review again but never approve it; admins keep their call
+  new_status := target.status;
+  IF NOT is_blog_admin() THEN
+    IF scored.score >= coalesce((settings->>'spam_threshold')::integer, 6) THEN
+      new_status := 'spam';
+    ELSIF scored.score >= coalesce((settings->>'hold_threshold')::integer, 3) AND target.status = 'approved' THEN
+      new_status := 'pending';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE blog_comments c
+  SET content = trim(p_content),
+      content_hash = comment_content_hash(trim(p_content)),
+      spam_score = scored.score,
+      spam_reasons = scored.reasons,
+      status = new_status
+  WHERE c.id = p_id
+  RETURNING c.content, c.edited_at, CASE WHEN c.status = 'spam' THEN 'pending' ELSE c.status END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION edit_blog_comment(uuid, text, text) TO anon, authenticated;